@@ -0,0 +1,27 @@
+import { type Result, ok, err } from './result.js';
+import type { StaffMemberRepository } from './ports/repositories.js';
+import type { StaffMember } from '../domain/entities/staff-member.js';
+import { type Permission, roleHasPermission } from '../domain/policies/index.js';
+import { staffMemberId } from '../domain/value-objects/index.js';
+
+export type ForbiddenError = { type: 'forbidden'; permission: Permission };
+
+export interface AuthorizeDeps {
+  staffMemberRepo: StaffMemberRepository;
+}
+
+/**
+ * Check that the acting staff member may perform a sensitive action.
+ * Unknown and deactivated accounts are refused like any other role lacking the permission.
+ */
+export async function authorize(
+  deps: AuthorizeDeps,
+  actingStaffMemberId: string,
+  permission: Permission
+): Promise<Result<StaffMember, ForbiddenError>> {
+  const staffMember = await deps.staffMemberRepo.findById(staffMemberId(actingStaffMemberId));
+  if (!staffMember || !staffMember.isActive || !roleHasPermission(staffMember.role, permission)) {
+    return err({ type: 'forbidden', permission });
+  }
+  return ok(staffMember);
+}
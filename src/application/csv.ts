@@ -0,0 +1,58 @@
+/**
+ * Split CSV text into rows of fields. Handles quoted fields with embedded commas,
+ * doubled quotes and line breaks, CRLF line endings and a leading byte order mark.
+ * Blank lines are dropped.
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  const input = text.startsWith('\uFEFF') ? text.slice(1) : text;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  row.push(field);
+  rows.push(row);
+
+  return rows.filter((r) => r.some((value) => value.trim() !== ''));
+}
+
+// Leading characters a spreadsheet would read as the start of a formula
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+/**
+ * Join rows into CSV text, quoting every field. Fields that a spreadsheet would
+ * run as a formula get a leading apostrophe so they open as plain text.
+ */
+export function formatCsv(rows: string[][]): string {
+  return rows.map((r) => r.map((v) => quoteField(FORMULA_PREFIX.test(v) ? `'${v}` : v)).join(',')).join('\n');
+}
+
+function quoteField(value: string): string {
+  return `"${value.replace(/"/g, '""')}"`;
+}
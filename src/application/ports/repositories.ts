@@ -2,8 +2,37 @@ import type { Member } from '../../domain/entities/member.js';
 import type { GearType } from '../../domain/entities/gear-type.js';
 import type { GearItem } from '../../domain/entities/gear-item.js';
 import type { Checkout } from '../../domain/entities/checkout.js';
-import type { MemberId, GearTypeId, GearItemId, CheckoutId, CollegeId } from '../../domain/value-objects/index.js';
-import type { MembershipStatus, GearCategory, GearStatus, CheckoutStatus } from '../../domain/types.js';
+import type { Reservation } from '../../domain/entities/reservation.js';
+import type { Kit } from '../../domain/entities/kit.js';
+import type { StaffMember } from '../../domain/entities/staff-member.js';
+import type { AccountEntry } from '../../domain/entities/account-entry.js';
+import type { MemberAccount } from '../../domain/entities/member-account.js';
+import type { WaiverDocument } from '../../domain/entities/waiver-document.js';
+import type { CertificationType } from '../../domain/entities/certification-type.js';
+import type { MaintenanceTicket } from '../../domain/entities/maintenance-ticket.js';
+import type { Inspection } from '../../domain/entities/inspection.js';
+import type { DomainEvent } from './services.js';
+import type {
+  MemberId,
+  GearTypeId,
+  GearItemId,
+  CheckoutId,
+  CollegeId,
+  ReservationId,
+  KitId,
+  StaffMemberId,
+  WaiverDocumentId,
+  CertificationTypeId,
+  MaintenanceTicketId,
+  InspectionId
+} from '../../domain/value-objects/index.js';
+import type {
+  MembershipStatus,
+  GearCategory,
+  GearStatus,
+  CheckoutStatus,
+  ReservationStatus
+} from '../../domain/types.js';
 
 /**
  * Repository interface for Member persistence.
@@ -70,3 +99,118 @@ export interface CheckoutFilter {
   fromDate?: Date;
   toDate?: Date;
 }
+
+/**
+ * Repository interface for Reservation persistence.
+ */
+export interface ReservationRepository {
+  findById(id: ReservationId): Promise<Reservation | null>;
+  findByMemberId(memberId: MemberId, filter?: ReservationFilter): Promise<Reservation[]>;
+  /** Pending reservations whose blocked period overlaps the given span. */
+  findPendingOverlapping(start: Date, end: Date): Promise<Reservation[]>;
+  findAll(filter?: ReservationFilter): Promise<Reservation[]>;
+  save(reservation: Reservation): Promise<void>;
+}
+
+export interface ReservationFilter {
+  status?: ReservationStatus | ReservationStatus[];
+}
+
+/**
+ * Repository interface for Kit persistence.
+ */
+export interface KitRepository {
+  findById(id: KitId): Promise<Kit | null>;
+  findAll(): Promise<Kit[]>;
+  save(kit: Kit): Promise<void>;
+  delete(id: KitId): Promise<void>;
+}
+
+/**
+ * Repository interface for StaffMember persistence.
+ */
+export interface StaffMemberRepository {
+  findById(id: StaffMemberId): Promise<StaffMember | null>;
+  findAll(): Promise<StaffMember[]>;
+  save(staffMember: StaffMember): Promise<void>;
+}
+
+/**
+ * Repository interface for member account ledgers. Entries are append-only.
+ */
+export interface MemberAccountRepository {
+  /** The member's account; empty if nothing was ever posted. */
+  findByMemberId(memberId: MemberId): Promise<MemberAccount>;
+  append(entry: AccountEntry): Promise<void>;
+}
+
+/**
+ * Repository interface for published waiver documents.
+ */
+export interface WaiverDocumentRepository {
+  findById(id: WaiverDocumentId): Promise<WaiverDocument | null>;
+  findByVersion(version: string): Promise<WaiverDocument | null>;
+  /** The latest document already in effect at `asOf`, or null if none is. */
+  findCurrent(asOf: Date): Promise<WaiverDocument | null>;
+  /** Newest effective date first. */
+  findAll(): Promise<WaiverDocument[]>;
+  save(document: WaiverDocument): Promise<void>;
+}
+
+/**
+ * Repository interface for CertificationType persistence.
+ */
+export interface CertificationTypeRepository {
+  findById(id: CertificationTypeId): Promise<CertificationType | null>;
+  findAll(): Promise<CertificationType[]>;
+  save(certificationType: CertificationType): Promise<void>;
+}
+
+/**
+ * Repository interface for MaintenanceTicket persistence.
+ */
+export interface MaintenanceTicketRepository {
+  findById(id: MaintenanceTicketId): Promise<MaintenanceTicket | null>;
+  /** Every ticket for the item, newest first. */
+  findByGearItemId(gearItemId: GearItemId): Promise<MaintenanceTicket[]>;
+  /** Tickets opened by the member's damaged returns, newest first. */
+  findByMemberId(memberId: MemberId): Promise<MaintenanceTicket[]>;
+  /** Tickets that are not DONE, oldest first. */
+  findOpen(): Promise<MaintenanceTicket[]>;
+  save(ticket: MaintenanceTicket): Promise<void>;
+}
+
+/**
+ * Repository interface for Inspection persistence.
+ */
+export interface InspectionRepository {
+  findById(id: InspectionId): Promise<Inspection | null>;
+  /** Every inspection of the item, newest first. */
+  findByGearItemId(gearItemId: GearItemId): Promise<Inspection[]>;
+  save(inspection: Inspection): Promise<void>;
+}
+
+/**
+ * Read access to the domain event log written by the EventPublisher.
+ */
+export interface DomainEventRepository {
+  /** Matching events, newest first, strictly older than the cursor if given. */
+  find(filter: DomainEventFilter, limit: number): Promise<DomainEvent[]>;
+  /** Every event type that has been recorded, sorted. */
+  findTypes(): Promise<string[]>;
+}
+
+export interface DomainEventFilter {
+  type?: string;
+  aggregateId?: string;
+  staffMemberId?: string;
+  fromDate?: Date;
+  toDate?: Date;
+  // Keyset pagination: occurredAt alone is not unique, so the id breaks ties
+  before?: DomainEventCursor;
+}
+
+export interface DomainEventCursor {
+  occurredAt: Date;
+  id: string;
+}
@@ -1,3 +1,8 @@
+import type { DomainEvent, DomainEventType, DomainEventOfType } from '../../domain/events/index.js';
+
+// The event catalog lives in the domain; re-exported here for port consumers
+export type { DomainEvent };
+
 /**
  * Service interface for generating unique identifiers.
  */
@@ -15,20 +20,42 @@ export interface Clock {
 }
 
 /**
- * Domain event for publishing.
+ * Service interface for hashing and verifying staff PINs.
+ */
+export interface PinHasher {
+  hash(pin: string): Promise<string>;
+  verify(pin: string, pinHash: string): Promise<boolean>;
+}
+
+/**
+ * Runs a block of writes atomically: every save and published event inside `run`
+ * commits together, or none do if the block throws.
+ * Do the reads and validation first; only persistence belongs inside the block.
+ */
+export interface UnitOfWork {
+  run<T>(work: () => Promise<T>): Promise<T>;
+}
+
+/**
+ * A reaction to one type of domain event.
+ * The name identifies the handler when a failed delivery is retried, so keep it stable.
  */
-export interface DomainEvent {
-  id: string;
-  type: string;
-  aggregateId: string;
-  occurredAt: Date;
-  payload: Record<string, unknown>;
+export interface EventSubscription<T extends DomainEventType = DomainEventType> {
+  name: string;
+  eventType: T;
+  handle(event: DomainEventOfType<T>): Promise<void>;
 }
 
 /**
  * Service interface for publishing domain events.
+ * Subscribers run after the event is stored (after commit inside a unit of work);
+ * a failing subscriber never fails the publish.
  */
 export interface EventPublisher {
   publish(event: DomainEvent): Promise<void>;
   publishMany(events: DomainEvent[]): Promise<void>;
+  // Returns an unsubscribe function
+  subscribe<T extends DomainEventType>(subscription: EventSubscription<T>): () => void;
+  // Re-run failed deliveries from the stored events
+  retryFailedDeliveries(): Promise<void>;
 }
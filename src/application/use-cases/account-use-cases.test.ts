@@ -0,0 +1,139 @@
+import { describe, it, expect } from 'vitest';
+import { getMemberAccount, postCharge, postPayment, voidCharge, postRefund } from './account-use-cases.js';
+import { getCheckoutEligibility } from './member-use-cases.js';
+import { getMemberProfile } from './member-history-use-cases.js';
+import { AccountEntryType, ChargeType, StaffRole } from '../../domain/types.js';
+import { Permission } from '../../domain/policies/index.js';
+import { unwrap } from '../result.js';
+import { createTestEnvironment } from '../../test-utils/in-memory-repositories.js';
+import { createTestMember, createTestStaffMember } from '../../test-utils/fixtures.js';
+
+// ============================================================================
+// Test helpers
+// ============================================================================
+
+async function makeDeps() {
+  const deps = createTestEnvironment();
+  await createTestStaffMember(deps);
+  const member = await createTestMember(deps, 'S100', 'Avery');
+  return { deps, member };
+}
+
+async function chargeDeposit(deps: ReturnType<typeof createTestEnvironment>, memberId: string, amountCents: number) {
+  return unwrap(
+    await postCharge(deps, {
+      memberId,
+      chargeType: ChargeType.DEPOSIT,
+      amountCents,
+      description: 'Bike deposit',
+      staffMemberId: 'staff-1'
+    })
+  );
+}
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+describe('member account ledger', () => {
+  it('derives the balance from charges, payments, waivers and refunds', async () => {
+    const { deps, member } = await makeDeps();
+    const deposit = await chargeDeposit(deps, member.id, 10000);
+
+    unwrap(await postPayment(deps, { memberId: member.id, amountCents: 10000, staffMemberId: 'staff-1' }));
+    unwrap(
+      await voidCharge(deps, {
+        memberId: member.id,
+        chargeId: deposit.id,
+        reason: 'Bike returned',
+        staffMemberId: 'staff-1'
+      })
+    );
+    const afterVoid = unwrap(await getMemberAccount(deps, member.id));
+    expect(afterVoid.balanceCents).toBe(-10000);
+
+    unwrap(await postRefund(deps, { memberId: member.id, amountCents: 10000, staffMemberId: 'staff-1' }));
+
+    const account = unwrap(await getMemberAccount(deps, member.id));
+    expect(account.balanceCents).toBe(0);
+    expect(account.entries.map((e) => e.type)).toEqual([
+      AccountEntryType.CHARGE,
+      AccountEntryType.PAYMENT,
+      AccountEntryType.WAIVER,
+      AccountEntryType.REFUND
+    ]);
+    expect(deps.events.map((e) => e.type)).toEqual(['ChargePosted', 'PaymentPosted', 'ChargeVoided', 'RefundPosted']);
+  });
+
+  it('refuses to void a charge twice', async () => {
+    const { deps, member } = await makeDeps();
+    const deposit = await chargeDeposit(deps, member.id, 2500);
+    const input = { memberId: member.id, chargeId: deposit.id, reason: 'Waived', staffMemberId: 'staff-1' };
+
+    unwrap(await voidCharge(deps, input));
+    const again = await voidCharge(deps, input);
+
+    expect(again).toEqual({ ok: false, error: { type: 'already_voided' } });
+  });
+
+  it('refuses refunds larger than the credit on the account', async () => {
+    const { deps, member } = await makeDeps();
+    unwrap(await postPayment(deps, { memberId: member.id, amountCents: 500, staffMemberId: 'staff-1' }));
+
+    const result = await postRefund(deps, { memberId: member.id, amountCents: 800, staffMemberId: 'staff-1' });
+
+    expect(result).toEqual({ ok: false, error: { type: 'refund_exceeds_credit', creditCents: 500 } });
+  });
+
+  it('lets desk staff take payments but not void charges', async () => {
+    const { deps, member } = await makeDeps();
+    await createTestStaffMember(deps, 'desk-1', StaffRole.DESK);
+    const deposit = await chargeDeposit(deps, member.id, 2500);
+
+    unwrap(await postPayment(deps, { memberId: member.id, amountCents: 1000, staffMemberId: 'desk-1' }));
+    const result = await voidCharge(deps, {
+      memberId: member.id,
+      chargeId: deposit.id,
+      reason: 'Waived',
+      staffMemberId: 'desk-1'
+    });
+
+    expect(result).toEqual({ ok: false, error: { type: 'forbidden', permission: Permission.MANAGE_ACCOUNTS } });
+  });
+
+  it('rejects payments that are not a positive whole number of cents', async () => {
+    const { deps, member } = await makeDeps();
+
+    const result = await postPayment(deps, { memberId: member.id, amountCents: 12.5, staffMemberId: 'staff-1' });
+
+    expect(result).toEqual({ ok: false, error: { type: 'invalid_amount', amountCents: 12.5 } });
+  });
+});
+
+describe('account balance on the member', () => {
+  it('blocks checkout once the balance is over the policy limit', async () => {
+    const { deps, member } = await makeDeps();
+    const limitCents = deps.accountPolicy.maxBalanceForCheckoutCents!;
+
+    await chargeDeposit(deps, member.id, limitCents);
+    expect((await getCheckoutEligibility(deps, member.id)).eligible).toBe(true);
+
+    await chargeDeposit(deps, member.id, 1);
+    expect(await getCheckoutEligibility(deps, member.id)).toMatchObject({
+      eligible: false,
+      reasons: [{ type: 'balance_over_limit', balanceCents: limitCents + 1, limitCents }]
+    });
+
+    const disabled = { ...deps, accountPolicy: { maxBalanceForCheckoutCents: null } };
+    expect((await getCheckoutEligibility(disabled, member.id)).eligible).toBe(true);
+  });
+
+  it('shows the balance on the member profile', async () => {
+    const { deps, member } = await makeDeps();
+    await chargeDeposit(deps, member.id, 4200);
+
+    const profile = await getMemberProfile(deps, member.id);
+
+    expect(profile?.balanceCents).toBe(4200);
+  });
+});
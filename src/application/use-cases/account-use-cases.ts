@@ -0,0 +1,285 @@
+import { type Result, ok, err } from '../result.js';
+import { type ForbiddenError, authorize } from '../authorization.js';
+import type { MemberRepository, MemberAccountRepository, StaffMemberRepository } from '../ports/repositories.js';
+import type { IdGenerator, Clock, EventPublisher, UnitOfWork } from '../ports/services.js';
+import type { AccountEntry, CreateAccountEntryError } from '../../domain/entities/account-entry.js';
+import type { MemberAccount, VoidChargeError, RefundError } from '../../domain/entities/member-account.js';
+import type { ChargeType } from '../../domain/types.js';
+import { memberId as toMemberId } from '../../domain/value-objects/index.js';
+import { Permission } from '../../domain/policies/index.js';
+import { ChargePosted, PaymentPosted, ChargeVoided, RefundPosted } from '../../domain/events/index.js';
+
+// ============================================================================
+// Shared Deps
+// ============================================================================
+
+export interface PostAccountEntryDeps {
+  memberRepo: MemberRepository;
+  memberAccountRepo: MemberAccountRepository;
+  staffMemberRepo: StaffMemberRepository;
+  idGenerator: IdGenerator;
+  clock: Clock;
+  eventPublisher: EventPublisher;
+  unitOfWork: UnitOfWork;
+}
+
+type MemberNotFound = { type: 'member_not_found'; memberId: string };
+
+async function loadAccount(
+  deps: Pick<PostAccountEntryDeps, 'memberRepo' | 'memberAccountRepo'>,
+  memberId: string
+): Promise<Result<MemberAccount, MemberNotFound>> {
+  const member = await deps.memberRepo.findById(toMemberId(memberId));
+  if (!member) {
+    return err({ type: 'member_not_found', memberId });
+  }
+  return ok(await deps.memberAccountRepo.findByMemberId(member.id));
+}
+
+// ============================================================================
+// Get Member Account
+// ============================================================================
+
+export interface GetMemberAccountDeps {
+  memberRepo: MemberRepository;
+  memberAccountRepo: MemberAccountRepository;
+}
+
+export async function getMemberAccount(
+  deps: GetMemberAccountDeps,
+  memberId: string
+): Promise<Result<MemberAccount, MemberNotFound>> {
+  return loadAccount(deps, memberId);
+}
+
+// ============================================================================
+// Post Charge
+// ============================================================================
+
+export type PostChargeError = ForbiddenError | MemberNotFound | CreateAccountEntryError;
+
+export interface PostChargeInput {
+  memberId: string;
+  chargeType: ChargeType;
+  amountCents: number;
+  description: string;
+  staffMemberId: string;
+}
+
+/**
+ * Charge a member by hand, e.g. a deposit. Lost-item charges are posted by declareItemLost.
+ */
+export async function postCharge(
+  deps: PostAccountEntryDeps,
+  input: PostChargeInput
+): Promise<Result<AccountEntry, PostChargeError>> {
+  const auth = await authorize(deps, input.staffMemberId, Permission.MANAGE_ACCOUNTS);
+  if (!auth.ok) {
+    return auth;
+  }
+
+  const account = await loadAccount(deps, input.memberId);
+  if (!account.ok) {
+    return account;
+  }
+
+  const result = account.value.charge(input, deps);
+  if (!result.ok) {
+    return result;
+  }
+
+  const entry = result.value;
+  await deps.unitOfWork.run(async () => {
+    await deps.memberAccountRepo.append(entry);
+    await deps.eventPublisher.publish(
+      ChargePosted.create(
+        {
+          aggregateId: entry.memberId,
+          staffMemberId: input.staffMemberId,
+          payload: {
+            memberId: entry.memberId,
+            entryId: entry.id,
+            chargeType: input.chargeType,
+            amountCents: entry.amountCents
+          }
+        },
+        deps
+      )
+    );
+  });
+
+  return ok(entry);
+}
+
+// ============================================================================
+// Post Payment
+// ============================================================================
+
+export type PostPaymentError = MemberNotFound | CreateAccountEntryError;
+
+export interface PostPaymentInput {
+  memberId: string;
+  amountCents: number;
+  note?: string;
+  staffMemberId: string;
+}
+
+/**
+ * Record money received from a member at the desk.
+ */
+export async function postPayment(
+  deps: PostAccountEntryDeps,
+  input: PostPaymentInput
+): Promise<Result<AccountEntry, PostPaymentError>> {
+  const account = await loadAccount(deps, input.memberId);
+  if (!account.ok) {
+    return account;
+  }
+
+  const result = account.value.recordPayment(
+    {
+      amountCents: input.amountCents,
+      description: input.note?.trim() || 'Payment',
+      staffMemberId: input.staffMemberId
+    },
+    deps
+  );
+  if (!result.ok) {
+    return result;
+  }
+
+  const entry = result.value;
+  await deps.unitOfWork.run(async () => {
+    await deps.memberAccountRepo.append(entry);
+    await deps.eventPublisher.publish(
+      PaymentPosted.create(
+        {
+          aggregateId: entry.memberId,
+          staffMemberId: input.staffMemberId,
+          payload: { memberId: entry.memberId, entryId: entry.id, amountCents: entry.amountCents }
+        },
+        deps
+      )
+    );
+  });
+
+  return ok(entry);
+}
+
+// ============================================================================
+// Void Charge
+// ============================================================================
+
+export type VoidChargeUseCaseError = ForbiddenError | MemberNotFound | VoidChargeError | CreateAccountEntryError;
+
+export interface VoidChargeInput {
+  memberId: string;
+  chargeId: string;
+  reason: string;
+  staffMemberId: string;
+}
+
+/**
+ * Cancel a charge in full. The charge stays in the ledger with a waiver against it.
+ */
+export async function voidCharge(
+  deps: PostAccountEntryDeps,
+  input: VoidChargeInput
+): Promise<Result<AccountEntry, VoidChargeUseCaseError>> {
+  const auth = await authorize(deps, input.staffMemberId, Permission.MANAGE_ACCOUNTS);
+  if (!auth.ok) {
+    return auth;
+  }
+
+  const account = await loadAccount(deps, input.memberId);
+  if (!account.ok) {
+    return account;
+  }
+
+  const result = account.value.voidCharge(input.chargeId, input.reason, input.staffMemberId, deps);
+  if (!result.ok) {
+    return result;
+  }
+
+  const entry = result.value;
+  await deps.unitOfWork.run(async () => {
+    await deps.memberAccountRepo.append(entry);
+    await deps.eventPublisher.publish(
+      ChargeVoided.create(
+        {
+          aggregateId: entry.memberId,
+          staffMemberId: input.staffMemberId,
+          payload: {
+            memberId: entry.memberId,
+            chargeId: input.chargeId,
+            entryId: entry.id,
+            amountCents: entry.amountCents
+          }
+        },
+        deps
+      )
+    );
+  });
+
+  return ok(entry);
+}
+
+// ============================================================================
+// Post Refund
+// ============================================================================
+
+export type PostRefundError = ForbiddenError | MemberNotFound | RefundError;
+
+export interface PostRefundInput {
+  memberId: string;
+  amountCents: number;
+  note?: string;
+  staffMemberId: string;
+}
+
+/**
+ * Pay a member's credit back to them, e.g. a returned deposit.
+ */
+export async function postRefund(
+  deps: PostAccountEntryDeps,
+  input: PostRefundInput
+): Promise<Result<AccountEntry, PostRefundError>> {
+  const auth = await authorize(deps, input.staffMemberId, Permission.MANAGE_ACCOUNTS);
+  if (!auth.ok) {
+    return auth;
+  }
+
+  const account = await loadAccount(deps, input.memberId);
+  if (!account.ok) {
+    return account;
+  }
+
+  const result = account.value.refund(
+    {
+      amountCents: input.amountCents,
+      description: input.note?.trim() || 'Refund',
+      staffMemberId: input.staffMemberId
+    },
+    deps
+  );
+  if (!result.ok) {
+    return result;
+  }
+
+  const entry = result.value;
+  await deps.unitOfWork.run(async () => {
+    await deps.memberAccountRepo.append(entry);
+    await deps.eventPublisher.publish(
+      RefundPosted.create(
+        {
+          aggregateId: entry.memberId,
+          staffMemberId: input.staffMemberId,
+          payload: { memberId: entry.memberId, entryId: entry.id, amountCents: entry.amountCents }
+        },
+        deps
+      )
+    );
+  });
+
+  return ok(entry);
+}
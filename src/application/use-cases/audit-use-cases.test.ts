@@ -0,0 +1,114 @@
+import { describe, it, expect } from 'vitest';
+import { getAuditLog, listAuditEventTypes } from './audit-use-cases.js';
+import { createCheckout } from './checkout-use-cases.js';
+import { retireItem } from './inventory-use-cases.js';
+import { unwrap } from '../result.js';
+import { createTestEnvironment } from '../../test-utils/in-memory-repositories.js';
+import { createTestMember, createTent, createTestStaffMember } from '../../test-utils/fixtures.js';
+
+// ============================================================================
+// Test helpers
+// ============================================================================
+
+function makeDeps() {
+  return createTestEnvironment();
+}
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+describe('getAuditLog', () => {
+  it('resolves the subject and staff member of each entry', async () => {
+    const deps = makeDeps();
+    await createTestStaffMember(deps);
+    const member = await createTestMember(deps, 'S100', 'Avery');
+    const { item } = await createTent(deps);
+    const { checkout } = unwrap(
+      await createCheckout(deps, { memberId: member.id, staffMemberId: 'staff-1', items: [{ itemCode: item.code }] })
+    );
+
+    const page = await getAuditLog(deps, {});
+
+    expect(page.entries).toHaveLength(1);
+    expect(page.entries[0].staffMemberName).toBe('Staff staff-1');
+    expect(page.entries[0].subject).toEqual({
+      kind: 'checkout',
+      checkoutId: checkout.id,
+      memberId: member.id,
+      label: 'Checkout for Avery Tester'
+    });
+    expect(page.nextCursor).toBeNull();
+  });
+
+  it('filters by event type and staff member, newest first', async () => {
+    const deps = makeDeps();
+    await createTestStaffMember(deps, 'staff-1');
+    await createTestStaffMember(deps, 'staff-2');
+    const member = await createTestMember(deps, 'S100', 'Avery');
+    await createTent(deps, 'TENT-001');
+    const second = await createTent(deps, 'TENT-002');
+
+    await createCheckout(deps, { memberId: member.id, staffMemberId: 'staff-1', items: [{ itemCode: 'TENT-001' }] });
+    deps.clock.set(new Date('2025-06-16T10:00:00Z'));
+    await retireItem(deps, second.item.id, 'staff-2');
+
+    const retired = await getAuditLog(deps, { type: 'GearItemRetired' });
+    const byStaff1 = await getAuditLog(deps, { staffMemberId: 'staff-1' });
+    const all = await getAuditLog(deps, {});
+
+    expect(retired.entries.map((e) => e.subject)).toEqual([
+      { kind: 'gear_item', gearItemId: second.item.id, gearTypeId: second.gearType.id, label: 'TENT-002' }
+    ]);
+    expect(byStaff1.entries.map((e) => e.event.type)).toEqual(['CheckoutCreated']);
+    expect(all.entries.map((e) => e.event.type)).toEqual(['GearItemRetired', 'CheckoutCreated']);
+    expect(await listAuditEventTypes(deps)).toEqual(['CheckoutCreated', 'GearItemRetired']);
+  });
+
+  it('filters by date range', async () => {
+    const deps = makeDeps();
+    for (const day of ['2025-06-10', '2025-06-12', '2025-06-14']) {
+      await deps.eventPublisher.publish({
+        id: `event-${day}`,
+        type: 'MemberRegistered',
+        version: 1,
+        aggregateId: 'member-1',
+        occurredAt: new Date(`${day}T10:00:00Z`),
+        payload: { memberId: 'member-1', collegeId: 'S100', email: 's100@example.edu' }
+      });
+    }
+
+    const page = await getAuditLog(deps, {
+      fromDate: new Date('2025-06-11T00:00:00Z'),
+      toDate: new Date('2025-06-13T00:00:00Z')
+    });
+
+    expect(page.entries.map((e) => e.event.id)).toEqual(['event-2025-06-12']);
+    expect(page.entries[0].subject).toBeNull();
+  });
+
+  it('pages through events sharing a timestamp without skipping any', async () => {
+    const deps = makeDeps();
+    const occurredAt = deps.clock.now();
+    await deps.eventPublisher.publishMany(
+      ['a', 'b', 'c', 'd', 'e'].map((suffix) => ({
+        id: `event-${suffix}`,
+        type: 'ItemsReturned' as const,
+        version: 1,
+        aggregateId: 'checkout-1',
+        occurredAt,
+        payload: { checkoutId: 'checkout-1', returnCount: 1, checkoutComplete: false }
+      }))
+    );
+
+    const seen: string[] = [];
+    let page = await getAuditLog(deps, { pageSize: 2 });
+    seen.push(...page.entries.map((e) => e.event.id));
+    while (page.nextCursor) {
+      page = await getAuditLog(deps, { pageSize: 2, cursor: page.nextCursor });
+      seen.push(...page.entries.map((e) => e.event.id));
+    }
+
+    expect(seen).toEqual(['event-e', 'event-d', 'event-c', 'event-b', 'event-a']);
+  });
+});
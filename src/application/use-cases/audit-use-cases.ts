@@ -0,0 +1,273 @@
+import type {
+  DomainEventRepository,
+  DomainEventCursor,
+  MemberRepository,
+  CheckoutRepository,
+  ReservationRepository,
+  GearItemRepository,
+  GearTypeRepository,
+  KitRepository,
+  StaffMemberRepository,
+  WaiverDocumentRepository,
+  CertificationTypeRepository,
+  MaintenanceTicketRepository
+} from '../ports/repositories.js';
+import type { DomainEvent, DomainEventType } from '../../domain/events/index.js';
+import {
+  memberId,
+  checkoutId,
+  reservationId,
+  gearItemId,
+  gearTypeId,
+  kitId,
+  staffMemberId,
+  waiverDocumentId,
+  certificationTypeId,
+  maintenanceTicketId
+} from '../../domain/value-objects/index.js';
+
+const DEFAULT_PAGE_SIZE = 50;
+
+// ============================================================================
+// Subjects
+// ============================================================================
+
+/**
+ * The record an audit entry refers to, resolved so the UI can link to it.
+ */
+export type AuditSubject =
+  | { kind: 'member'; memberId: string; label: string }
+  | { kind: 'checkout'; checkoutId: string; memberId: string; label: string }
+  | { kind: 'reservation'; reservationId: string; memberId: string; label: string }
+  | { kind: 'gear_item'; gearItemId: string; gearTypeId: string; label: string }
+  | { kind: 'gear_type'; gearTypeId: string; label: string }
+  | { kind: 'kit'; kitId: string; label: string }
+  | { kind: 'staff_member'; staffMemberId: string; label: string }
+  | { kind: 'waiver_document'; waiverDocumentId: string; label: string }
+  | { kind: 'certification_type'; certificationTypeId: string; label: string }
+  | { kind: 'maintenance_ticket'; maintenanceTicketId: string; gearItemId: string; label: string };
+
+type AuditSubjectKind = AuditSubject['kind'];
+
+// What each event's aggregateId points at
+const SUBJECT_KIND_BY_EVENT_TYPE: Record<DomainEventType, AuditSubjectKind> = {
+  MemberRegistered: 'member',
+  WaiverSigned: 'member',
+  MemberSuspended: 'member',
+  MemberReinstated: 'member',
+  MemberContactUpdated: 'member',
+  MemberTierChanged: 'member',
+  MembershipRenewed: 'member',
+  MembershipExpired: 'member',
+  CheckoutCreated: 'checkout',
+  CheckoutRenewed: 'checkout',
+  ItemReturned: 'checkout',
+  ItemsReturned: 'checkout',
+  ItemLost: 'checkout',
+  LostItemRecovered: 'checkout',
+  ReservationCreated: 'reservation',
+  ReservationCancelled: 'reservation',
+  ReservationFulfilled: 'reservation',
+  GearTypeCreated: 'gear_type',
+  GearTypeUpdated: 'gear_type',
+  GearTypeDeleted: 'gear_type',
+  ReturnChecklistUpdated: 'gear_type',
+  LifecycleLimitUpdated: 'gear_type',
+  BulkQuantityUpdated: 'gear_type',
+  BulkUnitsSentToMaintenance: 'gear_type',
+  BulkUnitsReturnedFromMaintenance: 'gear_type',
+  GearItemAdded: 'gear_item',
+  GearItemUpdated: 'gear_item',
+  GearItemSentToMaintenance: 'gear_item',
+  GearItemReturnedFromMaintenance: 'gear_item',
+  GearItemRetired: 'gear_item',
+  KitCreated: 'kit',
+  KitUpdated: 'kit',
+  KitDeleted: 'kit',
+  StaffSignedIn: 'staff_member',
+  StaffRoleChanged: 'staff_member',
+  ChargePosted: 'member',
+  PaymentPosted: 'member',
+  ChargeVoided: 'member',
+  RefundPosted: 'member',
+  WaiverDocumentPublished: 'waiver_document',
+  CertificationTypeCreated: 'certification_type',
+  CertificationTypeUpdated: 'certification_type',
+  CertificationGranted: 'member',
+  CertificationRevoked: 'member',
+  MaintenanceTicketOpened: 'maintenance_ticket',
+  MaintenanceTicketUpdated: 'maintenance_ticket',
+  MaintenanceTicketClosed: 'maintenance_ticket',
+  InspectionScheduleUpdated: 'gear_type',
+  GearItemInspected: 'gear_item'
+};
+
+// ============================================================================
+// Get Audit Log
+// ============================================================================
+
+export interface GetAuditLogDeps {
+  domainEventRepo: DomainEventRepository;
+  memberRepo: MemberRepository;
+  checkoutRepo: CheckoutRepository;
+  reservationRepo: ReservationRepository;
+  gearItemRepo: GearItemRepository;
+  gearTypeRepo: GearTypeRepository;
+  kitRepo: KitRepository;
+  staffMemberRepo: StaffMemberRepository;
+  waiverDocumentRepo: WaiverDocumentRepository;
+  certificationTypeRepo: CertificationTypeRepository;
+  maintenanceTicketRepo: MaintenanceTicketRepository;
+}
+
+export interface AuditLogQuery {
+  type?: string;
+  aggregateId?: string;
+  staffMemberId?: string;
+  fromDate?: Date;
+  toDate?: Date;
+  // Pass the previous page's nextCursor to continue
+  cursor?: DomainEventCursor | null;
+  pageSize?: number;
+}
+
+export interface AuditLogEntry {
+  event: DomainEvent;
+  staffMemberName: string | null;
+  // Null when the record has since been deleted or the event type is unknown
+  subject: AuditSubject | null;
+}
+
+export interface AuditLogPage {
+  entries: AuditLogEntry[];
+  nextCursor: DomainEventCursor | null;
+}
+
+/**
+ * Page through recorded domain events, newest first.
+ */
+export async function getAuditLog(deps: GetAuditLogDeps, query: AuditLogQuery): Promise<AuditLogPage> {
+  const pageSize = query.pageSize ?? DEFAULT_PAGE_SIZE;
+
+  // Fetch one extra to learn whether another page exists
+  const events = await deps.domainEventRepo.find(
+    {
+      type: query.type,
+      aggregateId: query.aggregateId,
+      staffMemberId: query.staffMemberId,
+      fromDate: query.fromDate,
+      toDate: query.toDate,
+      before: query.cursor ?? undefined
+    },
+    pageSize + 1
+  );
+  const pageEvents = events.slice(0, pageSize);
+
+  const staffNames = new Map(
+    (await deps.staffMemberRepo.findAll()).map((s) => [s.id as string, s.name])
+  );
+
+  const entries: AuditLogEntry[] = [];
+  for (const event of pageEvents) {
+    entries.push({
+      event,
+      staffMemberName: event.staffMemberId ? staffNames.get(event.staffMemberId) ?? null : null,
+      subject: await resolveSubject(deps, event)
+    });
+  }
+
+  const last = pageEvents[pageEvents.length - 1];
+  return {
+    entries,
+    nextCursor: events.length > pageSize && last ? { occurredAt: last.occurredAt, id: last.id } : null
+  };
+}
+
+// ============================================================================
+// List Audit Event Types
+// ============================================================================
+
+export interface ListAuditEventTypesDeps {
+  domainEventRepo: DomainEventRepository;
+}
+
+/**
+ * Event types present in the log, for the type filter.
+ */
+export async function listAuditEventTypes(deps: ListAuditEventTypesDeps): Promise<string[]> {
+  return deps.domainEventRepo.findTypes();
+}
+
+async function resolveSubject(deps: GetAuditLogDeps, event: DomainEvent): Promise<AuditSubject | null> {
+  const id = event.aggregateId;
+
+  switch (SUBJECT_KIND_BY_EVENT_TYPE[event.type]) {
+    case 'member': {
+      const member = await deps.memberRepo.findById(memberId(id));
+      return member ? { kind: 'member', memberId: id, label: member.fullName } : null;
+    }
+    case 'checkout': {
+      const checkout = await deps.checkoutRepo.findById(checkoutId(id));
+      if (!checkout) return null;
+      const member = await deps.memberRepo.findById(checkout.memberId);
+      return {
+        kind: 'checkout',
+        checkoutId: id,
+        memberId: checkout.memberId,
+        label: `Checkout for ${member?.fullName ?? 'unknown member'}`
+      };
+    }
+    case 'reservation': {
+      const reservation = await deps.reservationRepo.findById(reservationId(id));
+      if (!reservation) return null;
+      const member = await deps.memberRepo.findById(reservation.memberId);
+      return {
+        kind: 'reservation',
+        reservationId: id,
+        memberId: reservation.memberId,
+        label: `Reservation for ${member?.fullName ?? 'unknown member'}`
+      };
+    }
+    case 'gear_item': {
+      const item = await deps.gearItemRepo.findById(gearItemId(id));
+      return item
+        ? { kind: 'gear_item', gearItemId: id, gearTypeId: item.gearTypeId, label: item.code }
+        : null;
+    }
+    case 'gear_type': {
+      const gearType = await deps.gearTypeRepo.findById(gearTypeId(id));
+      return gearType ? { kind: 'gear_type', gearTypeId: id, label: gearType.name } : null;
+    }
+    case 'kit': {
+      const kit = await deps.kitRepo.findById(kitId(id));
+      return kit ? { kind: 'kit', kitId: id, label: kit.name } : null;
+    }
+    case 'staff_member': {
+      const staffMember = await deps.staffMemberRepo.findById(staffMemberId(id));
+      return staffMember ? { kind: 'staff_member', staffMemberId: id, label: staffMember.name } : null;
+    }
+    case 'waiver_document': {
+      const document = await deps.waiverDocumentRepo.findById(waiverDocumentId(id));
+      return document ? { kind: 'waiver_document', waiverDocumentId: id, label: `Waiver v${document.version}` } : null;
+    }
+    case 'certification_type': {
+      const certificationType = await deps.certificationTypeRepo.findById(certificationTypeId(id));
+      return certificationType
+        ? { kind: 'certification_type', certificationTypeId: id, label: certificationType.name }
+        : null;
+    }
+    case 'maintenance_ticket': {
+      const ticket = await deps.maintenanceTicketRepo.findById(maintenanceTicketId(id));
+      if (!ticket) return null;
+      const item = await deps.gearItemRepo.findById(ticket.gearItemId);
+      return {
+        kind: 'maintenance_ticket',
+        maintenanceTicketId: id,
+        gearItemId: ticket.gearItemId,
+        label: `Repair of ${item?.code ?? 'unknown item'}`
+      };
+    }
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,91 @@
+import type { CheckoutRepository } from '../ports/repositories.js';
+import type { Checkout } from '../../domain/entities/checkout.js';
+import type { GearType } from '../../domain/entities/gear-type.js';
+import type { Reservation } from '../../domain/entities/reservation.js';
+import { CheckoutStatus } from '../../domain/types.js';
+
+// ============================================================================
+// Bulk Availability
+// ============================================================================
+
+export interface BulkAvailabilityDeps {
+  checkoutRepo: CheckoutRepository;
+}
+
+export interface BulkAvailability {
+  gearTypeId: string;
+  total: number;
+  checkedOut: number;
+  maintenance: number;
+  reserved: number;
+  available: number;
+}
+
+export interface BulkAvailabilityOptions {
+  // Reservations holding units over the period being considered
+  holds?: readonly Reservation[];
+  // Ignore checked-out units due back before this instant
+  from?: Date;
+}
+
+/**
+ * Calculate how many units of a BULK gear type are on the shelf.
+ * Every unreturned unit on an open checkout, every unit in maintenance
+ * and every unit held by a reservation is subtracted from the total quantity.
+ */
+export function calculateBulkAvailability(
+  gearType: GearType,
+  openCheckouts: readonly Checkout[],
+  options: BulkAvailabilityOptions = {}
+): BulkAvailability {
+  const checkedOut = openCheckouts.reduce(
+    (sum, checkout) => sum + checkout.getOutstandingBulkQuantity(gearType.id, options.from),
+    0
+  );
+  const maintenance = gearType.maintenanceQuantity;
+  const reserved = (options.holds ?? []).reduce(
+    (sum, reservation) => sum + reservation.getReservedBulkQuantity(gearType.id),
+    0
+  );
+
+  return {
+    gearTypeId: gearType.id,
+    total: gearType.totalQuantity,
+    checkedOut,
+    maintenance,
+    reserved,
+    available: Math.max(0, gearType.totalQuantity - checkedOut - maintenance - reserved)
+  };
+}
+
+/**
+ * Load open checkouts once and calculate availability for each BULK gear type.
+ * Individually tracked types are skipped; their availability lives on GearItem.
+ */
+export async function getBulkAvailability(
+  deps: BulkAvailabilityDeps,
+  gearTypes: readonly GearType[]
+): Promise<Map<string, BulkAvailability>> {
+  const result = new Map<string, BulkAvailability>();
+  const bulkTypes = gearTypes.filter((gt) => gt.isBulkTracked);
+  if (bulkTypes.length === 0) {
+    return result;
+  }
+
+  const openCheckouts = await loadOpenCheckouts(deps);
+
+  for (const gearType of bulkTypes) {
+    result.set(gearType.id, calculateBulkAvailability(gearType, openCheckouts));
+  }
+
+  return result;
+}
+
+/**
+ * Load every checkout that still has gear out.
+ */
+export async function loadOpenCheckouts(deps: BulkAvailabilityDeps): Promise<Checkout[]> {
+  return deps.checkoutRepo.findAll({
+    status: [CheckoutStatus.ACTIVE, CheckoutStatus.PARTIALLY_RETURNED]
+  });
+}
@@ -0,0 +1,165 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createCertificationType,
+  updateCertificationRequirements,
+  grantCertification,
+  revokeCertification
+} from './certification-use-cases.js';
+import { createCheckout } from './checkout-use-cases.js';
+import { getCheckoutEligibility } from './member-use-cases.js';
+import { GearType } from '../../domain/entities/gear-type.js';
+import { GearItem } from '../../domain/entities/gear-item.js';
+import { GearCategory, StaffRole, TrackingMode } from '../../domain/types.js';
+import { unwrap } from '../result.js';
+import { createTestEnvironment } from '../../test-utils/in-memory-repositories.js';
+import { createTestMember, createTestStaffMember, createTent } from '../../test-utils/fixtures.js';
+
+// ============================================================================
+// Test helpers
+// ============================================================================
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+async function createHarness(deps: ReturnType<typeof createTestEnvironment>) {
+  const gearType = unwrap(
+    GearType.create(
+      { name: 'Black Diamond Harness', category: GearCategory.CLIMBING, trackingMode: TrackingMode.INDIVIDUAL },
+      deps
+    )
+  );
+  await deps.gearTypeRepo.save(gearType);
+  const item = unwrap(GearItem.create({ gearTypeId: gearType.id, code: 'HARN-001' }, deps));
+  await deps.gearItemRepo.save(item);
+  return { gearType, item };
+}
+
+async function makeDeps() {
+  const deps = createTestEnvironment();
+  await createTestStaffMember(deps);
+  await createTestStaffMember(deps, 'desk-1', StaffRole.DESK);
+  const member = await createTestMember(deps, 'S100', 'Avery');
+  const harness = await createHarness(deps);
+  const belayCheck = unwrap(
+    await createCertificationType(deps, {
+      name: 'Belay Check',
+      validityDays: 90,
+      categories: [GearCategory.CLIMBING],
+      gearTypeIds: [],
+      staffMemberId: 'staff-1'
+    })
+  );
+  return { deps, member, harness, belayCheck };
+}
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+describe('certifications', () => {
+  it('rejects a checkout of gear the member is not certified for', async () => {
+    const { deps, member, harness, belayCheck } = await makeDeps();
+    await createTent(deps);
+
+    const result = await createCheckout(deps, {
+      memberId: member.id,
+      staffMemberId: 'staff-1',
+      items: [{ itemCode: 'TENT-001' }, { itemCode: harness.item.code }]
+    });
+
+    expect(result).toEqual({
+      ok: false,
+      error: {
+        type: 'missing_certification',
+        certifications: [
+          { certificationTypeId: belayCheck.id, name: 'Belay Check', gearTypeNames: ['Black Diamond Harness'] }
+        ]
+      }
+    });
+    expect(await deps.checkoutRepo.findActiveByMemberId(member.id)).toHaveLength(0);
+  });
+
+  it('allows the checkout once granted, until the grant expires', async () => {
+    const { deps, member, harness, belayCheck } = await makeDeps();
+    unwrap(
+      await grantCertification(deps, { memberId: member.id, certificationTypeId: belayCheck.id, staffMemberId: 'staff-1' })
+    );
+    expect(deps.events.at(-1)).toMatchObject({
+      type: 'CertificationGranted',
+      payload: { name: 'Belay Check', expiresAt: new Date(deps.clock.now().getTime() + 90 * DAY_MS).toISOString() }
+    });
+
+    deps.clock.set(new Date(deps.clock.now().getTime() + 91 * DAY_MS));
+    expect(
+      await createCheckout(deps, { memberId: member.id, staffMemberId: 'staff-1', items: [{ itemCode: harness.item.code }] })
+    ).toMatchObject({ ok: false, error: { type: 'missing_certification' } });
+
+    unwrap(
+      await grantCertification(deps, { memberId: member.id, certificationTypeId: belayCheck.id, staffMemberId: 'staff-1' })
+    );
+    unwrap(
+      await createCheckout(deps, { memberId: member.id, staffMemberId: 'staff-1', items: [{ itemCode: harness.item.code }] })
+    );
+  });
+
+  it('applies requirements attached to a single gear type', async () => {
+    const { deps, member, belayCheck } = await makeDeps();
+    const { gearType, item } = await createTent(deps);
+    unwrap(
+      await updateCertificationRequirements(deps, {
+        certificationTypeId: belayCheck.id,
+        categories: [],
+        gearTypeIds: [gearType.id],
+        staffMemberId: 'staff-1'
+      })
+    );
+
+    expect(
+      await createCheckout(deps, { memberId: member.id, staffMemberId: 'staff-1', items: [{ itemCode: item.code }] })
+    ).toMatchObject({
+      ok: false,
+      error: { type: 'missing_certification', certifications: [{ gearTypeNames: ['REI Half Dome 2'] }] }
+    });
+    unwrap(await createCheckout(deps, { memberId: member.id, staffMemberId: 'staff-1', items: [{ itemCode: 'HARN-001' }] }));
+  });
+
+  it('revokes a certification and lists it on the eligibility panel', async () => {
+    const { deps, member, belayCheck } = await makeDeps();
+    const input = { memberId: member.id, certificationTypeId: belayCheck.id, staffMemberId: 'staff-1' };
+
+    expect(await revokeCertification(deps, input)).toEqual({
+      ok: false,
+      error: { type: 'not_certified', certificationTypeId: belayCheck.id }
+    });
+    unwrap(await grantCertification(deps, input));
+    expect(await getCheckoutEligibility(deps, member.id)).toMatchObject({
+      eligible: true,
+      certifications: [{ name: 'Belay Check', categories: [GearCategory.CLIMBING], status: 'valid' }]
+    });
+
+    unwrap(await revokeCertification(deps, input));
+    expect(await getCheckoutEligibility(deps, member.id)).toMatchObject({
+      eligible: true,
+      certifications: [{ name: 'Belay Check', status: 'revoked' }]
+    });
+  });
+
+  it('lets only coordinators manage certifications', async () => {
+    const { deps, member, belayCheck } = await makeDeps();
+
+    expect(
+      await grantCertification(deps, {
+        memberId: member.id,
+        certificationTypeId: belayCheck.id,
+        staffMemberId: 'desk-1'
+      })
+    ).toMatchObject({ ok: false, error: { type: 'forbidden' } });
+    expect(
+      await createCertificationType(deps, {
+        name: ' belay check ',
+        categories: [],
+        gearTypeIds: [],
+        staffMemberId: 'staff-1'
+      })
+    ).toEqual({ ok: false, error: { type: 'duplicate_name', name: 'belay check' } });
+  });
+});
@@ -0,0 +1,355 @@
+import { type Result, ok, err } from '../result.js';
+import { type ForbiddenError, authorize } from '../authorization.js';
+import type {
+  CertificationTypeRepository,
+  GearTypeRepository,
+  MemberRepository,
+  StaffMemberRepository
+} from '../ports/repositories.js';
+import type { IdGenerator, Clock, EventPublisher } from '../ports/services.js';
+import {
+  CertificationType,
+  type CertificationRequirements,
+  type CreateCertificationTypeInput,
+  type CreateCertificationTypeError
+} from '../../domain/entities/certification-type.js';
+import type { Member, RevokeCertificationError } from '../../domain/entities/member.js';
+import type { GearType } from '../../domain/entities/gear-type.js';
+import type { GearCategory } from '../../domain/types.js';
+import { certificationTypeId, gearTypeId, type MemberId } from '../../domain/value-objects/index.js';
+import { Permission } from '../../domain/policies/index.js';
+import {
+  CertificationTypeCreated,
+  CertificationTypeUpdated,
+  CertificationGranted,
+  CertificationRevoked
+} from '../../domain/events/index.js';
+
+// ============================================================================
+// Requirements
+// ============================================================================
+
+/**
+ * A certification the member needs for gear they are borrowing but does not hold.
+ */
+export interface MissingCertification {
+  certificationTypeId: string;
+  name: string;
+  // Names of the gear types in the checkout that need it
+  gearTypeNames: string[];
+}
+
+/**
+ * Certifications required by any of `gearTypes` that the member does not hold at `asOf`.
+ */
+export function findMissingCertifications(
+  member: Member,
+  certificationTypes: CertificationType[],
+  gearTypes: GearType[],
+  asOf: Date
+): MissingCertification[] {
+  const missing: MissingCertification[] = [];
+  for (const certificationType of certificationTypes) {
+    if (member.hasCertification(certificationType.id, asOf)) continue;
+    const needing = gearTypes.filter((gt) => certificationType.isRequiredFor(gt));
+    if (needing.length === 0) continue;
+    missing.push({
+      certificationTypeId: certificationType.id,
+      name: certificationType.name,
+      gearTypeNames: [...new Set(needing.map((gt) => gt.name))]
+    });
+  }
+  return missing;
+}
+
+/**
+ * One certification type as it stands for a member, for the eligibility panel.
+ */
+export interface MemberCertificationStatus {
+  certificationTypeId: string;
+  name: string;
+  categories: GearCategory[];
+  gearTypeNames: string[];
+  status: 'valid' | 'expired' | 'revoked' | 'missing';
+  expiresAt: Date | null;
+}
+
+/**
+ * Where the member stands on every certification type, given gear type names by id.
+ */
+export function describeMemberCertifications(
+  member: Member,
+  certificationTypes: CertificationType[],
+  gearTypeNames: Map<string, string>,
+  asOf: Date
+): MemberCertificationStatus[] {
+  return certificationTypes.map((certificationType) => {
+    const grant = member.certifications.find((c) => c.certificationTypeId === certificationType.id);
+    let status: MemberCertificationStatus['status'] = 'missing';
+    if (grant?.revokedAt) {
+      status = 'revoked';
+    } else if (grant) {
+      status = member.hasCertification(certificationType.id, asOf) ? 'valid' : 'expired';
+    }
+    return {
+      certificationTypeId: certificationType.id,
+      name: certificationType.name,
+      categories: [...certificationType.categories],
+      gearTypeNames: certificationType.gearTypeIds.map((id) => gearTypeNames.get(id) ?? 'Unknown gear type'),
+      status,
+      expiresAt: grant?.expiresAt ?? null
+    };
+  });
+}
+
+// ============================================================================
+// Create / Update Certification Type
+// ============================================================================
+
+export type CreateCertificationTypeUseCaseError =
+  | ForbiddenError
+  | CreateCertificationTypeError
+  | { type: 'duplicate_name'; name: string }
+  | { type: 'gear_type_not_found'; id: string };
+
+export type UpdateCertificationRequirementsError =
+  | ForbiddenError
+  | CreateCertificationTypeError
+  | { type: 'not_found'; id: string }
+  | { type: 'gear_type_not_found'; id: string };
+
+export interface CertificationTypeDeps {
+  certificationTypeRepo: CertificationTypeRepository;
+  gearTypeRepo: GearTypeRepository;
+  staffMemberRepo: StaffMemberRepository;
+  idGenerator: IdGenerator;
+  clock: Clock;
+  eventPublisher: EventPublisher;
+}
+
+export interface CreateCertificationTypeUseCaseInput extends CreateCertificationTypeInput {
+  staffMemberId: string;
+}
+
+export interface UpdateCertificationRequirementsInput extends CertificationRequirements {
+  certificationTypeId: string;
+  staffMemberId: string;
+}
+
+/**
+ * Define a new certification and the gear it is required for. Coordinators and admins only.
+ */
+export async function createCertificationType(
+  deps: CertificationTypeDeps,
+  input: CreateCertificationTypeUseCaseInput
+): Promise<Result<CertificationType, CreateCertificationTypeUseCaseError>> {
+  const auth = await authorize(deps, input.staffMemberId, Permission.MANAGE_CERTIFICATIONS);
+  if (!auth.ok) {
+    return auth;
+  }
+
+  const existing = await deps.certificationTypeRepo.findAll();
+  const nameNormalized = input.name.trim().toLowerCase();
+  if (existing.some((c) => c.name.toLowerCase() === nameNormalized)) {
+    return err({ type: 'duplicate_name', name: input.name.trim() });
+  }
+
+  const missing = await findMissingGearType(deps, input.gearTypeIds);
+  if (missing) {
+    return err({ type: 'gear_type_not_found', id: missing });
+  }
+
+  const result = CertificationType.create(input, deps);
+  if (!result.ok) {
+    return result;
+  }
+
+  await deps.certificationTypeRepo.save(result.value);
+  await deps.eventPublisher.publish(
+    CertificationTypeCreated.create(
+      { aggregateId: result.value.id, staffMemberId: input.staffMemberId, payload: { name: result.value.name } },
+      deps
+    )
+  );
+
+  return result;
+}
+
+/**
+ * Change which categories and gear types need the certification.
+ */
+export async function updateCertificationRequirements(
+  deps: CertificationTypeDeps,
+  input: UpdateCertificationRequirementsInput
+): Promise<Result<CertificationType, UpdateCertificationRequirementsError>> {
+  const auth = await authorize(deps, input.staffMemberId, Permission.MANAGE_CERTIFICATIONS);
+  if (!auth.ok) {
+    return auth;
+  }
+
+  const certificationType = await deps.certificationTypeRepo.findById(certificationTypeId(input.certificationTypeId));
+  if (!certificationType) {
+    return err({ type: 'not_found', id: input.certificationTypeId });
+  }
+
+  const missing = await findMissingGearType(deps, input.gearTypeIds);
+  if (missing) {
+    return err({ type: 'gear_type_not_found', id: missing });
+  }
+
+  const result = certificationType.setRequirements(input, deps);
+  if (!result.ok) {
+    return result;
+  }
+
+  await deps.certificationTypeRepo.save(result.value);
+  await deps.eventPublisher.publish(
+    CertificationTypeUpdated.create(
+      { aggregateId: result.value.id, staffMemberId: input.staffMemberId, payload: { name: result.value.name } },
+      deps
+    )
+  );
+
+  return result;
+}
+
+async function findMissingGearType(
+  deps: { gearTypeRepo: GearTypeRepository },
+  ids: string[]
+): Promise<string | null> {
+  for (const id of ids) {
+    if (!(await deps.gearTypeRepo.findById(gearTypeId(id)))) {
+      return id;
+    }
+  }
+  return null;
+}
+
+// ============================================================================
+// List Certification Types
+// ============================================================================
+
+export interface ListCertificationTypesDeps {
+  certificationTypeRepo: CertificationTypeRepository;
+}
+
+export async function listCertificationTypes(deps: ListCertificationTypesDeps): Promise<CertificationType[]> {
+  return deps.certificationTypeRepo.findAll();
+}
+
+// ============================================================================
+// Grant / Revoke Certification
+// ============================================================================
+
+export type GrantCertificationError =
+  | ForbiddenError
+  | { type: 'member_not_found'; memberId: string }
+  | { type: 'certification_type_not_found'; certificationTypeId: string };
+
+export type RevokeCertificationUseCaseError = GrantCertificationError | RevokeCertificationError;
+
+export interface GrantCertificationDeps {
+  memberRepo: MemberRepository;
+  certificationTypeRepo: CertificationTypeRepository;
+  staffMemberRepo: StaffMemberRepository;
+  idGenerator: IdGenerator;
+  clock: Clock;
+  eventPublisher: EventPublisher;
+}
+
+export interface GrantCertificationInput {
+  memberId: string;
+  certificationTypeId: string;
+  staffMemberId: string;
+}
+
+/**
+ * Record that a member has passed a certification. Granting again renews it.
+ */
+export async function grantCertification(
+  deps: GrantCertificationDeps,
+  input: GrantCertificationInput
+): Promise<Result<Member, GrantCertificationError>> {
+  const loaded = await loadGrantSubjects(deps, input);
+  if (!loaded.ok) {
+    return loaded;
+  }
+  const { member, certificationType } = loaded.value;
+
+  const updated = member.grantCertification(certificationType, input.staffMemberId, deps);
+  const expiresAt = updated.certifications.find((c) => c.certificationTypeId === certificationType.id)?.expiresAt;
+
+  await deps.memberRepo.save(updated);
+  await deps.eventPublisher.publish(
+    CertificationGranted.create(
+      {
+        aggregateId: member.id,
+        staffMemberId: input.staffMemberId,
+        payload: {
+          memberId: member.id,
+          certificationTypeId: certificationType.id,
+          name: certificationType.name,
+          ...(expiresAt && { expiresAt: expiresAt.toISOString() })
+        }
+      },
+      deps
+    )
+  );
+
+  return ok(updated);
+}
+
+/**
+ * Withdraw a certification, e.g. after an unsafe belay.
+ */
+export async function revokeCertification(
+  deps: GrantCertificationDeps,
+  input: GrantCertificationInput
+): Promise<Result<Member, RevokeCertificationUseCaseError>> {
+  const loaded = await loadGrantSubjects(deps, input);
+  if (!loaded.ok) {
+    return loaded;
+  }
+  const { member, certificationType } = loaded.value;
+
+  const result = member.revokeCertification(certificationType.id, input.staffMemberId, deps);
+  if (!result.ok) {
+    return result;
+  }
+
+  await deps.memberRepo.save(result.value);
+  await deps.eventPublisher.publish(
+    CertificationRevoked.create(
+      {
+        aggregateId: member.id,
+        staffMemberId: input.staffMemberId,
+        payload: { memberId: member.id, certificationTypeId: certificationType.id, name: certificationType.name }
+      },
+      deps
+    )
+  );
+
+  return result;
+}
+
+async function loadGrantSubjects(
+  deps: GrantCertificationDeps,
+  input: GrantCertificationInput
+): Promise<Result<{ member: Member; certificationType: CertificationType }, GrantCertificationError>> {
+  const auth = await authorize(deps, input.staffMemberId, Permission.MANAGE_CERTIFICATIONS);
+  if (!auth.ok) {
+    return auth;
+  }
+
+  const member = await deps.memberRepo.findById(input.memberId as MemberId);
+  if (!member) {
+    return err({ type: 'member_not_found', memberId: input.memberId });
+  }
+
+  const certificationType = await deps.certificationTypeRepo.findById(certificationTypeId(input.certificationTypeId));
+  if (!certificationType) {
+    return err({ type: 'certification_type_not_found', certificationTypeId: input.certificationTypeId });
+  }
+
+  return ok({ member, certificationType });
+}
@@ -0,0 +1,467 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createCheckout,
+  renewCheckoutItem,
+  getActiveCheckoutsForMember
+} from './checkout-use-cases.js';
+import { createReservation } from './reservation-use-cases.js';
+import { returnItems } from './return-use-cases.js';
+import { Kit } from '../../domain/entities/kit.js';
+import { Checkout } from '../../domain/entities/checkout.js';
+import { GearItem } from '../../domain/entities/gear-item.js';
+import { ChargeType, CheckoutStatus, MembershipTier } from '../../domain/types.js';
+import { DEFAULT_MEMBERSHIP_TIER_POLICY } from '../../domain/policies/index.js';
+import { unwrap } from '../result.js';
+import { createTestEnvironment } from '../../test-utils/in-memory-repositories.js';
+import { createTestMember, createTent, createPads } from '../../test-utils/fixtures.js';
+
+// ============================================================================
+// Test helpers
+// ============================================================================
+
+function makeDeps() {
+  return createTestEnvironment();
+}
+
+async function checkOutTent(deps: ReturnType<typeof makeDeps>) {
+  const member = await createTestMember(deps, 'S100', 'Avery');
+  const { gearType, item } = await createTent(deps);
+  const { checkout } = unwrap(
+    await createCheckout(deps, {
+      memberId: member.id,
+      staffMemberId: 'staff-1',
+      items: [{ itemCode: item.code }]
+    })
+  );
+  return { member, gearType, item, checkout };
+}
+
+async function createCampingKit(deps: ReturnType<typeof makeDeps>) {
+  const { gearType: tentType, item: firstTent } = await createTent(deps, 'TENT-002');
+  const secondTent = unwrap(GearItem.create({ gearTypeId: tentType.id, code: 'TENT-001' }, deps));
+  await deps.gearItemRepo.save(secondTent);
+  const pads = await createPads(deps, 10);
+  const kit = unwrap(
+    Kit.create(
+      {
+        name: 'Camping Kit',
+        slots: [
+          { gearTypeId: tentType.id, quantity: 1 },
+          { gearTypeId: pads.id, quantity: 2 }
+        ]
+      },
+      deps
+    )
+  );
+  await deps.kitRepo.save(kit);
+  return { kit, tentType, pads, tents: [secondTent, firstTent] };
+}
+
+async function createAlumnus(deps: ReturnType<typeof makeDeps>) {
+  const member = await createTestMember(deps, 'A100', 'Riley');
+  const alumnus = unwrap(member.changeTier(MembershipTier.ALUMNI, deps));
+  await deps.memberRepo.save(alumnus);
+  return alumnus;
+}
+
+function daysAfter(date: Date, days: number): Date {
+  const result = new Date(date);
+  result.setDate(result.getDate() + days);
+  return result;
+}
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+describe('createCheckout', () => {
+  it('rejects bulk quantities beyond what is on the shelf', async () => {
+    const deps = makeDeps();
+    const member = await createTestMember(deps, 'S100', 'Avery');
+    const pads = await createPads(deps, 10);
+
+    unwrap(
+      await createCheckout(deps, {
+        memberId: member.id,
+        staffMemberId: 'staff-1',
+        items: [{ gearTypeId: pads.id, quantity: 8 }]
+      })
+    );
+
+    const result = await createCheckout(deps, {
+      memberId: member.id,
+      staffMemberId: 'staff-1',
+      items: [
+        { gearTypeId: pads.id, quantity: 1 },
+        { gearTypeId: pads.id, quantity: 2 }
+      ]
+    });
+
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.error).toEqual({
+        type: 'insufficient_quantity',
+        gearTypeId: pads.id,
+        requested: 2,
+        available: 1
+      });
+    }
+  });
+
+  it('refuses a member who owes more than the account policy allows', async () => {
+    const deps = makeDeps();
+    const member = await createTestMember(deps, 'S100', 'Avery');
+    const { item } = await createTent(deps);
+    const limitCents = deps.accountPolicy.maxBalanceForCheckoutCents!;
+    const account = await deps.memberAccountRepo.findByMemberId(member.id);
+    await deps.memberAccountRepo.append(
+      unwrap(
+        account.charge(
+          {
+            chargeType: ChargeType.DEPOSIT,
+            amountCents: limitCents + 1,
+            description: 'Bike deposit',
+            staffMemberId: 'staff-1'
+          },
+          deps
+        )
+      )
+    );
+
+    const result = await createCheckout(deps, {
+      memberId: member.id,
+      staffMemberId: 'staff-1',
+      items: [{ itemCode: item.code }]
+    });
+
+    expect(result).toEqual({
+      ok: false,
+      error: { type: 'balance_over_limit', balanceCents: limitCents + 1, limitCents }
+    });
+    expect(await deps.checkoutRepo.findActiveByMemberId(member.id)).toEqual([]);
+  });
+});
+
+describe('createCheckout with kits', () => {
+  it('picks an available item for each slot and tags them with the kit', async () => {
+    const deps = makeDeps();
+    const member = await createTestMember(deps, 'S100', 'Avery');
+    const { kit, pads, tents } = await createCampingKit(deps);
+
+    const { checkout } = unwrap(
+      await createCheckout(deps, {
+        memberId: member.id,
+        staffMemberId: 'staff-1',
+        items: [{ kitId: kit.id }]
+      })
+    );
+
+    expect(checkout.items).toHaveLength(2);
+    expect(checkout.items.every((i) => i.kitId === kit.id)).toBe(true);
+    expect(checkout.items[0].gearItemId).toBe(tents[0].id);
+    expect(checkout.items[1]).toMatchObject({ gearTypeId: pads.id, quantity: 2 });
+  });
+
+  it('skips items named elsewhere in the same checkout', async () => {
+    const deps = makeDeps();
+    const member = await createTestMember(deps, 'S100', 'Avery');
+    const { kit, tents } = await createCampingKit(deps);
+
+    const { checkout } = unwrap(
+      await createCheckout(deps, {
+        memberId: member.id,
+        staffMemberId: 'staff-1',
+        items: [{ itemCode: 'TENT-001' }, { kitId: kit.id }]
+      })
+    );
+
+    expect(checkout.items.map((i) => [i.gearItemId, i.kitId])).toEqual([
+      [tents[0].id, null],
+      [tents[1].id, kit.id],
+      [null, kit.id]
+    ]);
+  });
+
+  it('fails when a slot cannot be filled', async () => {
+    const deps = makeDeps();
+    const member = await createTestMember(deps, 'S100', 'Avery');
+    const { kit, tentType } = await createCampingKit(deps);
+
+    unwrap(
+      await createCheckout(deps, {
+        memberId: member.id,
+        staffMemberId: 'staff-1',
+        items: [{ itemCode: 'TENT-001' }, { itemCode: 'TENT-002' }]
+      })
+    );
+
+    const result = await createCheckout(deps, {
+      memberId: member.id,
+      staffMemberId: 'staff-1',
+      items: [{ kitId: kit.id }]
+    });
+
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.error).toEqual({
+        type: 'kit_slot_unavailable',
+        kitId: kit.id,
+        gearTypeId: tentType.id,
+        requested: 1,
+        available: 0
+      });
+    }
+  });
+
+  it('shows the kit as a unit and lets its items be returned one at a time', async () => {
+    const deps = makeDeps();
+    const member = await createTestMember(deps, 'S100', 'Avery');
+    const { kit, tents } = await createCampingKit(deps);
+
+    const { checkout } = unwrap(
+      await createCheckout(deps, {
+        memberId: member.id,
+        staffMemberId: 'staff-1',
+        items: [{ kitId: kit.id }]
+      })
+    );
+
+    const [summary] = await getActiveCheckoutsForMember(deps, member.id, deps.clock.now());
+    expect(summary.items).toHaveLength(0);
+    expect(summary.kits).toHaveLength(1);
+    expect(summary.kits[0].kit?.name).toBe('Camping Kit');
+    expect(summary.kits[0].items).toHaveLength(2);
+
+    const { checkout: afterReturn } = unwrap(
+      await returnItems(deps, {
+        checkoutId: checkout.id,
+        staffMemberId: 'staff-1',
+        returns: [{ gearItemId: tents[0].id }]
+      })
+    );
+    expect(afterReturn.status).toBe(CheckoutStatus.PARTIALLY_RETURNED);
+    expect(afterReturn.items[0].returnedBy).toBe('staff-1');
+  });
+
+  it('renews and returns a kit bulk line apart from a separate line of the same type', async () => {
+    const deps = makeDeps();
+    const member = await createTestMember(deps, 'S100', 'Avery');
+    const { kit, pads } = await createCampingKit(deps);
+    const { checkout } = unwrap(
+      await createCheckout(deps, {
+        memberId: member.id,
+        staffMemberId: 'staff-1',
+        items: [{ kitId: kit.id }, { gearTypeId: pads.id, quantity: 3 }]
+      })
+    );
+    const padLines = () => checkout.items.filter((i) => i.gearTypeId === pads.id);
+    expect(padLines().map((i) => [i.kitId, i.quantity])).toEqual([
+      [kit.id, 2],
+      [null, 3]
+    ]);
+
+    const renewed = unwrap(
+      await renewCheckoutItem(deps, { checkoutId: checkout.id, itemId: pads.id, staffMemberId: 'staff-1' })
+    );
+    expect(renewed.item).toMatchObject({ kitId: null, quantity: 3, renewalCount: 1 });
+
+    const { checkout: afterReturn } = unwrap(
+      await returnItems(deps, {
+        checkoutId: checkout.id,
+        staffMemberId: 'staff-1',
+        returns: [{ gearTypeId: pads.id, quantity: 2, kitId: kit.id }]
+      })
+    );
+    const returnedPadLines = afterReturn.items.filter((i) => i.gearTypeId === pads.id);
+    expect(returnedPadLines.map((i) => [i.returnedQuantity, i.renewalCount])).toEqual([
+      [2, 0],
+      [0, 1]
+    ]);
+  });
+});
+
+describe('renewCheckoutItem', () => {
+  it('extends the due date by another checkout period and counts the renewal', async () => {
+    const deps = makeDeps();
+    const { gearType, item, checkout } = await checkOutTent(deps);
+    const originalDue = checkout.items[0].dueAt;
+
+    const result = await renewCheckoutItem(deps, {
+      checkoutId: checkout.id,
+      itemId: item.id,
+      staffMemberId: 'staff-1'
+    });
+
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(result.value.item.dueAt).toEqual(daysAfter(originalDue, gearType.checkoutDurationDays));
+      expect(result.value.item.renewalCount).toBe(1);
+      expect(result.value.previousDueAt).toEqual(originalDue);
+    }
+    expect(deps.events.at(-1)?.type).toBe('CheckoutRenewed');
+  });
+
+  it('does not treat a gear type ID as one of its individually tracked items', async () => {
+    const deps = makeDeps();
+    const { gearType, checkout } = await checkOutTent(deps);
+    // Lines that also carry their gear type must still only match by gear item
+    const record = checkout.toRecord();
+    const items = JSON.parse(record.items).map((line: object) => ({ ...line, gearTypeId: gearType.id }));
+    await deps.checkoutRepo.save(Checkout.fromRecord({ ...record, items: JSON.stringify(items) }));
+
+    expect(
+      await renewCheckoutItem(deps, { checkoutId: checkout.id, itemId: gearType.id, staffMemberId: 'staff-1' })
+    ).toEqual({ ok: false, error: { type: 'item_not_found', itemId: gearType.id } });
+    expect(deps.events.at(-1)?.type).not.toBe('CheckoutRenewed');
+  });
+
+  it('stops at the policy renewal limit', async () => {
+    const deps = makeDeps();
+    const { item, checkout } = await checkOutTent(deps);
+    const input = { checkoutId: checkout.id, itemId: item.id, staffMemberId: 'staff-1' };
+
+    for (let i = 0; i < deps.renewalPolicy.maxRenewals; i++) {
+      unwrap(await renewCheckoutItem(deps, input));
+    }
+    const result = await renewCheckoutItem(deps, input);
+
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.error).toEqual({
+        type: 'renewal_limit_reached',
+        maxRenewals: deps.renewalPolicy.maxRenewals
+      });
+    }
+  });
+
+  it('refuses when another member has the item reserved', async () => {
+    const deps = makeDeps();
+    const { item, checkout } = await checkOutTent(deps);
+    const other = await createTestMember(deps, 'S200', 'Jordan');
+    const dueAt = checkout.items[0].dueAt;
+
+    unwrap(
+      await createReservation(deps, {
+        memberId: other.id,
+        staffMemberId: 'staff-1',
+        items: [{ itemCode: item.code }],
+        pickupWindow: { start: daysAfter(dueAt, 1), end: daysAfter(dueAt, 2) },
+        returnWindow: { start: daysAfter(dueAt, 4), end: daysAfter(dueAt, 5) }
+      })
+    );
+
+    const result = await renewCheckoutItem(deps, {
+      checkoutId: checkout.id,
+      itemId: item.id,
+      staffMemberId: 'staff-1'
+    });
+
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.error.type).toBe('reserved_by_other_member');
+    }
+  });
+
+  it('requires a staff override for overdue items', async () => {
+    const deps = makeDeps();
+    const { item, checkout } = await checkOutTent(deps);
+    deps.clock.set(daysAfter(checkout.items[0].dueAt, 3));
+    const input = { checkoutId: checkout.id, itemId: item.id, staffMemberId: 'staff-1' };
+
+    const refused = await renewCheckoutItem(deps, input);
+    expect(refused.ok).toBe(false);
+    if (!refused.ok) {
+      expect(refused.error).toEqual({ type: 'overdue_requires_override', daysOverdue: 3 });
+    }
+
+    const overridden = await renewCheckoutItem(deps, { ...input, staffOverride: true });
+    expect(overridden.ok).toBe(true);
+    if (overridden.ok) {
+      expect(overridden.value.item.dueAt > deps.clock.now()).toBe(true);
+    }
+  });
+
+  it('counts an item as overdue as soon as its due time passes', async () => {
+    const deps = makeDeps();
+    const { item, checkout } = await checkOutTent(deps);
+    deps.clock.set(new Date(checkout.items[0].dueAt.getTime() + 60 * 60 * 1000));
+    const input = { checkoutId: checkout.id, itemId: item.id, staffMemberId: 'staff-1' };
+
+    expect(await renewCheckoutItem(deps, input)).toEqual({
+      ok: false,
+      error: { type: 'overdue_requires_override', daysOverdue: 0 }
+    });
+
+    unwrap(await renewCheckoutItem(deps, { ...input, staffOverride: true }));
+    expect(deps.events.at(-1)).toMatchObject({ type: 'CheckoutRenewed', payload: { staffOverride: true } });
+  });
+});
+
+describe('membership tiers', () => {
+  it('refuses a checkout that would put the member over their tier item limit', async () => {
+    const deps = makeDeps();
+    const member = await createAlumnus(deps);
+    const pads = await createPads(deps);
+    const limit = DEFAULT_MEMBERSHIP_TIER_POLICY.ALUMNI.maxItemsOut!;
+
+    unwrap(
+      await createCheckout(deps, {
+        memberId: member.id,
+        staffMemberId: 'staff-1',
+        items: [{ gearTypeId: pads.id, quantity: limit - 1 }]
+      })
+    );
+    const result = await createCheckout(deps, {
+      memberId: member.id,
+      staffMemberId: 'staff-1',
+      items: [{ gearTypeId: pads.id, quantity: 2 }]
+    });
+
+    expect(result).toEqual({
+      ok: false,
+      error: { type: 'exceeds_item_limit', limit, itemsOut: limit - 1, requested: 2 }
+    });
+  });
+
+  it('caps due dates at the tier checkout duration', async () => {
+    const deps = makeDeps();
+    deps.membershipTierPolicy = {
+      ...DEFAULT_MEMBERSHIP_TIER_POLICY,
+      ALUMNI: { ...DEFAULT_MEMBERSHIP_TIER_POLICY.ALUMNI, maxCheckoutDays: 3 }
+    };
+    const member = await createAlumnus(deps);
+    const { item } = await createTent(deps);
+    const now = deps.clock.now();
+
+    expect(
+      await createCheckout(deps, {
+        memberId: member.id,
+        staffMemberId: 'staff-1',
+        items: [{ itemCode: item.code }],
+        dueAt: daysAfter(now, 5)
+      })
+    ).toEqual({ ok: false, error: { type: 'exceeds_checkout_duration', maxDays: 3 } });
+
+    const { checkout } = unwrap(
+      await createCheckout(deps, { memberId: member.id, staffMemberId: 'staff-1', items: [{ itemCode: item.code }] })
+    );
+    expect(checkout.items[0].dueAt).toEqual(daysAfter(now, 3));
+  });
+
+  it('applies the tier renewal allowance instead of the policy default', async () => {
+    const deps = makeDeps();
+    const member = await createAlumnus(deps);
+    const { item } = await createTent(deps);
+    const { checkout } = unwrap(
+      await createCheckout(deps, { memberId: member.id, staffMemberId: 'staff-1', items: [{ itemCode: item.code }] })
+    );
+    const input = { checkoutId: checkout.id, itemId: item.id, staffMemberId: 'staff-1' };
+
+    unwrap(await renewCheckoutItem(deps, input));
+
+    expect(await renewCheckoutItem(deps, input)).toEqual({
+      ok: false,
+      error: { type: 'renewal_limit_reached', maxRenewals: DEFAULT_MEMBERSHIP_TIER_POLICY.ALUMNI.maxRenewals }
+    });
+  });
+});
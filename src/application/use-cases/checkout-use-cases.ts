@@ -3,15 +3,36 @@ import type {
   MemberRepository,
   GearTypeRepository,
   GearItemRepository,
-  CheckoutRepository
+  CheckoutRepository,
+  ReservationRepository,
+  KitRepository,
+  WaiverDocumentRepository,
+  CertificationTypeRepository,
+  MemberAccountRepository
 } from '../ports/repositories.js';
-import type { IdGenerator, Clock, EventPublisher } from '../ports/services.js';
-import { Checkout, type CheckoutItemInput } from '../../domain/entities/checkout.js';
+import type { IdGenerator, Clock, EventPublisher, UnitOfWork } from '../ports/services.js';
+import { Checkout, daysPastDue, type CheckoutItem, type CheckoutItemInput } from '../../domain/entities/checkout.js';
 import type { GearItem } from '../../domain/entities/gear-item.js';
 import type { GearType } from '../../domain/entities/gear-type.js';
 import type { Member } from '../../domain/entities/member.js';
-import type { MemberId, GearItemId, GearTypeId } from '../../domain/value-objects/index.js';
-import { GearCondition, TrackingMode } from '../../domain/types.js';
+import type { Reservation } from '../../domain/entities/reservation.js';
+import type { Kit } from '../../domain/entities/kit.js';
+import {
+  type MemberId,
+  type GearItemId,
+  type GearTypeId,
+  checkoutId as toCheckoutId,
+  kitId as toKitId
+} from '../../domain/value-objects/index.js';
+import { evaluateRenewal, type RenewalPolicy, type RenewalDenial } from '../../domain/policies/renewal-policy.js';
+import { type MembershipTierPolicy, type TierRules, tierCheckoutDays } from '../../domain/policies/tier-policy.js';
+import { inspectionStanding } from '../../domain/policies/inspection-policy.js';
+import { lifecycleStanding } from '../../domain/policies/lifecycle-policy.js';
+import { type AccountPolicy, balanceBlocksCheckout } from '../../domain/policies/account-policy.js';
+import { GearCondition, ReservationStatus, TrackingMode } from '../../domain/types.js';
+import { calculateBulkAvailability, loadOpenCheckouts } from './availability-use-cases.js';
+import { findMissingCertifications, type MissingCertification } from './certification-use-cases.js';
+import { CheckoutCreated, CheckoutRenewed } from '../../domain/events/index.js';
 
 // ============================================================================
 // Create Checkout
@@ -20,20 +41,37 @@ import { GearCondition, TrackingMode } from '../../domain/types.js';
 export type CreateCheckoutError =
   | { type: 'member_not_found'; memberId: string }
   | { type: 'member_not_eligible'; reasons: string[] }
+  | { type: 'balance_over_limit'; balanceCents: number; limitCents: number }
+  | { type: 'missing_certification'; certifications: MissingCertification[] }
+  | { type: 'exceeds_item_limit'; limit: number; itemsOut: number; requested: number }
+  | { type: 'exceeds_checkout_duration'; maxDays: number }
   | { type: 'no_items' }
   | { type: 'gear_item_not_found'; code: string }
   | { type: 'gear_item_not_available'; code: string; status: string }
+  | { type: 'gear_item_reserved'; code: string; reservationId: string }
+  | { type: 'inspection_overdue'; code: string }
+  | { type: 'retirement_due'; code: string }
   | { type: 'gear_type_not_found'; gearTypeId: string }
-  | { type: 'insufficient_quantity'; gearTypeId: string; requested: number; available: number };
+  | { type: 'insufficient_quantity'; gearTypeId: string; requested: number; available: number }
+  | { type: 'kit_not_found'; kitId: string }
+  | { type: 'kit_slot_unavailable'; kitId: string; gearTypeId: string; requested: number; available: number };
 
 export interface CreateCheckoutDeps {
   memberRepo: MemberRepository;
   gearTypeRepo: GearTypeRepository;
   gearItemRepo: GearItemRepository;
   checkoutRepo: CheckoutRepository;
+  reservationRepo: ReservationRepository;
+  kitRepo: KitRepository;
+  waiverDocumentRepo: WaiverDocumentRepository;
+  certificationTypeRepo: CertificationTypeRepository;
+  memberAccountRepo: MemberAccountRepository;
   idGenerator: IdGenerator;
   clock: Clock;
   eventPublisher: EventPublisher;
+  unitOfWork: UnitOfWork;
+  membershipTierPolicy: MembershipTierPolicy;
+  accountPolicy: AccountPolicy;
 }
 
 export interface CheckoutItemRequest {
@@ -42,6 +80,8 @@ export interface CheckoutItemRequest {
   // For bulk items, provide the gear type ID and quantity
   gearTypeId?: string;
   quantity?: number;
+  // For a kit, provide the kit ID; available items are picked for each slot
+  kitId?: string;
 }
 
 export interface CreateCheckoutInput {
@@ -49,6 +89,9 @@ export interface CreateCheckoutInput {
   staffMemberId: string;
   items: CheckoutItemRequest[];
   notes?: string;
+  // Due date for every item; defaults to each gear type's checkout duration.
+  // Neither may exceed the member's tier limit
+  dueAt?: Date;
 }
 
 export interface CreateCheckoutResult {
@@ -64,7 +107,8 @@ export interface CreateCheckoutResult {
 
 /**
  * Create a checkout for a member.
- * Validates member eligibility and item availability.
+ * Validates member eligibility and item availability, including gear held
+ * for other members by reservations that overlap the checkout period.
  */
 export async function createCheckout(
   deps: CreateCheckoutDeps,
@@ -77,32 +121,66 @@ export async function createCheckout(
   }
 
   const now = deps.clock.now();
-  if (!member.canCheckout(now)) {
+  const currentWaiver = await deps.waiverDocumentRepo.findCurrent(now);
+  if (!member.canCheckout(now, currentWaiver)) {
     const reasons: string[] = [];
-    if (member.membershipStatus !== 'ACTIVE') {
-      reasons.push(`Membership status: ${member.membershipStatus}`);
+    const status = member.membershipStatusAt(now);
+    const suspension = member.currentSuspension;
+    if (status === 'SUSPENDED' && suspension) {
+      const until = suspension.endsAt ? ` until ${suspension.endsAt.toISOString().slice(0, 10)}` : '';
+      reasons.push(`Suspended${until}: ${suspension.reason}`);
+    } else if (status === 'EXPIRED' && member.term) {
+      reasons.push(`Membership expired ${member.term.endsAt.toISOString().slice(0, 10)}`);
+    } else if (status !== 'ACTIVE') {
+      reasons.push(`Membership status: ${status}`);
     }
-    if (!member.hasValidWaiver(now)) {
+    if (!member.hasValidWaiver(now, currentWaiver)) {
       reasons.push('Waiver not valid');
     }
     return err({ type: 'member_not_eligible', reasons });
   }
 
+  const account = await deps.memberAccountRepo.findByMemberId(member.id);
+  const limitCents = balanceBlocksCheckout(deps.accountPolicy, account.balanceCents);
+  if (limitCents !== null) {
+    return err({ type: 'balance_over_limit', balanceCents: account.balanceCents, limitCents });
+  }
+
   if (input.items.length === 0) {
     return err({ type: 'no_items' });
   }
 
+  const tierRules = deps.membershipTierPolicy[member.tier];
+  if (input.dueAt && tierRules.maxCheckoutDays !== null && input.dueAt > addDays(now, tierRules.maxCheckoutDays)) {
+    return err({ type: 'exceeds_checkout_duration', maxDays: tierRules.maxCheckoutDays });
+  }
+  const dueDateFor = (gearType: GearType) => input.dueAt ?? defaultDueDate(now, gearType, tierRules);
+
+  // Reservations held by other members over the period a line will be out
+  const holdsUntil = (dueAt: Date) => findHoldsForOthers(deps, member.id, now, dueAt);
+
+  // Kits become one concrete line per picked item or bulk slot
+  const expanded = await expandKitRequests(deps, input, now, dueDateFor, holdsUntil);
+  if (!expanded.ok) {
+    return expanded;
+  }
+
   // Resolve and validate all items
   const checkoutItems: Array<{
     input: CheckoutItemInput;
     dueAt: Date;
     conditionAtCheckout?: GearCondition;
+    kitId?: string;
   }> = [];
 
   const itemDetails: CreateCheckoutResult['itemDetails'] = [];
   const gearItemsToUpdate: GearItem[] = [];
 
-  for (const itemReq of input.items) {
+  // Open checkouts are loaded on the first bulk line and shared across the cart
+  let openCheckouts: Checkout[] | null = null;
+  const bulkRequested = new Map<string, number>();
+
+  for (const { request: itemReq, kitId } of expanded.value) {
     if (itemReq.itemCode) {
       // Individual item by code
       const gearItem = await deps.gearItemRepo.findByCode(itemReq.itemCode);
@@ -122,13 +200,25 @@ export async function createCheckout(
         return err({ type: 'gear_type_not_found', gearTypeId: gearItem.gearTypeId });
       }
 
-      const dueAt = new Date(now);
-      dueAt.setDate(dueAt.getDate() + gearType.checkoutDurationDays);
+      if (isRetirementDue(gearType, gearItem, now)) {
+        return err({ type: 'retirement_due', code: gearItem.code });
+      }
+      if (isInspectionOverdue(gearType, gearItem, now)) {
+        return err({ type: 'inspection_overdue', code: gearItem.code });
+      }
+
+      const dueAt = dueDateFor(gearType);
+
+      const hold = (await holdsUntil(dueAt)).find((r) => r.includesGearItem(gearItem.id));
+      if (hold) {
+        return err({ type: 'gear_item_reserved', code: gearItem.code, reservationId: hold.id });
+      }
 
       checkoutItems.push({
         input: { type: 'individual', gearItemId: gearItem.id },
         dueAt,
-        conditionAtCheckout: gearItem.condition
+        conditionAtCheckout: gearItem.condition,
+        kitId
       });
 
       itemDetails.push({
@@ -157,24 +247,28 @@ export async function createCheckout(
         });
       }
 
-      // For bulk items, we need to calculate available quantity
-      // This would require checking active checkouts - simplified for now
-      const available = gearType.totalQuantity;
+      openCheckouts ??= await loadOpenCheckouts(deps);
+      const dueAt = dueDateFor(gearType);
+      const holds = await holdsUntil(dueAt);
+
+      // Earlier lines in this cart for the same type count against availability
+      const alreadyRequested = bulkRequested.get(gearType.id) ?? 0;
+      const available =
+        calculateBulkAvailability(gearType, openCheckouts, { holds }).available - alreadyRequested;
       if (itemReq.quantity > available) {
         return err({
           type: 'insufficient_quantity',
           gearTypeId: itemReq.gearTypeId,
           requested: itemReq.quantity,
-          available
+          available: Math.max(0, available)
         });
       }
-
-      const dueAt = new Date(now);
-      dueAt.setDate(dueAt.getDate() + gearType.checkoutDurationDays);
+      bulkRequested.set(gearType.id, alreadyRequested + itemReq.quantity);
 
       checkoutItems.push({
         input: { type: 'bulk', gearTypeId: gearType.id, quantity: itemReq.quantity },
-        dueAt
+        dueAt,
+        kitId
       });
 
       itemDetails.push({
@@ -185,6 +279,29 @@ export async function createCheckout(
     }
   }
 
+  // The tier caps how much a member may have out at once, across all checkouts
+  if (tierRules.maxItemsOut !== null) {
+    const itemsOut = (await deps.checkoutRepo.findActiveByMemberId(member.id)).reduce(
+      (sum, c) => sum + c.countUnitsOut(),
+      0
+    );
+    const requested = itemDetails.reduce((sum, d) => sum + d.quantity, 0);
+    if (itemsOut + requested > tierRules.maxItemsOut) {
+      return err({ type: 'exceeds_item_limit', limit: tierRules.maxItemsOut, itemsOut, requested });
+    }
+  }
+
+  // Climbing gear, bikes and the like need certifications beyond the waiver
+  const missingCertifications = findMissingCertifications(
+    member,
+    await deps.certificationTypeRepo.findAll(),
+    itemDetails.map((d) => d.gearType),
+    now
+  );
+  if (missingCertifications.length > 0) {
+    return err({ type: 'missing_certification', certifications: missingCertifications });
+  }
+
   // Create the checkout
   const checkoutResult = Checkout.create(
     {
@@ -202,28 +319,295 @@ export async function createCheckout(
 
   const checkout = checkoutResult.value;
 
-  // Persist everything
-  await deps.checkoutRepo.save(checkout);
-  for (const item of gearItemsToUpdate) {
-    await deps.gearItemRepo.save(item);
-  }
-
-  // Publish event
-  await deps.eventPublisher.publish({
-    id: deps.idGenerator.generate(),
-    type: 'CheckoutCreated',
-    aggregateId: checkout.id,
-    occurredAt: now,
-    payload: {
-      checkoutId: checkout.id,
-      memberId: member.id,
-      itemCount: checkout.items.length
+  // Persist everything in one transaction
+  await deps.unitOfWork.run(async () => {
+    await deps.checkoutRepo.save(checkout);
+    for (const item of gearItemsToUpdate) {
+      await deps.gearItemRepo.save(item);
     }
+    await deps.eventPublisher.publish(
+      CheckoutCreated.create(
+        {
+          aggregateId: checkout.id,
+          staffMemberId: input.staffMemberId,
+          payload: {
+            checkoutId: checkout.id,
+            memberId: member.id,
+            itemCount: checkout.items.length
+          }
+        },
+        deps
+      )
+    );
   });
 
   return ok({ checkout, member, itemDetails });
 }
 
+/**
+ * Reservations held by members other than the borrower that overlap [now, dueAt].
+ */
+async function findHoldsForOthers(
+  deps: { reservationRepo: ReservationRepository },
+  borrowerId: string,
+  now: Date,
+  dueAt: Date
+): Promise<Reservation[]> {
+  const overlapping = await deps.reservationRepo.findPendingOverlapping(now, dueAt);
+  return overlapping.filter((r) => r.isHolding(now) && r.memberId !== borrowerId);
+}
+
+/**
+ * Replace kit requests with item and bulk requests for each slot.
+ * Individual slots take available items not already named in the cart,
+ * not reserved for someone else and not overdue for inspection, in code order.
+ */
+async function expandKitRequests(
+  deps: Pick<CreateCheckoutDeps, 'kitRepo' | 'gearTypeRepo' | 'gearItemRepo'>,
+  input: CreateCheckoutInput,
+  now: Date,
+  dueDateFor: (gearType: GearType) => Date,
+  holdsUntil: (dueAt: Date) => Promise<Reservation[]>
+): Promise<Result<Array<{ request: CheckoutItemRequest; kitId?: string }>, CreateCheckoutError>> {
+  const namedCodes = new Set(
+    input.items.filter((req) => req.itemCode).map((req) => req.itemCode!.toUpperCase())
+  );
+  const picked = new Set<string>();
+  const expanded: Array<{ request: CheckoutItemRequest; kitId?: string }> = [];
+
+  for (const request of input.items) {
+    if (!request.kitId) {
+      expanded.push({ request });
+      continue;
+    }
+
+    const kit = await deps.kitRepo.findById(toKitId(request.kitId));
+    if (!kit) {
+      return err({ type: 'kit_not_found', kitId: request.kitId });
+    }
+
+    for (const slot of kit.slots) {
+      const gearType = await deps.gearTypeRepo.findById(slot.gearTypeId);
+      if (!gearType) {
+        return err({ type: 'gear_type_not_found', gearTypeId: slot.gearTypeId });
+      }
+
+      if (gearType.isBulkTracked) {
+        expanded.push({
+          request: { gearTypeId: gearType.id, quantity: slot.quantity },
+          kitId: kit.id
+        });
+        continue;
+      }
+
+      const holds = await holdsUntil(dueDateFor(gearType));
+      const candidates = (await deps.gearItemRepo.findByGearTypeId(gearType.id))
+        .filter(
+          (item) =>
+            item.canCheckout() &&
+            !namedCodes.has(item.code) &&
+            !picked.has(item.id) &&
+            !holds.some((r) => r.includesGearItem(item.id)) &&
+            !isInspectionOverdue(gearType, item, now) &&
+            !isRetirementDue(gearType, item, now)
+        )
+        .sort((a, b) => a.code.localeCompare(b.code));
+
+      if (candidates.length < slot.quantity) {
+        return err({
+          type: 'kit_slot_unavailable',
+          kitId: kit.id,
+          gearTypeId: gearType.id,
+          requested: slot.quantity,
+          available: candidates.length
+        });
+      }
+
+      for (const item of candidates.slice(0, slot.quantity)) {
+        picked.add(item.id);
+        expanded.push({ request: { itemCode: item.code }, kitId: kit.id });
+      }
+    }
+  }
+
+  return ok(expanded);
+}
+
+function isInspectionOverdue(gearType: GearType, item: GearItem, now: Date): boolean {
+  return gearType.inspectionSchedule !== null && inspectionStanding(gearType.inspectionSchedule, item, now).overdue;
+}
+
+function isRetirementDue(gearType: GearType, item: GearItem, now: Date): boolean {
+  return gearType.lifecycleLimit !== null && lifecycleStanding(gearType.lifecycleLimit, item, now).due;
+}
+
+function defaultDueDate(from: Date, gearType: GearType, tierRules: TierRules): Date {
+  return addDays(from, tierCheckoutDays(tierRules, gearType.checkoutDurationDays));
+}
+
+function addDays(from: Date, days: number): Date {
+  const date = new Date(from);
+  date.setDate(date.getDate() + days);
+  return date;
+}
+
+// ============================================================================
+// Renew Checkout Item
+// ============================================================================
+
+export type RenewCheckoutItemError =
+  | RenewalDenial
+  | { type: 'checkout_not_found'; checkoutId: string }
+  | { type: 'member_not_found'; memberId: string }
+  | { type: 'item_not_found'; itemId: string }
+  | { type: 'item_already_returned' }
+  | { type: 'item_lost' }
+  | { type: 'gear_type_not_found'; itemId: string };
+
+export interface RenewCheckoutItemDeps {
+  checkoutRepo: CheckoutRepository;
+  memberRepo: MemberRepository;
+  gearTypeRepo: GearTypeRepository;
+  gearItemRepo: GearItemRepository;
+  reservationRepo: ReservationRepository;
+  idGenerator: IdGenerator;
+  clock: Clock;
+  eventPublisher: EventPublisher;
+  unitOfWork: UnitOfWork;
+  renewalPolicy: RenewalPolicy;
+  membershipTierPolicy: MembershipTierPolicy;
+}
+
+export interface RenewCheckoutItemInput {
+  checkoutId: string;
+  // Gear item ID for individual items, gear type ID for bulk items
+  itemId: string;
+  // Kit a bulk line went out with, to tell it from a line of the same type outside the kit
+  kitId?: string | null;
+  staffMemberId: string;
+  // Staff acknowledgement that an overdue item may be renewed anyway
+  staffOverride?: boolean;
+}
+
+export interface RenewCheckoutItemResult {
+  checkout: Checkout;
+  item: CheckoutItem;
+  previousDueAt: Date;
+}
+
+/**
+ * Renew a checked-out item for another checkout period of its gear type,
+ * within the borrower's tier limits.
+ * The new due date counts from the current due date, or from now if overdue.
+ */
+export async function renewCheckoutItem(
+  deps: RenewCheckoutItemDeps,
+  input: RenewCheckoutItemInput
+): Promise<Result<RenewCheckoutItemResult, RenewCheckoutItemError>> {
+  const checkout = await deps.checkoutRepo.findById(toCheckoutId(input.checkoutId));
+  if (!checkout) {
+    return err({ type: 'checkout_not_found', checkoutId: input.checkoutId });
+  }
+
+  const item = checkout.findItem(input.itemId, input.kitId ?? null);
+  if (!item) {
+    return err({ type: 'item_not_found', itemId: input.itemId });
+  }
+  if (item.returnedAt !== null) {
+    return err({ type: 'item_already_returned' });
+  }
+  if (item.lostAt !== null) {
+    return err({ type: 'item_lost' });
+  }
+
+  let gearType: GearType | null = null;
+  if (item.gearItemId) {
+    const gearItem = await deps.gearItemRepo.findById(item.gearItemId);
+    gearType = gearItem ? await deps.gearTypeRepo.findById(gearItem.gearTypeId) : null;
+  } else if (item.gearTypeId) {
+    gearType = await deps.gearTypeRepo.findById(item.gearTypeId);
+  }
+  if (!gearType) {
+    return err({ type: 'gear_type_not_found', itemId: input.itemId });
+  }
+
+  const member = await deps.memberRepo.findById(checkout.memberId);
+  if (!member) {
+    return err({ type: 'member_not_found', memberId: checkout.memberId });
+  }
+  const tierRules = deps.membershipTierPolicy[member.tier];
+
+  const now = deps.clock.now();
+  const newDueAt = defaultDueDate(item.dueAt > now ? item.dueAt : now, gearType, tierRules);
+
+  // Other members' reservations that need this gear during the extension
+  const holds = (await deps.reservationRepo.findPendingOverlapping(item.dueAt, newDueAt)).filter(
+    (r) => r.isHolding(now) && r.memberId !== checkout.memberId
+  );
+  let reservedByOtherMember: boolean;
+  if (item.gearItemId) {
+    reservedByOtherMember = holds.some((r) => r.includesGearItem(item.gearItemId!));
+  } else {
+    const availability = calculateBulkAvailability(gearType, await loadOpenCheckouts(deps), {
+      holds,
+      from: item.dueAt
+    });
+    reservedByOtherMember =
+      availability.checkedOut + availability.maintenance + availability.reserved > availability.total;
+  }
+
+  // Overdue as soon as the due time passes, the same as Checkout.getOverdueItems
+  const overdue = item.dueAt < now;
+
+  const renewalPolicy = tierRules.maxRenewals === null
+    ? deps.renewalPolicy
+    : { ...deps.renewalPolicy, maxRenewals: tierRules.maxRenewals };
+  const decision = evaluateRenewal(renewalPolicy, {
+    renewalCount: item.renewalCount,
+    overdue,
+    daysOverdue: daysPastDue(item.dueAt, now),
+    reservedByOtherMember,
+    staffOverride: input.staffOverride ?? false
+  });
+  if (!decision.ok) {
+    return decision;
+  }
+
+  const renewed = checkout.renewItem(input.itemId, newDueAt, input.kitId ?? null);
+  if (!renewed.ok) {
+    return err(
+      renewed.error.type === 'item_not_found'
+        ? { type: 'item_not_found', itemId: input.itemId }
+        : renewed.error
+    );
+  }
+
+  const renewedItem = renewed.value.findItem(input.itemId, input.kitId ?? null)!;
+  await deps.unitOfWork.run(async () => {
+    await deps.checkoutRepo.save(renewed.value);
+    await deps.eventPublisher.publish(
+      CheckoutRenewed.create(
+        {
+          aggregateId: checkout.id,
+          staffMemberId: input.staffMemberId,
+          payload: {
+            checkoutId: checkout.id,
+            memberId: checkout.memberId,
+            itemId: input.itemId,
+            renewalCount: renewedItem.renewalCount,
+            previousDueAt: item.dueAt.toISOString(),
+            newDueAt: newDueAt.toISOString(),
+            staffOverride: overdue && (input.staffOverride ?? false)
+          }
+        },
+        deps
+      )
+    );
+  });
+
+  return ok({ checkout: renewed.value, item: renewedItem, previousDueAt: item.dueAt });
+}
+
 // ============================================================================
 // Get Active Checkouts for Member
 // ============================================================================
@@ -232,17 +616,28 @@ export interface GetActiveCheckoutsDeps {
   checkoutRepo: CheckoutRepository;
   gearTypeRepo: GearTypeRepository;
   gearItemRepo: GearItemRepository;
+  kitRepo: KitRepository;
+}
+
+export interface ActiveCheckoutItem {
+  gearType: GearType;
+  gearItem?: GearItem;
+  quantity: number;
+  returnedQuantity: number;
+  dueAt: Date;
+  isOverdue: boolean;
 }
 
 export interface ActiveCheckoutSummary {
   checkout: Checkout;
-  items: Array<{
-    gearType: GearType;
-    gearItem?: GearItem;
-    quantity: number;
-    returnedQuantity: number;
-    dueAt: Date;
-    isOverdue: boolean;
+  // Items checked out on their own
+  items: ActiveCheckoutItem[];
+  // Items checked out as part of a kit, grouped per kit
+  kits: Array<{
+    kitId: string;
+    // Null if the kit definition has since been deleted
+    kit: Kit | null;
+    items: ActiveCheckoutItem[];
   }>;
 }
 
@@ -258,7 +653,8 @@ export async function getActiveCheckoutsForMember(
   const summaries: ActiveCheckoutSummary[] = [];
 
   for (const checkout of checkouts) {
-    const items: ActiveCheckoutSummary['items'] = [];
+    const items: ActiveCheckoutItem[] = [];
+    const kits: ActiveCheckoutSummary['kits'] = [];
 
     for (const item of checkout.items) {
       let gearType: GearType | null = null;
@@ -274,18 +670,29 @@ export async function getActiveCheckoutsForMember(
       }
 
       if (gearType) {
-        items.push({
+        const summaryItem: ActiveCheckoutItem = {
           gearType,
           gearItem,
           quantity: item.quantity,
           returnedQuantity: item.returnedQuantity,
           dueAt: item.dueAt,
-          isOverdue: item.dueAt < asOf && item.returnedAt === null
-        });
+          isOverdue: item.dueAt < asOf && item.returnedAt === null && item.lostAt === null
+        };
+
+        if (item.kitId) {
+          let group = kits.find((k) => k.kitId === item.kitId);
+          if (!group) {
+            group = { kitId: item.kitId, kit: await deps.kitRepo.findById(item.kitId), items: [] };
+            kits.push(group);
+          }
+          group.items.push(summaryItem);
+        } else {
+          items.push(summaryItem);
+        }
       }
     }
 
-    summaries.push({ checkout, items });
+    summaries.push({ checkout, items, kits });
   }
 
   return summaries;
@@ -298,18 +705,33 @@ export async function getActiveCheckoutsForMember(
 export interface SearchGearDeps {
   gearTypeRepo: GearTypeRepository;
   gearItemRepo: GearItemRepository;
+  checkoutRepo: CheckoutRepository;
+  reservationRepo: ReservationRepository;
+  memberRepo: MemberRepository;
+  clock: Clock;
+}
+
+export interface GearItemHold {
+  reservationId: string;
+  memberId: string;
+  memberName: string;
+  pickupStart: Date;
 }
 
 export interface GearSearchResult {
   gearType: GearType;
   // For INDIVIDUAL tracking: list of available items
   availableItems?: GearItem[];
+  // For INDIVIDUAL tracking: upcoming reservation holds keyed by gear item ID
+  reservedFor?: Record<string, GearItemHold>;
   // For BULK tracking: available quantity
   availableQuantity?: number;
 }
 
 /**
  * Search for available gear by name or category.
+ * Bulk quantities account for reservations overlapping a default-length checkout
+ * starting now; individual items are annotated with their next reservation.
  */
 export async function searchAvailableGear(
   deps: SearchGearDeps,
@@ -326,17 +748,45 @@ export async function searchAvailableGear(
     gearTypes = await deps.gearTypeRepo.findAll();
   }
 
+  const now = deps.clock.now();
   const results: GearSearchResult[] = [];
+  const openCheckouts = await loadOpenCheckouts(deps);
+  const holds = (await deps.reservationRepo.findAll({ status: ReservationStatus.PENDING }))
+    .filter((r) => r.isHolding(now))
+    .sort((a, b) => a.pickupWindow.start.getTime() - b.pickupWindow.start.getTime());
+  const memberNames = new Map<string, string>();
 
   for (const gearType of gearTypes) {
     if (gearType.trackingMode === TrackingMode.INDIVIDUAL) {
       const items = await deps.gearItemRepo.findByGearTypeId(gearType.id);
       const availableItems = items.filter(i => i.canCheckout());
-      results.push({ gearType, availableItems });
+      const reservedFor: Record<string, GearItemHold> = {};
+
+      for (const item of availableItems) {
+        const hold = holds.find((r) => r.includesGearItem(item.id));
+        if (hold) {
+          if (!memberNames.has(hold.memberId)) {
+            const holder = await deps.memberRepo.findById(hold.memberId);
+            memberNames.set(hold.memberId, holder?.fullName ?? 'Unknown member');
+          }
+          reservedFor[item.id] = {
+            reservationId: hold.id,
+            memberId: hold.memberId,
+            memberName: memberNames.get(hold.memberId)!,
+            pickupStart: hold.pickupWindow.start
+          };
+        }
+      }
+
+      results.push({ gearType, availableItems, reservedFor });
     } else {
-      // For bulk, we'd need to calculate from active checkouts
-      // Simplified: just return total quantity for now
-      results.push({ gearType, availableQuantity: gearType.totalQuantity });
+      const dueAt = addDays(now, gearType.checkoutDurationDays);
+      const overlapping = holds.filter((r) => r.overlaps(now, dueAt));
+      results.push({
+        gearType,
+        availableQuantity: calculateBulkAvailability(gearType, openCheckouts, { holds: overlapping })
+          .available
+      });
     }
   }
 
@@ -5,8 +5,17 @@ import type {
   MemberRepository
 } from '../ports/repositories.js';
 import type { Clock } from '../ports/services.js';
-import type { GearCategory, TrackingMode } from '../../domain/types.js';
-import { GearStatus } from '../../domain/types.js';
+import type { GearCategory, MembershipPlan, TrackingMode } from '../../domain/types.js';
+import { GearStatus, MembershipStatus } from '../../domain/types.js';
+import type { GearType } from '../../domain/entities/gear-type.js';
+import {
+  type LateFeePolicy,
+  lateFeeRuleFor,
+  calculateLateFee,
+  type MembershipTierPolicy,
+  tierLateFee
+} from '../../domain/policies/index.js';
+import { getBulkAvailability } from './availability-use-cases.js';
 
 // ============================================================================
 // Get Overdue Checkouts
@@ -18,6 +27,8 @@ export interface GetOverdueCheckoutsDeps {
   gearTypeRepo: GearTypeRepository;
   gearItemRepo: GearItemRepository;
   clock: Clock;
+  lateFeePolicy: LateFeePolicy;
+  membershipTierPolicy: MembershipTierPolicy;
 }
 
 export interface OverdueCheckoutItem {
@@ -30,6 +41,8 @@ export interface OverdueCheckoutItem {
   itemDescription: string;
   dueAt: Date;
   daysOverdue: number;
+  // Running late fee if the item came back today
+  estimatedLateFeeCents: number;
 }
 
 /**
@@ -49,18 +62,19 @@ export async function getOverdueCheckouts(
 
     for (const item of checkout.getOverdueItems(now)) {
       let itemDescription = '';
+      let gearType: GearType | null = null;
+      const remaining = item.quantity - item.returnedQuantity;
 
       if (item.gearItemId) {
         const gearItem = await deps.gearItemRepo.findById(item.gearItemId);
         if (gearItem) {
-          const gearType = await deps.gearTypeRepo.findById(gearItem.gearTypeId);
+          gearType = await deps.gearTypeRepo.findById(gearItem.gearTypeId);
           itemDescription = gearType
             ? `${gearType.name} (${gearItem.code})`
             : gearItem.code;
         }
       } else if (item.gearTypeId) {
-        const gearType = await deps.gearTypeRepo.findById(item.gearTypeId);
-        const remaining = item.quantity - item.returnedQuantity;
+        gearType = await deps.gearTypeRepo.findById(item.gearTypeId);
         itemDescription = gearType
           ? `${gearType.name} x${remaining}`
           : `Unknown x${remaining}`;
@@ -69,6 +83,12 @@ export async function getOverdueCheckouts(
       const daysOverdue = Math.floor(
         (now.getTime() - item.dueAt.getTime()) / (1000 * 60 * 60 * 24)
       );
+      const estimatedLateFeeCents = gearType
+        ? tierLateFee(
+            deps.membershipTierPolicy[member.tier],
+            calculateLateFee(lateFeeRuleFor(deps.lateFeePolicy, gearType), daysOverdue, remaining)
+          )
+        : 0;
 
       items.push({
         checkoutId: checkout.id,
@@ -79,7 +99,8 @@ export async function getOverdueCheckouts(
         collegeId: member.collegeId.value,
         itemDescription,
         dueAt: item.dueAt,
-        daysOverdue
+        daysOverdue,
+        estimatedLateFeeCents
       });
     }
   }
@@ -88,6 +109,56 @@ export async function getOverdueCheckouts(
   return items;
 }
 
+// ============================================================================
+// Get Expiring Memberships
+// ============================================================================
+
+export interface GetExpiringMembershipsDeps {
+  memberRepo: MemberRepository;
+  clock: Clock;
+}
+
+export interface ExpiringMembership {
+  memberId: string;
+  memberName: string;
+  memberEmail: string;
+  collegeId: string;
+  plan: MembershipPlan;
+  endsAt: Date;
+  daysLeft: number;
+}
+
+/**
+ * Active memberships whose term ends within `withinDays`, soonest first.
+ */
+export async function getExpiringMemberships(
+  deps: GetExpiringMembershipsDeps,
+  withinDays = 14
+): Promise<ExpiringMembership[]> {
+  const now = deps.clock.now();
+  const cutoff = new Date(now.getTime() + withinDays * 1000 * 60 * 60 * 24);
+  const members = await deps.memberRepo.findAll({ status: MembershipStatus.ACTIVE });
+  const items: ExpiringMembership[] = [];
+
+  for (const member of members) {
+    const term = member.term;
+    if (!term || term.endsAt <= now || term.endsAt > cutoff) continue;
+
+    items.push({
+      memberId: member.id,
+      memberName: member.fullName,
+      memberEmail: member.email.value,
+      collegeId: member.collegeId.value,
+      plan: term.plan,
+      endsAt: term.endsAt,
+      daysLeft: Math.ceil((term.endsAt.getTime() - now.getTime()) / (1000 * 60 * 60 * 24))
+    });
+  }
+
+  items.sort((a, b) => a.endsAt.getTime() - b.endsAt.getTime());
+  return items;
+}
+
 // ============================================================================
 // Get Inventory Status
 // ============================================================================
@@ -95,6 +166,7 @@ export async function getOverdueCheckouts(
 export interface GetInventoryStatusDeps {
   gearTypeRepo: GearTypeRepository;
   gearItemRepo: GearItemRepository;
+  checkoutRepo: CheckoutRepository;
 }
 
 export interface CategoryInventoryStatus {
@@ -184,11 +256,15 @@ export async function getInventoryStatus(
     }
   }
 
-  // Add bulk-tracked gear types (total quantity counted as available)
+  // Add bulk-tracked gear types, split by what is out on open checkouts
+  const bulkAvailability = await getBulkAvailability(deps, gearTypes);
   for (const gt of gearTypes) {
-    if (gt.trackingMode === 'BULK' && gt.totalQuantity > 0) {
+    const availability = bulkAvailability.get(gt.id);
+    if (availability && availability.total > 0) {
       const counts = ensureCategory(gt.category);
-      counts.available += gt.totalQuantity;
+      counts.available += availability.available;
+      counts.checkedOut += availability.checkedOut;
+      counts.maintenance += availability.maintenance;
     }
   }
 
@@ -5,11 +5,33 @@ export {
   lookupMemberByCollegeId,
   getCheckoutEligibility,
   searchMembers,
+  suspendMember,
+  reinstateMember,
+  changeMembershipTier,
+  renewMembership,
+  expireLapsedMemberships,
+  applyStrikePolicy,
+  subscribeStrikePolicy,
+  liftExpiredSuspensions,
   type RegisterMemberError,
   type RegisterMemberDeps,
+  type RegisterMemberInput,
   type SignWaiverError,
   type SignWaiverDeps,
   type SignWaiverInput,
+  type SuspendMemberError,
+  type ReinstateMemberError,
+  type SuspendMemberDeps,
+  type SuspendMemberInput,
+  type ReinstateMemberInput,
+  type ChangeMembershipTierError,
+  type ChangeMembershipTierInput,
+  type RenewMembershipError,
+  type RenewMembershipDeps,
+  type RenewMembershipInput,
+  type ExpireLapsedMembershipsDeps,
+  type ApplyStrikePolicyDeps,
+  type LiftExpiredSuspensionsDeps,
   type LookupMemberDeps,
   type CheckoutEligibility,
   type CheckoutIneligibilityReason,
@@ -18,9 +40,32 @@ export {
   type CreateMemberInput
 } from './member-use-cases.js';
 
+// Member import use cases
+export {
+  readCsvHeaders,
+  guessColumnMapping,
+  previewMemberImport,
+  applyMemberImport,
+  describeImportRowError,
+  formatImportFailureReport,
+  type MemberImportField,
+  type MemberImportColumnMapping,
+  type MemberImportValues,
+  type MemberImportError,
+  type MemberImportRowError,
+  type MemberImportRowStatus,
+  type MemberImportRow,
+  type MemberImportPreview,
+  type MemberImportDeps,
+  type PreviewMemberImportInput,
+  type ApplyMemberImportInput,
+  type MemberImportResult
+} from './member-import-use-cases.js';
+
 // Checkout use cases
 export {
   createCheckout,
+  renewCheckoutItem,
   getActiveCheckoutsForMember,
   searchAvailableGear,
   type CreateCheckoutError,
@@ -28,9 +73,15 @@ export {
   type CheckoutItemRequest,
   type CreateCheckoutInput,
   type CreateCheckoutResult,
+  type RenewCheckoutItemError,
+  type RenewCheckoutItemDeps,
+  type RenewCheckoutItemInput,
+  type RenewCheckoutItemResult,
   type GetActiveCheckoutsDeps,
+  type ActiveCheckoutItem,
   type ActiveCheckoutSummary,
   type SearchGearDeps,
+  type GearItemHold,
   type GearSearchResult
 } from './checkout-use-cases.js';
 
@@ -55,12 +106,85 @@ export {
   type ItemLookupResult
 } from './return-use-cases.js';
 
+// Reservation use cases
+export {
+  createReservation,
+  cancelReservation,
+  fulfillReservation,
+  listPendingReservations,
+  type CreateReservationError,
+  type CreateReservationDeps,
+  type CreateReservationUseCaseInput,
+  type CancelReservationError,
+  type CancelReservationDeps,
+  type FulfillReservationError,
+  type FulfillReservationDeps,
+  type FulfillReservationInput,
+  type FulfillReservationResult,
+  type ListReservationsDeps,
+  type ReservationSummary
+} from './reservation-use-cases.js';
+
+// Staff use cases
+export {
+  createStaffMember,
+  signInStaff,
+  changeStaffRole,
+  changeStaffPin,
+  listActiveStaffMembers,
+  listStaffMembers,
+  type CreateStaffMemberUseCaseError,
+  type CreateStaffMemberDeps,
+  type CreateStaffMemberInput,
+  type SignInStaffError,
+  type SignInStaffDeps,
+  type SignInStaffInput,
+  type ChangeStaffRoleError,
+  type ChangeStaffRoleDeps,
+  type ChangeStaffRoleInput,
+  type ChangeStaffPinError,
+  type ChangeStaffPinDeps,
+  type ChangeStaffPinInput,
+  type ListStaffMembersDeps
+} from './staff-use-cases.js';
+
+// Kit use cases
+export {
+  createKit,
+  updateKit,
+  deleteKit,
+  listKits,
+  type CreateKitUseCaseError,
+  type CreateKitDeps,
+  type CreateKitUseCaseInput,
+  type UpdateKitError,
+  type UpdateKitDeps,
+  type UpdateKitInput,
+  type DeleteKitError,
+  type DeleteKitDeps,
+  type ListKitsDeps,
+  type KitListItem
+} from './kit-use-cases.js';
+
+// Availability use cases
+export {
+  calculateBulkAvailability,
+  getBulkAvailability,
+  loadOpenCheckouts,
+  type BulkAvailabilityDeps,
+  type BulkAvailabilityOptions,
+  type BulkAvailability
+} from './availability-use-cases.js';
+
 // Dashboard use cases
 export {
   getOverdueCheckouts,
   getInventoryStatus,
+  getExpiringMemberships,
   type GetOverdueCheckoutsDeps,
   type OverdueCheckoutItem,
+  type GetExpiringMembershipsDeps,
+  type ExpiringMembership,
   type GetInventoryStatusDeps,
   type CategoryInventoryStatus,
   type InventoryStatusSummary
@@ -71,7 +195,10 @@ export {
   createGearType,
   updateGearType,
   updateBulkQuantity,
+  sendBulkUnitsToMaintenance,
+  returnBulkUnitsFromMaintenance,
   deleteGearType,
+  setReturnChecklist,
   addGearItem,
   updateGearItem,
   sendItemToMaintenance,
@@ -81,11 +208,16 @@ export {
   listGearTypesWithStatus,
   type CreateGearTypeUseCaseError,
   type CreateGearTypeDeps,
+  type CreateGearTypeUseCaseInput,
   type UpdateGearTypeError,
   type UpdateGearTypeDeps,
   type UpdateGearTypeInput,
+  type SetReturnChecklistError,
+  type SetReturnChecklistInput,
   type UpdateBulkQuantityError,
   type UpdateBulkQuantityDeps,
+  type BulkMaintenanceError,
+  type BulkMaintenanceDeps,
   type DeleteGearTypeError,
   type DeleteGearTypeDeps,
   type AddGearItemError,
@@ -104,12 +236,25 @@ export {
   type GearTypeListItem
 } from './inventory-use-cases.js';
 
+// Audit use cases
+export {
+  getAuditLog,
+  listAuditEventTypes,
+  type AuditSubject,
+  type GetAuditLogDeps,
+  type AuditLogQuery,
+  type AuditLogEntry,
+  type AuditLogPage,
+  type ListAuditEventTypesDeps
+} from './audit-use-cases.js';
+
 // Member history use cases
 export {
   getMemberProfile,
   getMemberOpenItems,
   getMemberBehaviorSummary,
   getMemberActivityTimeline,
+  getMemberStrikes,
   type GetMemberHistoryDeps,
   type MemberProfile,
   type OpenItemSummary,
@@ -117,3 +262,122 @@ export {
   type TimelineEvent,
   type TimelineEventType
 } from './member-history-use-cases.js';
+
+// Lost item use cases
+export {
+  declareItemLost,
+  recoverLostItem,
+  type DeclareItemLostError,
+  type DeclareItemLostDeps,
+  type DeclareItemLostInput,
+  type DeclareItemLostResult,
+  type RecoverLostItemError,
+  type RecoverLostItemDeps,
+  type RecoverLostItemInput,
+  type RecoverLostItemResult
+} from './lost-item-use-cases.js';
+
+// Account use cases
+export {
+  getMemberAccount,
+  postCharge,
+  postPayment,
+  voidCharge,
+  postRefund,
+  type PostAccountEntryDeps,
+  type GetMemberAccountDeps,
+  type PostChargeError,
+  type PostChargeInput,
+  type PostPaymentError,
+  type PostPaymentInput,
+  type VoidChargeUseCaseError,
+  type VoidChargeInput,
+  type PostRefundError,
+  type PostRefundInput
+} from './account-use-cases.js';
+
+// Waiver use cases
+export {
+  publishWaiverDocument,
+  getCurrentWaiverDocument,
+  listWaiverDocuments,
+  type PublishWaiverDocumentError,
+  type PublishWaiverDocumentDeps,
+  type PublishWaiverDocumentInput,
+  type WaiverDocumentQueryDeps
+} from './waiver-use-cases.js';
+
+// Certification use cases
+export {
+  createCertificationType,
+  updateCertificationRequirements,
+  listCertificationTypes,
+  grantCertification,
+  revokeCertification,
+  findMissingCertifications,
+  describeMemberCertifications,
+  type MissingCertification,
+  type MemberCertificationStatus,
+  type CreateCertificationTypeUseCaseError,
+  type CreateCertificationTypeUseCaseInput,
+  type UpdateCertificationRequirementsError,
+  type UpdateCertificationRequirementsInput,
+  type CertificationTypeDeps,
+  type ListCertificationTypesDeps,
+  type GrantCertificationError,
+  type RevokeCertificationUseCaseError,
+  type GrantCertificationDeps,
+  type GrantCertificationInput
+} from './certification-use-cases.js';
+
+// Maintenance use cases
+export {
+  openMaintenanceTicket,
+  updateMaintenanceTicket,
+  closeMaintenanceTicket,
+  finishItemMaintenance,
+  listMaintenanceQueue,
+  getMaintenanceHistory,
+  getMemberDamageHistory,
+  createDamagedReturnTicket,
+  saveOpenedTicket,
+  type MaintenanceTicketDeps,
+  type OpenMaintenanceTicketError,
+  type OpenMaintenanceTicketInput,
+  type UpdateMaintenanceTicketUseCaseError,
+  type UpdateMaintenanceTicketInput,
+  type CloseMaintenanceTicketUseCaseError,
+  type CloseMaintenanceTicketInput,
+  type FinishItemMaintenanceInput,
+  type MaintenanceQueueEntry,
+  type MaintenanceQueryDeps
+} from './maintenance-use-cases.js';
+
+// Inspection use cases
+export {
+  setInspectionSchedule,
+  recordInspection,
+  listInspectionsDue,
+  getInspectionHistory,
+  type SetInspectionScheduleError,
+  type SetInspectionScheduleDeps,
+  type SetInspectionScheduleInput,
+  type RecordInspectionError,
+  type RecordInspectionDeps,
+  type RecordInspectionInput,
+  type RecordInspectionResult,
+  type InspectionDue,
+  type ListInspectionsDueDeps,
+  type InspectionHistoryEntry
+} from './inspection-use-cases.js';
+
+// Lifecycle use cases
+export {
+  setLifecycleLimit,
+  listRetirementsDue,
+  type SetLifecycleLimitError,
+  type SetLifecycleLimitDeps,
+  type SetLifecycleLimitInput,
+  type RetirementDue,
+  type ListRetirementsDueDeps
+} from './lifecycle-use-cases.js';
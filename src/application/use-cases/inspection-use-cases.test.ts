@@ -0,0 +1,182 @@
+import { describe, it, expect } from 'vitest';
+import {
+  setInspectionSchedule,
+  recordInspection,
+  listInspectionsDue,
+  getInspectionHistory
+} from './inspection-use-cases.js';
+import { createCheckout } from './checkout-use-cases.js';
+import { returnItemByCode } from './return-use-cases.js';
+import { GearItem } from '../../domain/entities/gear-item.js';
+import { GearCondition, GearStatus, StaffRole } from '../../domain/types.js';
+import { unwrap } from '../result.js';
+import { createTestEnvironment } from '../../test-utils/in-memory-repositories.js';
+import { createPads, createTestMember, createTestStaffMember, createTent } from '../../test-utils/fixtures.js';
+
+// ============================================================================
+// Test helpers
+// ============================================================================
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const CHECKLIST = ['Poles straight', 'Zippers run'];
+
+async function makeDeps(schedule: { intervalDays: number | null; intervalUses: number | null }) {
+  const deps = createTestEnvironment();
+  await createTestStaffMember(deps);
+  await createTestStaffMember(deps, 'desk-1', StaffRole.DESK);
+  const member = await createTestMember(deps, 'S100', 'Avery');
+  const { gearType, item } = await createTent(deps);
+  unwrap(
+    await setInspectionSchedule(deps, {
+      gearTypeId: gearType.id,
+      schedule: { ...schedule, checklist: CHECKLIST },
+      staffMemberId: 'staff-1'
+    })
+  );
+  return { deps, member, gearType, item };
+}
+
+function allPassed() {
+  return CHECKLIST.map((point) => ({ point, passed: true }));
+}
+
+function advanceDays(deps: ReturnType<typeof createTestEnvironment>, days: number) {
+  deps.clock.set(new Date(deps.clock.now().getTime() + days * DAY_MS));
+}
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+describe('inspection schedules', () => {
+  it('are set by coordinators on individually tracked gear types', async () => {
+    const { deps, gearType } = await makeDeps({ intervalDays: 90, intervalUses: null });
+    const pads = await createPads(deps);
+
+    expect((await deps.gearTypeRepo.findById(gearType.id))?.inspectionSchedule).toEqual({
+      intervalDays: 90,
+      intervalUses: null,
+      checklist: CHECKLIST
+    });
+    expect(deps.events.at(-1)).toMatchObject({
+      type: 'InspectionScheduleUpdated',
+      payload: { name: 'REI Half Dome 2', intervalDays: 90, checklistPoints: 2 }
+    });
+
+    const schedule = { intervalDays: 30, intervalUses: null, checklist: [] };
+    expect(
+      await setInspectionSchedule(deps, { gearTypeId: gearType.id, schedule, staffMemberId: 'desk-1' })
+    ).toMatchObject({ ok: false, error: { type: 'forbidden' } });
+    expect(
+      await setInspectionSchedule(deps, { gearTypeId: pads.id, schedule, staffMemberId: 'staff-1' })
+    ).toEqual({ ok: false, error: { type: 'not_individually_tracked' } });
+    expect(
+      await setInspectionSchedule(deps, {
+        gearTypeId: gearType.id,
+        schedule: { intervalDays: null, intervalUses: null, checklist: [] },
+        staffMemberId: 'staff-1'
+      })
+    ).toEqual({ ok: false, error: { type: 'no_inspection_interval' } });
+  });
+});
+
+describe('inspections', () => {
+  it('checkouts are refused once the days interval runs out, until the item passes again', async () => {
+    const { deps, member, item } = await makeDeps({ intervalDays: 90, intervalUses: null });
+    advanceDays(deps, 91);
+
+    expect(
+      await createCheckout(deps, { memberId: member.id, staffMemberId: 'staff-1', items: [{ itemCode: item.code }] })
+    ).toEqual({ ok: false, error: { type: 'inspection_overdue', code: 'TENT-001' } });
+
+    const { inspection, gearItem } = unwrap(
+      await recordInspection(deps, { gearItemId: item.id, passed: true, answers: allPassed(), staffMemberId: 'desk-1' })
+    );
+    expect(gearItem.lastInspectedAt).toEqual(deps.clock.now());
+    expect(deps.events.at(-1)).toMatchObject({ type: 'GearItemInspected', payload: { code: 'TENT-001', passed: true } });
+    expect(await getInspectionHistory(deps, item.id)).toEqual([{ inspection, inspectorName: 'Staff desk-1' }]);
+
+    unwrap(
+      await createCheckout(deps, { memberId: member.id, staffMemberId: 'staff-1', items: [{ itemCode: item.code }] })
+    );
+  });
+
+  it('counts checkouts against a uses interval', async () => {
+    const { deps, member, item } = await makeDeps({ intervalDays: null, intervalUses: 2 });
+
+    for (let use = 0; use < 2; use++) {
+      unwrap(
+        await createCheckout(deps, { memberId: member.id, staffMemberId: 'staff-1', items: [{ itemCode: item.code }] })
+      );
+      unwrap(
+        await returnItemByCode(deps, { itemCode: item.code, condition: GearCondition.GOOD, staffMemberId: 'staff-1' })
+      );
+    }
+
+    expect(
+      await createCheckout(deps, { memberId: member.id, staffMemberId: 'staff-1', items: [{ itemCode: item.code }] })
+    ).toEqual({ ok: false, error: { type: 'inspection_overdue', code: 'TENT-001' } });
+  });
+
+  it('a failed inspection sends the item for repair', async () => {
+    const { deps, item } = await makeDeps({ intervalDays: 90, intervalUses: null });
+
+    expect(
+      await recordInspection(deps, {
+        gearItemId: item.id,
+        passed: true,
+        answers: [{ point: 'Poles straight', passed: true }],
+        staffMemberId: 'staff-1'
+      })
+    ).toEqual({ ok: false, error: { type: 'incomplete_checklist', missing: ['Zippers run'] } });
+    expect(
+      await recordInspection(deps, {
+        gearItemId: item.id,
+        passed: true,
+        answers: [
+          { point: 'Poles straight', passed: false },
+          { point: 'Zippers run', passed: true }
+        ],
+        staffMemberId: 'staff-1'
+      })
+    ).toEqual({ ok: false, error: { type: 'failed_point_in_passed_inspection', point: 'Poles straight' } });
+
+    const result = unwrap(
+      await recordInspection(deps, {
+        gearItemId: item.id,
+        passed: false,
+        answers: [
+          { point: 'Poles straight', passed: false },
+          { point: 'Zippers run', passed: true }
+        ],
+        staffMemberId: 'staff-1'
+      })
+    );
+
+    expect(result.gearItem.status).toBe(GearStatus.MAINTENANCE);
+    expect(result.gearItem.lastInspectedAt).toBeNull();
+    expect(result.maintenanceTicket?.issue).toBe('Failed inspection: Poles straight');
+    expect(deps.events.map((e) => e.type).slice(-3)).toEqual([
+      'GearItemSentToMaintenance',
+      'MaintenanceTicketOpened',
+      'GearItemInspected'
+    ]);
+  });
+
+  it('lists overdue items first, then those coming up', async () => {
+    const { deps, gearType } = await makeDeps({ intervalDays: 90, intervalUses: null });
+    advanceDays(deps, 10);
+    await deps.gearItemRepo.save(unwrap(GearItem.create({ gearTypeId: gearType.id, code: 'TENT-002' }, deps)));
+    advanceDays(deps, 50);
+    await deps.gearItemRepo.save(unwrap(GearItem.create({ gearTypeId: gearType.id, code: 'TENT-003' }, deps)));
+    advanceDays(deps, 35);
+
+    const due = await listInspectionsDue(deps);
+
+    expect(due.map((d) => [d.code, d.overdue])).toEqual([
+      ['TENT-001', true],
+      ['TENT-002', false]
+    ]);
+    expect(due[1].dueAt).toEqual(new Date(deps.clock.now().getTime() + 5 * DAY_MS));
+  });
+});
@@ -0,0 +1,305 @@
+import { type Result, ok, err } from '../result.js';
+import { type ForbiddenError, authorize } from '../authorization.js';
+import type {
+  GearItemRepository,
+  GearTypeRepository,
+  InspectionRepository,
+  StaffMemberRepository
+} from '../ports/repositories.js';
+import type { IdGenerator, Clock, EventPublisher } from '../ports/services.js';
+import type { GearType, InspectionSchedule, InspectionScheduleError } from '../../domain/entities/gear-type.js';
+import type { GearItem } from '../../domain/entities/gear-item.js';
+import type { MaintenanceTicket } from '../../domain/entities/maintenance-ticket.js';
+import {
+  Inspection,
+  type InspectionAnswer,
+  type CreateInspectionError
+} from '../../domain/entities/inspection.js';
+import { GearStatus } from '../../domain/types.js';
+import { gearItemId, gearTypeId } from '../../domain/value-objects/index.js';
+import { Permission, inspectionStanding } from '../../domain/policies/index.js';
+import { InspectionScheduleUpdated, GearItemInspected } from '../../domain/events/index.js';
+import {
+  openMaintenanceTicket,
+  type MaintenanceTicketDeps,
+  type OpenMaintenanceTicketError
+} from './maintenance-use-cases.js';
+
+// ============================================================================
+// Schedules
+// ============================================================================
+
+export type SetInspectionScheduleError =
+  | ForbiddenError
+  | InspectionScheduleError
+  | { type: 'not_found'; id: string };
+
+export interface SetInspectionScheduleDeps {
+  gearTypeRepo: GearTypeRepository;
+  staffMemberRepo: StaffMemberRepository;
+  idGenerator: IdGenerator;
+  clock: Clock;
+  eventPublisher: EventPublisher;
+}
+
+export interface SetInspectionScheduleInput {
+  gearTypeId: string;
+  // Null stops requiring inspections for the type
+  schedule: InspectionSchedule | null;
+  staffMemberId: string;
+}
+
+/**
+ * Set how often a gear type's items must be inspected. Coordinators and admins only.
+ */
+export async function setInspectionSchedule(
+  deps: SetInspectionScheduleDeps,
+  input: SetInspectionScheduleInput
+): Promise<Result<GearType, SetInspectionScheduleError>> {
+  const auth = await authorize(deps, input.staffMemberId, Permission.MANAGE_INSPECTIONS);
+  if (!auth.ok) {
+    return auth;
+  }
+
+  const gearType = await deps.gearTypeRepo.findById(gearTypeId(input.gearTypeId));
+  if (!gearType) {
+    return err({ type: 'not_found', id: input.gearTypeId });
+  }
+
+  const result = gearType.setInspectionSchedule(input.schedule, deps);
+  if (!result.ok) {
+    return result;
+  }
+
+  const schedule = result.value.inspectionSchedule;
+  await deps.gearTypeRepo.save(result.value);
+  await deps.eventPublisher.publish(
+    InspectionScheduleUpdated.create(
+      {
+        aggregateId: gearType.id,
+        staffMemberId: input.staffMemberId,
+        payload: {
+          name: gearType.name,
+          ...(schedule?.intervalDays && { intervalDays: schedule.intervalDays }),
+          ...(schedule?.intervalUses && { intervalUses: schedule.intervalUses }),
+          checklistPoints: schedule?.checklist.length ?? 0
+        }
+      },
+      deps
+    )
+  );
+
+  return result;
+}
+
+// ============================================================================
+// Record Inspection
+// ============================================================================
+
+export type RecordInspectionError =
+  | CreateInspectionError
+  | OpenMaintenanceTicketError
+  | { type: 'not_found'; id: string }
+  | { type: 'no_inspection_schedule' }
+  | { type: 'incomplete_checklist'; missing: string[] }
+  | { type: 'is_checked_out' }
+  | { type: 'is_retired' }
+  | { type: 'is_lost' };
+
+export interface RecordInspectionDeps extends MaintenanceTicketDeps {
+  gearTypeRepo: GearTypeRepository;
+  inspectionRepo: InspectionRepository;
+}
+
+export interface RecordInspectionInput {
+  gearItemId: string;
+  passed: boolean;
+  // One answer per point of the gear type's checklist
+  answers: InspectionAnswer[];
+  notes?: string;
+  staffMemberId: string;
+}
+
+export interface RecordInspectionResult {
+  inspection: Inspection;
+  gearItem: GearItem;
+  // Opened when a failed item was not already being repaired
+  maintenanceTicket: MaintenanceTicket | null;
+}
+
+/**
+ * Record a safety inspection of an item on the shelf. Passing restarts the item's
+ * inspection interval; failing sends it for repair.
+ */
+export async function recordInspection(
+  deps: RecordInspectionDeps,
+  input: RecordInspectionInput
+): Promise<Result<RecordInspectionResult, RecordInspectionError>> {
+  const item = await deps.gearItemRepo.findById(gearItemId(input.gearItemId));
+  if (!item) {
+    return err({ type: 'not_found', id: input.gearItemId });
+  }
+  const gearType = await deps.gearTypeRepo.findById(item.gearTypeId);
+  const schedule = gearType?.inspectionSchedule;
+  if (!schedule) {
+    return err({ type: 'no_inspection_schedule' });
+  }
+
+  const missing = schedule.checklist.filter((point) => !input.answers.some((a) => a.point === point));
+  if (missing.length > 0) {
+    return err({ type: 'incomplete_checklist', missing });
+  }
+
+  // Also checks the item is on the shelf, whether or not it passed
+  const inspected = item.markInspected(deps);
+  if (!inspected.ok) {
+    return inspected;
+  }
+
+  const created = Inspection.create(
+    {
+      gearItemId: item.id,
+      inspectedBy: input.staffMemberId,
+      passed: input.passed,
+      answers: schedule.checklist.map((point) => input.answers.find((a) => a.point === point)!),
+      notes: input.notes
+    },
+    deps
+  );
+  if (!created.ok) {
+    return created;
+  }
+  const inspection = created.value;
+
+  return deps.unitOfWork.run(async (): Promise<Result<RecordInspectionResult, RecordInspectionError>> => {
+    let gearItem = item;
+    let maintenanceTicket: MaintenanceTicket | null = null;
+
+    if (inspection.passed) {
+      gearItem = inspected.value;
+      await deps.gearItemRepo.save(gearItem);
+    } else {
+      const failed = inspection.failedPoints;
+      const opened = await openMaintenanceTicket(deps, {
+        gearItemId: item.id,
+        issue: `Failed inspection${failed.length > 0 ? `: ${failed.join(', ')}` : ''}`,
+        staffMemberId: input.staffMemberId
+      });
+      if (!opened.ok && opened.error.type !== 'ticket_already_open') {
+        return opened;
+      }
+      maintenanceTicket = opened.ok ? opened.value : null;
+      gearItem = (await deps.gearItemRepo.findById(item.id)) ?? item;
+    }
+
+    await deps.inspectionRepo.save(inspection);
+    await deps.eventPublisher.publish(
+      GearItemInspected.create(
+        {
+          aggregateId: item.id,
+          staffMemberId: input.staffMemberId,
+          payload: {
+            inspectionId: inspection.id,
+            code: item.code,
+            passed: inspection.passed,
+            ...(inspection.failedPoints.length > 0 && { failedPoints: inspection.failedPoints.join(', ') })
+          }
+        },
+        deps
+      )
+    );
+
+    return ok({ inspection, gearItem, maintenanceTicket });
+  });
+}
+
+// ============================================================================
+// Due and History
+// ============================================================================
+
+/**
+ * An item whose inspection is overdue or coming up.
+ */
+export interface InspectionDue {
+  gearItemId: string;
+  code: string;
+  gearTypeName: string;
+  status: GearStatus;
+  lastInspectedAt: Date | null;
+  dueAt: Date | null;
+  usesLeft: number | null;
+  overdue: boolean;
+}
+
+export interface ListInspectionsDueDeps {
+  gearTypeRepo: GearTypeRepository;
+  gearItemRepo: GearItemRepository;
+  clock: Clock;
+}
+
+// An item this few checkouts from its inspection counts as coming up
+const UPCOMING_USES = 2;
+
+/**
+ * Items overdue for inspection, then those due within `withinDays` or a couple of
+ * checkouts, soonest first. Retired and lost items are left out.
+ */
+export async function listInspectionsDue(
+  deps: ListInspectionsDueDeps,
+  withinDays = 14
+): Promise<InspectionDue[]> {
+  const now = deps.clock.now();
+  const cutoff = new Date(now.getTime() + withinDays * 1000 * 60 * 60 * 24);
+  const due: InspectionDue[] = [];
+
+  for (const gearType of await deps.gearTypeRepo.findAll()) {
+    const schedule = gearType.inspectionSchedule;
+    if (!schedule) continue;
+
+    for (const item of await deps.gearItemRepo.findByGearTypeId(gearType.id)) {
+      if (item.isRetired() || item.isLost()) continue;
+      const standing = inspectionStanding(schedule, item, now);
+      const upcoming =
+        (standing.dueAt !== null && standing.dueAt <= cutoff) ||
+        (standing.usesLeft !== null && standing.usesLeft <= UPCOMING_USES);
+      if (!standing.overdue && !upcoming) continue;
+
+      due.push({
+        gearItemId: item.id,
+        code: item.code,
+        gearTypeName: gearType.name,
+        status: item.status,
+        lastInspectedAt: item.lastInspectedAt,
+        ...standing
+      });
+    }
+  }
+
+  due.sort(
+    (a, b) =>
+      Number(b.overdue) - Number(a.overdue) ||
+      (a.dueAt?.getTime() ?? Infinity) - (b.dueAt?.getTime() ?? Infinity) ||
+      a.code.localeCompare(b.code)
+  );
+  return due;
+}
+
+export interface InspectionHistoryEntry {
+  inspection: Inspection;
+  inspectorName: string;
+}
+
+/**
+ * Every inspection of an item, newest first.
+ */
+export async function getInspectionHistory(
+  deps: { inspectionRepo: InspectionRepository; staffMemberRepo: StaffMemberRepository },
+  itemId: string
+): Promise<InspectionHistoryEntry[]> {
+  const inspections = await deps.inspectionRepo.findByGearItemId(gearItemId(itemId));
+  const staffNames = new Map((await deps.staffMemberRepo.findAll()).map((s) => [s.id as string, s.name]));
+  return inspections.map((inspection) => ({
+    inspection,
+    inspectorName: staffNames.get(inspection.inspectedBy) ?? 'Unknown staff'
+  }));
+}
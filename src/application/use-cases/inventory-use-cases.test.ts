@@ -10,15 +10,37 @@ import {
   returnItemFromMaintenance,
   retireItem,
   getGearTypeDetail,
-  listGearTypesWithStatus
+  listGearTypesWithStatus,
+  sendBulkUnitsToMaintenance,
+  returnBulkUnitsFromMaintenance
 } from './inventory-use-cases.js';
-import { GearCategory, GearCondition, GearStatus, TrackingMode } from '../../domain/types.js';
+import {
+  CheckoutStatus,
+  GearCategory,
+  GearCondition,
+  GearStatus,
+  StaffRole,
+  TrackingMode
+} from '../../domain/types.js';
+import { Permission } from '../../domain/policies/index.js';
 import { GearType } from '../../domain/entities/gear-type.js';
 import { GearItem } from '../../domain/entities/gear-item.js';
-import type { GearTypeRepository, GearItemRepository } from '../ports/repositories.js';
-import type { GearTypeId, GearItemId } from '../../domain/value-objects/index.js';
+import { Checkout } from '../../domain/entities/checkout.js';
+import type {
+  GearTypeRepository,
+  GearItemRepository,
+  CheckoutRepository,
+  CheckoutFilter
+} from '../ports/repositories.js';
+import type { GearTypeId, GearItemId, CheckoutId, MemberId } from '../../domain/value-objects/index.js';
 import { gearTypeId, gearItemId } from '../../domain/value-objects/index.js';
 import { unwrap } from '../result.js';
+import {
+  RecordingEventPublisher,
+  InMemoryUnitOfWork,
+  InMemoryStaffMemberRepository
+} from '../../test-utils/in-memory-repositories.js';
+import { createTestStaffMember } from '../../test-utils/fixtures.js';
 
 // ============================================================================
 // In-memory test doubles
@@ -91,6 +113,32 @@ class InMemoryGearItemRepository implements GearItemRepository {
   }
 }
 
+class InMemoryCheckoutRepository implements CheckoutRepository {
+  private store = new Map<string, Checkout>();
+
+  async findById(id: CheckoutId): Promise<Checkout | null> {
+    return this.store.get(id as string) ?? null;
+  }
+  async findByMemberId(memberId: MemberId, filter?: CheckoutFilter): Promise<Checkout[]> {
+    return (await this.findAll(filter)).filter((c) => c.memberId === memberId);
+  }
+  async findActiveByMemberId(memberId: MemberId): Promise<Checkout[]> {
+    return this.findByMemberId(memberId, {
+      status: [CheckoutStatus.ACTIVE, CheckoutStatus.PARTIALLY_RETURNED]
+    });
+  }
+  async findOverdue(asOf: Date): Promise<Checkout[]> {
+    return [...this.store.values()].filter((c) => c.isOverdue(asOf));
+  }
+  async findAll(filter?: CheckoutFilter): Promise<Checkout[]> {
+    const statuses = filter?.status === undefined ? null : [filter.status].flat();
+    return [...this.store.values()].filter((c) => !statuses || statuses.includes(c.status));
+  }
+  async save(checkout: Checkout): Promise<void> {
+    this.store.set(checkout.id as string, checkout);
+  }
+}
+
 // ============================================================================
 // Test helpers
 // ============================================================================
@@ -100,8 +148,44 @@ function makeDeps() {
   const idGenerator = createMockIdGenerator();
   const gearTypeRepo = new InMemoryGearTypeRepository();
   const gearItemRepo = new InMemoryGearItemRepository();
+  const checkoutRepo = new InMemoryCheckoutRepository();
+  const eventPublisher = new RecordingEventPublisher();
+  const staffMemberRepo = new InMemoryStaffMemberRepository();
+
+  return {
+    clock,
+    idGenerator,
+    gearTypeRepo,
+    gearItemRepo,
+    checkoutRepo,
+    eventPublisher,
+    staffMemberRepo,
+    unitOfWork: new InMemoryUnitOfWork()
+  };
+}
 
-  return { clock, idGenerator, gearTypeRepo, gearItemRepo };
+async function createBulkCheckout(
+  deps: ReturnType<typeof makeDeps>,
+  gearTypeId: string,
+  quantity: number
+) {
+  const checkout = unwrap(
+    Checkout.create(
+      {
+        memberId: 'member-1',
+        staffMemberId: 'staff-1',
+        items: [
+          {
+            input: { type: 'bulk', gearTypeId, quantity },
+            dueAt: new Date('2025-06-20T10:00:00Z')
+          }
+        ]
+      },
+      { idGenerator: deps.idGenerator, clock: deps.clock }
+    )
+  );
+  await deps.checkoutRepo.save(checkout);
+  return checkout;
 }
 
 async function createTestGearType(
@@ -109,12 +193,13 @@ async function createTestGearType(
   overrides?: Partial<{ name: string; category: string; trackingMode: string; totalQuantity: number }>
 ) {
   const result = await createGearType(
-    { gearTypeRepo: deps.gearTypeRepo, idGenerator: deps.idGenerator, clock: deps.clock },
+    deps,
     {
       name: overrides?.name ?? 'Trek 820 Mountain Bike',
       category: (overrides?.category as any) ?? GearCategory.BIKE,
       trackingMode: (overrides?.trackingMode as any) ?? TrackingMode.INDIVIDUAL,
-      totalQuantity: overrides?.totalQuantity
+      totalQuantity: overrides?.totalQuantity,
+      staffMemberId: 'staff-1'
     }
   );
   return unwrap(result);
@@ -127,8 +212,8 @@ async function createTestItem(
   condition?: GearCondition
 ) {
   const result = await addGearItem(
-    { gearTypeRepo: deps.gearTypeRepo, gearItemRepo: deps.gearItemRepo, idGenerator: deps.idGenerator, clock: deps.clock },
-    { gearTypeId, code, condition }
+    deps,
+    { gearTypeId, code, condition, staffMemberId: 'staff-1' }
   );
   return unwrap(result);
 }
@@ -145,8 +230,8 @@ describe('createGearType', () => {
   it('creates an individual-tracked gear type', async () => {
     const deps = makeDeps();
     const result = await createGearType(
-      { gearTypeRepo: deps.gearTypeRepo, idGenerator: deps.idGenerator, clock: deps.clock },
-      { name: 'Trek 820', category: GearCategory.BIKE, trackingMode: TrackingMode.INDIVIDUAL }
+      deps,
+      { name: 'Trek 820', category: GearCategory.BIKE, trackingMode: TrackingMode.INDIVIDUAL, staffMemberId: 'staff-1' }
     );
 
     expect(result.ok).toBe(true);
@@ -159,8 +244,8 @@ describe('createGearType', () => {
   it('creates a bulk-tracked gear type with quantity', async () => {
     const deps = makeDeps();
     const result = await createGearType(
-      { gearTypeRepo: deps.gearTypeRepo, idGenerator: deps.idGenerator, clock: deps.clock },
-      { name: 'Sleeping Pad', category: GearCategory.PAD, trackingMode: TrackingMode.BULK, totalQuantity: 20 }
+      deps,
+      { name: 'Sleeping Pad', category: GearCategory.PAD, trackingMode: TrackingMode.BULK, totalQuantity: 20, staffMemberId: 'staff-1' }
     );
 
     expect(result.ok).toBe(true);
@@ -172,13 +257,13 @@ describe('createGearType', () => {
   it('rejects duplicate names', async () => {
     const deps = makeDeps();
     await createGearType(
-      { gearTypeRepo: deps.gearTypeRepo, idGenerator: deps.idGenerator, clock: deps.clock },
-      { name: 'Trek 820', category: GearCategory.BIKE, trackingMode: TrackingMode.INDIVIDUAL }
+      deps,
+      { name: 'Trek 820', category: GearCategory.BIKE, trackingMode: TrackingMode.INDIVIDUAL, staffMemberId: 'staff-1' }
     );
 
     const result = await createGearType(
-      { gearTypeRepo: deps.gearTypeRepo, idGenerator: deps.idGenerator, clock: deps.clock },
-      { name: 'trek 820', category: GearCategory.BIKE, trackingMode: TrackingMode.INDIVIDUAL }
+      deps,
+      { name: 'trek 820', category: GearCategory.BIKE, trackingMode: TrackingMode.INDIVIDUAL, staffMemberId: 'staff-1' }
     );
 
     expect(result.ok).toBe(false);
@@ -190,8 +275,8 @@ describe('createGearType', () => {
   it('rejects empty name', async () => {
     const deps = makeDeps();
     const result = await createGearType(
-      { gearTypeRepo: deps.gearTypeRepo, idGenerator: deps.idGenerator, clock: deps.clock },
-      { name: '  ', category: GearCategory.BIKE, trackingMode: TrackingMode.INDIVIDUAL }
+      deps,
+      { name: '  ', category: GearCategory.BIKE, trackingMode: TrackingMode.INDIVIDUAL, staffMemberId: 'staff-1' }
     );
 
     expect(result.ok).toBe(false);
@@ -207,8 +292,8 @@ describe('updateGearType', () => {
     const gearType = await createTestGearType(deps);
 
     const result = await updateGearType(
-      { gearTypeRepo: deps.gearTypeRepo, clock: deps.clock },
-      { id: gearType.id as string, name: 'Updated Bike', notes: 'New notes' }
+      deps,
+      { id: gearType.id as string, name: 'Updated Bike', notes: 'New notes', staffMemberId: 'staff-1' }
     );
 
     expect(result.ok).toBe(true);
@@ -221,8 +306,8 @@ describe('updateGearType', () => {
   it('returns not_found for missing type', async () => {
     const deps = makeDeps();
     const result = await updateGearType(
-      { gearTypeRepo: deps.gearTypeRepo, clock: deps.clock },
-      { id: 'nonexistent' }
+      deps,
+      { id: 'nonexistent', staffMemberId: 'staff-1' }
     );
 
     expect(result.ok).toBe(false);
@@ -235,6 +320,7 @@ describe('updateGearType', () => {
 describe('updateBulkQuantity', () => {
   it('updates quantity for bulk types', async () => {
     const deps = makeDeps();
+    await createTestStaffMember(deps);
     const gearType = await createTestGearType(deps, {
       name: 'Sleeping Pad',
       category: GearCategory.PAD,
@@ -243,9 +329,10 @@ describe('updateBulkQuantity', () => {
     });
 
     const result = await updateBulkQuantity(
-      { gearTypeRepo: deps.gearTypeRepo, clock: deps.clock },
+      deps,
       gearType.id as string,
-      25
+      25,
+      'staff-1'
     );
 
     expect(result.ok).toBe(true);
@@ -256,12 +343,14 @@ describe('updateBulkQuantity', () => {
 
   it('rejects for individual-tracked types', async () => {
     const deps = makeDeps();
+    await createTestStaffMember(deps);
     const gearType = await createTestGearType(deps);
 
     const result = await updateBulkQuantity(
-      { gearTypeRepo: deps.gearTypeRepo, clock: deps.clock },
+      deps,
       gearType.id as string,
-      10
+      10,
+      'staff-1'
     );
 
     expect(result.ok).toBe(false);
@@ -271,16 +360,39 @@ describe('updateBulkQuantity', () => {
   });
 });
 
+describe('updateBulkQuantity permissions', () => {
+  it('forbids desk staff from adjusting quantity', async () => {
+    const deps = makeDeps();
+    await createTestStaffMember(deps, 'desk-1', StaffRole.DESK);
+    const gearType = await createTestGearType(deps, {
+      name: 'Sleeping Pad',
+      category: GearCategory.PAD,
+      trackingMode: TrackingMode.BULK,
+      totalQuantity: 10
+    });
+
+    const result = await updateBulkQuantity(deps, gearType.id as string, 25, 'desk-1');
+
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.error).toEqual({ type: 'forbidden', permission: Permission.ADJUST_BULK_QUANTITY });
+    }
+    expect((await deps.gearTypeRepo.findById(gearType.id))?.totalQuantity).toBe(10);
+  });
+});
+
 describe('deleteGearType', () => {
   it('deletes a gear type and its items', async () => {
     const deps = makeDeps();
+    await createTestStaffMember(deps);
     const gearType = await createTestGearType(deps);
     await createTestItem(deps, gearType.id as string, 'BIKE-001');
     await createTestItem(deps, gearType.id as string, 'BIKE-002');
 
     const result = await deleteGearType(
-      { gearTypeRepo: deps.gearTypeRepo, gearItemRepo: deps.gearItemRepo },
-      gearType.id as string
+      deps,
+      gearType.id as string,
+      'staff-1'
     );
 
     expect(result.ok).toBe(true);
@@ -296,6 +408,7 @@ describe('deleteGearType', () => {
 
   it('rejects if items are checked out', async () => {
     const deps = makeDeps();
+    await createTestStaffMember(deps);
     const gearType = await createTestGearType(deps);
     const item = await createTestItem(deps, gearType.id as string, 'BIKE-001');
 
@@ -304,8 +417,9 @@ describe('deleteGearType', () => {
     await deps.gearItemRepo.save(checkedOut);
 
     const result = await deleteGearType(
-      { gearTypeRepo: deps.gearTypeRepo, gearItemRepo: deps.gearItemRepo },
-      gearType.id as string
+      deps,
+      gearType.id as string,
+      'staff-1'
     );
 
     expect(result.ok).toBe(false);
@@ -315,14 +429,42 @@ describe('deleteGearType', () => {
   });
 });
 
+describe('deleteGearType permissions', () => {
+  it('forbids desk staff from deleting gear types', async () => {
+    const deps = makeDeps();
+    await createTestStaffMember(deps, 'desk-1', StaffRole.DESK);
+    const gearType = await createTestGearType(deps);
+
+    const result = await deleteGearType(deps, gearType.id as string, 'desk-1');
+
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.error.type).toBe('forbidden');
+    }
+    expect(await deps.gearTypeRepo.findById(gearType.id)).not.toBeNull();
+  });
+
+  it('forbids unknown staff members', async () => {
+    const deps = makeDeps();
+    const gearType = await createTestGearType(deps);
+
+    const result = await deleteGearType(deps, gearType.id as string, 'nobody');
+
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.error.type).toBe('forbidden');
+    }
+  });
+});
+
 describe('addGearItem', () => {
   it('adds an item to an individual-tracked type', async () => {
     const deps = makeDeps();
     const gearType = await createTestGearType(deps);
 
     const result = await addGearItem(
-      { gearTypeRepo: deps.gearTypeRepo, gearItemRepo: deps.gearItemRepo, idGenerator: deps.idGenerator, clock: deps.clock },
-      { gearTypeId: gearType.id as string, code: 'BIKE-001' }
+      deps,
+      { gearTypeId: gearType.id as string, code: 'BIKE-001', staffMemberId: 'staff-1' }
     );
 
     expect(result.ok).toBe(true);
@@ -342,8 +484,8 @@ describe('addGearItem', () => {
     });
 
     const result = await addGearItem(
-      { gearTypeRepo: deps.gearTypeRepo, gearItemRepo: deps.gearItemRepo, idGenerator: deps.idGenerator, clock: deps.clock },
-      { gearTypeId: gearType.id as string, code: 'PAD-001' }
+      deps,
+      { gearTypeId: gearType.id as string, code: 'PAD-001', staffMemberId: 'staff-1' }
     );
 
     expect(result.ok).toBe(false);
@@ -358,8 +500,8 @@ describe('addGearItem', () => {
     await createTestItem(deps, gearType.id as string, 'BIKE-001');
 
     const result = await addGearItem(
-      { gearTypeRepo: deps.gearTypeRepo, gearItemRepo: deps.gearItemRepo, idGenerator: deps.idGenerator, clock: deps.clock },
-      { gearTypeId: gearType.id as string, code: 'BIKE-001' }
+      deps,
+      { gearTypeId: gearType.id as string, code: 'BIKE-001', staffMemberId: 'staff-1' }
     );
 
     expect(result.ok).toBe(false);
@@ -376,8 +518,8 @@ describe('updateGearItem', () => {
     const item = await createTestItem(deps, gearType.id as string, 'BIKE-001');
 
     const result = await updateGearItem(
-      { gearItemRepo: deps.gearItemRepo, clock: deps.clock },
-      { id: item.id as string, condition: GearCondition.FAIR, notes: 'Scratched frame' }
+      deps,
+      { id: item.id as string, condition: GearCondition.FAIR, notes: 'Scratched frame', staffMemberId: 'staff-1' }
     );
 
     expect(result.ok).toBe(true);
@@ -396,8 +538,8 @@ describe('updateGearItem', () => {
     await deps.gearItemRepo.save(checkedOut);
 
     const result = await updateGearItem(
-      { gearItemRepo: deps.gearItemRepo, clock: deps.clock },
-      { id: item.id as string, condition: GearCondition.FAIR }
+      deps,
+      { id: item.id as string, condition: GearCondition.FAIR, staffMemberId: 'staff-1' }
     );
 
     expect(result.ok).toBe(false);
@@ -414,8 +556,9 @@ describe('sendItemToMaintenance', () => {
     const item = await createTestItem(deps, gearType.id as string, 'BIKE-001');
 
     const result = await sendItemToMaintenance(
-      { gearItemRepo: deps.gearItemRepo, clock: deps.clock },
+      deps,
       item.id as string,
+      'staff-1',
       'Needs brake adjustment'
     );
 
@@ -433,13 +576,15 @@ describe('sendItemToMaintenance', () => {
 
     // Send to maintenance first
     const maintained = unwrap(await sendItemToMaintenance(
-      { gearItemRepo: deps.gearItemRepo, clock: deps.clock },
-      item.id as string
+      deps,
+      item.id as string,
+      'staff-1'
     ));
 
     const result = await sendItemToMaintenance(
-      { gearItemRepo: deps.gearItemRepo, clock: deps.clock },
-      item.id as string
+      deps,
+      item.id as string,
+      'staff-1'
     );
 
     expect(result.ok).toBe(false);
@@ -457,14 +602,16 @@ describe('returnItemFromMaintenance', () => {
 
     // Send to maintenance first
     await sendItemToMaintenance(
-      { gearItemRepo: deps.gearItemRepo, clock: deps.clock },
-      item.id as string
+      deps,
+      item.id as string,
+      'staff-1'
     );
 
     const result = await returnItemFromMaintenance(
-      { gearItemRepo: deps.gearItemRepo, clock: deps.clock },
+      deps,
       item.id as string,
-      GearCondition.GOOD
+      GearCondition.GOOD,
+      'staff-1'
     );
 
     expect(result.ok).toBe(true);
@@ -480,9 +627,10 @@ describe('returnItemFromMaintenance', () => {
     const item = await createTestItem(deps, gearType.id as string, 'BIKE-001');
 
     const result = await returnItemFromMaintenance(
-      { gearItemRepo: deps.gearItemRepo, clock: deps.clock },
+      deps,
       item.id as string,
-      GearCondition.GOOD
+      GearCondition.GOOD,
+      'staff-1'
     );
 
     expect(result.ok).toBe(false);
@@ -495,12 +643,14 @@ describe('returnItemFromMaintenance', () => {
 describe('retireItem', () => {
   it('retires an available item', async () => {
     const deps = makeDeps();
+    await createTestStaffMember(deps);
     const gearType = await createTestGearType(deps);
     const item = await createTestItem(deps, gearType.id as string, 'BIKE-001');
 
     const result = await retireItem(
-      { gearItemRepo: deps.gearItemRepo, clock: deps.clock },
-      item.id as string
+      deps,
+      item.id as string,
+      'staff-1'
     );
 
     expect(result.ok).toBe(true);
@@ -512,6 +662,7 @@ describe('retireItem', () => {
 
   it('rejects if item is checked out', async () => {
     const deps = makeDeps();
+    await createTestStaffMember(deps);
     const gearType = await createTestGearType(deps);
     const item = await createTestItem(deps, gearType.id as string, 'BIKE-001');
 
@@ -519,8 +670,9 @@ describe('retireItem', () => {
     await deps.gearItemRepo.save(checkedOut);
 
     const result = await retireItem(
-      { gearItemRepo: deps.gearItemRepo, clock: deps.clock },
-      item.id as string
+      deps,
+      item.id as string,
+      'staff-1'
     );
 
     expect(result.ok).toBe(false);
@@ -530,6 +682,22 @@ describe('retireItem', () => {
   });
 });
 
+describe('retireItem permissions', () => {
+  it('forbids desk staff and allows admins', async () => {
+    const deps = makeDeps();
+    await createTestStaffMember(deps, 'desk-1', StaffRole.DESK);
+    await createTestStaffMember(deps, 'admin-1', StaffRole.ADMIN);
+    const gearType = await createTestGearType(deps);
+    const item = await createTestItem(deps, gearType.id as string, 'BIKE-001');
+
+    const denied = await retireItem(deps, item.id as string, 'desk-1');
+    const allowed = await retireItem(deps, item.id as string, 'admin-1');
+
+    expect(denied.ok).toBe(false);
+    expect(allowed.ok).toBe(true);
+  });
+});
+
 describe('getGearTypeDetail', () => {
   it('returns gear type with items and status counts', async () => {
     const deps = makeDeps();
@@ -540,12 +708,13 @@ describe('getGearTypeDetail', () => {
 
     // Send one to maintenance
     await sendItemToMaintenance(
-      { gearItemRepo: deps.gearItemRepo, clock: deps.clock },
-      item3.id as string
+      deps,
+      item3.id as string,
+      'staff-1'
     );
 
     const result = await getGearTypeDetail(
-      { gearTypeRepo: deps.gearTypeRepo, gearItemRepo: deps.gearItemRepo },
+      { gearTypeRepo: deps.gearTypeRepo, gearItemRepo: deps.gearItemRepo, checkoutRepo: deps.checkoutRepo },
       gearType.id as string
     );
 
@@ -562,7 +731,7 @@ describe('getGearTypeDetail', () => {
   it('returns not_found for missing type', async () => {
     const deps = makeDeps();
     const result = await getGearTypeDetail(
-      { gearTypeRepo: deps.gearTypeRepo, gearItemRepo: deps.gearItemRepo },
+      { gearTypeRepo: deps.gearTypeRepo, gearItemRepo: deps.gearItemRepo, checkoutRepo: deps.checkoutRepo },
       'nonexistent'
     );
 
@@ -577,7 +746,7 @@ describe('listGearTypesWithStatus', () => {
     await createTestGearType(deps, { name: 'Sleeping Pad', category: GearCategory.PAD, trackingMode: TrackingMode.BULK, totalQuantity: 20 });
 
     const results = await listGearTypesWithStatus(
-      { gearTypeRepo: deps.gearTypeRepo, gearItemRepo: deps.gearItemRepo }
+      { gearTypeRepo: deps.gearTypeRepo, gearItemRepo: deps.gearItemRepo, checkoutRepo: deps.checkoutRepo }
     );
 
     expect(results).toHaveLength(2);
@@ -594,7 +763,7 @@ describe('listGearTypesWithStatus', () => {
     await createTestGearType(deps, { name: 'Sleeping Pad', category: GearCategory.PAD, trackingMode: TrackingMode.BULK, totalQuantity: 20 });
 
     const results = await listGearTypesWithStatus(
-      { gearTypeRepo: deps.gearTypeRepo, gearItemRepo: deps.gearItemRepo },
+      { gearTypeRepo: deps.gearTypeRepo, gearItemRepo: deps.gearItemRepo, checkoutRepo: deps.checkoutRepo },
       { category: GearCategory.BIKE }
     );
 
@@ -608,7 +777,7 @@ describe('listGearTypesWithStatus', () => {
     await createTestGearType(deps, { name: 'Sleeping Pad', category: GearCategory.PAD, trackingMode: TrackingMode.BULK, totalQuantity: 20 });
 
     const results = await listGearTypesWithStatus(
-      { gearTypeRepo: deps.gearTypeRepo, gearItemRepo: deps.gearItemRepo },
+      { gearTypeRepo: deps.gearTypeRepo, gearItemRepo: deps.gearItemRepo, checkoutRepo: deps.checkoutRepo },
       { searchTerm: 'trek' }
     );
 
@@ -623,12 +792,13 @@ describe('listGearTypesWithStatus', () => {
 
     const item = await createTestItem(deps, bikeType.id as string, 'BIKE-001');
     await sendItemToMaintenance(
-      { gearItemRepo: deps.gearItemRepo, clock: deps.clock },
-      item.id as string
+      deps,
+      item.id as string,
+      'staff-1'
     );
 
     const results = await listGearTypesWithStatus(
-      { gearTypeRepo: deps.gearTypeRepo, gearItemRepo: deps.gearItemRepo },
+      { gearTypeRepo: deps.gearTypeRepo, gearItemRepo: deps.gearItemRepo, checkoutRepo: deps.checkoutRepo },
       { hasItemsInStatus: GearStatus.MAINTENANCE }
     );
 
@@ -636,3 +806,108 @@ describe('listGearTypesWithStatus', () => {
     expect(results[0].gearType.name).toBe('Trek 820');
   });
 });
+
+describe('bulk availability', () => {
+  async function createPads(deps: ReturnType<typeof makeDeps>, totalQuantity = 50) {
+    return createTestGearType(deps, {
+      name: 'Sleeping Pad',
+      category: GearCategory.PAD,
+      trackingMode: TrackingMode.BULK,
+      totalQuantity
+    });
+  }
+
+  it('subtracts outstanding checkout quantities from the total', async () => {
+    const deps = makeDeps();
+    const pads = await createPads(deps);
+    await createBulkCheckout(deps, pads.id as string, 30);
+    await createBulkCheckout(deps, pads.id as string, 12);
+
+    const results = await listGearTypesWithStatus(
+      { gearTypeRepo: deps.gearTypeRepo, gearItemRepo: deps.gearItemRepo, checkoutRepo: deps.checkoutRepo }
+    );
+
+    expect(results[0].statusCounts.total).toBe(50);
+    expect(results[0].statusCounts.checkedOut).toBe(42);
+    expect(results[0].statusCounts.available).toBe(8);
+  });
+
+  it('ignores completed checkouts', async () => {
+    const deps = makeDeps();
+    const pads = await createPads(deps);
+    const checkout = await createBulkCheckout(deps, pads.id as string, 30);
+    await deps.checkoutRepo.save(
+      Checkout.fromRecord({ ...checkout.toRecord(), status: CheckoutStatus.COMPLETED })
+    );
+
+    const result = await getGearTypeDetail(
+      { gearTypeRepo: deps.gearTypeRepo, gearItemRepo: deps.gearItemRepo, checkoutRepo: deps.checkoutRepo },
+      pads.id as string
+    );
+
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(result.value.statusCounts.available).toBe(50);
+    }
+  });
+
+  it('sends available units to maintenance', async () => {
+    const deps = makeDeps();
+    const pads = await createPads(deps);
+    await createBulkCheckout(deps, pads.id as string, 45);
+
+    const result = await sendBulkUnitsToMaintenance(deps, pads.id as string, 3, 'staff-1');
+    expect(result.ok).toBe(true);
+
+    const detail = unwrap(
+      await getGearTypeDetail(
+        { gearTypeRepo: deps.gearTypeRepo, gearItemRepo: deps.gearItemRepo, checkoutRepo: deps.checkoutRepo },
+        pads.id as string
+      )
+    );
+    expect(detail.statusCounts.maintenance).toBe(3);
+    expect(detail.statusCounts.available).toBe(2);
+  });
+
+  it('rejects sending more units to maintenance than are available', async () => {
+    const deps = makeDeps();
+    const pads = await createPads(deps);
+    await createBulkCheckout(deps, pads.id as string, 45);
+
+    const result = await sendBulkUnitsToMaintenance(deps, pads.id as string, 6, 'staff-1');
+
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.error).toEqual({ type: 'insufficient_quantity', requested: 6, available: 5 });
+    }
+  });
+
+  it('refuses a total below the units checked out and in maintenance', async () => {
+    const deps = makeDeps();
+    await createTestStaffMember(deps);
+    const pads = await createPads(deps);
+    await createBulkCheckout(deps, pads.id as string, 45);
+    unwrap(await sendBulkUnitsToMaintenance(deps, pads.id as string, 3, 'staff-1'));
+
+    const result = await updateBulkQuantity(deps, pads.id as string, 47, 'staff-1');
+
+    expect(result).toEqual({ ok: false, error: { type: 'insufficient_quantity', requested: 47, inUse: 48 } });
+    expect((await deps.gearTypeRepo.findById(pads.id))?.totalQuantity).toBe(50);
+    expect(unwrap(await updateBulkQuantity(deps, pads.id as string, 48, 'staff-1')).totalQuantity).toBe(48);
+  });
+
+  it('returns units from maintenance', async () => {
+    const deps = makeDeps();
+    const pads = await createPads(deps);
+    unwrap(await sendBulkUnitsToMaintenance(deps, pads.id as string, 4, 'staff-1'));
+
+    const result = await returnBulkUnitsFromMaintenance(deps, pads.id as string, 5, 'staff-1');
+    expect(result.ok).toBe(false);
+
+    const returned = await returnBulkUnitsFromMaintenance(deps, pads.id as string, 4, 'staff-1');
+    expect(returned.ok).toBe(true);
+    if (returned.ok) {
+      expect(returned.value.maintenanceQuantity).toBe(0);
+    }
+  });
+});
@@ -1,13 +1,22 @@
 import { type Result, ok, err } from '../result.js';
+import { type ForbiddenError, authorize } from '../authorization.js';
 import type {
   GearTypeRepository,
   GearItemRepository,
-  CheckoutRepository
+  CheckoutRepository,
+  StaffMemberRepository
 } from '../ports/repositories.js';
-import type { IdGenerator, Clock } from '../ports/services.js';
-import { GearType, type CreateGearTypeInput } from '../../domain/entities/gear-type.js';
+import type { IdGenerator, Clock, EventPublisher, UnitOfWork } from '../ports/services.js';
+import {
+  GearType,
+  type CreateGearTypeInput,
+  type ReturnChecklistError,
+  type ReturnChecklistQuestion,
+  type UpdateQuantityError
+} from '../../domain/entities/gear-type.js';
 import { GearItem } from '../../domain/entities/gear-item.js';
 import {
+  CheckoutStatus,
   GearCategory,
   GearCondition,
   GearStatus,
@@ -15,6 +24,26 @@ import {
 } from '../../domain/types.js';
 import type { GearTypeId } from '../../domain/value-objects/index.js';
 import { gearItemId, gearTypeId } from '../../domain/value-objects/index.js';
+import { Permission } from '../../domain/policies/index.js';
+import { calculateBulkAvailability, getBulkAvailability } from './availability-use-cases.js';
+import {
+  type DomainEvent,
+  type DomainEventType,
+  type DomainEventOfType,
+  type EventDefinition,
+  GearTypeCreated,
+  GearTypeUpdated,
+  GearTypeDeleted,
+  ReturnChecklistUpdated,
+  BulkQuantityUpdated,
+  BulkUnitsSentToMaintenance,
+  BulkUnitsReturnedFromMaintenance,
+  GearItemAdded,
+  GearItemUpdated,
+  GearItemSentToMaintenance,
+  GearItemReturnedFromMaintenance,
+  GearItemRetired
+} from '../../domain/events/index.js';
 
 // ============================================================================
 // Create Gear Type
@@ -30,11 +59,16 @@ export interface CreateGearTypeDeps {
   gearTypeRepo: GearTypeRepository;
   idGenerator: IdGenerator;
   clock: Clock;
+  eventPublisher: EventPublisher;
+}
+
+export interface CreateGearTypeUseCaseInput extends CreateGearTypeInput {
+  staffMemberId: string;
 }
 
 export async function createGearType(
   deps: CreateGearTypeDeps,
-  input: CreateGearTypeInput
+  input: CreateGearTypeUseCaseInput
 ): Promise<Result<GearType, CreateGearTypeUseCaseError>> {
   // Check for duplicate name
   const existing = await deps.gearTypeRepo.findAll();
@@ -49,6 +83,10 @@ export async function createGearType(
   }
 
   await deps.gearTypeRepo.save(result.value);
+  await publishInventoryEvent(deps, GearTypeCreated, result.value.id, input.staffMemberId, {
+    name: result.value.name,
+    trackingMode: result.value.trackingMode
+  });
   return result;
 }
 
@@ -62,11 +100,14 @@ export type UpdateGearTypeError =
 
 export interface UpdateGearTypeDeps {
   gearTypeRepo: GearTypeRepository;
+  idGenerator: IdGenerator;
   clock: Clock;
+  eventPublisher: EventPublisher;
 }
 
 export interface UpdateGearTypeInput {
   id: string;
+  staffMemberId: string;
   name?: string;
   checkoutDurationDays?: number;
   notes?: string;
@@ -95,6 +136,49 @@ export async function updateGearType(
   }
 
   await deps.gearTypeRepo.save(result.value);
+  await publishInventoryEvent(deps, GearTypeUpdated, gearType.id, input.staffMemberId, {
+    name: input.name,
+    checkoutDurationDays: input.checkoutDurationDays,
+    notes: input.notes
+  });
+  return result;
+}
+
+// ============================================================================
+// Return Checklist
+// ============================================================================
+
+export type SetReturnChecklistError = ReturnChecklistError | { type: 'not_found'; id: string };
+
+export interface SetReturnChecklistInput {
+  gearTypeId: string;
+  // An empty list removes the checklist
+  questions: ReturnChecklistQuestion[];
+  staffMemberId: string;
+}
+
+/**
+ * Set the questions staff answer when an item of the type is returned.
+ */
+export async function setReturnChecklist(
+  deps: UpdateGearTypeDeps,
+  input: SetReturnChecklistInput
+): Promise<Result<GearType, SetReturnChecklistError>> {
+  const gearType = await deps.gearTypeRepo.findById(gearTypeId(input.gearTypeId));
+  if (!gearType) {
+    return err({ type: 'not_found', id: input.gearTypeId });
+  }
+
+  const result = gearType.setReturnChecklist(input.questions, deps);
+  if (!result.ok) {
+    return result;
+  }
+
+  await deps.gearTypeRepo.save(result.value);
+  await publishInventoryEvent(deps, ReturnChecklistUpdated, gearType.id, input.staffMemberId, {
+    name: gearType.name,
+    questions: result.value.returnChecklist.length
+  });
   return result;
 }
 
@@ -103,31 +187,127 @@ export async function updateGearType(
 // ============================================================================
 
 export type UpdateBulkQuantityError =
+  | ForbiddenError
   | { type: 'not_found'; id: string }
-  | { type: 'not_bulk_tracked' }
-  | { type: 'invalid_quantity'; value: number };
+  | UpdateQuantityError;
 
 export interface UpdateBulkQuantityDeps {
   gearTypeRepo: GearTypeRepository;
+  checkoutRepo: CheckoutRepository;
+  staffMemberRepo: StaffMemberRepository;
+  idGenerator: IdGenerator;
   clock: Clock;
+  eventPublisher: EventPublisher;
 }
 
 export async function updateBulkQuantity(
   deps: UpdateBulkQuantityDeps,
   gearTypeId_: string,
-  newQuantity: number
+  newQuantity: number,
+  staffMemberId: string
 ): Promise<Result<GearType, UpdateBulkQuantityError>> {
+  const auth = await authorize(deps, staffMemberId, Permission.ADJUST_BULK_QUANTITY);
+  if (!auth.ok) {
+    return auth;
+  }
+
   const gearType = await deps.gearTypeRepo.findById(gearTypeId(gearTypeId_));
   if (!gearType) {
     return err({ type: 'not_found', id: gearTypeId_ });
   }
 
-  const result = gearType.updateQuantity(newQuantity, deps);
+  const checkedOut = (await getBulkAvailability(deps, [gearType])).get(gearType.id)?.checkedOut ?? 0;
+  const result = gearType.updateQuantity(newQuantity, checkedOut, deps);
   if (!result.ok) {
     return result;
   }
 
   await deps.gearTypeRepo.save(result.value);
+  await publishInventoryEvent(deps, BulkQuantityUpdated, gearType.id, staffMemberId, {
+    previousQuantity: gearType.totalQuantity,
+    newQuantity
+  });
+  return result;
+}
+
+// ============================================================================
+// Bulk Maintenance
+// ============================================================================
+
+export type BulkMaintenanceError =
+  | { type: 'not_found'; id: string }
+  | { type: 'not_bulk_tracked' }
+  | { type: 'invalid_quantity'; value: number }
+  | { type: 'insufficient_quantity'; requested: number; available: number };
+
+export interface BulkMaintenanceDeps {
+  gearTypeRepo: GearTypeRepository;
+  checkoutRepo: CheckoutRepository;
+  idGenerator: IdGenerator;
+  clock: Clock;
+  eventPublisher: EventPublisher;
+  unitOfWork: UnitOfWork;
+}
+
+/**
+ * Pull BULK units off the shelf for maintenance.
+ * Only units that are currently available can be sent.
+ */
+export async function sendBulkUnitsToMaintenance(
+  deps: BulkMaintenanceDeps,
+  gearTypeId_: string,
+  quantity: number,
+  staffMemberId: string
+): Promise<Result<GearType, BulkMaintenanceError>> {
+  const gearType = await deps.gearTypeRepo.findById(gearTypeId(gearTypeId_));
+  if (!gearType) {
+    return err({ type: 'not_found', id: gearTypeId_ });
+  }
+
+  const availability = (await getBulkAvailability(deps, [gearType])).get(gearType.id);
+  if (availability && quantity > availability.available) {
+    return err({ type: 'insufficient_quantity', requested: quantity, available: availability.available });
+  }
+
+  const result = gearType.sendUnitsToMaintenance(quantity, deps);
+  if (!result.ok) {
+    return result;
+  }
+
+  await deps.unitOfWork.run(async () => {
+    await deps.gearTypeRepo.save(result.value);
+    await publishInventoryEvent(deps, BulkUnitsSentToMaintenance, gearType.id, staffMemberId, {
+      quantity
+    });
+  });
+  return result;
+}
+
+/**
+ * Put BULK units back on the shelf after maintenance.
+ */
+export async function returnBulkUnitsFromMaintenance(
+  deps: Omit<BulkMaintenanceDeps, 'checkoutRepo'>,
+  gearTypeId_: string,
+  quantity: number,
+  staffMemberId: string
+): Promise<Result<GearType, BulkMaintenanceError>> {
+  const gearType = await deps.gearTypeRepo.findById(gearTypeId(gearTypeId_));
+  if (!gearType) {
+    return err({ type: 'not_found', id: gearTypeId_ });
+  }
+
+  const result = gearType.returnUnitsFromMaintenance(quantity, deps);
+  if (!result.ok) {
+    return result;
+  }
+
+  await deps.unitOfWork.run(async () => {
+    await deps.gearTypeRepo.save(result.value);
+    await publishInventoryEvent(deps, BulkUnitsReturnedFromMaintenance, gearType.id, staffMemberId, {
+      quantity
+    });
+  });
   return result;
 }
 
@@ -136,18 +316,29 @@ export async function updateBulkQuantity(
 // ============================================================================
 
 export type DeleteGearTypeError =
+  | ForbiddenError
   | { type: 'not_found'; id: string }
   | { type: 'has_checked_out_items'; count: number };
 
 export interface DeleteGearTypeDeps {
   gearTypeRepo: GearTypeRepository;
   gearItemRepo: GearItemRepository;
+  staffMemberRepo: StaffMemberRepository;
+  idGenerator: IdGenerator;
+  clock: Clock;
+  eventPublisher: EventPublisher;
 }
 
 export async function deleteGearType(
   deps: DeleteGearTypeDeps,
-  gearTypeId_: string
+  gearTypeId_: string,
+  staffMemberId: string
 ): Promise<Result<void, DeleteGearTypeError>> {
+  const auth = await authorize(deps, staffMemberId, Permission.DELETE_GEAR_TYPE);
+  if (!auth.ok) {
+    return auth;
+  }
+
   const gearType = await deps.gearTypeRepo.findById(gearTypeId(gearTypeId_));
   if (!gearType) {
     return err({ type: 'not_found', id: gearTypeId_ });
@@ -166,6 +357,11 @@ export async function deleteGearType(
   }
   await deps.gearTypeRepo.delete(gearType.id);
 
+  await publishInventoryEvent(deps, GearTypeDeleted, gearType.id, staffMemberId, {
+    name: gearType.name,
+    itemCount: items.length
+  });
+
   return ok(undefined);
 }
 
@@ -185,11 +381,18 @@ export interface AddGearItemDeps {
   gearItemRepo: GearItemRepository;
   idGenerator: IdGenerator;
   clock: Clock;
+  eventPublisher: EventPublisher;
 }
 
 export async function addGearItem(
   deps: AddGearItemDeps,
-  input: { gearTypeId: string; code: string; condition?: GearCondition; notes?: string }
+  input: {
+    gearTypeId: string;
+    code: string;
+    condition?: GearCondition;
+    notes?: string;
+    staffMemberId: string;
+  }
 ): Promise<Result<GearItem, AddGearItemError>> {
   const gearType = await deps.gearTypeRepo.findById(gearTypeId(input.gearTypeId));
   if (!gearType) {
@@ -212,6 +415,10 @@ export async function addGearItem(
   }
 
   await deps.gearItemRepo.save(result.value);
+  await publishInventoryEvent(deps, GearItemAdded, result.value.id, input.staffMemberId, {
+    gearTypeId: gearType.id,
+    code: result.value.code
+  });
   return result;
 }
 
@@ -226,12 +433,14 @@ export type UpdateGearItemError =
 
 export interface UpdateGearItemDeps {
   gearItemRepo: GearItemRepository;
+  idGenerator: IdGenerator;
   clock: Clock;
+  eventPublisher: EventPublisher;
 }
 
 export async function updateGearItem(
   deps: UpdateGearItemDeps,
-  input: { id: string; condition?: GearCondition; notes?: string }
+  input: { id: string; condition?: GearCondition; notes?: string; staffMemberId: string }
 ): Promise<Result<GearItem, UpdateGearItemError>> {
   const item = await deps.gearItemRepo.findById(gearItemId(input.id));
   if (!item) {
@@ -255,6 +464,11 @@ export async function updateGearItem(
   }
 
   await deps.gearItemRepo.save(current);
+  await publishInventoryEvent(deps, GearItemUpdated, current.id, input.staffMemberId, {
+    code: current.code,
+    condition: input.condition,
+    notes: input.notes
+  });
   return ok(current);
 }
 
@@ -266,16 +480,21 @@ export type SendToMaintenanceError =
   | { type: 'not_found'; id: string }
   | { type: 'already_in_maintenance' }
   | { type: 'is_checked_out' }
-  | { type: 'is_retired' };
+  | { type: 'is_retired' }
+  | { type: 'is_lost' };
 
 export interface SendToMaintenanceDeps {
   gearItemRepo: GearItemRepository;
+  idGenerator: IdGenerator;
   clock: Clock;
+  eventPublisher: EventPublisher;
+  unitOfWork: UnitOfWork;
 }
 
 export async function sendItemToMaintenance(
   deps: SendToMaintenanceDeps,
   itemId: string,
+  staffMemberId: string,
   notes?: string
 ): Promise<Result<GearItem, SendToMaintenanceError>> {
   const item = await deps.gearItemRepo.findById(gearItemId(itemId));
@@ -288,7 +507,13 @@ export async function sendItemToMaintenance(
     return result;
   }
 
-  await deps.gearItemRepo.save(result.value);
+  await deps.unitOfWork.run(async () => {
+    await deps.gearItemRepo.save(result.value);
+    await publishInventoryEvent(deps, GearItemSentToMaintenance, item.id, staffMemberId, {
+      code: item.code,
+      notes
+    });
+  });
   return result;
 }
 
@@ -302,13 +527,17 @@ export type ReturnFromMaintenanceError =
 
 export interface ReturnFromMaintenanceDeps {
   gearItemRepo: GearItemRepository;
+  idGenerator: IdGenerator;
   clock: Clock;
+  eventPublisher: EventPublisher;
+  unitOfWork: UnitOfWork;
 }
 
 export async function returnItemFromMaintenance(
   deps: ReturnFromMaintenanceDeps,
   itemId: string,
-  condition: GearCondition
+  condition: GearCondition,
+  staffMemberId: string
 ): Promise<Result<GearItem, ReturnFromMaintenanceError>> {
   const item = await deps.gearItemRepo.findById(gearItemId(itemId));
   if (!item) {
@@ -320,7 +549,13 @@ export async function returnItemFromMaintenance(
     return result;
   }
 
-  await deps.gearItemRepo.save(result.value);
+  await deps.unitOfWork.run(async () => {
+    await deps.gearItemRepo.save(result.value);
+    await publishInventoryEvent(deps, GearItemReturnedFromMaintenance, item.id, staffMemberId, {
+      code: item.code,
+      condition
+    });
+  });
   return result;
 }
 
@@ -329,19 +564,30 @@ export async function returnItemFromMaintenance(
 // ============================================================================
 
 export type RetireItemError =
+  | ForbiddenError
   | { type: 'not_found'; id: string }
   | { type: 'is_checked_out' }
   | { type: 'already_retired' };
 
 export interface RetireItemDeps {
   gearItemRepo: GearItemRepository;
+  staffMemberRepo: StaffMemberRepository;
+  idGenerator: IdGenerator;
   clock: Clock;
+  eventPublisher: EventPublisher;
+  unitOfWork: UnitOfWork;
 }
 
 export async function retireItem(
   deps: RetireItemDeps,
-  itemId: string
+  itemId: string,
+  staffMemberId: string
 ): Promise<Result<GearItem, RetireItemError>> {
+  const auth = await authorize(deps, staffMemberId, Permission.RETIRE_ITEM);
+  if (!auth.ok) {
+    return auth;
+  }
+
   const item = await deps.gearItemRepo.findById(gearItemId(itemId));
   if (!item) {
     return err({ type: 'not_found', id: itemId });
@@ -356,7 +602,10 @@ export async function retireItem(
     return result;
   }
 
-  await deps.gearItemRepo.save(result.value);
+  await deps.unitOfWork.run(async () => {
+    await deps.gearItemRepo.save(result.value);
+    await publishInventoryEvent(deps, GearItemRetired, item.id, staffMemberId, { code: item.code });
+  });
   return result;
 }
 
@@ -367,6 +616,7 @@ export async function retireItem(
 export interface GetGearTypeDetailDeps {
   gearTypeRepo: GearTypeRepository;
   gearItemRepo: GearItemRepository;
+  checkoutRepo: CheckoutRepository;
 }
 
 export interface GearTypeDetail {
@@ -377,6 +627,7 @@ export interface GearTypeDetail {
     checkedOut: number;
     maintenance: number;
     retired: number;
+    lost: number;
     total: number;
   };
 }
@@ -397,9 +648,21 @@ export async function getGearTypeDetail(
     checkedOut: 0,
     maintenance: 0,
     retired: 0,
+    lost: 0,
     total: items.length
   };
 
+  if (gearType.isBulkTracked) {
+    const openCheckouts = await deps.checkoutRepo.findAll({
+      status: [CheckoutStatus.ACTIVE, CheckoutStatus.PARTIALLY_RETURNED]
+    });
+    const availability = calculateBulkAvailability(gearType, openCheckouts);
+    statusCounts.available = availability.available;
+    statusCounts.checkedOut = availability.checkedOut;
+    statusCounts.maintenance = availability.maintenance;
+    statusCounts.total = availability.total;
+  }
+
   for (const item of items) {
     switch (item.status) {
       case GearStatus.AVAILABLE:
@@ -414,6 +677,9 @@ export async function getGearTypeDetail(
       case GearStatus.RETIRED:
         statusCounts.retired++;
         break;
+      case GearStatus.LOST:
+        statusCounts.lost++;
+        break;
     }
   }
 
@@ -427,6 +693,7 @@ export async function getGearTypeDetail(
 export interface ListGearTypesDeps {
   gearTypeRepo: GearTypeRepository;
   gearItemRepo: GearItemRepository;
+  checkoutRepo: CheckoutRepository;
 }
 
 const CATEGORY_LABELS: Record<string, string> = {
@@ -451,6 +718,7 @@ export interface GearTypeListItem {
     checkedOut: number;
     maintenance: number;
     retired: number;
+    lost: number;
     total: number;
   };
 }
@@ -479,6 +747,7 @@ export async function listGearTypesWithStatus(
   }
 
   const allItems = await deps.gearItemRepo.findAll();
+  const bulkAvailability = await getBulkAvailability(deps, gearTypes);
 
   // Build per-type status counts
   const itemsByType = new Map<string, GearItem[]>();
@@ -500,11 +769,15 @@ export async function listGearTypesWithStatus(
       checkedOut: 0,
       maintenance: 0,
       retired: 0,
+      lost: 0,
       total: 0
     };
 
     if (gearType.isBulkTracked) {
-      statusCounts.available = gearType.totalQuantity;
+      const availability = bulkAvailability.get(gearType.id);
+      statusCounts.available = availability?.available ?? 0;
+      statusCounts.checkedOut = availability?.checkedOut ?? 0;
+      statusCounts.maintenance = availability?.maintenance ?? 0;
       statusCounts.total = gearType.totalQuantity;
     } else {
       statusCounts.total = items.length;
@@ -522,6 +795,9 @@ export async function listGearTypesWithStatus(
           case GearStatus.RETIRED:
             statusCounts.retired++;
             break;
+          case GearStatus.LOST:
+            statusCounts.lost++;
+            break;
         }
       }
     }
@@ -533,7 +809,8 @@ export async function listGearTypesWithStatus(
         (status === GearStatus.AVAILABLE && statusCounts.available > 0) ||
         (status === GearStatus.CHECKED_OUT && statusCounts.checkedOut > 0) ||
         (status === GearStatus.MAINTENANCE && statusCounts.maintenance > 0) ||
-        (status === GearStatus.RETIRED && statusCounts.retired > 0);
+        (status === GearStatus.RETIRED && statusCounts.retired > 0) ||
+        (status === GearStatus.LOST && statusCounts.lost > 0);
       if (!hasMatch) continue;
     }
 
@@ -553,3 +830,18 @@ export async function listGearTypesWithStatus(
 
   return results;
 }
+
+/**
+ * Record an inventory change and the staff member who made it.
+ */
+async function publishInventoryEvent<T extends DomainEventType>(
+  deps: { idGenerator: IdGenerator; clock: Clock; eventPublisher: EventPublisher },
+  definition: EventDefinition<T, DomainEventOfType<T>['payload']>,
+  aggregateId: string,
+  staffMemberId: string,
+  payload: DomainEventOfType<T>['payload']
+): Promise<void> {
+  const event = definition.create({ aggregateId, staffMemberId, payload }, deps);
+  // TS cannot narrow a generic envelope back into the union
+  await deps.eventPublisher.publish(event as DomainEvent);
+}
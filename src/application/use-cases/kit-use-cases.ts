@@ -0,0 +1,219 @@
+import { type Result, ok, err } from '../result.js';
+import type { GearTypeRepository, KitRepository } from '../ports/repositories.js';
+import type { IdGenerator, Clock, EventPublisher } from '../ports/services.js';
+import { Kit, type CreateKitInput, type CreateKitError } from '../../domain/entities/kit.js';
+import type { GearType } from '../../domain/entities/gear-type.js';
+import { gearTypeId, kitId } from '../../domain/value-objects/index.js';
+import {
+  type DomainEvent,
+  type DomainEventType,
+  type DomainEventOfType,
+  type EventDefinition,
+  KitCreated,
+  KitUpdated,
+  KitDeleted
+} from '../../domain/events/index.js';
+
+// ============================================================================
+// Create Kit
+// ============================================================================
+
+export type CreateKitUseCaseError =
+  | CreateKitError
+  | { type: 'duplicate_name'; name: string }
+  | { type: 'gear_type_not_found'; id: string };
+
+export interface CreateKitDeps {
+  kitRepo: KitRepository;
+  gearTypeRepo: GearTypeRepository;
+  idGenerator: IdGenerator;
+  clock: Clock;
+  eventPublisher: EventPublisher;
+}
+
+export interface CreateKitUseCaseInput extends CreateKitInput {
+  staffMemberId: string;
+}
+
+/**
+ * Define a named kit of gear type slots. Names are unique, ignoring case.
+ */
+export async function createKit(
+  deps: CreateKitDeps,
+  input: CreateKitUseCaseInput
+): Promise<Result<Kit, CreateKitUseCaseError>> {
+  const existing = await deps.kitRepo.findAll();
+  const nameNormalized = input.name.trim().toLowerCase();
+  if (existing.some((k) => k.name.toLowerCase() === nameNormalized)) {
+    return err({ type: 'duplicate_name', name: input.name.trim() });
+  }
+
+  const missing = await findMissingGearType(deps, input.slots);
+  if (missing) {
+    return err({ type: 'gear_type_not_found', id: missing });
+  }
+
+  const result = Kit.create(input, deps);
+  if (!result.ok) {
+    return result;
+  }
+
+  await deps.kitRepo.save(result.value);
+  await publishKitEvent(deps, KitCreated, result.value.id, input.staffMemberId, {
+    name: result.value.name
+  });
+  return result;
+}
+
+// ============================================================================
+// Update Kit
+// ============================================================================
+
+export type UpdateKitError =
+  | CreateKitError
+  | { type: 'not_found'; id: string }
+  | { type: 'duplicate_name'; name: string }
+  | { type: 'gear_type_not_found'; id: string };
+
+export interface UpdateKitDeps {
+  kitRepo: KitRepository;
+  gearTypeRepo: GearTypeRepository;
+  idGenerator: IdGenerator;
+  clock: Clock;
+  eventPublisher: EventPublisher;
+}
+
+export interface UpdateKitInput {
+  id: string;
+  staffMemberId: string;
+  name?: string;
+  description?: string;
+  slots?: Array<{ gearTypeId: string; quantity: number }>;
+}
+
+/**
+ * Rename a kit, change its description or replace its slots.
+ */
+export async function updateKit(
+  deps: UpdateKitDeps,
+  input: UpdateKitInput
+): Promise<Result<Kit, UpdateKitError>> {
+  const kit = await deps.kitRepo.findById(kitId(input.id));
+  if (!kit) {
+    return err({ type: 'not_found', id: input.id });
+  }
+
+  if (input.name !== undefined) {
+    const nameNormalized = input.name.trim().toLowerCase();
+    const existing = await deps.kitRepo.findAll();
+    if (existing.some((k) => k.id !== kit.id && k.name.toLowerCase() === nameNormalized)) {
+      return err({ type: 'duplicate_name', name: input.name.trim() });
+    }
+  }
+
+  if (input.slots !== undefined) {
+    const missing = await findMissingGearType(deps, input.slots);
+    if (missing) {
+      return err({ type: 'gear_type_not_found', id: missing });
+    }
+  }
+
+  const result = kit.update(input, deps);
+  if (!result.ok) {
+    return result;
+  }
+
+  await deps.kitRepo.save(result.value);
+  await publishKitEvent(deps, KitUpdated, kit.id, input.staffMemberId, {
+    name: result.value.name
+  });
+  return result;
+}
+
+// ============================================================================
+// Delete Kit
+// ============================================================================
+
+export type DeleteKitError = { type: 'not_found'; id: string };
+
+export interface DeleteKitDeps {
+  kitRepo: KitRepository;
+  idGenerator: IdGenerator;
+  clock: Clock;
+  eventPublisher: EventPublisher;
+}
+
+/**
+ * Delete a kit definition. Checkouts made from it keep their items.
+ */
+export async function deleteKit(
+  deps: DeleteKitDeps,
+  kitId_: string,
+  staffMemberId: string
+): Promise<Result<void, DeleteKitError>> {
+  const kit = await deps.kitRepo.findById(kitId(kitId_));
+  if (!kit) {
+    return err({ type: 'not_found', id: kitId_ });
+  }
+
+  await deps.kitRepo.delete(kit.id);
+  await publishKitEvent(deps, KitDeleted, kit.id, staffMemberId, { name: kit.name });
+  return ok(undefined);
+}
+
+// ============================================================================
+// List Kits
+// ============================================================================
+
+export interface ListKitsDeps {
+  kitRepo: KitRepository;
+  gearTypeRepo: GearTypeRepository;
+}
+
+export interface KitListItem {
+  kit: Kit;
+  slots: Array<{ gearType: GearType; quantity: number }>;
+}
+
+/**
+ * List kits with their slots resolved to gear types.
+ */
+export async function listKits(deps: ListKitsDeps): Promise<KitListItem[]> {
+  const [kits, gearTypes] = await Promise.all([
+    deps.kitRepo.findAll(),
+    deps.gearTypeRepo.findAll()
+  ]);
+  const gearTypesById = new Map(gearTypes.map((gt) => [gt.id as string, gt]));
+
+  return kits.map((kit) => ({
+    kit,
+    slots: kit.slots.flatMap((slot) => {
+      const gearType = gearTypesById.get(slot.gearTypeId);
+      return gearType ? [{ gearType, quantity: slot.quantity }] : [];
+    })
+  }));
+}
+
+async function findMissingGearType(
+  deps: { gearTypeRepo: GearTypeRepository },
+  slots: ReadonlyArray<{ gearTypeId: string }>
+): Promise<string | null> {
+  for (const slot of slots) {
+    if (!(await deps.gearTypeRepo.findById(gearTypeId(slot.gearTypeId)))) {
+      return slot.gearTypeId;
+    }
+  }
+  return null;
+}
+
+async function publishKitEvent<T extends DomainEventType>(
+  deps: { idGenerator: IdGenerator; clock: Clock; eventPublisher: EventPublisher },
+  definition: EventDefinition<T, DomainEventOfType<T>['payload']>,
+  aggregateId: string,
+  staffMemberId: string,
+  payload: DomainEventOfType<T>['payload']
+): Promise<void> {
+  const event = definition.create({ aggregateId, staffMemberId, payload }, deps);
+  // TS cannot narrow a generic envelope back into the union
+  await deps.eventPublisher.publish(event as DomainEvent);
+}
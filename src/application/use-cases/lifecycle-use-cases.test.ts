@@ -0,0 +1,153 @@
+import { describe, it, expect } from 'vitest';
+import { setLifecycleLimit, listRetirementsDue } from './lifecycle-use-cases.js';
+import { createCheckout } from './checkout-use-cases.js';
+import { returnItemByCode } from './return-use-cases.js';
+import { GearItem } from '../../domain/entities/gear-item.js';
+import type { LifecycleLimit } from '../../domain/entities/gear-type.js';
+import { GearCondition, StaffRole } from '../../domain/types.js';
+import { unwrap } from '../result.js';
+import { createTestEnvironment } from '../../test-utils/in-memory-repositories.js';
+import { createPads, createTestMember, createTestStaffMember, createTent } from '../../test-utils/fixtures.js';
+
+// ============================================================================
+// Test helpers
+// ============================================================================
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+async function makeDeps(limit: LifecycleLimit) {
+  const deps = createTestEnvironment();
+  await createTestStaffMember(deps);
+  await createTestStaffMember(deps, 'desk-1', StaffRole.DESK);
+  const member = await createTestMember(deps, 'S100', 'Avery');
+  const { gearType, item } = await createTent(deps);
+  unwrap(await setLifecycleLimit(deps, { gearTypeId: gearType.id, limit, staffMemberId: 'staff-1' }));
+  return { deps, member, gearType, item };
+}
+
+function advanceDays(deps: ReturnType<typeof createTestEnvironment>, days: number) {
+  deps.clock.set(new Date(deps.clock.now().getTime() + days * DAY_MS));
+}
+
+// Saves a new item on the type that has already been checked out `checkoutCount` times
+async function addUsedItem(
+  deps: ReturnType<typeof createTestEnvironment>,
+  gearTypeId: string,
+  code: string,
+  checkoutCount: number
+) {
+  const item = unwrap(GearItem.create({ gearTypeId, code }, deps));
+  const used = GearItem.fromRecord({ ...item.toRecord(), checkoutCount });
+  await deps.gearItemRepo.save(used);
+  return used;
+}
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+describe('usage counters', () => {
+  it('count checkouts and whole days in use', async () => {
+    const { deps, member, item } = await makeDeps({ maxUses: 50, maxYears: null });
+
+    unwrap(
+      await createCheckout(deps, { memberId: member.id, staffMemberId: 'staff-1', items: [{ itemCode: item.code }] })
+    );
+    let saved = await deps.gearItemRepo.findById(item.id);
+    expect(saved?.checkoutCount).toBe(1);
+    expect(saved?.checkedOutAt).toEqual(deps.clock.now());
+
+    advanceDays(deps, 2.5);
+    unwrap(
+      await returnItemByCode(deps, { itemCode: item.code, condition: GearCondition.GOOD, staffMemberId: 'staff-1' })
+    );
+    saved = await deps.gearItemRepo.findById(item.id);
+    expect(saved?.checkoutCount).toBe(1);
+    expect(saved?.daysInUse).toBe(3);
+    expect(saved?.checkedOutAt).toBeNull();
+  });
+});
+
+describe('lifecycle limits', () => {
+  it('are set by staff who can retire items on individually tracked gear types', async () => {
+    const { deps, gearType } = await makeDeps({ maxUses: 100, maxYears: 5 });
+    const pads = await createPads(deps);
+
+    expect((await deps.gearTypeRepo.findById(gearType.id))?.lifecycleLimit).toEqual({ maxUses: 100, maxYears: 5 });
+    expect(deps.events.at(-1)).toMatchObject({
+      type: 'LifecycleLimitUpdated',
+      payload: { name: 'REI Half Dome 2', maxUses: 100, maxYears: 5 }
+    });
+
+    const limit = { maxUses: 10, maxYears: null };
+    expect(
+      await setLifecycleLimit(deps, { gearTypeId: gearType.id, limit, staffMemberId: 'desk-1' })
+    ).toMatchObject({ ok: false, error: { type: 'forbidden' } });
+    expect(
+      await setLifecycleLimit(deps, { gearTypeId: pads.id, limit, staffMemberId: 'staff-1' })
+    ).toEqual({ ok: false, error: { type: 'not_individually_tracked' } });
+    expect(
+      await setLifecycleLimit(deps, {
+        gearTypeId: gearType.id,
+        limit: { maxUses: null, maxYears: null },
+        staffMemberId: 'staff-1'
+      })
+    ).toEqual({ ok: false, error: { type: 'no_lifecycle_limit' } });
+    expect(
+      await setLifecycleLimit(deps, {
+        gearTypeId: gearType.id,
+        limit: { maxUses: 2.5, maxYears: null },
+        staffMemberId: 'staff-1'
+      })
+    ).toEqual({ ok: false, error: { type: 'invalid_lifecycle_limit', value: 2.5 } });
+
+    const cleared = unwrap(
+      await setLifecycleLimit(deps, { gearTypeId: gearType.id, limit: null, staffMemberId: 'staff-1' })
+    );
+    expect(cleared.lifecycleLimit).toBeNull();
+  });
+
+  it('checkouts are refused once an item is past its age limit', async () => {
+    const { deps, member, item } = await makeDeps({ maxUses: null, maxYears: 2 });
+    const acquiredAt = new Date(deps.clock.now().getTime() - 731 * DAY_MS).toISOString();
+    await deps.gearItemRepo.save(GearItem.fromRecord({ ...item.toRecord(), acquiredAt }));
+
+    expect(
+      await createCheckout(deps, { memberId: member.id, staffMemberId: 'staff-1', items: [{ itemCode: item.code }] })
+    ).toEqual({ ok: false, error: { type: 'retirement_due', code: 'TENT-001' } });
+  });
+
+  it('checkouts are refused once an item reaches its checkout limit', async () => {
+    const { deps, member, item } = await makeDeps({ maxUses: 1, maxYears: null });
+
+    unwrap(
+      await createCheckout(deps, { memberId: member.id, staffMemberId: 'staff-1', items: [{ itemCode: item.code }] })
+    );
+    unwrap(
+      await returnItemByCode(deps, { itemCode: item.code, condition: GearCondition.GOOD, staffMemberId: 'staff-1' })
+    );
+
+    expect(
+      await createCheckout(deps, { memberId: member.id, staffMemberId: 'staff-1', items: [{ itemCode: item.code }] })
+    ).toEqual({ ok: false, error: { type: 'retirement_due', code: 'TENT-001' } });
+  });
+
+  it('lists items due for retirement first, then those coming up', async () => {
+    const { deps, gearType } = await makeDeps({ maxUses: 20, maxYears: 1 });
+    advanceDays(deps, 300);
+    await addUsedItem(deps, gearType.id, 'TENT-002', 20);
+    await addUsedItem(deps, gearType.id, 'TENT-003', 17);
+    await addUsedItem(deps, gearType.id, 'TENT-004', 3);
+    const retired = await addUsedItem(deps, gearType.id, 'TENT-005', 20);
+    await deps.gearItemRepo.save(unwrap(retired.retire(deps)));
+
+    const report = await listRetirementsDue(deps);
+
+    expect(report.map((r) => [r.code, r.due, r.usesLeft])).toEqual([
+      ['TENT-002', true, 0],
+      ['TENT-001', false, 20],
+      ['TENT-003', false, 3]
+    ]);
+    expect(report[1].retireBy).toEqual(new Date('2026-06-15T10:00:00Z'));
+  });
+});
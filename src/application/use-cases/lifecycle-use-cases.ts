@@ -0,0 +1,151 @@
+import { type Result, err } from '../result.js';
+import { type ForbiddenError, authorize } from '../authorization.js';
+import type { GearItemRepository, GearTypeRepository, StaffMemberRepository } from '../ports/repositories.js';
+import type { IdGenerator, Clock, EventPublisher } from '../ports/services.js';
+import type { GearType, LifecycleLimit, LifecycleLimitError } from '../../domain/entities/gear-type.js';
+import type { GearStatus } from '../../domain/types.js';
+import { gearTypeId } from '../../domain/value-objects/index.js';
+import { Permission, lifecycleStanding } from '../../domain/policies/index.js';
+import { LifecycleLimitUpdated } from '../../domain/events/index.js';
+
+// ============================================================================
+// Lifecycle Limits
+// ============================================================================
+
+export type SetLifecycleLimitError =
+  | ForbiddenError
+  | LifecycleLimitError
+  | { type: 'not_found'; id: string };
+
+export interface SetLifecycleLimitDeps {
+  gearTypeRepo: GearTypeRepository;
+  staffMemberRepo: StaffMemberRepository;
+  idGenerator: IdGenerator;
+  clock: Clock;
+  eventPublisher: EventPublisher;
+}
+
+export interface SetLifecycleLimitInput {
+  gearTypeId: string;
+  // Null removes the limit for the type
+  limit: LifecycleLimit | null;
+  staffMemberId: string;
+}
+
+/**
+ * Set when a gear type's items must be retired. Staff who can retire items only.
+ */
+export async function setLifecycleLimit(
+  deps: SetLifecycleLimitDeps,
+  input: SetLifecycleLimitInput
+): Promise<Result<GearType, SetLifecycleLimitError>> {
+  const auth = await authorize(deps, input.staffMemberId, Permission.RETIRE_ITEM);
+  if (!auth.ok) {
+    return auth;
+  }
+
+  const gearType = await deps.gearTypeRepo.findById(gearTypeId(input.gearTypeId));
+  if (!gearType) {
+    return err({ type: 'not_found', id: input.gearTypeId });
+  }
+
+  const result = gearType.setLifecycleLimit(input.limit, deps);
+  if (!result.ok) {
+    return result;
+  }
+
+  const limit = result.value.lifecycleLimit;
+  await deps.gearTypeRepo.save(result.value);
+  await deps.eventPublisher.publish(
+    LifecycleLimitUpdated.create(
+      {
+        aggregateId: gearType.id,
+        staffMemberId: input.staffMemberId,
+        payload: {
+          name: gearType.name,
+          ...(limit?.maxUses && { maxUses: limit.maxUses }),
+          ...(limit?.maxYears && { maxYears: limit.maxYears })
+        }
+      },
+      deps
+    )
+  );
+
+  return result;
+}
+
+// ============================================================================
+// Retirement Due Report
+// ============================================================================
+
+/**
+ * An item at or nearing its gear type's lifecycle limit.
+ */
+export interface RetirementDue {
+  gearItemId: string;
+  code: string;
+  gearTypeName: string;
+  status: GearStatus;
+  acquiredAt: Date;
+  checkoutCount: number;
+  daysInUse: number;
+  retireBy: Date | null;
+  usesLeft: number | null;
+  due: boolean;
+}
+
+export interface ListRetirementsDueDeps {
+  gearTypeRepo: GearTypeRepository;
+  gearItemRepo: GearItemRepository;
+  clock: Clock;
+}
+
+// An item this few checkouts from its limit counts as coming up
+const UPCOMING_USES = 5;
+
+/**
+ * Items past their lifecycle limit, then those reaching it within `withinDays`
+ * or a few checkouts, soonest first. Retired and lost items are left out.
+ */
+export async function listRetirementsDue(
+  deps: ListRetirementsDueDeps,
+  withinDays = 90
+): Promise<RetirementDue[]> {
+  const now = deps.clock.now();
+  const cutoff = new Date(now.getTime() + withinDays * 1000 * 60 * 60 * 24);
+  const report: RetirementDue[] = [];
+
+  for (const gearType of await deps.gearTypeRepo.findAll()) {
+    const limit = gearType.lifecycleLimit;
+    if (!limit) continue;
+
+    for (const item of await deps.gearItemRepo.findByGearTypeId(gearType.id)) {
+      if (item.isRetired() || item.isLost()) continue;
+      const standing = lifecycleStanding(limit, item, now);
+      const upcoming =
+        (standing.retireBy !== null && standing.retireBy <= cutoff) ||
+        (standing.usesLeft !== null && standing.usesLeft <= UPCOMING_USES);
+      if (!standing.due && !upcoming) continue;
+
+      report.push({
+        gearItemId: item.id,
+        code: item.code,
+        gearTypeName: gearType.name,
+        status: item.status,
+        acquiredAt: item.acquiredAt,
+        checkoutCount: item.checkoutCount,
+        daysInUse: item.daysInUse,
+        ...standing
+      });
+    }
+  }
+
+  report.sort(
+    (a, b) =>
+      Number(b.due) - Number(a.due) ||
+      (a.retireBy?.getTime() ?? Infinity) - (b.retireBy?.getTime() ?? Infinity) ||
+      (a.usesLeft ?? Infinity) - (b.usesLeft ?? Infinity) ||
+      a.code.localeCompare(b.code)
+  );
+  return report;
+}
@@ -0,0 +1,157 @@
+import { describe, it, expect } from 'vitest';
+import { declareItemLost, recoverLostItem } from './lost-item-use-cases.js';
+import { createCheckout } from './checkout-use-cases.js';
+import { returnItemByCode } from './return-use-cases.js';
+import { CheckoutStatus, GearCondition, GearStatus, StaffRole } from '../../domain/types.js';
+import { Permission } from '../../domain/policies/index.js';
+import { unwrap } from '../result.js';
+import { createTestEnvironment } from '../../test-utils/in-memory-repositories.js';
+import { createTestMember, createTent, createTestStaffMember } from '../../test-utils/fixtures.js';
+
+// ============================================================================
+// Test helpers
+// ============================================================================
+
+async function makeDeps() {
+  const deps = createTestEnvironment();
+  await createTestStaffMember(deps);
+  return deps;
+}
+
+async function checkOutTent(deps: Awaited<ReturnType<typeof makeDeps>>) {
+  const member = await createTestMember(deps, 'S100', 'Avery');
+  const { item } = await createTent(deps);
+  const { checkout } = unwrap(
+    await createCheckout(deps, {
+      memberId: member.id,
+      staffMemberId: 'staff-1',
+      items: [{ itemCode: item.code }]
+    })
+  );
+  return { member, item, checkout };
+}
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+describe('declareItemLost', () => {
+  it('closes the item, marks the gear lost and charges the member', async () => {
+    const deps = await makeDeps();
+    const { member, item, checkout } = await checkOutTent(deps);
+
+    const result = unwrap(
+      await declareItemLost(deps, {
+        checkoutId: checkout.id,
+        gearItemId: item.id,
+        replacementChargeCents: 35000,
+        staffMemberId: 'staff-1'
+      })
+    );
+
+    expect(result.checkout.status).toBe(CheckoutStatus.COMPLETED);
+    expect(result.checkout.isOverdue(new Date('2099-01-01'))).toBe(false);
+    expect((await deps.gearItemRepo.findById(item.id))?.status).toBe(GearStatus.LOST);
+
+    const account = await deps.memberAccountRepo.findByMemberId(member.id);
+    expect(account.balanceCents).toBe(35000);
+    expect(account.getOutstandingCharges().map((c) => c.id)).toEqual([result.charge?.id]);
+
+    const event = deps.events.find((e) => e.type === 'ItemLost');
+    expect(event?.payload).toMatchObject({ gearItemId: item.id, chargeId: result.charge?.id, amountCents: 35000 });
+  });
+
+  it('refuses desk staff and items already lost', async () => {
+    const deps = await makeDeps();
+    await createTestStaffMember(deps, 'desk-1', StaffRole.DESK);
+    const { item, checkout } = await checkOutTent(deps);
+    const input = { checkoutId: checkout.id, gearItemId: item.id, replacementChargeCents: 1000 };
+
+    const forbidden = await declareItemLost(deps, { ...input, staffMemberId: 'desk-1' });
+    expect(forbidden).toEqual({ ok: false, error: { type: 'forbidden', permission: Permission.MANAGE_LOST_ITEMS } });
+
+    unwrap(await declareItemLost(deps, { ...input, staffMemberId: 'staff-1' }));
+    const again = await declareItemLost(deps, { ...input, staffMemberId: 'staff-1' });
+    expect(again).toEqual({ ok: false, error: { type: 'item_already_lost' } });
+  });
+
+  it('rejects a negative replacement charge without changing anything', async () => {
+    const deps = await makeDeps();
+    const { item, checkout } = await checkOutTent(deps);
+
+    const result = await declareItemLost(deps, {
+      checkoutId: checkout.id,
+      gearItemId: item.id,
+      replacementChargeCents: -5,
+      staffMemberId: 'staff-1'
+    });
+
+    expect(result.ok).toBe(false);
+    if (!result.ok) expect(result.error.type).toBe('invalid_amount');
+    expect((await deps.gearItemRepo.findById(item.id))?.status).toBe(GearStatus.CHECKED_OUT);
+  });
+});
+
+describe('recoverLostItem', () => {
+  it('returns the item to inventory and voids the replacement charge', async () => {
+    const deps = await makeDeps();
+    const { member, item, checkout } = await checkOutTent(deps);
+    unwrap(
+      await declareItemLost(deps, {
+        checkoutId: checkout.id,
+        gearItemId: item.id,
+        replacementChargeCents: 35000,
+        staffMemberId: 'staff-1'
+      })
+    );
+
+    const result = unwrap(
+      await recoverLostItem(deps, { gearItemId: item.id, condition: GearCondition.FAIR, staffMemberId: 'staff-1' })
+    );
+
+    expect(result.gearItem.status).toBe(GearStatus.AVAILABLE);
+    expect(result.gearItem.condition).toBe(GearCondition.FAIR);
+    expect(result.checkout.findItem(item.id)?.returnedAt).not.toBeNull();
+    expect(result.checkout.getLostItems()).toEqual([]);
+    const account = await deps.memberAccountRepo.findByMemberId(member.id);
+    expect(account.balanceCents).toBe(0);
+    expect(account.getOutstandingCharges()).toEqual([]);
+    expect(deps.events.at(-1)?.payload).toMatchObject({ voidedChargeId: result.chargeWaiver?.reversesEntryId });
+  });
+
+  it('rejects items that are not lost', async () => {
+    const deps = await makeDeps();
+    const { item } = await checkOutTent(deps);
+
+    const result = await recoverLostItem(deps, {
+      gearItemId: item.id,
+      condition: GearCondition.GOOD,
+      staffMemberId: 'staff-1'
+    });
+
+    expect(result).toEqual({ ok: false, error: { type: 'item_not_lost' } });
+  });
+});
+
+describe('returning a lost item', () => {
+  it('is refused at the desk until the item is recovered', async () => {
+    const deps = await makeDeps();
+    const { item, checkout } = await checkOutTent(deps);
+    unwrap(
+      await declareItemLost(deps, {
+        checkoutId: checkout.id,
+        gearItemId: item.id,
+        replacementChargeCents: 0,
+        staffMemberId: 'staff-1'
+      })
+    );
+
+    const result = await returnItemByCode(deps, {
+      itemCode: item.code,
+      condition: GearCondition.GOOD,
+      staffMemberId: 'staff-1'
+    });
+
+    expect(result).toEqual({ ok: false, error: { type: 'item_not_checked_out', code: item.code } });
+  });
+});
@@ -0,0 +1,256 @@
+import { type Result, ok, err } from '../result.js';
+import { type ForbiddenError, authorize } from '../authorization.js';
+import type {
+  CheckoutRepository,
+  GearItemRepository,
+  MemberAccountRepository,
+  StaffMemberRepository
+} from '../ports/repositories.js';
+import type { IdGenerator, Clock, EventPublisher, UnitOfWork } from '../ports/services.js';
+import type { Checkout } from '../../domain/entities/checkout.js';
+import type { GearItem } from '../../domain/entities/gear-item.js';
+import type { AccountEntry } from '../../domain/entities/account-entry.js';
+import { ChargeType, CheckoutStatus, type GearCondition } from '../../domain/types.js';
+import { checkoutId, gearItemId } from '../../domain/value-objects/index.js';
+import { Permission } from '../../domain/policies/index.js';
+import { ItemLost, LostItemRecovered } from '../../domain/events/index.js';
+
+// ============================================================================
+// Declare Item Lost
+// ============================================================================
+
+export type DeclareItemLostError =
+  | ForbiddenError
+  | { type: 'checkout_not_found'; checkoutId: string }
+  | { type: 'item_not_in_checkout'; gearItemId: string }
+  | { type: 'item_already_returned' }
+  | { type: 'item_already_lost' }
+  | { type: 'invalid_amount'; amountCents: number }
+  | { type: 'empty_description' };
+
+export interface DeclareItemLostDeps {
+  checkoutRepo: CheckoutRepository;
+  gearItemRepo: GearItemRepository;
+  memberAccountRepo: MemberAccountRepository;
+  staffMemberRepo: StaffMemberRepository;
+  idGenerator: IdGenerator;
+  clock: Clock;
+  eventPublisher: EventPublisher;
+  unitOfWork: UnitOfWork;
+}
+
+export interface DeclareItemLostInput {
+  checkoutId: string;
+  gearItemId: string;
+  // Replacement cost billed to the member, in whole cents; 0 posts no charge
+  replacementChargeCents: number;
+  staffMemberId: string;
+}
+
+export interface DeclareItemLostResult {
+  checkout: Checkout;
+  gearItem: GearItem;
+  charge: AccountEntry | null;
+}
+
+/**
+ * Close out an individual item that will not come back: the checkout item is
+ * marked lost, the gear item moves to LOST, and the member's account is charged for a replacement.
+ */
+export async function declareItemLost(
+  deps: DeclareItemLostDeps,
+  input: DeclareItemLostInput
+): Promise<Result<DeclareItemLostResult, DeclareItemLostError>> {
+  const auth = await authorize(deps, input.staffMemberId, Permission.MANAGE_LOST_ITEMS);
+  if (!auth.ok) {
+    return auth;
+  }
+
+  const checkout = await deps.checkoutRepo.findById(checkoutId(input.checkoutId));
+  if (!checkout) {
+    return err({ type: 'checkout_not_found', checkoutId: input.checkoutId });
+  }
+
+  const lostResult = checkout.declareItemLost(input.gearItemId, input.staffMemberId, deps);
+  if (!lostResult.ok) {
+    if (lostResult.error.type === 'item_not_found') {
+      return err({ type: 'item_not_in_checkout', gearItemId: input.gearItemId });
+    }
+    return err(lostResult.error);
+  }
+
+  const gearItem = await deps.gearItemRepo.findById(gearItemId(input.gearItemId));
+  if (!gearItem) {
+    return err({ type: 'item_not_in_checkout', gearItemId: input.gearItemId });
+  }
+  const itemResult = gearItem.markLost(deps);
+  if (!itemResult.ok) {
+    return err({ type: 'item_already_returned' });
+  }
+
+  if (!Number.isInteger(input.replacementChargeCents) || input.replacementChargeCents < 0) {
+    return err({ type: 'invalid_amount', amountCents: input.replacementChargeCents });
+  }
+
+  let charge: AccountEntry | null = null;
+  if (input.replacementChargeCents > 0) {
+    const account = await deps.memberAccountRepo.findByMemberId(checkout.memberId);
+    const chargeResult = account.charge(
+      {
+        chargeType: ChargeType.REPLACEMENT,
+        amountCents: input.replacementChargeCents,
+        description: `Replacement for lost ${gearItem.code}`,
+        checkoutId: checkout.id,
+        gearItemId: gearItem.id,
+        staffMemberId: input.staffMemberId
+      },
+      deps
+    );
+    if (!chargeResult.ok) {
+      return chargeResult;
+    }
+    charge = chargeResult.value;
+  }
+
+  const updatedCheckout = lostResult.value;
+
+  await deps.unitOfWork.run(async () => {
+    await deps.checkoutRepo.save(updatedCheckout);
+    await deps.gearItemRepo.save(itemResult.value);
+    if (charge) {
+      await deps.memberAccountRepo.append(charge);
+    }
+    await deps.eventPublisher.publish(
+      ItemLost.create(
+        {
+          aggregateId: checkout.id,
+          staffMemberId: input.staffMemberId,
+          payload: {
+            checkoutId: checkout.id,
+            memberId: checkout.memberId,
+            gearItemId: gearItem.id,
+            itemCode: gearItem.code,
+            ...(charge ? { chargeId: charge.id } : {}),
+            amountCents: charge?.amountCents ?? 0,
+            checkoutComplete: updatedCheckout.status === CheckoutStatus.COMPLETED
+          }
+        },
+        deps
+      )
+    );
+  });
+
+  return ok({ checkout: updatedCheckout, gearItem: itemResult.value, charge });
+}
+
+// ============================================================================
+// Recover Lost Item
+// ============================================================================
+
+export type RecoverLostItemError =
+  | ForbiddenError
+  | { type: 'item_not_found'; gearItemId: string }
+  | { type: 'item_not_lost' }
+  | { type: 'checkout_not_found' };
+
+export interface RecoverLostItemDeps {
+  checkoutRepo: CheckoutRepository;
+  gearItemRepo: GearItemRepository;
+  memberAccountRepo: MemberAccountRepository;
+  staffMemberRepo: StaffMemberRepository;
+  idGenerator: IdGenerator;
+  clock: Clock;
+  eventPublisher: EventPublisher;
+  unitOfWork: UnitOfWork;
+}
+
+export interface RecoverLostItemInput {
+  gearItemId: string;
+  condition: GearCondition;
+  staffMemberId: string;
+}
+
+export interface RecoverLostItemResult {
+  checkout: Checkout;
+  gearItem: GearItem;
+  // The waiver that cancelled the replacement charge, if one was still outstanding
+  chargeWaiver: AccountEntry | null;
+}
+
+/**
+ * Reverse a lost declaration when the gear turns up: the item is recorded as
+ * returned, goes back into inventory, and its outstanding replacement charge is voided.
+ */
+export async function recoverLostItem(
+  deps: RecoverLostItemDeps,
+  input: RecoverLostItemInput
+): Promise<Result<RecoverLostItemResult, RecoverLostItemError>> {
+  const auth = await authorize(deps, input.staffMemberId, Permission.MANAGE_LOST_ITEMS);
+  if (!auth.ok) {
+    return auth;
+  }
+
+  const gearItem = await deps.gearItemRepo.findById(gearItemId(input.gearItemId));
+  if (!gearItem) {
+    return err({ type: 'item_not_found', gearItemId: input.gearItemId });
+  }
+  const itemResult = gearItem.markFound(input.condition, deps);
+  if (!itemResult.ok) {
+    return err({ type: 'item_not_lost' });
+  }
+
+  // A lost item closes its checkout, so look beyond the open ones
+  const checkouts = await deps.checkoutRepo.findAll();
+  const checkout = checkouts.find((c) =>
+    c.items.some((i) => i.gearItemId === gearItem.id && i.lostAt !== null)
+  );
+  if (!checkout) {
+    return err({ type: 'checkout_not_found' });
+  }
+
+  const recoverResult = checkout.recoverLostItem(gearItem.id, input.condition, input.staffMemberId, deps);
+  if (!recoverResult.ok) {
+    return err({ type: 'item_not_lost' });
+  }
+
+  const account = await deps.memberAccountRepo.findByMemberId(checkout.memberId);
+  const charge = account
+    .getOutstandingCharges()
+    .find(
+      (c) =>
+        c.chargeType === ChargeType.REPLACEMENT && c.checkoutId === checkout.id && c.gearItemId === gearItem.id
+    );
+  const waiverResult = charge
+    ? account.voidCharge(charge.id, `Lost ${gearItem.code} recovered`, input.staffMemberId, deps)
+    : null;
+  const chargeWaiver = waiverResult?.ok ? waiverResult.value : null;
+
+  const updatedCheckout = recoverResult.value;
+
+  await deps.unitOfWork.run(async () => {
+    await deps.checkoutRepo.save(updatedCheckout);
+    await deps.gearItemRepo.save(itemResult.value);
+    if (chargeWaiver) {
+      await deps.memberAccountRepo.append(chargeWaiver);
+    }
+    await deps.eventPublisher.publish(
+      LostItemRecovered.create(
+        {
+          aggregateId: checkout.id,
+          staffMemberId: input.staffMemberId,
+          payload: {
+            checkoutId: checkout.id,
+            memberId: checkout.memberId,
+            gearItemId: gearItem.id,
+            itemCode: gearItem.code,
+            condition: input.condition,
+            ...(chargeWaiver?.reversesEntryId ? { voidedChargeId: chargeWaiver.reversesEntryId } : {})
+          }
+        },
+        deps
+      )
+    );
+  });
+
+  return ok({ checkout: updatedCheckout, gearItem: itemResult.value, chargeWaiver });
+}
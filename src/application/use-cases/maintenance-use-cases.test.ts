@@ -0,0 +1,158 @@
+import { describe, it, expect } from 'vitest';
+import {
+  openMaintenanceTicket,
+  updateMaintenanceTicket,
+  closeMaintenanceTicket,
+  finishItemMaintenance,
+  listMaintenanceQueue,
+  getMaintenanceHistory
+} from './maintenance-use-cases.js';
+import { sendItemToMaintenance } from './inventory-use-cases.js';
+import { GearCondition, GearStatus, MaintenanceTicketStatus, StaffRole } from '../../domain/types.js';
+import { unwrap } from '../result.js';
+import { createTestEnvironment } from '../../test-utils/in-memory-repositories.js';
+import { createTestStaffMember, createTent } from '../../test-utils/fixtures.js';
+
+// ============================================================================
+// Test helpers
+// ============================================================================
+
+async function makeDeps() {
+  const deps = createTestEnvironment();
+  await createTestStaffMember(deps);
+  await createTestStaffMember(deps, 'desk-1', StaffRole.DESK);
+  const { item } = await createTent(deps);
+  return { deps, item };
+}
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+describe('maintenance tickets', () => {
+  it('opening a ticket moves the item into maintenance and keeps its notes', async () => {
+    const { deps, item } = await makeDeps();
+
+    const ticket = unwrap(
+      await openMaintenanceTicket(deps, {
+        gearItemId: item.id,
+        issue: '  Broken pole section  ',
+        assignedTo: 'desk-1',
+        staffMemberId: 'staff-1'
+      })
+    );
+
+    expect(ticket).toMatchObject({ issue: 'Broken pole section', status: MaintenanceTicketStatus.OPEN, assignedTo: 'desk-1' });
+    const saved = await deps.gearItemRepo.findById(item.id);
+    expect(saved?.status).toBe(GearStatus.MAINTENANCE);
+    expect(saved?.notes).toBe(item.notes);
+    expect(deps.events.map((e) => e.type)).toEqual(['GearItemSentToMaintenance', 'MaintenanceTicketOpened']);
+
+    expect(
+      await openMaintenanceTicket(deps, { gearItemId: item.id, issue: 'Zipper', staffMemberId: 'staff-1' })
+    ).toEqual({ ok: false, error: { type: 'ticket_already_open', ticketId: ticket.id } });
+  });
+
+  it('logs work, then closes through return from maintenance with the final condition', async () => {
+    const { deps, item } = await makeDeps();
+    const opened = unwrap(
+      await openMaintenanceTicket(deps, { gearItemId: item.id, issue: 'Torn fly', staffMemberId: 'staff-1' })
+    );
+
+    unwrap(
+      await updateMaintenanceTicket(deps, {
+        ticketId: opened.id,
+        status: MaintenanceTicketStatus.WAITING_PARTS,
+        laborMinutes: 30,
+        parts: [{ name: 'Patch kit', quantity: 1, costCents: 899 }],
+        staffMemberId: 'desk-1'
+      })
+    );
+    const updated = unwrap(
+      await updateMaintenanceTicket(deps, {
+        ticketId: opened.id,
+        laborMinutes: 15,
+        parts: [{ name: 'Seam sealer', quantity: 2, costCents: 1200 }],
+        staffMemberId: 'desk-1'
+      })
+    );
+    expect(updated).toMatchObject({ laborMinutes: 45, costCents: 2099, status: MaintenanceTicketStatus.WAITING_PARTS });
+
+    const closed = unwrap(
+      await closeMaintenanceTicket(deps, {
+        ticketId: opened.id,
+        condition: GearCondition.FAIR,
+        resolution: 'Patched and resealed',
+        staffMemberId: 'desk-1'
+      })
+    );
+
+    expect(closed).toMatchObject({
+      status: MaintenanceTicketStatus.DONE,
+      finalCondition: GearCondition.FAIR,
+      resolution: 'Patched and resealed'
+    });
+    expect(await deps.gearItemRepo.findById(item.id)).toMatchObject({
+      status: GearStatus.AVAILABLE,
+      condition: GearCondition.FAIR
+    });
+    expect(deps.events.slice(-2).map((e) => e.type)).toEqual(['GearItemReturnedFromMaintenance', 'MaintenanceTicketClosed']);
+    expect(
+      await updateMaintenanceTicket(deps, { ticketId: opened.id, laborMinutes: 5, staffMemberId: 'desk-1' })
+    ).toEqual({ ok: false, error: { type: 'ticket_closed' } });
+  });
+
+  it('rejects invalid work and statuses without saving', async () => {
+    const { deps, item } = await makeDeps();
+    const opened = unwrap(
+      await openMaintenanceTicket(deps, { gearItemId: item.id, issue: 'Bent stake', staffMemberId: 'staff-1' })
+    );
+
+    expect(
+      await updateMaintenanceTicket(deps, {
+        ticketId: opened.id,
+        parts: [{ name: ' ', quantity: 1, costCents: 100 }],
+        staffMemberId: 'staff-1'
+      })
+    ).toEqual({ ok: false, error: { type: 'invalid_part', index: 0 } });
+    expect(
+      await updateMaintenanceTicket(deps, {
+        ticketId: opened.id,
+        status: MaintenanceTicketStatus.DONE,
+        staffMemberId: 'staff-1'
+      })
+    ).toMatchObject({ ok: false, error: { type: 'invalid_status' } });
+    const { item: other } = await createTent(deps, 'TENT-002');
+    expect(await openMaintenanceTicket(deps, { gearItemId: other.id, issue: ' ', staffMemberId: 'staff-1' })).toEqual({
+      ok: false,
+      error: { type: 'empty_issue' }
+    });
+    expect((await deps.gearItemRepo.findById(other.id))?.status).toBe(GearStatus.AVAILABLE);
+    expect((await deps.maintenanceTicketRepo.findById(opened.id))?.laborMinutes).toBe(0);
+  });
+
+  it('ticketing an item already in maintenance, and returning one without a ticket', async () => {
+    const { deps, item } = await makeDeps();
+    const { item: other } = await createTent(deps, 'TENT-002');
+    unwrap(await sendItemToMaintenance(deps, item.id, 'staff-1', 'Needs a look'));
+    unwrap(await sendItemToMaintenance(deps, other.id, 'staff-1'));
+
+    const ticket = unwrap(
+      await openMaintenanceTicket(deps, { gearItemId: item.id, issue: 'Pole shock cord snapped', staffMemberId: 'staff-1' })
+    );
+    expect((await deps.gearItemRepo.findById(item.id))?.notes).toBe('Needs a look');
+
+    const queue = await listMaintenanceQueue(deps);
+    expect(queue).toEqual([
+      expect.objectContaining({ itemCode: 'TENT-001', gearTypeName: 'REI Half Dome 2', reportedByName: 'Staff staff-1' })
+    ]);
+
+    unwrap(await finishItemMaintenance(deps, { gearItemId: item.id, condition: GearCondition.GOOD, staffMemberId: 'staff-1' }));
+    unwrap(await finishItemMaintenance(deps, { gearItemId: other.id, condition: GearCondition.GOOD, staffMemberId: 'staff-1' }));
+
+    expect(await listMaintenanceQueue(deps)).toEqual([]);
+    const history = await getMaintenanceHistory(deps, item.id);
+    expect(history.map((h) => [h.ticket.id, h.ticket.status])).toEqual([[ticket.id, MaintenanceTicketStatus.DONE]]);
+    expect((await deps.gearItemRepo.findById(other.id))?.status).toBe(GearStatus.AVAILABLE);
+  });
+});
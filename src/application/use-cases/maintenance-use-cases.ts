@@ -0,0 +1,427 @@
+import { type Result, ok, err } from '../result.js';
+import type {
+  GearItemRepository,
+  GearTypeRepository,
+  MaintenanceTicketRepository,
+  MemberRepository,
+  StaffMemberRepository
+} from '../ports/repositories.js';
+import type { IdGenerator, Clock, EventPublisher, UnitOfWork } from '../ports/services.js';
+import {
+  MaintenanceTicket,
+  type CreateMaintenanceTicketError,
+  type UpdateMaintenanceTicketError,
+  type CloseMaintenanceTicketError,
+  type MaintenancePart
+} from '../../domain/entities/maintenance-ticket.js';
+import type { GearItem } from '../../domain/entities/gear-item.js';
+import type { Checkout } from '../../domain/entities/checkout.js';
+import { GearStatus, type GearCondition, type MaintenanceTicketStatus } from '../../domain/types.js';
+import { gearItemId, maintenanceTicketId, memberId, staffMemberId } from '../../domain/value-objects/index.js';
+import {
+  MaintenanceTicketOpened,
+  MaintenanceTicketUpdated,
+  MaintenanceTicketClosed
+} from '../../domain/events/index.js';
+import {
+  sendItemToMaintenance,
+  returnItemFromMaintenance,
+  type SendToMaintenanceError,
+  type ReturnFromMaintenanceError
+} from './inventory-use-cases.js';
+
+export interface MaintenanceTicketDeps {
+  maintenanceTicketRepo: MaintenanceTicketRepository;
+  gearItemRepo: GearItemRepository;
+  staffMemberRepo: StaffMemberRepository;
+  idGenerator: IdGenerator;
+  clock: Clock;
+  eventPublisher: EventPublisher;
+  unitOfWork: UnitOfWork;
+}
+
+// ============================================================================
+// Open Ticket
+// ============================================================================
+
+export type OpenMaintenanceTicketError =
+  | SendToMaintenanceError
+  | CreateMaintenanceTicketError
+  | { type: 'ticket_already_open'; ticketId: string }
+  | { type: 'assignee_not_found'; staffMemberId: string };
+
+export interface OpenMaintenanceTicketInput {
+  gearItemId: string;
+  issue: string;
+  assignedTo?: string;
+  staffMemberId: string;
+}
+
+/**
+ * Open a repair ticket for an item and move it into maintenance. An item already in
+ * maintenance without a ticket (sent before tickets existed) just gets the ticket.
+ */
+export async function openMaintenanceTicket(
+  deps: MaintenanceTicketDeps,
+  input: OpenMaintenanceTicketInput
+): Promise<Result<MaintenanceTicket, OpenMaintenanceTicketError>> {
+  const item = await deps.gearItemRepo.findById(gearItemId(input.gearItemId));
+  if (!item) {
+    return err({ type: 'not_found', id: input.gearItemId });
+  }
+
+  const existing = await findOpenTicket(deps, item.id);
+  if (existing) {
+    return err({ type: 'ticket_already_open', ticketId: existing.id });
+  }
+
+  if (input.assignedTo && !(await deps.staffMemberRepo.findById(staffMemberId(input.assignedTo)))) {
+    return err({ type: 'assignee_not_found', staffMemberId: input.assignedTo });
+  }
+
+  const created = MaintenanceTicket.create({ ...input, reportedBy: input.staffMemberId }, deps);
+  if (!created.ok) {
+    return created;
+  }
+  const ticket = created.value;
+
+  return deps.unitOfWork.run(async (): Promise<Result<MaintenanceTicket, OpenMaintenanceTicketError>> => {
+    if (item.status !== GearStatus.MAINTENANCE) {
+      const sent = await sendItemToMaintenance(deps, item.id, input.staffMemberId);
+      if (!sent.ok) {
+        return sent;
+      }
+    }
+
+    await saveOpenedTicket(deps, ticket, item.code, input.staffMemberId);
+    return ok(ticket);
+  });
+}
+
+/**
+ * Ticket for an item that came back from a checkout needing repair, carrying the
+ * return notes and the condition it went out in.
+ */
+export function createDamagedReturnTicket(
+  deps: { idGenerator: IdGenerator; clock: Clock },
+  input: {
+    gearItemId: string;
+    checkout: Checkout;
+    conditionAtReturn: GearCondition;
+    notes?: string;
+    staffMemberId: string;
+  }
+): MaintenanceTicket | null {
+  const checkoutItem = input.checkout.items.find((i) => i.gearItemId === input.gearItemId);
+  const result = MaintenanceTicket.create(
+    {
+      gearItemId: input.gearItemId,
+      issue: input.notes?.trim() || 'Returned needing repair',
+      reportedBy: input.staffMemberId,
+      damage: {
+        checkoutId: input.checkout.id,
+        memberId: input.checkout.memberId,
+        conditionAtCheckout: checkoutItem?.conditionAtCheckout ?? null,
+        conditionAtReturn: input.conditionAtReturn
+      }
+    },
+    deps
+  );
+  return result.ok ? result.value : null;
+}
+
+/**
+ * Save a newly opened ticket and publish it. Call inside the caller's unit of work.
+ */
+export async function saveOpenedTicket(
+  deps: {
+    maintenanceTicketRepo: MaintenanceTicketRepository;
+    idGenerator: IdGenerator;
+    clock: Clock;
+    eventPublisher: EventPublisher;
+  },
+  ticket: MaintenanceTicket,
+  itemCode: string,
+  staffMemberId: string
+): Promise<void> {
+  await deps.maintenanceTicketRepo.save(ticket);
+  await deps.eventPublisher.publish(
+    MaintenanceTicketOpened.create(
+      {
+        aggregateId: ticket.id,
+        staffMemberId,
+        payload: {
+          gearItemId: ticket.gearItemId,
+          code: itemCode,
+          issue: ticket.issue,
+          ...(ticket.assignedTo && { assignedTo: ticket.assignedTo }),
+          ...(ticket.damage && { checkoutId: ticket.damage.checkoutId, memberId: ticket.damage.memberId })
+        }
+      },
+      deps
+    )
+  );
+}
+
+// ============================================================================
+// Update Ticket
+// ============================================================================
+
+export type UpdateMaintenanceTicketUseCaseError =
+  | UpdateMaintenanceTicketError
+  | { type: 'not_found'; id: string }
+  | { type: 'assignee_not_found'; staffMemberId: string };
+
+export interface UpdateMaintenanceTicketInput {
+  ticketId: string;
+  status?: MaintenanceTicketStatus;
+  // Null unassigns the ticket
+  assignedTo?: string | null;
+  laborMinutes?: number;
+  parts?: MaintenancePart[];
+  staffMemberId: string;
+}
+
+/**
+ * Reassign a ticket, move it between working statuses, or log labor and parts.
+ */
+export async function updateMaintenanceTicket(
+  deps: MaintenanceTicketDeps,
+  input: UpdateMaintenanceTicketInput
+): Promise<Result<MaintenanceTicket, UpdateMaintenanceTicketUseCaseError>> {
+  const ticket = await deps.maintenanceTicketRepo.findById(maintenanceTicketId(input.ticketId));
+  if (!ticket) {
+    return err({ type: 'not_found', id: input.ticketId });
+  }
+
+  let updated = ticket;
+  if (input.assignedTo !== undefined) {
+    if (input.assignedTo && !(await deps.staffMemberRepo.findById(staffMemberId(input.assignedTo)))) {
+      return err({ type: 'assignee_not_found', staffMemberId: input.assignedTo });
+    }
+    const assigned = updated.assign(input.assignedTo, deps);
+    if (!assigned.ok) return assigned;
+    updated = assigned.value;
+  }
+  if (input.status) {
+    const moved = updated.changeStatus(input.status, deps);
+    if (!moved.ok) return moved;
+    updated = moved.value;
+  }
+  if (input.laborMinutes !== undefined || input.parts) {
+    const worked = updated.recordWork({ laborMinutes: input.laborMinutes, parts: input.parts }, deps);
+    if (!worked.ok) return worked;
+    updated = worked.value;
+  }
+
+  const item = await deps.gearItemRepo.findById(updated.gearItemId);
+  await deps.unitOfWork.run(async () => {
+    await deps.maintenanceTicketRepo.save(updated);
+    await deps.eventPublisher.publish(
+      MaintenanceTicketUpdated.create(
+        {
+          aggregateId: updated.id,
+          staffMemberId: input.staffMemberId,
+          payload: {
+            gearItemId: updated.gearItemId,
+            code: item?.code ?? '',
+            status: updated.status,
+            ...(updated.assignedTo && { assignedTo: updated.assignedTo }),
+            laborMinutes: updated.laborMinutes,
+            costCents: updated.costCents
+          }
+        },
+        deps
+      )
+    );
+  });
+
+  return ok(updated);
+}
+
+// ============================================================================
+// Close Ticket
+// ============================================================================
+
+export type CloseMaintenanceTicketUseCaseError =
+  | CloseMaintenanceTicketError
+  | ReturnFromMaintenanceError
+  | { type: 'not_found'; id: string };
+
+export interface CloseMaintenanceTicketInput {
+  ticketId: string;
+  condition: GearCondition;
+  resolution?: string;
+  staffMemberId: string;
+}
+
+export interface FinishItemMaintenanceInput {
+  gearItemId: string;
+  condition: GearCondition;
+  resolution?: string;
+  staffMemberId: string;
+}
+
+/**
+ * Mark the repair done and return the item to service in its final condition.
+ */
+export async function closeMaintenanceTicket(
+  deps: MaintenanceTicketDeps,
+  input: CloseMaintenanceTicketInput
+): Promise<Result<MaintenanceTicket, CloseMaintenanceTicketUseCaseError>> {
+  const ticket = await deps.maintenanceTicketRepo.findById(maintenanceTicketId(input.ticketId));
+  if (!ticket) {
+    return err({ type: 'not_found', id: input.ticketId });
+  }
+  return closeTicket(deps, ticket, input);
+}
+
+/**
+ * Return an item from maintenance, closing its open ticket if it has one.
+ */
+export async function finishItemMaintenance(
+  deps: MaintenanceTicketDeps,
+  input: FinishItemMaintenanceInput
+): Promise<Result<GearItem, CloseMaintenanceTicketUseCaseError>> {
+  const ticket = await findOpenTicket(deps, input.gearItemId);
+  if (!ticket) {
+    return returnItemFromMaintenance(deps, input.gearItemId, input.condition, input.staffMemberId);
+  }
+
+  const closed = await closeTicket(deps, ticket, input);
+  if (!closed.ok) {
+    return closed;
+  }
+  const item = await deps.gearItemRepo.findById(ticket.gearItemId);
+  return item ? ok(item) : err({ type: 'not_found', id: input.gearItemId });
+}
+
+async function closeTicket(
+  deps: MaintenanceTicketDeps,
+  ticket: MaintenanceTicket,
+  input: { condition: GearCondition; resolution?: string; staffMemberId: string }
+): Promise<Result<MaintenanceTicket, CloseMaintenanceTicketUseCaseError>> {
+  const result = ticket.close(input.condition, input.resolution, deps);
+  if (!result.ok) {
+    return result;
+  }
+  const closed = result.value;
+
+  return deps.unitOfWork.run(async (): Promise<Result<MaintenanceTicket, CloseMaintenanceTicketUseCaseError>> => {
+    const returned = await returnItemFromMaintenance(deps, ticket.gearItemId, input.condition, input.staffMemberId);
+    if (!returned.ok) {
+      return returned;
+    }
+
+    await deps.maintenanceTicketRepo.save(closed);
+    await deps.eventPublisher.publish(
+      MaintenanceTicketClosed.create(
+        {
+          aggregateId: closed.id,
+          staffMemberId: input.staffMemberId,
+          payload: {
+            gearItemId: closed.gearItemId,
+            code: returned.value.code,
+            condition: input.condition,
+            ...(closed.resolution && { resolution: closed.resolution }),
+            laborMinutes: closed.laborMinutes,
+            costCents: closed.costCents
+          }
+        },
+        deps
+      )
+    );
+    return ok(closed);
+  });
+}
+
+async function findOpenTicket(
+  deps: { maintenanceTicketRepo: MaintenanceTicketRepository },
+  itemId: string
+): Promise<MaintenanceTicket | null> {
+  const tickets = await deps.maintenanceTicketRepo.findByGearItemId(gearItemId(itemId));
+  return tickets.find((t) => t.isOpen()) ?? null;
+}
+
+// ============================================================================
+// Queue and History
+// ============================================================================
+
+/**
+ * An open ticket with the names the queue shows.
+ */
+export interface MaintenanceQueueEntry {
+  ticket: MaintenanceTicket;
+  itemCode: string;
+  gearTypeName: string;
+  reportedByName: string;
+  assignedToName: string | null;
+  // Member whose damaged return opened the ticket
+  memberName: string | null;
+}
+
+export interface MaintenanceQueryDeps {
+  maintenanceTicketRepo: MaintenanceTicketRepository;
+  gearItemRepo: GearItemRepository;
+  gearTypeRepo: GearTypeRepository;
+  memberRepo: MemberRepository;
+  staffMemberRepo: StaffMemberRepository;
+}
+
+/**
+ * Every open ticket, oldest first.
+ */
+export async function listMaintenanceQueue(deps: MaintenanceQueryDeps): Promise<MaintenanceQueueEntry[]> {
+  const tickets = await deps.maintenanceTicketRepo.findOpen();
+  return describeTickets(deps, tickets);
+}
+
+/**
+ * Every ticket ever opened for an item, newest first.
+ */
+export async function getMaintenanceHistory(
+  deps: MaintenanceQueryDeps,
+  itemId: string
+): Promise<MaintenanceQueueEntry[]> {
+  const tickets = await deps.maintenanceTicketRepo.findByGearItemId(gearItemId(itemId));
+  return describeTickets(deps, tickets);
+}
+
+/**
+ * Tickets opened by the member's damaged returns, newest first.
+ */
+export async function getMemberDamageHistory(
+  deps: MaintenanceQueryDeps,
+  id: string
+): Promise<MaintenanceQueueEntry[]> {
+  const tickets = await deps.maintenanceTicketRepo.findByMemberId(memberId(id));
+  return describeTickets(deps, tickets);
+}
+
+async function describeTickets(deps: MaintenanceQueryDeps, tickets: MaintenanceTicket[]): Promise<MaintenanceQueueEntry[]> {
+  const staffNames = new Map((await deps.staffMemberRepo.findAll()).map((s) => [s.id as string, s.name]));
+  const gearTypeNames = new Map<string, string>();
+  const entries: MaintenanceQueueEntry[] = [];
+
+  for (const ticket of tickets) {
+    const item = await deps.gearItemRepo.findById(ticket.gearItemId);
+    let gearTypeName = '';
+    if (item) {
+      if (!gearTypeNames.has(item.gearTypeId)) {
+        const gearType = await deps.gearTypeRepo.findById(item.gearTypeId);
+        gearTypeNames.set(item.gearTypeId, gearType?.name ?? 'Unknown gear type');
+      }
+      gearTypeName = gearTypeNames.get(item.gearTypeId)!;
+    }
+    const member = ticket.damage ? await deps.memberRepo.findById(ticket.damage.memberId) : null;
+    entries.push({
+      ticket,
+      itemCode: item?.code ?? 'Unknown item',
+      gearTypeName,
+      reportedByName: staffNames.get(ticket.reportedBy) ?? 'Unknown',
+      assignedToName: ticket.assignedTo ? (staffNames.get(ticket.assignedTo) ?? 'Unknown') : null,
+      memberName: ticket.damage ? (member?.fullName ?? 'Unknown member') : null
+    });
+  }
+  return entries;
+}
@@ -2,13 +2,15 @@ import type {
   CheckoutRepository,
   GearItemRepository,
   GearTypeRepository,
-  MemberRepository
+  MemberRepository,
+  MemberAccountRepository
 } from '../ports/repositories.js';
 import type { Clock } from '../ports/services.js';
 import type { Member } from '../../domain/entities/member.js';
 import type { CheckoutItem } from '../../domain/entities/checkout.js';
 import type { MemberId } from '../../domain/value-objects/index.js';
 import { type GearCategory, type GearCondition, GearCondition as GearConditionEnum } from '../../domain/types.js';
+import type { Strike } from '../../domain/policies/index.js';
 
 // ============================================================================
 // Shared Deps
@@ -19,6 +21,7 @@ export interface GetMemberHistoryDeps {
   checkoutRepo: CheckoutRepository;
   gearItemRepo: GearItemRepository;
   gearTypeRepo: GearTypeRepository;
+  memberAccountRepo: MemberAccountRepository;
   clock: Clock;
 }
 
@@ -40,6 +43,8 @@ const CONDITION_SEVERITY: Record<GearCondition, number> = {
 
 export interface MemberProfile {
   member: Member;
+  // Amount owed on the member's account, in cents; negative is credit
+  balanceCents: number;
   flags: {
     hasOverdueItems: boolean;
     overdueItemCount: number;
@@ -61,8 +66,11 @@ export async function getMemberProfile(
     overdueItemCount += checkout.getOverdueItems(now).length;
   }
 
+  const account = await deps.memberAccountRepo.findByMemberId(member.id);
+
   return {
     member,
+    balanceCents: account.balanceCents,
     flags: {
       hasOverdueItems: overdueItemCount > 0,
       overdueItemCount
@@ -76,6 +84,10 @@ export async function getMemberProfile(
 
 export interface OpenItemSummary {
   checkoutId: string;
+  // Gear item ID for individual items, gear type ID for bulk items
+  itemId: string;
+  // Set when the item went out as part of a kit
+  kitId: string | null;
   gearTypeName: string;
   gearCategory: GearCategory;
   gearItemCode: string | null;
@@ -86,6 +98,7 @@ export interface OpenItemSummary {
   conditionAtCheckout: GearCondition | null;
   quantity: number;
   returnedQuantity: number;
+  renewalCount: number;
 }
 
 export async function getMemberOpenItems(
@@ -126,6 +139,8 @@ export async function getMemberOpenItems(
 
       items.push({
         checkoutId: checkout.id,
+        itemId: (item.gearItemId ?? item.gearTypeId)!,
+        kitId: item.kitId,
         gearTypeName,
         gearCategory,
         gearItemCode,
@@ -135,7 +150,8 @@ export async function getMemberOpenItems(
         isOverdue: daysOverdue > 0,
         conditionAtCheckout: item.conditionAtCheckout,
         quantity: item.quantity,
-        returnedQuantity: item.returnedQuantity
+        returnedQuantity: item.returnedQuantity,
+        renewalCount: item.renewalCount
       });
     }
   }
@@ -222,6 +238,56 @@ export async function getMemberBehaviorSummary(
   };
 }
 
+// ============================================================================
+// Get Member Strikes
+// ============================================================================
+
+/**
+ * Late returns and damage incidents on the member's record, oldest first.
+ * Counted the same way as getMemberBehaviorSummary.
+ */
+export async function getMemberStrikes(
+  deps: Pick<GetMemberHistoryDeps, 'checkoutRepo' | 'gearItemRepo' | 'gearTypeRepo'>,
+  memberId: string
+): Promise<Strike[]> {
+  const allCheckouts = await deps.checkoutRepo.findByMemberId(memberId as MemberId);
+  const strikes: Strike[] = [];
+
+  for (const checkout of allCheckouts) {
+    for (const item of checkout.items) {
+      if (!item.returnedAt) continue;
+
+      const daysLate = Math.floor(
+        (item.returnedAt.getTime() - item.dueAt.getTime()) / (1000 * 60 * 60 * 24)
+      );
+      if (daysLate >= 1) {
+        const desc = await resolveItemDescription(deps, item);
+        strikes.push({
+          kind: 'late_return',
+          reason: `Returned ${desc} ${daysLate} day${daysLate === 1 ? '' : 's'} late`,
+          occurredAt: item.returnedAt
+        });
+      }
+
+      if (
+        item.conditionAtCheckout &&
+        item.conditionAtReturn &&
+        CONDITION_SEVERITY[item.conditionAtReturn] > CONDITION_SEVERITY[item.conditionAtCheckout]
+      ) {
+        const desc = await resolveItemDescription(deps, item);
+        strikes.push({
+          kind: 'damage',
+          reason: `Returned ${desc} ${item.conditionAtReturn} (was ${item.conditionAtCheckout})`,
+          occurredAt: item.returnedAt
+        });
+      }
+    }
+  }
+
+  strikes.sort((a, b) => a.occurredAt.getTime() - b.occurredAt.getTime());
+  return strikes;
+}
+
 // ============================================================================
 // Get Member Activity Timeline
 // ============================================================================
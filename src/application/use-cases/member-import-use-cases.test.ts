@@ -0,0 +1,154 @@
+import { describe, it, expect } from 'vitest';
+import {
+  previewMemberImport,
+  applyMemberImport,
+  guessColumnMapping,
+  readCsvHeaders,
+  formatImportFailureReport
+} from './member-import-use-cases.js';
+import { MembershipPlan, MembershipTier, StaffRole } from '../../domain/types.js';
+import { unwrap } from '../result.js';
+import { createTestEnvironment } from '../../test-utils/in-memory-repositories.js';
+import { createTestMember, createTestStaffMember } from '../../test-utils/fixtures.js';
+
+// ============================================================================
+// Test helpers
+// ============================================================================
+
+const MAPPING = { collegeId: 'Student ID', firstName: 'First', lastName: 'Last', email: 'Email', tier: 'Type' };
+
+const CSV = [
+  'Student ID,First,Last,Email,Type',
+  'S200,Blake,Nguyen,blake@example.edu,student',
+  'S100,Avery,Tester,avery.new@example.edu,Trip Leader',
+  'S300,"Quinn, Jr.",,quinn@example.edu,',
+  'S400,Robin,Diaz,not-an-email,',
+  'S200,Blake,Again,blake2@example.edu,',
+  'S500,Drew,Park,s101@example.edu,'
+].join('\r\n');
+
+async function makeDeps() {
+  const deps = createTestEnvironment();
+  await createTestStaffMember(deps);
+  const avery = await createTestMember(deps, 'S100', 'Avery');
+  await createTestMember(deps, 'S101', 'Kai');
+  return { deps, avery };
+}
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+describe('member import', () => {
+  it('guesses the column mapping from registrar headers', () => {
+    expect(guessColumnMapping(readCsvHeaders(CSV))).toEqual(MAPPING);
+  });
+
+  it('previews each row without saving anything', async () => {
+    const { deps, avery } = await makeDeps();
+
+    const preview = unwrap(await previewMemberImport(deps, { csv: CSV, mapping: MAPPING, staffMemberId: 'staff-1' }));
+
+    expect(preview.counts).toEqual({ create: 1, update: 1, unchanged: 0, invalid: 4 });
+    expect(preview.rows.map((r) => [r.rowNumber, r.status, r.errors.map((e) => e.type)])).toEqual([
+      [2, 'create', []],
+      [3, 'update', []],
+      [4, 'invalid', ['empty_last_name']],
+      [5, 'invalid', ['invalid_email']],
+      [6, 'invalid', ['duplicate_in_file']],
+      [7, 'invalid', ['email_already_exists']]
+    ]);
+    expect(preview.rows[1].memberId).toBe(avery.id);
+    expect(preview.rows[2].values.firstName).toBe('Quinn, Jr.');
+    expect(await deps.memberRepo.findAll()).toHaveLength(2);
+  });
+
+  it('creates and updates members and reports the rows that failed', async () => {
+    const { deps, avery } = await makeDeps();
+
+    const result = unwrap(
+      await applyMemberImport(deps, {
+        csv: CSV,
+        mapping: MAPPING,
+        plan: MembershipPlan.SEMESTER,
+        staffMemberId: 'staff-1'
+      })
+    );
+
+    expect(result.created).toHaveLength(1);
+    expect(result.created[0]).toMatchObject({ fullName: 'Blake Nguyen', tier: MembershipTier.STUDENT });
+    expect(result.created[0].term?.plan).toBe(MembershipPlan.SEMESTER);
+    const updated = await deps.memberRepo.findById(avery.id);
+    expect(updated?.email.value).toBe('avery.new@example.edu');
+    expect(updated?.tier).toBe(MembershipTier.TRIP_LEADER);
+    expect(updated?.term).toBeNull();
+    expect(deps.events.map((e) => e.type)).toEqual(['MemberRegistered', 'MemberContactUpdated', 'MemberTierChanged']);
+
+    const report = formatImportFailureReport(result.failed).split('\n');
+    expect(report).toHaveLength(5);
+    expect(report[1]).toBe('"4","S300","Quinn, Jr.","","quinn@example.edu","","","Last name is missing"');
+    expect(report[3]).toContain('Same college ID as row 2');
+
+    const again = unwrap(await applyMemberImport(deps, { csv: CSV, mapping: MAPPING, staffMemberId: 'staff-1' }));
+    expect(again).toMatchObject({ created: [], updated: [], unchanged: 2 });
+  });
+
+  it('keeps spreadsheet formulas in the failure report from running', async () => {
+    const { deps } = await makeDeps();
+    const csv = [
+      'Student ID,First,Last,Email,Type',
+      'S600,"=HYPERLINK(""http://example.com"")",,@example.edu,',
+      'S700,-Drew,+Park,drew@example.edu,Grad'
+    ].join('\n');
+
+    const result = unwrap(await applyMemberImport(deps, { csv, mapping: MAPPING, staffMemberId: 'staff-1' }));
+
+    const report = formatImportFailureReport(result.failed).split('\n');
+    expect(report[1]).toMatch(/^"2","S600","'=HYPERLINK\(""http:\/\/example\.com""\)","","'@example\.edu",/);
+    expect(report[2]).toMatch(/^"3","S700","'-Drew","'\+Park",/);
+  });
+
+  it('publishes a contact update only when the email or phone changed', async () => {
+    const { deps, avery } = await makeDeps();
+    const csv = ['Student ID,First,Last,Email,Type', `S100,Avery,Tester,${avery.email.value},Trip Leader`].join('\n');
+
+    const result = unwrap(await applyMemberImport(deps, { csv, mapping: MAPPING, staffMemberId: 'staff-1' }));
+
+    expect(result.updated[0].tier).toBe(MembershipTier.TRIP_LEADER);
+    expect(deps.events.map((e) => e.type)).toEqual(['MemberTierChanged']);
+  });
+
+  it('reports a row as failed when its member is gone by the time it is saved', async () => {
+    const { deps } = await makeDeps();
+    const memberRepo = Object.create(deps.memberRepo);
+    memberRepo.findById = async () => null;
+
+    const result = unwrap(
+      await applyMemberImport({ ...deps, memberRepo }, { csv: CSV, mapping: MAPPING, staffMemberId: 'staff-1' })
+    );
+
+    expect(result.updated).toEqual([]);
+    expect(result.failed.find((r) => r.rowNumber === 3)).toMatchObject({
+      status: 'invalid',
+      errors: [{ type: 'member_not_found' }]
+    });
+    expect(deps.events.map((e) => e.type)).toEqual(['MemberRegistered']);
+  });
+
+  it('refuses desk staff and mappings that name a missing column', async () => {
+    const { deps } = await makeDeps();
+    await createTestStaffMember(deps, 'desk-1', StaffRole.DESK);
+
+    expect(await previewMemberImport(deps, { csv: CSV, mapping: MAPPING, staffMemberId: 'desk-1' })).toMatchObject({
+      ok: false,
+      error: { type: 'forbidden' }
+    });
+    expect(
+      await previewMemberImport(deps, {
+        csv: CSV,
+        mapping: { ...MAPPING, email: 'E-mail' },
+        staffMemberId: 'staff-1'
+      })
+    ).toEqual({ ok: false, error: { type: 'missing_column', field: 'email', column: 'E-mail' } });
+  });
+});
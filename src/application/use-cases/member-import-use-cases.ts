@@ -0,0 +1,434 @@
+import { type Result, ok, err } from '../result.js';
+import { type ForbiddenError, authorize } from '../authorization.js';
+import { parseCsv, formatCsv } from '../csv.js';
+import type { MemberRepository, StaffMemberRepository } from '../ports/repositories.js';
+import type { IdGenerator, Clock, EventPublisher, UnitOfWork } from '../ports/services.js';
+import { Member, type ChangeTierError } from '../../domain/entities/member.js';
+import {
+  createCollegeId,
+  createEmail,
+  memberId as toMemberId,
+  type CollegeIdError,
+  type EmailError
+} from '../../domain/value-objects/index.js';
+import { MembershipTier, type MembershipPlan } from '../../domain/types.js';
+import { Permission, type MembershipPlanPolicy } from '../../domain/policies/index.js';
+import { MemberRegistered, MemberContactUpdated, MemberTierChanged } from '../../domain/events/index.js';
+
+// ============================================================================
+// Column Mapping
+// ============================================================================
+
+export type MemberImportField = 'collegeId' | 'firstName' | 'lastName' | 'email' | 'phone' | 'tier';
+
+/**
+ * The CSV header used for each member field. Phone and tier are optional columns.
+ */
+export interface MemberImportColumnMapping {
+  collegeId: string;
+  firstName: string;
+  lastName: string;
+  email: string;
+  phone?: string;
+  tier?: string;
+}
+
+const REQUIRED_FIELDS = ['collegeId', 'firstName', 'lastName', 'email'] as const;
+
+/**
+ * One row's values by field; optional fields are absent when their column is not mapped.
+ */
+export type MemberImportValues = Record<(typeof REQUIRED_FIELDS)[number], string> & { phone?: string; tier?: string };
+
+// Header names registrar exports commonly use, compared without case, spaces or punctuation
+const HEADER_ALIASES: Record<MemberImportField, string[]> = {
+  collegeId: ['collegeid', 'studentid', 'id', 'idnumber'],
+  firstName: ['firstname', 'givenname', 'first'],
+  lastName: ['lastname', 'surname', 'familyname', 'last'],
+  email: ['email', 'emailaddress', 'collegeemail'],
+  phone: ['phone', 'phonenumber', 'mobile'],
+  tier: ['tier', 'membershiptier', 'type']
+};
+
+/**
+ * Header row of a CSV file, for building a column mapping.
+ */
+export function readCsvHeaders(csv: string): string[] {
+  return (parseCsv(csv)[0] ?? []).map((h) => h.trim());
+}
+
+/**
+ * Best guess at which header holds each field, for the mapping form's defaults.
+ */
+export function guessColumnMapping(headers: string[]): Partial<MemberImportColumnMapping> {
+  const mapping: Partial<MemberImportColumnMapping> = {};
+  for (const [field, aliases] of Object.entries(HEADER_ALIASES) as [MemberImportField, string[]][]) {
+    const header = headers.find((h) => aliases.includes(h.toLowerCase().replace(/[^a-z]/g, '')));
+    if (header) mapping[field] = header;
+  }
+  return mapping;
+}
+
+// ============================================================================
+// Preview Member Import
+// ============================================================================
+
+export type MemberImportError =
+  | ForbiddenError
+  | { type: 'empty_file' }
+  | { type: 'unmapped_field'; field: MemberImportField }
+  | { type: 'missing_column'; field: MemberImportField; column: string };
+
+export type MemberImportRowError =
+  | { type: 'invalid_college_id'; error: CollegeIdError }
+  | { type: 'invalid_email'; error: EmailError }
+  | { type: 'empty_first_name' }
+  | { type: 'empty_last_name' }
+  | { type: 'invalid_tier'; tier: string }
+  | { type: 'email_already_exists'; email: string }
+  | { type: 'duplicate_in_file'; field: 'collegeId' | 'email'; rowNumber: number }
+  // Raised while applying, for rows whose member changed since the preview
+  | { type: 'member_not_found' }
+  | ChangeTierError;
+
+export type MemberImportRowStatus = 'create' | 'update' | 'unchanged' | 'invalid';
+
+export interface MemberImportRow {
+  // Line in the file, counting the header as line 1
+  rowNumber: number;
+  values: MemberImportValues;
+  status: MemberImportRowStatus;
+  // The member a valid row updates; null for new members
+  memberId: string | null;
+  errors: MemberImportRowError[];
+}
+
+export interface MemberImportPreview {
+  rows: MemberImportRow[];
+  counts: Record<MemberImportRowStatus, number>;
+}
+
+export interface MemberImportDeps {
+  memberRepo: MemberRepository;
+  staffMemberRepo: StaffMemberRepository;
+  idGenerator: IdGenerator;
+  clock: Clock;
+  eventPublisher: EventPublisher;
+  unitOfWork: UnitOfWork;
+  membershipPlanPolicy: MembershipPlanPolicy;
+}
+
+export interface PreviewMemberImportInput {
+  csv: string;
+  mapping: MemberImportColumnMapping;
+  staffMemberId: string;
+}
+
+/**
+ * Validate every row of a registrar export without saving anything. Rows whose college ID
+ * is already registered update that member; the rest create new members.
+ */
+export async function previewMemberImport(
+  deps: MemberImportDeps,
+  input: PreviewMemberImportInput
+): Promise<Result<MemberImportPreview, MemberImportError>> {
+  const auth = await authorize(deps, input.staffMemberId, Permission.MANAGE_MEMBERSHIPS);
+  if (!auth.ok) {
+    return auth;
+  }
+
+  const [header, ...records] = parseCsv(input.csv);
+  if (!header || records.length === 0) {
+    return err({ type: 'empty_file' });
+  }
+
+  const columns = resolveColumns(header.map((h) => h.trim()), input.mapping);
+  if (!columns.ok) {
+    return columns;
+  }
+
+  const rows: MemberImportRow[] = [];
+  const seenCollegeIds = new Map<string, number>();
+  const seenEmails = new Map<string, number>();
+
+  for (const [index, record] of records.entries()) {
+    const rowNumber = index + 2;
+    const values = Object.fromEntries(
+      Object.entries(columns.value).map(([field, column]) => [field, (record[column] ?? '').trim()])
+    ) as MemberImportValues;
+    const errors: MemberImportRowError[] = [];
+
+    const collegeId = createCollegeId(values.collegeId);
+    if (!collegeId.ok) {
+      errors.push({ type: 'invalid_college_id', error: collegeId.error });
+    }
+    const email = createEmail(values.email);
+    if (!email.ok) {
+      errors.push({ type: 'invalid_email', error: email.error });
+    }
+    if (!values.firstName) {
+      errors.push({ type: 'empty_first_name' });
+    }
+    if (!values.lastName) {
+      errors.push({ type: 'empty_last_name' });
+    }
+    if (values.tier && !parseTier(values.tier)) {
+      errors.push({ type: 'invalid_tier', tier: values.tier });
+    }
+
+    let existing: Member | null = null;
+    if (collegeId.ok) {
+      const key = collegeId.value.value.toLowerCase();
+      const firstRow = seenCollegeIds.get(key);
+      if (firstRow !== undefined) {
+        errors.push({ type: 'duplicate_in_file', field: 'collegeId', rowNumber: firstRow });
+      } else {
+        seenCollegeIds.set(key, rowNumber);
+      }
+      existing = await deps.memberRepo.findByCollegeId(collegeId.value);
+    }
+    if (email.ok) {
+      const firstRow = seenEmails.get(email.value.value);
+      if (firstRow !== undefined) {
+        errors.push({ type: 'duplicate_in_file', field: 'email', rowNumber: firstRow });
+      } else {
+        seenEmails.set(email.value.value, rowNumber);
+      }
+      const owner = await deps.memberRepo.findByEmail(email.value.value);
+      if (owner && owner.id !== existing?.id) {
+        errors.push({ type: 'email_already_exists', email: email.value.value });
+      }
+    }
+
+    let status: MemberImportRowStatus = 'invalid';
+    if (errors.length === 0) {
+      status = !existing ? 'create' : hasChanges(existing, values) ? 'update' : 'unchanged';
+    }
+    rows.push({ rowNumber, values, status, memberId: existing?.id ?? null, errors });
+  }
+
+  const counts = { create: 0, update: 0, unchanged: 0, invalid: 0 };
+  for (const row of rows) counts[row.status]++;
+
+  return ok({ rows, counts });
+}
+
+function resolveColumns(
+  header: string[],
+  mapping: MemberImportColumnMapping
+): Result<Partial<Record<MemberImportField, number>>, MemberImportError> {
+  const columns: Partial<Record<MemberImportField, number>> = {};
+  for (const [field, column] of Object.entries(mapping) as [MemberImportField, string | undefined][]) {
+    if (!column) continue;
+    const index = header.indexOf(column);
+    if (index === -1) {
+      return err({ type: 'missing_column', field, column });
+    }
+    columns[field] = index;
+  }
+  const unmapped = REQUIRED_FIELDS.find((field) => columns[field] === undefined);
+  if (unmapped) {
+    return err({ type: 'unmapped_field', field: unmapped });
+  }
+  return ok(columns);
+}
+
+function parseTier(value: string): MembershipTier | null {
+  const normalized = value.trim().toUpperCase().replace(/[\s-]+/g, '_');
+  return (Object.values(MembershipTier) as string[]).includes(normalized) ? (normalized as MembershipTier) : null;
+}
+
+function hasChanges(member: Member, values: MemberImportValues): boolean {
+  const tier = values.tier ? parseTier(values.tier) : null;
+  return (
+    member.email.value !== values.email.toLowerCase() ||
+    (values.phone !== undefined && (member.phone ?? '') !== values.phone) ||
+    (tier !== null && tier !== member.tier)
+  );
+}
+
+// ============================================================================
+// Apply Member Import
+// ============================================================================
+
+export interface ApplyMemberImportInput extends PreviewMemberImportInput {
+  // Starts a term on this plan for members the import creates
+  plan?: MembershipPlan;
+}
+
+export interface MemberImportResult {
+  created: Member[];
+  updated: Member[];
+  unchanged: number;
+  // Rows that were invalid, for the failure report
+  failed: MemberImportRow[];
+}
+
+/**
+ * Create and update members from the file. The file is validated again first,
+ * so rows that became invalid since the preview are reported rather than saved.
+ * Each row is saved with its events on its own, so a failed row leaves the others in place.
+ * New members start without a signed waiver; existing members keep their names and term.
+ */
+export async function applyMemberImport(
+  deps: MemberImportDeps,
+  input: ApplyMemberImportInput
+): Promise<Result<MemberImportResult, MemberImportError>> {
+  const preview = await previewMemberImport(deps, input);
+  if (!preview.ok) {
+    return preview;
+  }
+
+  const result: MemberImportResult = { created: [], updated: [], unchanged: 0, failed: [] };
+  const fail = (row: MemberImportRow, error: MemberImportRowError) =>
+    result.failed.push({ ...row, status: 'invalid', errors: [error] });
+
+  for (const row of preview.value.rows) {
+    const tier = row.values.tier ? parseTier(row.values.tier)! : undefined;
+
+    if (row.status === 'invalid') {
+      result.failed.push(row);
+    } else if (row.status === 'unchanged') {
+      result.unchanged++;
+    } else if (row.status === 'create') {
+      const created = Member.create(
+        {
+          collegeId: row.values.collegeId,
+          firstName: row.values.firstName,
+          lastName: row.values.lastName,
+          email: row.values.email,
+          phone: row.values.phone || undefined,
+          tier
+        },
+        deps
+      );
+      // Validated by the preview
+      if (!created.ok) {
+        fail(row, created.error);
+        continue;
+      }
+      const member = input.plan
+        ? created.value.renewTerm(input.plan, deps.membershipPlanPolicy[input.plan].termDays, deps)
+        : created.value;
+
+      await deps.unitOfWork.run(async () => {
+        await deps.memberRepo.save(member);
+        await deps.eventPublisher.publish(
+          MemberRegistered.create(
+            {
+              aggregateId: member.id,
+              staffMemberId: input.staffMemberId,
+              payload: { memberId: member.id, collegeId: member.collegeId.value, email: member.email.value }
+            },
+            deps
+          )
+        );
+      });
+      result.created.push(member);
+    } else {
+      const existing = row.memberId ? await deps.memberRepo.findById(toMemberId(row.memberId)) : null;
+      if (!existing) {
+        fail(row, { type: 'member_not_found' });
+        continue;
+      }
+      const contact = existing.updateContactInfo(
+        { email: row.values.email, ...(row.values.phone !== undefined && { phone: row.values.phone }) },
+        deps
+      );
+      if (!contact.ok) {
+        fail(row, contact.error);
+        continue;
+      }
+      let member = contact.value;
+      if (tier && tier !== existing.tier) {
+        const retiered = member.changeTier(tier, deps);
+        if (!retiered.ok) {
+          fail(row, retiered.error);
+          continue;
+        }
+        member = retiered.value;
+      }
+      const contactChanged = member.email.value !== existing.email.value || member.phone !== existing.phone;
+
+      await deps.unitOfWork.run(async () => {
+        await deps.memberRepo.save(member);
+        if (contactChanged) {
+          await deps.eventPublisher.publish(
+            MemberContactUpdated.create(
+              {
+                aggregateId: member.id,
+                staffMemberId: input.staffMemberId,
+                payload: { memberId: member.id, email: member.email.value, ...(member.phone && { phone: member.phone }) }
+              },
+              deps
+            )
+          );
+        }
+        if (member.tier !== existing.tier) {
+          await deps.eventPublisher.publish(
+            MemberTierChanged.create(
+              {
+                aggregateId: member.id,
+                staffMemberId: input.staffMemberId,
+                payload: { memberId: member.id, previousTier: existing.tier, tier: member.tier }
+              },
+              deps
+            )
+          );
+        }
+      });
+      result.updated.push(member);
+    }
+  }
+
+  return ok(result);
+}
+
+// ============================================================================
+// Failure Report
+// ============================================================================
+
+/**
+ * Plain-language reason a row could not be imported.
+ */
+export function describeImportRowError(error: MemberImportRowError): string {
+  switch (error.type) {
+    case 'invalid_college_id':
+      return error.error.type === 'empty_college_id' ? 'College ID is missing' : `Invalid college ID "${error.error.value}"`;
+    case 'invalid_email':
+      return error.error.type === 'empty_email' ? 'Email is missing' : `Invalid email "${error.error.value}"`;
+    case 'empty_first_name':
+      return 'First name is missing';
+    case 'empty_last_name':
+      return 'Last name is missing';
+    case 'invalid_tier':
+      return `Unknown tier "${error.tier}"`;
+    case 'email_already_exists':
+      return `${error.email} belongs to another member`;
+    case 'duplicate_in_file':
+      return `Same ${error.field === 'collegeId' ? 'college ID' : 'email'} as row ${error.rowNumber}`;
+    case 'member_not_found':
+      return 'Member no longer exists';
+    case 'same_tier':
+      return `Already on the ${error.tier} tier`;
+  }
+}
+
+/**
+ * CSV listing the rows that failed and why, for fixing and re-importing.
+ */
+export function formatImportFailureReport(rows: MemberImportRow[]): string {
+  return formatCsv([
+    ['Row', 'College ID', 'First Name', 'Last Name', 'Email', 'Phone', 'Tier', 'Errors'],
+    ...rows.map((row) => [
+      String(row.rowNumber),
+      row.values.collegeId,
+      row.values.firstName,
+      row.values.lastName,
+      row.values.email,
+      row.values.phone ?? '',
+      row.values.tier ?? '',
+      row.errors.map(describeImportRowError).join('; ')
+    ])
+  ]);
+}
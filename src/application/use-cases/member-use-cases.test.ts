@@ -0,0 +1,221 @@
+import { describe, it, expect } from 'vitest';
+import {
+  suspendMember,
+  reinstateMember,
+  liftExpiredSuspensions,
+  getCheckoutEligibility,
+  changeMembershipTier,
+  renewMembership,
+  expireLapsedMemberships
+} from './member-use-cases.js';
+import { getExpiringMemberships } from './dashboard-use-cases.js';
+import { Member } from '../../domain/entities/member.js';
+import { ChargeType, MembershipPlan, MembershipStatus, MembershipTier, StaffRole } from '../../domain/types.js';
+import { unwrap } from '../result.js';
+import { createTestEnvironment } from '../../test-utils/in-memory-repositories.js';
+import { createTestMember, createTestStaffMember } from '../../test-utils/fixtures.js';
+
+// ============================================================================
+// Test helpers
+// ============================================================================
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+async function makeDeps() {
+  const deps = createTestEnvironment();
+  await createTestStaffMember(deps);
+  const member = await createTestMember(deps, 'S100', 'Avery');
+  return { deps, member };
+}
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+describe('suspensions', () => {
+  it('shows the reason and end date to desk staff at checkout', async () => {
+    const { deps, member } = await makeDeps();
+    const endsAt = new Date(deps.clock.now().getTime() + 14 * DAY_MS);
+
+    unwrap(
+      await suspendMember(deps, {
+        memberId: member.id,
+        staffMemberId: 'staff-1',
+        reason: 'Returned a stove with fuel in it',
+        note: 'Second warning',
+        endsAt
+      })
+    );
+
+    expect(await getCheckoutEligibility(deps, member.id)).toMatchObject({
+      eligible: false,
+      reasons: [{ type: 'suspended', reason: 'Returned a stove with fuel in it', endsAt }]
+    });
+  });
+
+  it('refuses a suspension without a reason or ending in the past', async () => {
+    const { deps, member } = await makeDeps();
+    const input = { memberId: member.id, staffMemberId: 'staff-1' };
+
+    expect(await suspendMember(deps, { ...input, reason: '  ' })).toEqual({ ok: false, error: { type: 'empty_reason' } });
+    expect(await suspendMember(deps, { ...input, reason: 'Late', endsAt: deps.clock.now() })).toEqual({
+      ok: false,
+      error: { type: 'end_before_start' }
+    });
+  });
+
+  it('lifts suspensions that have run out and keeps them in the history', async () => {
+    const { deps, member } = await makeDeps();
+    const endsAt = new Date(deps.clock.now().getTime() + 7 * DAY_MS);
+    unwrap(await suspendMember(deps, { memberId: member.id, staffMemberId: 'staff-1', reason: 'Late', endsAt }));
+
+    expect(await liftExpiredSuspensions(deps)).toHaveLength(0);
+
+    deps.clock.set(new Date(endsAt.getTime() + DAY_MS));
+    const [lifted] = await liftExpiredSuspensions(deps);
+
+    expect(lifted.membershipStatus).toBe(MembershipStatus.ACTIVE);
+    expect(lifted.suspensions).toEqual([
+      expect.objectContaining({ reason: 'Late', endsAt, liftedAt: endsAt, suspendedBy: 'staff-1', liftedBy: null })
+    ]);
+    expect(deps.events.at(-1)).toMatchObject({ type: 'MemberReinstated', payload: { automatic: true } });
+  });
+
+  it('records who reinstated the member and survives a round trip through the record', async () => {
+    const { deps, member } = await makeDeps();
+    await createTestStaffMember(deps, 'staff-2');
+    unwrap(await suspendMember(deps, { memberId: member.id, staffMemberId: 'staff-1', reason: 'Damage', note: 'Bent poles' }));
+    deps.clock.set(new Date(deps.clock.now().getTime() + DAY_MS));
+
+    const reinstated = unwrap(await reinstateMember(deps, { memberId: member.id, staffMemberId: 'staff-2' }));
+
+    expect(reinstated.suspensions[0]).toMatchObject({ note: 'Bent poles', liftedBy: 'staff-2', liftedAt: deps.clock.now() });
+    expect(Member.fromRecord(reinstated.toRecord()).suspensions).toEqual(reinstated.suspensions);
+  });
+});
+
+describe('membership tiers', () => {
+  it('starts members as students and lets coordinators move them to another tier', async () => {
+    const { deps, member } = await makeDeps();
+    await createTestStaffMember(deps, 'desk-1', StaffRole.DESK);
+    const input = { memberId: member.id, tier: MembershipTier.TRIP_LEADER, staffMemberId: 'staff-1' };
+
+    expect(member.tier).toBe(MembershipTier.STUDENT);
+    expect(await changeMembershipTier(deps, { ...input, staffMemberId: 'desk-1' })).toMatchObject({
+      ok: false,
+      error: { type: 'forbidden' }
+    });
+
+    const changed = unwrap(await changeMembershipTier(deps, input));
+
+    expect(changed.tier).toBe(MembershipTier.TRIP_LEADER);
+    expect(Member.fromRecord(changed.toRecord()).tier).toBe(MembershipTier.TRIP_LEADER);
+    expect(deps.events.at(-1)).toMatchObject({
+      type: 'MemberTierChanged',
+      payload: { previousTier: MembershipTier.STUDENT, tier: MembershipTier.TRIP_LEADER }
+    });
+    expect(await changeMembershipTier(deps, input)).toEqual({
+      ok: false,
+      error: { type: 'same_tier', tier: MembershipTier.TRIP_LEADER }
+    });
+  });
+});
+
+describe('membership terms', () => {
+  it('charges the plan fee, records what was paid and starts a term', async () => {
+    const { deps, member } = await makeDeps();
+    const now = deps.clock.now();
+
+    const renewed = unwrap(
+      await renewMembership(deps, {
+        memberId: member.id,
+        plan: MembershipPlan.SEMESTER,
+        staffMemberId: 'staff-1',
+        amountPaidCents: 1000
+      })
+    );
+
+    expect(renewed.term).toEqual({
+      plan: MembershipPlan.SEMESTER,
+      startsAt: now,
+      endsAt: new Date(now.getTime() + 183 * DAY_MS)
+    });
+    expect(Member.fromRecord(renewed.toRecord()).term).toEqual(renewed.term);
+    const account = await deps.memberAccountRepo.findByMemberId(member.id);
+    expect(account.entries).toEqual([
+      expect.objectContaining({ chargeType: ChargeType.MEMBERSHIP_FEE, amountCents: 2500 }),
+      expect.objectContaining({ amountCents: 1000, chargeType: null })
+    ]);
+    expect(account.balanceCents).toBe(1500);
+    expect(deps.events.map((e) => e.type)).toEqual(
+      expect.arrayContaining(['ChargePosted', 'PaymentPosted', 'MembershipRenewed'])
+    );
+  });
+
+  it('is refused for staff who cannot manage memberships', async () => {
+    const { deps, member } = await makeDeps();
+    await createTestStaffMember(deps, 'desk-1', StaffRole.DESK);
+
+    expect(
+      await renewMembership(deps, { memberId: member.id, plan: MembershipPlan.SEMESTER, staffMemberId: 'desk-1' })
+    ).toMatchObject({ ok: false, error: { type: 'forbidden' } });
+    expect((await deps.memberAccountRepo.findByMemberId(member.id)).entries).toHaveLength(0);
+  });
+
+  it('extends a running term from its end date', async () => {
+    const { deps, member } = await makeDeps();
+    const input = { memberId: member.id, plan: MembershipPlan.SEMESTER, staffMemberId: 'staff-1' };
+    const first = unwrap(await renewMembership(deps, input));
+
+    deps.clock.set(new Date(first.term!.endsAt.getTime() - 5 * DAY_MS));
+    const second = unwrap(await renewMembership(deps, { ...input, plan: MembershipPlan.ACADEMIC_YEAR }));
+
+    expect(second.term).toEqual({
+      plan: MembershipPlan.ACADEMIC_YEAR,
+      startsAt: first.term!.startsAt,
+      endsAt: new Date(first.term!.endsAt.getTime() + 365 * DAY_MS)
+    });
+  });
+
+  it('lists memberships ending soon, expires lapsed ones and reactivates them on renewal', async () => {
+    const { deps, member } = await makeDeps();
+    const input = { memberId: member.id, plan: MembershipPlan.SEMESTER, staffMemberId: 'staff-1' };
+    const { term } = unwrap(await renewMembership(deps, input));
+    const endsAt = term!.endsAt;
+
+    deps.clock.set(new Date(endsAt.getTime() - 20 * DAY_MS));
+    expect(await getExpiringMemberships(deps)).toEqual([]);
+
+    deps.clock.set(new Date(endsAt.getTime() - 13 * DAY_MS));
+    expect(await getExpiringMemberships(deps)).toEqual([
+      expect.objectContaining({ memberId: member.id, plan: MembershipPlan.SEMESTER, endsAt, daysLeft: 13 })
+    ]);
+    expect(await expireLapsedMemberships(deps)).toHaveLength(0);
+
+    deps.clock.set(new Date(endsAt.getTime() + DAY_MS));
+    const [expired] = await expireLapsedMemberships(deps);
+
+    expect(expired.membershipStatus).toBe(MembershipStatus.EXPIRED);
+    expect(deps.events.at(-1)).toMatchObject({
+      type: 'MembershipExpired',
+      payload: { memberId: member.id, termEndedAt: endsAt.toISOString() }
+    });
+    expect(await getExpiringMemberships(deps)).toEqual([]);
+    const eligibility = await getCheckoutEligibility(deps, member.id);
+    expect(eligibility.eligible).toBe(false);
+    expect(!eligibility.eligible && eligibility.reasons).toContainEqual({ type: 'membership_expired', endedAt: endsAt });
+
+    const renewed = unwrap(await renewMembership(deps, input));
+
+    expect(renewed.membershipStatus).toBe(MembershipStatus.ACTIVE);
+    expect(renewed.term!.startsAt).toEqual(deps.clock.now());
+  });
+
+  it('leaves members without a term active', async () => {
+    const { deps, member } = await makeDeps();
+    deps.clock.set(new Date(deps.clock.now().getTime() + 400 * DAY_MS));
+
+    expect(await expireLapsedMemberships(deps)).toEqual([]);
+    expect(member.membershipStatusAt(deps.clock.now())).toBe(MembershipStatus.ACTIVE);
+  });
+});
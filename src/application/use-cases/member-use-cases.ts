@@ -1,9 +1,59 @@
 import { type Result, ok, err } from '../result.js';
-import type { MemberRepository, CheckoutRepository } from '../ports/repositories.js';
-import type { IdGenerator, Clock, EventPublisher } from '../ports/services.js';
-import { Member, type CreateMemberInput, type CreateMemberError } from '../../domain/entities/member.js';
-import { collegeIdFromRecord, type MemberId } from '../../domain/value-objects/index.js';
-import { CheckoutStatus } from '../../domain/types.js';
+import { type ForbiddenError, authorize } from '../authorization.js';
+import type {
+  MemberRepository,
+  CheckoutRepository,
+  StaffMemberRepository,
+  MemberAccountRepository,
+  GearItemRepository,
+  GearTypeRepository,
+  WaiverDocumentRepository,
+  CertificationTypeRepository
+} from '../ports/repositories.js';
+import type { IdGenerator, Clock, EventPublisher, UnitOfWork } from '../ports/services.js';
+import {
+  Member,
+  type CreateMemberInput,
+  type CreateMemberError,
+  type SuspendError,
+  type ChangeTierError,
+  type SignWaiverError as MemberSignWaiverError
+} from '../../domain/entities/member.js';
+import {
+  checkoutId as toCheckoutId,
+  collegeIdFromRecord,
+  waiverDocumentId,
+  type MemberId
+} from '../../domain/value-objects/index.js';
+import type { CreateAccountEntryError } from '../../domain/entities/account-entry.js';
+import {
+  ChargeType,
+  CheckoutStatus,
+  MembershipPlan,
+  MembershipStatus,
+  type MembershipTier
+} from '../../domain/types.js';
+import {
+  Permission,
+  type AccountPolicy,
+  balanceBlocksCheckout,
+  type StrikePolicy,
+  evaluateStrikes,
+  type MembershipPlanPolicy
+} from '../../domain/policies/index.js';
+import {
+  MemberRegistered,
+  WaiverSigned,
+  MemberSuspended,
+  MemberReinstated,
+  MemberTierChanged,
+  MembershipRenewed,
+  MembershipExpired,
+  ChargePosted,
+  PaymentPosted
+} from '../../domain/events/index.js';
+import { getMemberStrikes } from './member-history-use-cases.js';
+import { describeMemberCertifications, type MemberCertificationStatus } from './certification-use-cases.js';
 
 // Re-export for convenience
 export type { CreateMemberInput } from '../../domain/entities/member.js';
@@ -15,22 +65,34 @@ export type { CreateMemberInput } from '../../domain/entities/member.js';
 export type RegisterMemberError =
   | CreateMemberError
   | { type: 'college_id_already_exists'; collegeId: string }
-  | { type: 'email_already_exists'; email: string };
+  | { type: 'email_already_exists'; email: string }
+  | { type: 'invalid_plan'; plan: string };
 
 export interface RegisterMemberDeps {
   memberRepo: MemberRepository;
   idGenerator: IdGenerator;
   clock: Clock;
   eventPublisher: EventPublisher;
+  membershipPlanPolicy: MembershipPlanPolicy;
+}
+
+export interface RegisterMemberInput extends CreateMemberInput {
+  // Starts a term on this plan; omit for members whose membership never lapses
+  plan?: MembershipPlan;
 }
 
 /**
  * Register a new member. Validates that college ID and email are unique.
+ * The fee for the first term is not charged here.
  */
 export async function registerMember(
   deps: RegisterMemberDeps,
-  input: CreateMemberInput
+  input: RegisterMemberInput
 ): Promise<Result<Member, RegisterMemberError>> {
+  if (input.plan !== undefined && !isMembershipPlan(input.plan)) {
+    return err({ type: 'invalid_plan', plan: input.plan });
+  }
+
   // Check for existing college ID
   const existingByCollegeId = await deps.memberRepo.findByCollegeId(collegeIdFromRecord(input.collegeId));
   if (existingByCollegeId) {
@@ -53,23 +115,27 @@ export async function registerMember(
     return memberResult;
   }
 
-  const member = memberResult.value;
+  const member = input.plan
+    ? memberResult.value.renewTerm(input.plan, deps.membershipPlanPolicy[input.plan].termDays, deps)
+    : memberResult.value;
 
   // Persist
   await deps.memberRepo.save(member);
 
   // Publish event
-  await deps.eventPublisher.publish({
-    id: deps.idGenerator.generate(),
-    type: 'MemberRegistered',
-    aggregateId: member.id,
-    occurredAt: deps.clock.now(),
-    payload: {
-      memberId: member.id,
-      collegeId: member.collegeId.value,
-      email: member.email.value
-    }
-  });
+  await deps.eventPublisher.publish(
+    MemberRegistered.create(
+      {
+        aggregateId: member.id,
+        payload: {
+          memberId: member.id,
+          collegeId: member.collegeId.value,
+          email: member.email.value
+        }
+      },
+      deps
+    )
+  );
 
   return ok(member);
 }
@@ -80,10 +146,12 @@ export async function registerMember(
 
 export type SignWaiverError =
   | { type: 'member_not_found'; memberId: string }
-  | { type: 'waiver_already_signed'; signedAt: Date };
+  | { type: 'document_not_found'; waiverDocumentId: string }
+  | MemberSignWaiverError;
 
 export interface SignWaiverDeps {
   memberRepo: MemberRepository;
+  waiverDocumentRepo: WaiverDocumentRepository;
   clock: Clock;
   eventPublisher: EventPublisher;
   idGenerator: IdGenerator;
@@ -91,11 +159,15 @@ export interface SignWaiverDeps {
 
 export interface SignWaiverInput {
   memberId: string;
-  waiverVersion: string;
+  // The document shown to the member while signing
+  waiverDocumentId: string;
+  // PNG or SVG data URL from the signature pad
+  signature: string;
+  staffMemberId: string;
 }
 
 /**
- * Record waiver signature for a member.
+ * Record a member's signature on a waiver document.
  */
 export async function signWaiver(
   deps: SignWaiverDeps,
@@ -106,27 +178,509 @@ export async function signWaiver(
     return err({ type: 'member_not_found', memberId: input.memberId });
   }
 
-  const signResult = member.signWaiver(input.waiverVersion, { clock: deps.clock });
+  const document = await deps.waiverDocumentRepo.findById(waiverDocumentId(input.waiverDocumentId));
+  if (!document) {
+    return err({ type: 'document_not_found', waiverDocumentId: input.waiverDocumentId });
+  }
+
+  const signResult = member.signWaiver(document, input.signature, input.staffMemberId, {
+    clock: deps.clock
+  });
   if (!signResult.ok) {
-    return err({ type: 'waiver_already_signed', signedAt: signResult.error.signedAt });
+    return signResult;
   }
 
   const updatedMember = signResult.value;
   await deps.memberRepo.save(updatedMember);
 
-  await deps.eventPublisher.publish({
-    id: deps.idGenerator.generate(),
-    type: 'WaiverSigned',
-    aggregateId: updatedMember.id,
-    occurredAt: deps.clock.now(),
-    payload: {
-      memberId: updatedMember.id,
-      waiverVersion: input.waiverVersion,
-      expiresAt: updatedMember.waiverStatus.expiresAt?.toISOString()
+  await deps.eventPublisher.publish(
+    WaiverSigned.create(
+      {
+        aggregateId: updatedMember.id,
+        staffMemberId: input.staffMemberId,
+        payload: {
+          memberId: updatedMember.id,
+          waiverVersion: document.version,
+          waiverDocumentId: document.id,
+          expiresAt: updatedMember.waiverStatus.expiresAt?.toISOString()
+        }
+      },
+      deps
+    )
+  );
+
+  return ok(updatedMember);
+}
+
+// ============================================================================
+// Suspend / Reinstate Member
+// ============================================================================
+
+export type SuspendMemberError =
+  | ForbiddenError
+  | { type: 'member_not_found'; memberId: string }
+  | SuspendError;
+
+export type ReinstateMemberError =
+  | ForbiddenError
+  | { type: 'member_not_found'; memberId: string }
+  | { type: 'not_suspended' };
+
+export interface SuspendMemberDeps {
+  memberRepo: MemberRepository;
+  staffMemberRepo: StaffMemberRepository;
+  idGenerator: IdGenerator;
+  clock: Clock;
+  eventPublisher: EventPublisher;
+}
+
+export interface SuspendMemberInput {
+  memberId: string;
+  staffMemberId: string;
+  reason: string;
+  // Internal detail for staff
+  note?: string;
+  // Omit to suspend until reinstated
+  endsAt?: Date;
+}
+
+export interface ReinstateMemberInput {
+  memberId: string;
+  staffMemberId: string;
+}
+
+/**
+ * Suspend a member's borrowing privileges. Coordinators and admins only.
+ */
+export async function suspendMember(
+  deps: SuspendMemberDeps,
+  input: SuspendMemberInput
+): Promise<Result<Member, SuspendMemberError>> {
+  const auth = await authorize(deps, input.staffMemberId, Permission.SUSPEND_MEMBER);
+  if (!auth.ok) {
+    return auth;
+  }
+
+  const member = await deps.memberRepo.findById(input.memberId as MemberId);
+  if (!member) {
+    return err({ type: 'member_not_found', memberId: input.memberId });
+  }
+
+  const result = member.suspend(
+    { reason: input.reason, note: input.note, endsAt: input.endsAt, suspendedBy: input.staffMemberId },
+    deps
+  );
+  if (!result.ok) {
+    return result;
+  }
+
+  await deps.memberRepo.save(result.value);
+  await deps.eventPublisher.publish(
+    MemberSuspended.create(
+      {
+        aggregateId: member.id,
+        staffMemberId: input.staffMemberId,
+        payload: {
+          memberId: member.id,
+          reason: input.reason.trim(),
+          ...(input.endsAt && { endsAt: input.endsAt.toISOString() })
+        }
+      },
+      deps
+    )
+  );
+
+  return result;
+}
+
+/**
+ * Lift a suspension. Same permission as suspending.
+ */
+export async function reinstateMember(
+  deps: SuspendMemberDeps,
+  input: ReinstateMemberInput
+): Promise<Result<Member, ReinstateMemberError>> {
+  const auth = await authorize(deps, input.staffMemberId, Permission.SUSPEND_MEMBER);
+  if (!auth.ok) {
+    return auth;
+  }
+
+  const member = await deps.memberRepo.findById(input.memberId as MemberId);
+  if (!member) {
+    return err({ type: 'member_not_found', memberId: input.memberId });
+  }
+
+  const result = member.reinstate(input.staffMemberId, deps);
+  if (!result.ok) {
+    return result;
+  }
+
+  await deps.memberRepo.save(result.value);
+  await deps.eventPublisher.publish(
+    MemberReinstated.create(
+      {
+        aggregateId: member.id,
+        staffMemberId: input.staffMemberId,
+        payload: { memberId: member.id }
+      },
+      deps
+    )
+  );
+
+  return result;
+}
+
+// ============================================================================
+// Change Membership Tier
+// ============================================================================
+
+export type ChangeMembershipTierError =
+  | ForbiddenError
+  | { type: 'member_not_found'; memberId: string }
+  | ChangeTierError;
+
+export interface ChangeMembershipTierInput {
+  memberId: string;
+  tier: MembershipTier;
+  staffMemberId: string;
+}
+
+/**
+ * Move a member to another tier, changing their borrowing limits and fees.
+ * Checkouts already out keep their due dates.
+ */
+export async function changeMembershipTier(
+  deps: SuspendMemberDeps,
+  input: ChangeMembershipTierInput
+): Promise<Result<Member, ChangeMembershipTierError>> {
+  const auth = await authorize(deps, input.staffMemberId, Permission.MANAGE_MEMBERSHIPS);
+  if (!auth.ok) {
+    return auth;
+  }
+
+  const member = await deps.memberRepo.findById(input.memberId as MemberId);
+  if (!member) {
+    return err({ type: 'member_not_found', memberId: input.memberId });
+  }
+
+  const result = member.changeTier(input.tier, deps);
+  if (!result.ok) {
+    return result;
+  }
+
+  await deps.memberRepo.save(result.value);
+  await deps.eventPublisher.publish(
+    MemberTierChanged.create(
+      {
+        aggregateId: member.id,
+        staffMemberId: input.staffMemberId,
+        payload: { memberId: member.id, previousTier: member.tier, tier: input.tier }
+      },
+      deps
+    )
+  );
+
+  return result;
+}
+
+// ============================================================================
+// Renew / Expire Membership
+// ============================================================================
+
+export type RenewMembershipError =
+  | ForbiddenError
+  | { type: 'member_not_found'; memberId: string }
+  | { type: 'invalid_plan'; plan: string }
+  | CreateAccountEntryError;
+
+export interface RenewMembershipDeps {
+  memberRepo: MemberRepository;
+  memberAccountRepo: MemberAccountRepository;
+  staffMemberRepo: StaffMemberRepository;
+  idGenerator: IdGenerator;
+  clock: Clock;
+  eventPublisher: EventPublisher;
+  unitOfWork: UnitOfWork;
+  membershipPlanPolicy: MembershipPlanPolicy;
+}
+
+export interface RenewMembershipInput {
+  memberId: string;
+  plan: MembershipPlan;
+  staffMemberId: string;
+  // Paid at the desk; defaults to the full fee. Anything unpaid stays on the account
+  amountPaidCents?: number;
+}
+
+/**
+ * Extend a member's term by one plan period, charging the plan's fee to their account
+ * and recording what they paid. Renewing an expired membership makes it active again.
+ * Staff who manage memberships only.
+ */
+export async function renewMembership(
+  deps: RenewMembershipDeps,
+  input: RenewMembershipInput
+): Promise<Result<Member, RenewMembershipError>> {
+  const auth = await authorize(deps, input.staffMemberId, Permission.MANAGE_MEMBERSHIPS);
+  if (!auth.ok) {
+    return auth;
+  }
+
+  if (!isMembershipPlan(input.plan)) {
+    return err({ type: 'invalid_plan', plan: input.plan });
+  }
+
+  const member = await deps.memberRepo.findById(input.memberId as MemberId);
+  if (!member) {
+    return err({ type: 'member_not_found', memberId: input.memberId });
+  }
+
+  const { termDays, feeCents } = deps.membershipPlanPolicy[input.plan];
+  const amountPaidCents = input.amountPaidCents ?? feeCents;
+
+  const account = await deps.memberAccountRepo.findByMemberId(member.id);
+  const description = `${formatPlan(input.plan)} membership`;
+  const charge = account.charge(
+    { chargeType: ChargeType.MEMBERSHIP_FEE, amountCents: feeCents, description, staffMemberId: input.staffMemberId },
+    deps
+  );
+  if (!charge.ok) {
+    return charge;
+  }
+  let payment = null;
+  if (amountPaidCents > 0) {
+    const result = account.recordPayment(
+      { amountCents: amountPaidCents, description, staffMemberId: input.staffMemberId },
+      deps
+    );
+    if (!result.ok) {
+      return result;
     }
+    payment = result.value;
+  }
+
+  const renewed = member.renewTerm(input.plan, termDays, deps);
+
+  await deps.unitOfWork.run(async () => {
+    await deps.memberAccountRepo.append(charge.value);
+    await deps.eventPublisher.publish(
+      ChargePosted.create(
+        {
+          aggregateId: member.id,
+          staffMemberId: input.staffMemberId,
+          payload: {
+            memberId: member.id,
+            entryId: charge.value.id,
+            chargeType: ChargeType.MEMBERSHIP_FEE,
+            amountCents: feeCents
+          }
+        },
+        deps
+      )
+    );
+    if (payment) {
+      await deps.memberAccountRepo.append(payment);
+      await deps.eventPublisher.publish(
+        PaymentPosted.create(
+          {
+            aggregateId: member.id,
+            staffMemberId: input.staffMemberId,
+            payload: { memberId: member.id, entryId: payment.id, amountCents: payment.amountCents }
+          },
+          deps
+        )
+      );
+    }
+    await deps.memberRepo.save(renewed);
+    await deps.eventPublisher.publish(
+      MembershipRenewed.create(
+        {
+          aggregateId: member.id,
+          staffMemberId: input.staffMemberId,
+          payload: {
+            memberId: member.id,
+            plan: input.plan,
+            termEndsAt: renewed.term!.endsAt.toISOString(),
+            feeCents
+          }
+        },
+        deps
+      )
+    );
   });
 
-  return ok(updatedMember);
+  return ok(renewed);
+}
+
+export interface ExpireLapsedMembershipsDeps {
+  memberRepo: MemberRepository;
+  idGenerator: IdGenerator;
+  clock: Clock;
+  eventPublisher: EventPublisher;
+}
+
+/**
+ * Mark every active member whose term has ended as expired.
+ * Run on a schedule; returns the members expired.
+ */
+export async function expireLapsedMemberships(deps: ExpireLapsedMembershipsDeps): Promise<Member[]> {
+  const active = await deps.memberRepo.findAll({ status: MembershipStatus.ACTIVE });
+  const expired: Member[] = [];
+
+  for (const member of active) {
+    const result = member.expireMembership(deps);
+    if (!result.ok) continue;
+
+    await deps.memberRepo.save(result.value);
+    await deps.eventPublisher.publish(
+      MembershipExpired.create(
+        {
+          aggregateId: member.id,
+          payload: { memberId: member.id, termEndedAt: member.term!.endsAt.toISOString() }
+        },
+        deps
+      )
+    );
+    expired.push(result.value);
+  }
+
+  return expired;
+}
+
+const PLANS: readonly string[] = Object.values(MembershipPlan);
+
+function isMembershipPlan(plan: string): plan is MembershipPlan {
+  return PLANS.includes(plan);
+}
+
+function formatPlan(plan: MembershipPlan): string {
+  return plan === MembershipPlan.SEMESTER ? 'Semester' : 'Academic year';
+}
+
+// ============================================================================
+// Lift Expired Suspensions
+// ============================================================================
+
+export interface LiftExpiredSuspensionsDeps {
+  memberRepo: MemberRepository;
+  idGenerator: IdGenerator;
+  clock: Clock;
+  eventPublisher: EventPublisher;
+}
+
+/**
+ * Reinstate every member whose suspension has passed its end date.
+ * Run on a schedule; returns the members reinstated.
+ */
+export async function liftExpiredSuspensions(deps: LiftExpiredSuspensionsDeps): Promise<Member[]> {
+  const suspended = await deps.memberRepo.findAll({ status: MembershipStatus.SUSPENDED });
+  const lifted: Member[] = [];
+
+  for (const member of suspended) {
+    const result = member.liftExpiredSuspension(deps);
+    if (!result.ok) continue;
+
+    await deps.memberRepo.save(result.value);
+    await deps.eventPublisher.publish(
+      MemberReinstated.create(
+        {
+          aggregateId: member.id,
+          payload: { memberId: member.id, automatic: true }
+        },
+        deps
+      )
+    );
+    lifted.push(result.value);
+  }
+
+  return lifted;
+}
+
+// ============================================================================
+// Apply Strike Policy
+// ============================================================================
+
+export interface ApplyStrikePolicyDeps {
+  memberRepo: MemberRepository;
+  checkoutRepo: CheckoutRepository;
+  gearItemRepo: GearItemRepository;
+  gearTypeRepo: GearTypeRepository;
+  idGenerator: IdGenerator;
+  clock: Clock;
+  eventPublisher: EventPublisher;
+  strikePolicy: StrikePolicy;
+}
+
+/**
+ * Suspend the member if their late returns or damage incidents cross the strike policy's thresholds.
+ * Strikes from before the member's last suspension are not counted again.
+ * Returns the suspended member, or null when nothing changed.
+ */
+export async function applyStrikePolicy(
+  deps: ApplyStrikePolicyDeps,
+  memberId: string
+): Promise<Member | null> {
+  const member = await deps.memberRepo.findById(memberId as MemberId);
+  if (!member) {
+    return null;
+  }
+
+  const now = deps.clock.now();
+  const lastSuspension = member.suspensions[member.suspensions.length - 1];
+  const strikes = await getMemberStrikes(deps, member.id);
+  const decision = evaluateStrikes(deps.strikePolicy, strikes, now, lastSuspension?.startedAt ?? null);
+  if (!decision) {
+    return null;
+  }
+
+  const result = member.suspend({ reason: decision.reason, endsAt: decision.endsAt ?? undefined }, deps);
+  if (!result.ok) {
+    return null;
+  }
+
+  await deps.memberRepo.save(result.value);
+  await deps.eventPublisher.publish(
+    MemberSuspended.create(
+      {
+        aggregateId: member.id,
+        payload: {
+          memberId: member.id,
+          reason: decision.reason,
+          ...(decision.endsAt && { endsAt: decision.endsAt.toISOString() }),
+          automatic: true
+        }
+      },
+      deps
+    )
+  );
+
+  return result.value;
+}
+
+/**
+ * Apply the strike policy after every return, as event subscribers.
+ * Returns a function that removes both subscriptions.
+ */
+export function subscribeStrikePolicy(deps: ApplyStrikePolicyDeps): () => void {
+  const applyForCheckout = async (checkoutId: string) => {
+    const checkout = await deps.checkoutRepo.findById(toCheckoutId(checkoutId));
+    if (checkout) {
+      await applyStrikePolicy(deps, checkout.memberId);
+    }
+  };
+  const subscriptions = [
+    deps.eventPublisher.subscribe({
+      name: 'strike-policy:item-returned',
+      eventType: 'ItemReturned',
+      handle: (event) => applyForCheckout(event.payload.checkoutId)
+    }),
+    deps.eventPublisher.subscribe({
+      name: 'strike-policy:items-returned',
+      eventType: 'ItemsReturned',
+      handle: (event) => applyForCheckout(event.payload.checkoutId)
+    })
+  ];
+  return () => subscriptions.forEach((unsubscribe) => unsubscribe());
 }
 
 // ============================================================================
@@ -151,22 +705,37 @@ export async function lookupMemberByCollegeId(
 // Get Checkout Eligibility
 // ============================================================================
 
+// Certifications are listed for the desk; they only block checkouts of the gear that needs them
 export type CheckoutEligibility =
-  | { eligible: true; member: Member }
-  | { eligible: false; member: Member; reasons: CheckoutIneligibilityReason[] }
+  | { eligible: true; member: Member; certifications: MemberCertificationStatus[] }
+  | {
+      eligible: false;
+      member: Member;
+      reasons: CheckoutIneligibilityReason[];
+      certifications: MemberCertificationStatus[];
+    }
   | { eligible: false; member: null; reasons: [{ type: 'member_not_found' }] };
 
 export type CheckoutIneligibilityReason =
   | { type: 'member_not_found' }
   | { type: 'membership_not_active'; status: string }
+  | { type: 'membership_expired'; endedAt: Date }
+  | { type: 'suspended'; reason: string | null; endsAt: Date | null }
   | { type: 'waiver_not_signed' }
   | { type: 'waiver_expired'; expiredAt: Date }
-  | { type: 'has_overdue_items'; count: number };
+  | { type: 'waiver_outdated'; signedVersion: string | null; currentVersion: string }
+  | { type: 'has_overdue_items'; count: number }
+  | { type: 'balance_over_limit'; balanceCents: number; limitCents: number };
 
 export interface GetCheckoutEligibilityDeps {
   memberRepo: MemberRepository;
   checkoutRepo: CheckoutRepository;
+  memberAccountRepo: MemberAccountRepository;
+  waiverDocumentRepo: WaiverDocumentRepository;
+  certificationTypeRepo: CertificationTypeRepository;
+  gearTypeRepo: GearTypeRepository;
   clock: Clock;
+  accountPolicy: AccountPolicy;
 }
 
 /**
@@ -189,16 +758,29 @@ export async function getCheckoutEligibility(
   const now = deps.clock.now();
   const reasons: CheckoutIneligibilityReason[] = [];
 
-  // Check membership status
-  if (member.membershipStatus !== 'ACTIVE') {
-    reasons.push({ type: 'membership_not_active', status: member.membershipStatus });
+  // Check membership status; a suspension past its end date no longer counts
+  const membershipStatus = member.membershipStatusAt(now);
+  if (membershipStatus === MembershipStatus.SUSPENDED) {
+    const suspension = member.currentSuspension;
+    reasons.push({ type: 'suspended', reason: suspension?.reason ?? null, endsAt: suspension?.endsAt ?? null });
+  } else if (membershipStatus === MembershipStatus.EXPIRED && member.term) {
+    reasons.push({ type: 'membership_expired', endedAt: member.term.endsAt });
+  } else if (membershipStatus !== MembershipStatus.ACTIVE) {
+    reasons.push({ type: 'membership_not_active', status: membershipStatus });
   }
 
-  // Check waiver status
+  // Check waiver status against the document in effect
+  const currentWaiver = await deps.waiverDocumentRepo.findCurrent(now);
   if (!member.waiverStatus.signed) {
     reasons.push({ type: 'waiver_not_signed' });
   } else if (!member.hasValidWaiver(now)) {
     reasons.push({ type: 'waiver_expired', expiredAt: member.waiverStatus.expiresAt! });
+  } else if (currentWaiver && !member.hasValidWaiver(now, currentWaiver)) {
+    reasons.push({
+      type: 'waiver_outdated',
+      signedVersion: member.waiverStatus.waiverVersion,
+      currentVersion: currentWaiver.version
+    });
   }
 
   // Check for overdue items
@@ -212,11 +794,26 @@ export async function getCheckoutEligibility(
     reasons.push({ type: 'has_overdue_items', count: overdueCount });
   }
 
+  // Check the account balance
+  const account = await deps.memberAccountRepo.findByMemberId(member.id);
+  const limitCents = balanceBlocksCheckout(deps.accountPolicy, account.balanceCents);
+  if (limitCents !== null) {
+    reasons.push({ type: 'balance_over_limit', balanceCents: account.balanceCents, limitCents });
+  }
+
+  const gearTypeNames = new Map((await deps.gearTypeRepo.findAll()).map((gt) => [gt.id as string, gt.name]));
+  const certifications = describeMemberCertifications(
+    member,
+    await deps.certificationTypeRepo.findAll(),
+    gearTypeNames,
+    now
+  );
+
   if (reasons.length > 0) {
-    return { eligible: false, member, reasons };
+    return { eligible: false, member, reasons, certifications };
   }
 
-  return { eligible: true, member };
+  return { eligible: true, member, certifications };
 }
 
 // ============================================================================
@@ -0,0 +1,339 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createReservation,
+  cancelReservation,
+  fulfillReservation
+} from './reservation-use-cases.js';
+import { createCheckout, searchAvailableGear } from './checkout-use-cases.js';
+import { GearStatus, ReservationStatus } from '../../domain/types.js';
+import { unwrap } from '../result.js';
+import { createTestEnvironment } from '../../test-utils/in-memory-repositories.js';
+import { createTestMember, createTent, createPads } from '../../test-utils/fixtures.js';
+
+// ============================================================================
+// Test helpers
+// ============================================================================
+
+function makeDeps() {
+  return createTestEnvironment();
+}
+
+// Trip weekend two weeks after the mock clock
+const pickupWindow = { start: new Date('2025-06-27T12:00:00Z'), end: new Date('2025-06-28T12:00:00Z') };
+const returnWindow = { start: new Date('2025-06-29T12:00:00Z'), end: new Date('2025-06-30T12:00:00Z') };
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+describe('createReservation', () => {
+  it('reserves individual items and bulk quantities', async () => {
+    const deps = makeDeps();
+    const member = await createTestMember(deps, 'S100', 'Avery');
+    await createTent(deps);
+    const pads = await createPads(deps);
+
+    const result = await createReservation(deps, {
+      memberId: member.id,
+      staffMemberId: 'staff-1',
+      items: [{ itemCode: 'TENT-001' }, { gearTypeId: pads.id, quantity: 4 }],
+      pickupWindow,
+      returnWindow
+    });
+
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(result.value.status).toBe(ReservationStatus.PENDING);
+      expect(result.value.items).toHaveLength(2);
+    }
+    expect(deps.events.map((e) => e.type)).toEqual(['ReservationCreated']);
+  });
+
+  it('rejects an item already reserved over an overlapping window', async () => {
+    const deps = makeDeps();
+    const first = await createTestMember(deps, 'S100', 'Avery');
+    const second = await createTestMember(deps, 'S200', 'Jordan');
+    await createTent(deps);
+
+    unwrap(
+      await createReservation(deps, {
+        memberId: first.id,
+        staffMemberId: 'staff-1',
+        items: [{ itemCode: 'TENT-001' }],
+        pickupWindow,
+        returnWindow
+      })
+    );
+
+    const result = await createReservation(deps, {
+      memberId: second.id,
+      staffMemberId: 'staff-1',
+      items: [{ itemCode: 'TENT-001' }],
+      pickupWindow: { start: new Date('2025-06-29T00:00:00Z'), end: new Date('2025-06-29T12:00:00Z') },
+      returnWindow: { start: new Date('2025-07-01T00:00:00Z'), end: new Date('2025-07-02T00:00:00Z') }
+    });
+
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.error).toEqual({ type: 'gear_item_conflict', code: 'TENT-001', reason: 'reserved' });
+    }
+  });
+
+  it('rejects an item listed twice', async () => {
+    const deps = makeDeps();
+    const member = await createTestMember(deps, 'S100', 'Avery');
+    await createTent(deps);
+
+    const result = await createReservation(deps, {
+      memberId: member.id,
+      staffMemberId: 'staff-1',
+      items: [{ itemCode: 'TENT-001' }, { itemCode: 'TENT-001' }],
+      pickupWindow,
+      returnWindow
+    });
+
+    expect(result).toEqual({ ok: false, error: { type: 'duplicate_item', code: 'TENT-001' } });
+    expect(await deps.reservationRepo.findAll()).toHaveLength(0);
+  });
+
+  it('rejects items in maintenance or lost', async () => {
+    const deps = makeDeps();
+    const member = await createTestMember(deps, 'S100', 'Avery');
+    const { item: inMaintenance } = await createTent(deps, 'TENT-001');
+    const { item: lost } = await createTent(deps, 'TENT-002');
+    await deps.gearItemRepo.save(unwrap(inMaintenance.sendToMaintenance('Broken pole', deps)));
+    await deps.gearItemRepo.save(unwrap(unwrap(lost.markCheckedOut(deps)).markLost(deps)));
+
+    for (const [code, status] of [
+      ['TENT-001', GearStatus.MAINTENANCE],
+      ['TENT-002', GearStatus.LOST]
+    ]) {
+      expect(
+        await createReservation(deps, {
+          memberId: member.id,
+          staffMemberId: 'staff-1',
+          items: [{ itemCode: code }],
+          pickupWindow,
+          returnWindow
+        })
+      ).toEqual({ ok: false, error: { type: 'gear_item_not_available', code, status } });
+    }
+  });
+
+  it('limits bulk reservations to units free during the window', async () => {
+    const deps = makeDeps();
+    const first = await createTestMember(deps, 'S100', 'Avery');
+    const second = await createTestMember(deps, 'S200', 'Jordan');
+    const pads = await createPads(deps, 10);
+
+    unwrap(
+      await createReservation(deps, {
+        memberId: first.id,
+        staffMemberId: 'staff-1',
+        items: [{ gearTypeId: pads.id, quantity: 7 }],
+        pickupWindow,
+        returnWindow
+      })
+    );
+
+    const result = await createReservation(deps, {
+      memberId: second.id,
+      staffMemberId: 'staff-1',
+      items: [{ gearTypeId: pads.id, quantity: 4 }],
+      pickupWindow,
+      returnWindow
+    });
+
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.error).toMatchObject({ type: 'insufficient_quantity', available: 3 });
+    }
+  });
+
+  it('rejects windows that end before they start', async () => {
+    const deps = makeDeps();
+    const member = await createTestMember(deps, 'S100', 'Avery');
+    await createTent(deps);
+
+    const result = await createReservation(deps, {
+      memberId: member.id,
+      staffMemberId: 'staff-1',
+      items: [{ itemCode: 'TENT-001' }],
+      pickupWindow: { start: pickupWindow.end, end: pickupWindow.start },
+      returnWindow
+    });
+
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.error.type).toBe('invalid_window');
+    }
+  });
+});
+
+describe('reservation holds on checkout', () => {
+  it('blocks another member from checking out a reserved item', async () => {
+    const deps = makeDeps();
+    const holder = await createTestMember(deps, 'S100', 'Avery');
+    const other = await createTestMember(deps, 'S200', 'Jordan');
+    await createTent(deps);
+
+    const reservation = unwrap(
+      await createReservation(deps, {
+        memberId: holder.id,
+        staffMemberId: 'staff-1',
+        items: [{ itemCode: 'TENT-001' }],
+        pickupWindow: { start: new Date('2025-06-18T12:00:00Z'), end: new Date('2025-06-19T12:00:00Z') },
+        returnWindow
+      })
+    );
+
+    const result = await createCheckout(deps, {
+      memberId: other.id,
+      staffMemberId: 'staff-1',
+      items: [{ itemCode: 'TENT-001' }]
+    });
+
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.error).toEqual({
+        type: 'gear_item_reserved',
+        code: 'TENT-001',
+        reservationId: reservation.id
+      });
+    }
+  });
+
+  it('allows checkouts that end before the reservation begins', async () => {
+    const deps = makeDeps();
+    const holder = await createTestMember(deps, 'S100', 'Avery');
+    const other = await createTestMember(deps, 'S200', 'Jordan');
+    await createTent(deps);
+
+    unwrap(
+      await createReservation(deps, {
+        memberId: holder.id,
+        staffMemberId: 'staff-1',
+        items: [{ itemCode: 'TENT-001' }],
+        pickupWindow,
+        returnWindow
+      })
+    );
+
+    const result = await createCheckout(deps, {
+      memberId: other.id,
+      staffMemberId: 'staff-1',
+      items: [{ itemCode: 'TENT-001' }]
+    });
+
+    expect(result.ok).toBe(true);
+  });
+
+  it('annotates reserved items in search results', async () => {
+    const deps = makeDeps();
+    const holder = await createTestMember(deps, 'S100', 'Avery');
+    const { item } = await createTent(deps);
+
+    unwrap(
+      await createReservation(deps, {
+        memberId: holder.id,
+        staffMemberId: 'staff-1',
+        items: [{ itemCode: 'TENT-001' }],
+        pickupWindow,
+        returnWindow
+      })
+    );
+
+    const results = await searchAvailableGear(deps, 'half dome');
+
+    expect(results[0].reservedFor?.[item.id]?.memberName).toBe('Avery Tester');
+  });
+});
+
+describe('fulfillReservation', () => {
+  it('turns the reservation into a checkout due at the end of the return window', async () => {
+    const deps = makeDeps();
+    const member = await createTestMember(deps, 'S100', 'Avery');
+    const pads = await createPads(deps);
+    await createTent(deps);
+
+    const reservation = unwrap(
+      await createReservation(deps, {
+        memberId: member.id,
+        staffMemberId: 'staff-1',
+        items: [{ itemCode: 'TENT-001' }, { gearTypeId: pads.id, quantity: 2 }],
+        pickupWindow,
+        returnWindow
+      })
+    );
+
+    deps.clock.set(new Date('2025-06-27T15:00:00Z'));
+    const result = await fulfillReservation(deps, {
+      reservationId: reservation.id,
+      staffMemberId: 'staff-2'
+    });
+
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(result.value.reservation.status).toBe(ReservationStatus.FULFILLED);
+      expect(result.value.reservation.checkoutId).toBe(result.value.checkout.id);
+      expect(result.value.checkout.items.map((i) => i.dueAt)).toEqual([
+        returnWindow.end,
+        returnWindow.end
+      ]);
+    }
+  });
+
+  it('rejects pickup outside the pickup window', async () => {
+    const deps = makeDeps();
+    const member = await createTestMember(deps, 'S100', 'Avery');
+    await createTent(deps);
+
+    const reservation = unwrap(
+      await createReservation(deps, {
+        memberId: member.id,
+        staffMemberId: 'staff-1',
+        items: [{ itemCode: 'TENT-001' }],
+        pickupWindow,
+        returnWindow
+      })
+    );
+
+    const result = await fulfillReservation(deps, {
+      reservationId: reservation.id,
+      staffMemberId: 'staff-1'
+    });
+
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.error.type).toBe('outside_pickup_window');
+    }
+  });
+
+  it('cannot fulfill a cancelled reservation', async () => {
+    const deps = makeDeps();
+    const member = await createTestMember(deps, 'S100', 'Avery');
+    await createTent(deps);
+
+    const reservation = unwrap(
+      await createReservation(deps, {
+        memberId: member.id,
+        staffMemberId: 'staff-1',
+        items: [{ itemCode: 'TENT-001' }],
+        pickupWindow,
+        returnWindow
+      })
+    );
+    unwrap(await cancelReservation(deps, reservation.id, 'staff-1'));
+
+    deps.clock.set(new Date('2025-06-27T15:00:00Z'));
+    const result = await fulfillReservation(deps, {
+      reservationId: reservation.id,
+      staffMemberId: 'staff-1'
+    });
+
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.error).toEqual({ type: 'not_pending', status: ReservationStatus.CANCELLED });
+    }
+  });
+});
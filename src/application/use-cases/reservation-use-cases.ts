@@ -0,0 +1,401 @@
+import { type Result, ok, err, unwrap } from '../result.js';
+import type {
+  MemberRepository,
+  GearTypeRepository,
+  GearItemRepository,
+  CheckoutRepository,
+  ReservationRepository
+} from '../ports/repositories.js';
+import type { IdGenerator, Clock, EventPublisher, UnitOfWork } from '../ports/services.js';
+import type { CheckoutItemInput } from '../../domain/entities/checkout.js';
+import type { GearItem } from '../../domain/entities/gear-item.js';
+import type { GearType } from '../../domain/entities/gear-type.js';
+import type { Member } from '../../domain/entities/member.js';
+import {
+  Reservation,
+  type ReservationWindow,
+  type CreateReservationError as ReservationValidationError
+} from '../../domain/entities/reservation.js';
+import {
+  type MemberId,
+  type GearTypeId,
+  reservationId as toReservationId
+} from '../../domain/value-objects/index.js';
+import { GearStatus, MembershipStatus, ReservationStatus, TrackingMode } from '../../domain/types.js';
+import { calculateBulkAvailability, loadOpenCheckouts } from './availability-use-cases.js';
+import {
+  createCheckout,
+  type CheckoutItemRequest,
+  type CreateCheckoutDeps,
+  type CreateCheckoutError,
+  type CreateCheckoutResult
+} from './checkout-use-cases.js';
+import { ReservationCreated, ReservationCancelled, ReservationFulfilled } from '../../domain/events/index.js';
+
+// ============================================================================
+// Create Reservation
+// ============================================================================
+
+export type CreateReservationError =
+  | ReservationValidationError
+  | { type: 'member_not_found'; memberId: string }
+  | { type: 'member_not_active'; status: string }
+  | { type: 'gear_item_not_found'; code: string }
+  | { type: 'gear_item_not_available'; code: string; status: string }
+  | { type: 'gear_item_conflict'; code: string; reason: 'reserved' | 'checked_out' }
+  | { type: 'duplicate_item'; code: string }
+  | { type: 'gear_type_not_found'; gearTypeId: string }
+  | { type: 'insufficient_quantity'; gearTypeId: string; requested: number; available: number };
+
+export interface CreateReservationDeps {
+  memberRepo: MemberRepository;
+  gearTypeRepo: GearTypeRepository;
+  gearItemRepo: GearItemRepository;
+  checkoutRepo: CheckoutRepository;
+  reservationRepo: ReservationRepository;
+  idGenerator: IdGenerator;
+  clock: Clock;
+  eventPublisher: EventPublisher;
+  unitOfWork: UnitOfWork;
+}
+
+export interface CreateReservationUseCaseInput {
+  memberId: string;
+  staffMemberId: string;
+  items: CheckoutItemRequest[];
+  pickupWindow: ReservationWindow;
+  returnWindow: ReservationWindow;
+  notes?: string;
+}
+
+/**
+ * Reserve gear for a member over a future period.
+ * Rejects items that are lost, retired or in maintenance, items listed twice, items
+ * already reserved or still checked out when the pickup window opens, and bulk
+ * quantities beyond what is free during the window.
+ */
+export async function createReservation(
+  deps: CreateReservationDeps,
+  input: CreateReservationUseCaseInput
+): Promise<Result<Reservation, CreateReservationError>> {
+  const member = await deps.memberRepo.findById(input.memberId as MemberId);
+  if (!member) {
+    return err({ type: 'member_not_found', memberId: input.memberId });
+  }
+  if (member.membershipStatus !== MembershipStatus.ACTIVE) {
+    return err({ type: 'member_not_active', status: member.membershipStatus });
+  }
+
+  const now = deps.clock.now();
+  if (input.pickupWindow.end < now) {
+    return err({ type: 'invalid_window', reason: 'Pickup window has already passed' });
+  }
+
+  // Check availability and save the hold in one transaction
+  return deps.unitOfWork.run(async () => {
+    // Gear is blocked from the start of pickup to the end of return
+    const start = input.pickupWindow.start;
+    const end = input.returnWindow.end;
+    const holds = (await deps.reservationRepo.findPendingOverlapping(start, end)).filter((r) =>
+      r.isHolding(now)
+    );
+    const openCheckouts = await loadOpenCheckouts(deps);
+    const bulkRequested = new Map<string, number>();
+    const items: CheckoutItemInput[] = [];
+    const reservedItemIds = new Set<string>();
+
+    for (const itemReq of input.items) {
+      if (itemReq.itemCode) {
+        const gearItem = await deps.gearItemRepo.findByCode(itemReq.itemCode);
+        if (!gearItem) {
+          return err({ type: 'gear_item_not_found', code: itemReq.itemCode });
+        }
+        if (reservedItemIds.has(gearItem.id)) {
+          return err({ type: 'duplicate_item', code: gearItem.code });
+        }
+        reservedItemIds.add(gearItem.id);
+
+        // Checked-out items may be back by pickup; the conflict check below decides
+        if (gearItem.status !== GearStatus.AVAILABLE && gearItem.status !== GearStatus.CHECKED_OUT) {
+          return err({ type: 'gear_item_not_available', code: gearItem.code, status: gearItem.status });
+        }
+        if (holds.some((r) => r.includesGearItem(gearItem.id))) {
+          return err({ type: 'gear_item_conflict', code: gearItem.code, reason: 'reserved' });
+        }
+
+        const stillOut = openCheckouts.some((c) =>
+          c.getActiveItems().some((i) => i.gearItemId === gearItem.id && i.dueAt >= start)
+        );
+        if (stillOut) {
+          return err({ type: 'gear_item_conflict', code: gearItem.code, reason: 'checked_out' });
+        }
+
+        items.push({ type: 'individual', gearItemId: gearItem.id });
+      } else if (itemReq.gearTypeId && itemReq.quantity) {
+        const gearType = await deps.gearTypeRepo.findById(itemReq.gearTypeId as GearTypeId);
+        if (!gearType || gearType.trackingMode !== TrackingMode.BULK) {
+          return err({ type: 'gear_type_not_found', gearTypeId: itemReq.gearTypeId });
+        }
+
+        // Units due back before pickup opens are assumed to be on the shelf again
+        const alreadyRequested = bulkRequested.get(gearType.id) ?? 0;
+        const available =
+          calculateBulkAvailability(gearType, openCheckouts, { holds, from: start }).available -
+          alreadyRequested;
+        if (itemReq.quantity > available) {
+          return err({
+            type: 'insufficient_quantity',
+            gearTypeId: gearType.id,
+            requested: itemReq.quantity,
+            available: Math.max(0, available)
+          });
+        }
+        bulkRequested.set(gearType.id, alreadyRequested + itemReq.quantity);
+
+        items.push({ type: 'bulk', gearTypeId: gearType.id, quantity: itemReq.quantity });
+      }
+    }
+
+    const reservationResult = Reservation.create(
+      {
+        memberId: member.id,
+        staffMemberId: input.staffMemberId,
+        items,
+        pickupWindow: input.pickupWindow,
+        returnWindow: input.returnWindow,
+        notes: input.notes
+      },
+      { idGenerator: deps.idGenerator, clock: deps.clock }
+    );
+    if (!reservationResult.ok) {
+      return reservationResult;
+    }
+
+    const reservation = reservationResult.value;
+    await deps.reservationRepo.save(reservation);
+
+    await deps.eventPublisher.publish(
+      ReservationCreated.create(
+        {
+          aggregateId: reservation.id,
+          staffMemberId: input.staffMemberId,
+          payload: {
+            reservationId: reservation.id,
+            memberId: member.id,
+            itemCount: reservation.items.length,
+            pickupStart: reservation.pickupWindow.start.toISOString(),
+            returnEnd: reservation.returnWindow.end.toISOString()
+          }
+        },
+        deps
+      )
+    );
+
+    return ok(reservation);
+  });
+}
+
+// ============================================================================
+// Cancel Reservation
+// ============================================================================
+
+export type CancelReservationError =
+  | { type: 'not_found'; id: string }
+  | { type: 'not_pending'; status: ReservationStatus };
+
+export interface CancelReservationDeps {
+  reservationRepo: ReservationRepository;
+  idGenerator: IdGenerator;
+  clock: Clock;
+  eventPublisher: EventPublisher;
+}
+
+/**
+ * Cancel a pending reservation, releasing its gear.
+ */
+export async function cancelReservation(
+  deps: CancelReservationDeps,
+  reservationId: string,
+  staffMemberId: string
+): Promise<Result<Reservation, CancelReservationError>> {
+  const reservation = await deps.reservationRepo.findById(toReservationId(reservationId));
+  if (!reservation) {
+    return err({ type: 'not_found', id: reservationId });
+  }
+
+  const result = reservation.cancel({ clock: deps.clock });
+  if (!result.ok) {
+    return result;
+  }
+
+  await deps.reservationRepo.save(result.value);
+
+  await deps.eventPublisher.publish(
+    ReservationCancelled.create(
+      {
+        aggregateId: reservation.id,
+        staffMemberId,
+        payload: {
+          reservationId: reservation.id,
+          memberId: reservation.memberId
+        }
+      },
+      deps
+    )
+  );
+
+  return result;
+}
+
+// ============================================================================
+// Fulfill Reservation
+// ============================================================================
+
+export type FulfillReservationError =
+  | { type: 'not_found'; id: string }
+  | { type: 'not_pending'; status: ReservationStatus }
+  | { type: 'outside_pickup_window'; pickupWindow: ReservationWindow }
+  | { type: 'checkout_failed'; error: CreateCheckoutError };
+
+export interface FulfillReservationDeps extends CreateCheckoutDeps {
+  reservationRepo: ReservationRepository;
+}
+
+export interface FulfillReservationInput {
+  reservationId: string;
+  staffMemberId: string;
+  notes?: string;
+}
+
+export interface FulfillReservationResult extends CreateCheckoutResult {
+  reservation: Reservation;
+}
+
+/**
+ * Hand out reserved gear by turning the reservation into a checkout.
+ * Every item is due at the end of the reservation's return window.
+ * The checkout and the fulfilled reservation are saved together.
+ */
+export async function fulfillReservation(
+  deps: FulfillReservationDeps,
+  input: FulfillReservationInput
+): Promise<Result<FulfillReservationResult, FulfillReservationError>> {
+  const reservation = await deps.reservationRepo.findById(toReservationId(input.reservationId));
+  if (!reservation) {
+    return err({ type: 'not_found', id: input.reservationId });
+  }
+  if (reservation.status !== ReservationStatus.PENDING) {
+    return err({ type: 'not_pending', status: reservation.status });
+  }
+
+  const now = deps.clock.now();
+  if (!reservation.isInPickupWindow(now)) {
+    return err({ type: 'outside_pickup_window', pickupWindow: reservation.pickupWindow });
+  }
+
+  const items: CheckoutItemRequest[] = [];
+  for (const item of reservation.items) {
+    if (item.gearItemId) {
+      const gearItem = await deps.gearItemRepo.findById(item.gearItemId);
+      if (!gearItem) {
+        return err({
+          type: 'checkout_failed',
+          error: { type: 'gear_item_not_found', code: item.gearItemId }
+        });
+      }
+      items.push({ itemCode: gearItem.code });
+    } else if (item.gearTypeId) {
+      items.push({ gearTypeId: item.gearTypeId, quantity: item.quantity });
+    }
+  }
+
+  return deps.unitOfWork.run(async () => {
+    const checkoutResult = await createCheckout(deps, {
+      memberId: reservation.memberId,
+      staffMemberId: input.staffMemberId,
+      items,
+      notes: input.notes ?? reservation.notes ?? undefined,
+      dueAt: reservation.returnWindow.end
+    });
+    if (!checkoutResult.ok) {
+      return err({ type: 'checkout_failed', error: checkoutResult.error });
+    }
+
+    // Pending was checked above, so this cannot fail
+    const fulfilled = unwrap(reservation.fulfill(checkoutResult.value.checkout.id, { clock: deps.clock }));
+
+    await deps.reservationRepo.save(fulfilled);
+    await deps.eventPublisher.publish(
+      ReservationFulfilled.create(
+        {
+          aggregateId: reservation.id,
+          staffMemberId: input.staffMemberId,
+          payload: {
+            reservationId: reservation.id,
+            checkoutId: checkoutResult.value.checkout.id,
+            memberId: reservation.memberId
+          }
+        },
+        deps
+      )
+    );
+
+    return ok({ ...checkoutResult.value, reservation: fulfilled });
+  });
+}
+
+// ============================================================================
+// List Reservations
+// ============================================================================
+
+export interface ListReservationsDeps {
+  reservationRepo: ReservationRepository;
+  memberRepo: MemberRepository;
+  gearTypeRepo: GearTypeRepository;
+  gearItemRepo: GearItemRepository;
+  clock: Clock;
+}
+
+export interface ReservationSummary {
+  reservation: Reservation;
+  member: Member | null;
+  items: Array<{
+    gearType: GearType | null;
+    gearItem?: GearItem;
+    quantity: number;
+  }>;
+  // Pending but the pickup window has passed
+  isLapsed: boolean;
+}
+
+/**
+ * List pending reservations with member and gear details, soonest pickup first.
+ */
+export async function listPendingReservations(
+  deps: ListReservationsDeps
+): Promise<ReservationSummary[]> {
+  const now = deps.clock.now();
+  const reservations = await deps.reservationRepo.findAll({ status: ReservationStatus.PENDING });
+  reservations.sort((a, b) => a.pickupWindow.start.getTime() - b.pickupWindow.start.getTime());
+
+  const summaries: ReservationSummary[] = [];
+  for (const reservation of reservations) {
+    const member = await deps.memberRepo.findById(reservation.memberId);
+    const items: ReservationSummary['items'] = [];
+
+    for (const item of reservation.items) {
+      if (item.gearItemId) {
+        const gearItem = (await deps.gearItemRepo.findById(item.gearItemId)) ?? undefined;
+        const gearType = gearItem ? await deps.gearTypeRepo.findById(gearItem.gearTypeId) : null;
+        items.push({ gearType, gearItem, quantity: 1 });
+      } else if (item.gearTypeId) {
+        const gearType = await deps.gearTypeRepo.findById(item.gearTypeId);
+        items.push({ gearType, quantity: item.quantity });
+      }
+    }
+
+    summaries.push({ reservation, member, items, isLapsed: !reservation.isHolding(now) });
+  }
+
+  return summaries;
+}
@@ -0,0 +1,446 @@
+import { describe, it, expect } from 'vitest';
+import { returnItemByCode, returnItems, getMemberItemsToReturn, lookupItemByCode } from './return-use-cases.js';
+import { createCheckout } from './checkout-use-cases.js';
+import { getOverdueCheckouts } from './dashboard-use-cases.js';
+import { getCheckoutEligibility, subscribeStrikePolicy } from './member-use-cases.js';
+import { getMemberDamageHistory } from './maintenance-use-cases.js';
+import { setReturnChecklist } from './inventory-use-cases.js';
+import {
+  ChargeType,
+  GearCategory,
+  GearCondition,
+  GearStatus,
+  MembershipStatus,
+  MembershipTier
+} from '../../domain/types.js';
+import { DEFAULT_LATE_FEE_POLICY, calculateLateFee, lateFeeRuleFor } from '../../domain/policies/index.js';
+import type { ReturnChecklistQuestion } from '../../domain/entities/gear-type.js';
+import type { MemberId } from '../../domain/value-objects/index.js';
+import { unwrap } from '../result.js';
+import { createTestEnvironment } from '../../test-utils/in-memory-repositories.js';
+import { createTestMember, createTent, createPads, createTestStaffMember } from '../../test-utils/fixtures.js';
+
+// ============================================================================
+// Test helpers
+// ============================================================================
+
+const DUE_AT = new Date('2025-06-16T10:00:00Z');
+
+function daysAfterDue(days: number): Date {
+  return new Date(DUE_AT.getTime() + days * 24 * 60 * 60 * 1000);
+}
+
+async function makeDeps() {
+  const deps = createTestEnvironment();
+  await createTestStaffMember(deps);
+  const member = await createTestMember(deps, 'S100', 'Avery');
+  return { deps, member };
+}
+
+type Deps = Awaited<ReturnType<typeof makeDeps>>['deps'];
+
+/**
+ * Check out a new tent due `dueDay` days after DUE_AT, in the same condition it went out in,
+ * and return it `daysLate` days after that.
+ */
+async function returnTentLate(deps: Deps, memberId: string, code: string, dueDay: number, daysLate: number) {
+  const { item } = await createTent(deps, code);
+  const dueAt = daysAfterDue(dueDay);
+  deps.clock.set(daysAfterDue(dueDay - 1));
+  unwrap(await createCheckout(deps, { memberId, staffMemberId: 'staff-1', items: [{ itemCode: item.code }], dueAt }));
+  deps.clock.set(daysAfterDue(dueDay + daysLate));
+  return unwrap(
+    await returnItemByCode(deps, { itemCode: item.code, condition: item.condition, staffMemberId: 'staff-1' })
+  );
+}
+
+const TENT_CHECKLIST: ReturnChecklistQuestion[] = [
+  { kind: 'count', prompt: 'Stakes', expectedCount: 8, failCondition: null },
+  { kind: 'boolean', prompt: 'Rainfly included', failCondition: null },
+  { kind: 'boolean', prompt: 'Poles straight', failCondition: GearCondition.NEEDS_REPAIR },
+  { kind: 'text', prompt: 'Anything else?' }
+];
+
+/**
+ * Check out a tent whose gear type has TENT_CHECKLIST.
+ */
+async function checkOutChecklistTent(deps: Deps, memberId: string) {
+  const { gearType, item } = await createTent(deps);
+  unwrap(await setReturnChecklist(deps, { gearTypeId: gearType.id, questions: TENT_CHECKLIST, staffMemberId: 'staff-1' }));
+  const { checkout } = unwrap(
+    await createCheckout(deps, { memberId, staffMemberId: 'staff-1', items: [{ itemCode: item.code }], dueAt: DUE_AT })
+  );
+  return { gearType, item, checkout };
+}
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+describe('late fee policy', () => {
+  it('prefers a gear type rule over its category rule over the default', () => {
+    const typeRule = { graceDays: 0, dailyRateCents: 1, maxFeeCents: null };
+    const policy = { ...DEFAULT_LATE_FEE_POLICY, byGearType: { 'type-1': typeRule } };
+
+    expect(lateFeeRuleFor(policy, { id: 'type-1', category: GearCategory.BIKE })).toBe(typeRule);
+    expect(lateFeeRuleFor(policy, { id: 'type-2', category: GearCategory.BIKE })).toBe(
+      DEFAULT_LATE_FEE_POLICY.byCategory.BIKE
+    );
+    expect(lateFeeRuleFor(policy, { id: 'type-2', category: GearCategory.TENT })).toBe(DEFAULT_LATE_FEE_POLICY.default);
+  });
+
+  it('charges nothing inside the grace period and caps each unit', () => {
+    const rule = { graceDays: 2, dailyRateCents: 150, maxFeeCents: 1000 };
+
+    expect(calculateLateFee(rule, 2, 1)).toBe(0);
+    expect(calculateLateFee(rule, 5, 1)).toBe(450);
+    expect(calculateLateFee(rule, 30, 3)).toBe(3000);
+    expect(calculateLateFee(null, 30, 1)).toBe(0);
+  });
+});
+
+describe('late fees on return', () => {
+  it('charges the member when an item comes back late', async () => {
+    const { deps, member } = await makeDeps();
+    const { item } = await createTent(deps);
+    unwrap(
+      await createCheckout(deps, {
+        memberId: member.id,
+        staffMemberId: 'staff-1',
+        items: [{ itemCode: item.code }],
+        dueAt: DUE_AT
+      })
+    );
+    deps.clock.set(daysAfterDue(6));
+
+    const preview = await lookupItemByCode(deps, item.code);
+    const result = unwrap(
+      await returnItemByCode(deps, { itemCode: item.code, condition: GearCondition.GOOD, staffMemberId: 'staff-1' })
+    );
+
+    // Default rule: one grace day, then $1 a day
+    expect(preview?.estimatedLateFeeCents).toBe(500);
+    expect(result.lateFee?.amountCents).toBe(500);
+    expect(result.lateFee?.chargeType).toBe(ChargeType.LATE_FEE);
+    expect((await deps.memberAccountRepo.findByMemberId(member.id)).balanceCents).toBe(500);
+    expect(deps.events.find((e) => e.type === 'ChargePosted')?.payload).toMatchObject({
+      chargeType: ChargeType.LATE_FEE,
+      amountCents: 500
+    });
+  });
+
+  it('charges trip leaders nothing under their tier fee schedule', async () => {
+    const { deps, member } = await makeDeps();
+    await deps.memberRepo.save(unwrap(member.changeTier(MembershipTier.TRIP_LEADER, deps)));
+
+    const result = await returnTentLate(deps, member.id, 'TENT-009', 1, 6);
+
+    expect(result.lateFee).toBeNull();
+    expect((await deps.memberAccountRepo.findByMemberId(member.id)).balanceCents).toBe(0);
+  });
+
+  it('charges nothing for an on-time return', async () => {
+    const { deps, member } = await makeDeps();
+    const { item } = await createTent(deps);
+    unwrap(
+      await createCheckout(deps, {
+        memberId: member.id,
+        staffMemberId: 'staff-1',
+        items: [{ itemCode: item.code }],
+        dueAt: DUE_AT
+      })
+    );
+
+    const result = unwrap(
+      await returnItemByCode(deps, { itemCode: item.code, condition: GearCondition.GOOD, staffMemberId: 'staff-1' })
+    );
+
+    expect(result.lateFee).toBeNull();
+    expect((await deps.memberAccountRepo.findByMemberId(member.id)).entries).toHaveLength(0);
+  });
+
+  it('charges bulk returns per unit returned and matches the earlier estimates', async () => {
+    const { deps, member } = await makeDeps();
+    const pads = await createPads(deps);
+    const { checkout } = unwrap(
+      await createCheckout(deps, {
+        memberId: member.id,
+        staffMemberId: 'staff-1',
+        items: [{ gearTypeId: pads.id, quantity: 4 }],
+        dueAt: DUE_AT
+      })
+    );
+    deps.clock.set(daysAfterDue(40));
+
+    const [overdue] = await getOverdueCheckouts(deps);
+    const toReturn = await getMemberItemsToReturn(deps, member.id);
+    const result = unwrap(
+      await returnItems(deps, {
+        checkoutId: checkout.id,
+        staffMemberId: 'staff-1',
+        returns: [{ gearTypeId: pads.id, quantity: 3 }]
+      })
+    );
+
+    // Capped at $20 a pad
+    expect(overdue.estimatedLateFeeCents).toBe(8000);
+    expect(toReturn?.items[0].estimatedLateFeeCents).toBe(8000);
+    expect(result.lateFees.map((c) => c.amountCents)).toEqual([6000]);
+  });
+});
+
+describe('strike policy', () => {
+  async function currentSuspension(deps: Deps, memberId: MemberId) {
+    return (await deps.memberRepo.findById(memberId))?.currentSuspension ?? null;
+  }
+
+  it('suspends the member on the third late return and lifts the suspension after the set period', async () => {
+    const { deps, member } = await makeDeps();
+    subscribeStrikePolicy(deps);
+
+    await returnTentLate(deps, member.id, 'TENT-001', 0, 2);
+    await returnTentLate(deps, member.id, 'TENT-002', 0, 3);
+    expect(await currentSuspension(deps, member.id)).toBeNull();
+    await returnTentLate(deps, member.id, 'TENT-003', 0, 4);
+
+    const suspension = await currentSuspension(deps, member.id);
+    expect(suspension?.reason).toMatch(/^3 late returns in 365 days: Returned REI Half Dome 2 \(TENT-001\) 2 days late;/);
+    expect(suspension?.endsAt).toEqual(new Date(daysAfterDue(4).getTime() + 30 * 24 * 60 * 60 * 1000));
+    expect(deps.events.find((e) => e.type === 'MemberSuspended')?.payload).toMatchObject({ automatic: true });
+    expect(await getCheckoutEligibility(deps, member.id)).toMatchObject({
+      eligible: false,
+      reasons: [{ type: 'suspended', reason: suspension?.reason, endsAt: suspension?.endsAt }]
+    });
+
+    deps.clock.set(daysAfterDue(4 + 30));
+    expect((await getCheckoutEligibility(deps, member.id)).eligible).toBe(true);
+  });
+
+  it('does not count strikes from before the last suspension again', async () => {
+    const { deps, member } = await makeDeps();
+    subscribeStrikePolicy(deps);
+    await returnTentLate(deps, member.id, 'TENT-001', 0, 2);
+    await returnTentLate(deps, member.id, 'TENT-002', 0, 2);
+    await returnTentLate(deps, member.id, 'TENT-003', 0, 2);
+    expect(await currentSuspension(deps, member.id)).not.toBeNull();
+
+    // After the 30-day suspension has run out
+    await returnTentLate(deps, member.id, 'TENT-004', 40, 5);
+
+    const stored = await deps.memberRepo.findById(member.id);
+    expect(stored?.suspensions).toHaveLength(1);
+    expect(stored?.membershipStatusAt(deps.clock.now())).toBe(MembershipStatus.ACTIVE);
+  });
+
+  it('keeps the return when the strike policy subscriber fails', async () => {
+    const { deps, member } = await makeDeps();
+    const memberRepo: typeof deps.memberRepo = Object.create(deps.memberRepo);
+    memberRepo.findById = () => Promise.reject(new Error('storage unavailable'));
+    const broken = { ...deps, memberRepo };
+    subscribeStrikePolicy(broken);
+
+    const result = await returnTentLate(deps, member.id, 'TENT-001', 0, 2);
+
+    expect(result.checkoutComplete).toBe(true);
+    expect([...deps.eventPublisher.failures.values()]).toMatchObject([
+      { subscriber: 'strike-policy:item-returned', error: 'storage unavailable' }
+    ]);
+  });
+});
+
+describe('damaged returns', () => {
+  it('opens a maintenance ticket with the return notes, checkout and condition drop', async () => {
+    const { deps, member } = await makeDeps();
+    const { item } = await createTent(deps);
+    const { checkout } = unwrap(
+      await createCheckout(deps, { memberId: member.id, staffMemberId: 'staff-1', items: [{ itemCode: item.code }], dueAt: DUE_AT })
+    );
+
+    const result = unwrap(
+      await returnItemByCode(deps, {
+        itemCode: item.code,
+        condition: GearCondition.NEEDS_REPAIR,
+        notes: 'Rainfly zipper torn off',
+        staffMemberId: 'staff-1'
+      })
+    );
+
+    expect(result.gearItem.status).toBe(GearStatus.MAINTENANCE);
+    expect(result.maintenanceTicket?.issue).toBe('Rainfly zipper torn off');
+    expect(result.maintenanceTicket?.damage).toEqual({
+      checkoutId: checkout.id,
+      memberId: member.id,
+      conditionAtCheckout: GearCondition.EXCELLENT,
+      conditionAtReturn: GearCondition.NEEDS_REPAIR
+    });
+    expect(deps.events.find((e) => e.type === 'MaintenanceTicketOpened')?.payload).toMatchObject({
+      checkoutId: checkout.id,
+      memberId: member.id
+    });
+    const history = await getMemberDamageHistory(deps, member.id);
+    expect(history.map((h) => [h.ticket.id, h.itemCode, h.memberName])).toEqual([
+      [result.maintenanceTicket!.id, 'TENT-001', 'Avery Tester']
+    ]);
+  });
+
+  it('opens one ticket per damaged item in a multi-item return and none for the rest', async () => {
+    const { deps, member } = await makeDeps();
+    const { item: first } = await createTent(deps, 'TENT-001');
+    const { item: second } = await createTent(deps, 'TENT-002');
+    const { checkout } = unwrap(
+      await createCheckout(deps, {
+        memberId: member.id,
+        staffMemberId: 'staff-1',
+        items: [{ itemCode: first.code }, { itemCode: second.code }],
+        dueAt: DUE_AT
+      })
+    );
+
+    const result = unwrap(
+      await returnItems(deps, {
+        checkoutId: checkout.id,
+        staffMemberId: 'staff-1',
+        returns: [
+          { gearItemId: first.id, condition: GearCondition.FAIR },
+          { gearItemId: second.id, condition: GearCondition.NEEDS_REPAIR }
+        ]
+      })
+    );
+
+    expect(result.maintenanceTickets).toHaveLength(1);
+    expect(result.maintenanceTickets[0]).toMatchObject({ gearItemId: second.id, issue: 'Returned needing repair' });
+    expect(await deps.maintenanceTicketRepo.findOpen()).toHaveLength(1);
+  });
+});
+
+describe('return checklists', () => {
+  it('are only kept for individually tracked types, with unique prompts and positive counts', async () => {
+    const { deps } = await makeDeps();
+    const { gearType } = await createTent(deps);
+    const pads = await createPads(deps);
+    const stakes = TENT_CHECKLIST[0];
+
+    expect(
+      await setReturnChecklist(deps, { gearTypeId: pads.id, questions: TENT_CHECKLIST, staffMemberId: 'staff-1' })
+    ).toEqual({ ok: false, error: { type: 'not_individually_tracked' } });
+    expect(
+      await setReturnChecklist(deps, {
+        gearTypeId: gearType.id,
+        questions: [stakes, { ...stakes, prompt: ' Stakes ' }],
+        staffMemberId: 'staff-1'
+      })
+    ).toEqual({ ok: false, error: { type: 'duplicate_checklist_prompt', prompt: 'Stakes' } });
+    expect(
+      await setReturnChecklist(deps, {
+        gearTypeId: gearType.id,
+        questions: [{ kind: 'count', prompt: 'Stakes', expectedCount: 0, failCondition: null }],
+        staffMemberId: 'staff-1'
+      })
+    ).toEqual({ ok: false, error: { type: 'invalid_expected_count', prompt: 'Stakes', value: 0 } });
+
+    const saved = unwrap(
+      await setReturnChecklist(deps, { gearTypeId: gearType.id, questions: TENT_CHECKLIST, staffMemberId: 'staff-1' })
+    );
+    expect((await deps.gearTypeRepo.findById(gearType.id))?.returnChecklist).toEqual(saved.returnChecklist);
+    expect(deps.events.at(-1)).toMatchObject({
+      type: 'ReturnChecklistUpdated',
+      payload: { name: 'REI Half Dome 2', questions: 4 }
+    });
+  });
+
+  it('must be answered before the item is checked in', async () => {
+    const { deps, member } = await makeDeps();
+    const { item } = await checkOutChecklistTent(deps, member.id);
+
+    expect(
+      await returnItemByCode(deps, {
+        itemCode: item.code,
+        condition: GearCondition.GOOD,
+        checklistAnswers: [{ prompt: 'Stakes', value: 8 }],
+        staffMemberId: 'staff-1'
+      })
+    ).toEqual({ ok: false, error: { type: 'incomplete_return_checklist', missing: ['Rainfly included', 'Poles straight'] } });
+    expect(
+      await returnItemByCode(deps, {
+        itemCode: item.code,
+        condition: GearCondition.GOOD,
+        checklistAnswers: [
+          { prompt: 'Stakes', value: 'eight' },
+          { prompt: 'Rainfly included', value: true },
+          { prompt: 'Poles straight', value: true }
+        ],
+        staffMemberId: 'staff-1'
+      })
+    ).toEqual({ ok: false, error: { type: 'invalid_checklist_answer', prompt: 'Stakes' } });
+    expect((await deps.gearItemRepo.findById(item.id))?.status).toBe(GearStatus.CHECKED_OUT);
+  });
+
+  it('flags missing components and stores the answers on the checkout item', async () => {
+    const { deps, member } = await makeDeps();
+    const { item, checkout } = await checkOutChecklistTent(deps, member.id);
+
+    const result = unwrap(
+      await returnItemByCode(deps, {
+        itemCode: item.code,
+        condition: GearCondition.GOOD,
+        checklistAnswers: [
+          { prompt: 'Stakes', value: 6 },
+          { prompt: 'Rainfly included', value: false },
+          { prompt: 'Poles straight', value: true }
+        ],
+        staffMemberId: 'staff-1'
+      })
+    );
+
+    expect(result.missingComponents).toEqual(['Stakes: 6 of 8', 'Rainfly included']);
+    expect(result.gearItem.condition).toBe(GearCondition.GOOD);
+    const stored = (await deps.checkoutRepo.findById(checkout.id))!.items[0];
+    expect(stored.missingComponents).toEqual(['Stakes: 6 of 8', 'Rainfly included']);
+    expect(stored.checklistAnswers).toEqual([
+      { prompt: 'Stakes', value: 6 },
+      { prompt: 'Rainfly included', value: false },
+      { prompt: 'Poles straight', value: true },
+      { prompt: 'Anything else?', value: '' }
+    ]);
+    expect(deps.events.find((e) => e.type === 'ItemReturned')?.payload).toMatchObject({
+      missingComponents: 'Stakes: 6 of 8, Rainfly included'
+    });
+  });
+
+  it('rates the item down when an answer with a fail condition fails', async () => {
+    const { deps, member } = await makeDeps();
+    const { item, checkout } = await checkOutChecklistTent(deps, member.id);
+
+    expect(
+      await returnItems(deps, {
+        checkoutId: checkout.id,
+        staffMemberId: 'staff-1',
+        returns: [{ gearItemId: item.id, condition: GearCondition.EXCELLENT }]
+      })
+    ).toMatchObject({ ok: false, error: { type: 'incomplete_return_checklist', itemId: item.id } });
+
+    const result = unwrap(
+      await returnItems(deps, {
+        checkoutId: checkout.id,
+        staffMemberId: 'staff-1',
+        returns: [
+          {
+            gearItemId: item.id,
+            condition: GearCondition.EXCELLENT,
+            checklistAnswers: [
+              { prompt: 'Stakes', value: 8 },
+              { prompt: 'Rainfly included', value: true },
+              { prompt: 'Poles straight', value: false },
+              { prompt: 'Anything else?', value: 'Bent middle section' }
+            ]
+          }
+        ]
+      })
+    );
+
+    expect(result.checkout.items[0].conditionAtReturn).toBe(GearCondition.NEEDS_REPAIR);
+    expect(result.checkout.items[0].missingComponents).toEqual([]);
+    expect(result.maintenanceTickets).toHaveLength(1);
+    expect((await deps.gearItemRepo.findById(item.id))?.status).toBe(GearStatus.MAINTENANCE);
+  });
+});
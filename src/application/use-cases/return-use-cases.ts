@@ -3,21 +3,152 @@ import type {
   CheckoutRepository,
   GearItemRepository,
   GearTypeRepository,
-  MemberRepository
+  MemberRepository,
+  MemberAccountRepository,
+  KitRepository,
+  MaintenanceTicketRepository
 } from '../ports/repositories.js';
-import type { IdGenerator, Clock, EventPublisher } from '../ports/services.js';
-import type { Checkout } from '../../domain/entities/checkout.js';
+import type { IdGenerator, Clock, EventPublisher, UnitOfWork } from '../ports/services.js';
+import { type Checkout, daysPastDue } from '../../domain/entities/checkout.js';
+import type { AccountEntry } from '../../domain/entities/account-entry.js';
+import type { MemberAccount } from '../../domain/entities/member-account.js';
 import type { GearItem } from '../../domain/entities/gear-item.js';
-import type { GearType } from '../../domain/entities/gear-type.js';
+import type { GearType, ReturnChecklistAnswer } from '../../domain/entities/gear-type.js';
+import type { MaintenanceTicket } from '../../domain/entities/maintenance-ticket.js';
 import type { Member } from '../../domain/entities/member.js';
-import type { GearItemId, MemberId } from '../../domain/value-objects/index.js';
-import { GearCondition, CheckoutStatus } from '../../domain/types.js';
+import type { GearItemId, GearTypeId, MemberId } from '../../domain/value-objects/index.js';
+import { GearCondition, GearStatus, CheckoutStatus, ChargeType } from '../../domain/types.js';
+import {
+  type LateFeePolicy,
+  lateFeeRuleFor,
+  calculateLateFee,
+  type MembershipTierPolicy,
+  tierLateFee,
+  type ReturnChecklistOutcome,
+  type ReturnChecklistAnswerError,
+  gradeReturnChecklist
+} from '../../domain/policies/index.js';
+import { ItemReturned, ItemsReturned, ChargePosted } from '../../domain/events/index.js';
+import { createDamagedReturnTicket, saveOpenedTicket } from './maintenance-use-cases.js';
+
+// ============================================================================
+// Late Fees
+// ============================================================================
+
+type LateFeeEstimateDeps = {
+  lateFeePolicy: LateFeePolicy;
+  membershipTierPolicy: MembershipTierPolicy;
+};
+
+type LateFeeDeps = LateFeeEstimateDeps & {
+  memberAccountRepo: MemberAccountRepository;
+  eventPublisher: EventPublisher;
+  idGenerator: IdGenerator;
+  clock: Clock;
+};
+
+interface LateReturn {
+  checkout: Checkout;
+  gearType: GearType;
+  gearItem?: GearItem;
+  dueAt: Date;
+  quantity: number;
+}
+
+/**
+ * Late fee for the gear under the policy, scaled by the member's tier fee schedule.
+ */
+function estimateLateFee(
+  deps: LateFeeEstimateDeps,
+  member: Member | null | undefined,
+  gearType: GearType,
+  daysOverdue: number,
+  quantity: number
+): number {
+  const amountCents = calculateLateFee(lateFeeRuleFor(deps.lateFeePolicy, gearType), daysOverdue, quantity);
+  return member ? tierLateFee(deps.membershipTierPolicy[member.tier], amountCents) : amountCents;
+}
+
+/**
+ * Build the late fee charge for a return, or null when nothing has accrued.
+ */
+function buildLateFeeCharge(
+  deps: LateFeeDeps,
+  account: MemberAccount,
+  member: Member | null,
+  late: LateReturn,
+  staffMemberId: string
+): AccountEntry | null {
+  const daysOverdue = daysPastDue(late.dueAt, deps.clock.now());
+  const amountCents = estimateLateFee(deps, member, late.gearType, daysOverdue, late.quantity);
+  if (amountCents <= 0) {
+    return null;
+  }
+
+  const what = late.gearItem ? `${late.gearType.name} (${late.gearItem.code})` : `${late.gearType.name} x${late.quantity}`;
+  const result = account.charge(
+    {
+      chargeType: ChargeType.LATE_FEE,
+      amountCents,
+      description: `Late fee: ${what}, ${daysOverdue} day${daysOverdue === 1 ? '' : 's'} overdue`,
+      checkoutId: late.checkout.id,
+      gearItemId: late.gearItem?.id,
+      staffMemberId
+    },
+    deps
+  );
+  return result.ok ? result.value : null;
+}
+
+/**
+ * Append late fee charges and their events. Call inside the return's unit of work.
+ */
+async function postLateFees(deps: LateFeeDeps, charges: AccountEntry[], staffMemberId: string): Promise<void> {
+  for (const charge of charges) {
+    await deps.memberAccountRepo.append(charge);
+    await deps.eventPublisher.publish(
+      ChargePosted.create(
+        {
+          aggregateId: charge.memberId,
+          staffMemberId,
+          payload: {
+            memberId: charge.memberId,
+            entryId: charge.id,
+            chargeType: ChargeType.LATE_FEE,
+            amountCents: charge.amountCents
+          }
+        },
+        deps
+      )
+    );
+  }
+}
+
+// ============================================================================
+// Return Checklists
+// ============================================================================
+
+/**
+ * Grade the answers when the gear type has a return checklist. Types without
+ * one keep the condition staff reported.
+ */
+function checkReturnChecklist(
+  gearType: GearType,
+  answers: ReturnChecklistAnswer[] | undefined,
+  condition: GearCondition
+): Result<ReturnChecklistOutcome | null, ReturnChecklistAnswerError> {
+  if (gearType.returnChecklist.length === 0) {
+    return ok(null);
+  }
+  return gradeReturnChecklist(gearType.returnChecklist, answers ?? [], condition);
+}
 
 // ============================================================================
 // Return Individual Item
 // ============================================================================
 
 export type ReturnItemError =
+  | ReturnChecklistAnswerError
   | { type: 'item_not_found'; code: string }
   | { type: 'item_not_checked_out'; code: string }
   | { type: 'checkout_not_found' };
@@ -27,15 +158,23 @@ export interface ReturnItemDeps {
   checkoutRepo: CheckoutRepository;
   gearTypeRepo: GearTypeRepository;
   memberRepo: MemberRepository;
+  memberAccountRepo: MemberAccountRepository;
+  maintenanceTicketRepo: MaintenanceTicketRepository;
   clock: Clock;
   eventPublisher: EventPublisher;
   idGenerator: IdGenerator;
+  unitOfWork: UnitOfWork;
+  lateFeePolicy: LateFeePolicy;
+  membershipTierPolicy: MembershipTierPolicy;
 }
 
 export interface ReturnItemInput {
   itemCode: string;
   condition: GearCondition;
   notes?: string;
+  // Required when the gear type has a return checklist
+  checklistAnswers?: ReturnChecklistAnswer[];
+  staffMemberId: string;
 }
 
 export interface ReturnItemResult {
@@ -44,6 +183,12 @@ export interface ReturnItemResult {
   checkout: Checkout;
   member: Member;
   checkoutComplete: boolean;
+  // Flagged by the return checklist
+  missingComponents: string[];
+  // Posted to the member's account when the item came back late
+  lateFee: AccountEntry | null;
+  // Opened when the item came back needing repair
+  maintenanceTicket: MaintenanceTicket | null;
 }
 
 /**
@@ -78,17 +223,28 @@ export async function returnItemByCode(
   const checkout = allActiveCheckouts.find(c =>
     c.items.some(i => i.gearItemId === gearItem.id && i.returnedAt === null)
   );
+  const checkoutItem = checkout?.items.find(i => i.gearItemId === gearItem.id && i.returnedAt === null);
 
-  if (!checkout) {
+  if (!checkout || !checkoutItem) {
     return err({ type: 'checkout_not_found' });
   }
 
+  // A failed checklist answer can rate the item down from the reported condition
+  const checklistResult = checkReturnChecklist(gearType, input.checklistAnswers, input.condition);
+  if (!checklistResult.ok) {
+    return checklistResult;
+  }
+  const checklist = checklistResult.value;
+  const condition = checklist?.condition ?? input.condition;
+
   // Process the return on the checkout
   const returnResult = checkout.returnItem(
     gearItem.id,
-    input.condition,
+    condition,
     input.notes,
-    { clock: deps.clock }
+    input.staffMemberId,
+    { clock: deps.clock },
+    checklist ?? undefined
   );
 
   if (!returnResult.ok) {
@@ -98,33 +254,62 @@ export async function returnItemByCode(
   const updatedCheckout = returnResult.value;
 
   // Update the gear item
-  const itemReturnResult = gearItem.markReturned(input.condition, { clock: deps.clock });
+  const itemReturnResult = gearItem.markReturned(condition, { clock: deps.clock });
   if (!itemReturnResult.ok) {
     return err({ type: 'item_not_checked_out', code: input.itemCode });
   }
 
   const updatedItem = itemReturnResult.value;
-
-  // Persist changes
-  await deps.checkoutRepo.save(updatedCheckout);
-  await deps.gearItemRepo.save(updatedItem);
+  const maintenanceTicket =
+    updatedItem.status === GearStatus.MAINTENANCE
+      ? createDamagedReturnTicket(deps, {
+          gearItemId: gearItem.id,
+          checkout: updatedCheckout,
+          conditionAtReturn: condition,
+          notes: input.notes,
+          staffMemberId: input.staffMemberId
+        })
+      : null;
 
   // Get member for result
   const member = await deps.memberRepo.findById(checkout.memberId);
 
-  // Publish event
-  await deps.eventPublisher.publish({
-    id: deps.idGenerator.generate(),
-    type: 'ItemReturned',
-    aggregateId: checkout.id,
-    occurredAt: deps.clock.now(),
-    payload: {
-      checkoutId: checkout.id,
-      gearItemId: gearItem.id,
-      itemCode: input.itemCode,
-      condition: input.condition,
-      checkoutComplete: updatedCheckout.status === CheckoutStatus.COMPLETED
+  const account = await deps.memberAccountRepo.findByMemberId(checkout.memberId);
+  const lateFee = buildLateFeeCharge(
+    deps,
+    account,
+    member,
+    { checkout, gearType, gearItem, dueAt: checkoutItem.dueAt, quantity: 1 },
+    input.staffMemberId
+  );
+
+  // Persist changes, any late fee and the events together
+  await deps.unitOfWork.run(async () => {
+    await deps.checkoutRepo.save(updatedCheckout);
+    await deps.gearItemRepo.save(updatedItem);
+    if (maintenanceTicket) {
+      await saveOpenedTicket(deps, maintenanceTicket, updatedItem.code, input.staffMemberId);
     }
+    await postLateFees(deps, lateFee ? [lateFee] : [], input.staffMemberId);
+    await deps.eventPublisher.publish(
+      ItemReturned.create(
+        {
+          aggregateId: checkout.id,
+          staffMemberId: input.staffMemberId,
+          payload: {
+            checkoutId: checkout.id,
+            gearItemId: gearItem.id,
+            itemCode: input.itemCode,
+            condition,
+            checkoutComplete: updatedCheckout.status === CheckoutStatus.COMPLETED,
+            ...(checklist?.missingComponents.length && {
+              missingComponents: checklist.missingComponents.join(', ')
+            })
+          }
+        },
+        deps
+      )
+    );
   });
 
   return ok({
@@ -132,7 +317,10 @@ export async function returnItemByCode(
     gearType,
     checkout: updatedCheckout,
     member: member!,
-    checkoutComplete: updatedCheckout.status === CheckoutStatus.COMPLETED
+    checkoutComplete: updatedCheckout.status === CheckoutStatus.COMPLETED,
+    missingComponents: checklist?.missingComponents ?? [],
+    lateFee,
+    maintenanceTicket
   });
 }
 
@@ -141,29 +329,41 @@ export async function returnItemByCode(
 // ============================================================================
 
 export type ReturnItemsError =
+  | (ReturnChecklistAnswerError & { itemId: string })
   | { type: 'checkout_not_found'; checkoutId: string }
   | { type: 'checkout_already_completed' }
   | { type: 'item_not_in_checkout'; itemId: string }
-  | { type: 'item_already_returned'; itemId: string };
+  | { type: 'item_already_returned'; itemId: string }
+  | { type: 'item_lost'; itemId: string };
 
 export interface ReturnItemsDeps {
   checkoutRepo: CheckoutRepository;
   gearItemRepo: GearItemRepository;
+  gearTypeRepo: GearTypeRepository;
   memberRepo: MemberRepository;
+  memberAccountRepo: MemberAccountRepository;
+  maintenanceTicketRepo: MaintenanceTicketRepository;
   clock: Clock;
   eventPublisher: EventPublisher;
   idGenerator: IdGenerator;
+  unitOfWork: UnitOfWork;
+  lateFeePolicy: LateFeePolicy;
+  membershipTierPolicy: MembershipTierPolicy;
 }
 
 export interface ReturnItemsInput {
   checkoutId: string;
+  staffMemberId: string;
   returns: Array<{
     // For individual items
     gearItemId?: string;
     condition?: GearCondition;
-    // For bulk items
+    // Required when the item's gear type has a return checklist
+    checklistAnswers?: ReturnChecklistAnswer[];
+    // For bulk items; kitId picks the line that went out with that kit
     gearTypeId?: string;
     quantity?: number;
+    kitId?: string | null;
     // Notes for any return
     notes?: string;
   }>;
@@ -173,6 +373,10 @@ export interface ReturnItemsResult {
   checkout: Checkout;
   member: Member;
   checkoutComplete: boolean;
+  // One charge per late line, posted to the member's account
+  lateFees: AccountEntry[];
+  // One per item that came back needing repair
+  maintenanceTickets: MaintenanceTicket[];
 }
 
 /**
@@ -191,18 +395,35 @@ export async function returnItems(
     return err({ type: 'checkout_already_completed' });
   }
 
-  const now = deps.clock.now();
   const gearItemsToUpdate: GearItem[] = [];
+  const maintenanceTickets: MaintenanceTicket[] = [];
+  const lateReturns: LateReturn[] = [];
   let currentCheckout: Checkout = initialCheckout;
 
   for (const returnReq of input.returns) {
     if (returnReq.gearItemId) {
+      const dueAt = currentCheckout.items.find(i => i.gearItemId === returnReq.gearItemId)?.dueAt;
+      const gearItem = await deps.gearItemRepo.findById(returnReq.gearItemId as GearItemId);
+      const gearType = gearItem ? await deps.gearTypeRepo.findById(gearItem.gearTypeId) : null;
+
+      let condition = returnReq.condition ?? GearCondition.GOOD;
+      const checklistResult = gearType
+        ? checkReturnChecklist(gearType, returnReq.checklistAnswers, condition)
+        : ok(null);
+      if (!checklistResult.ok) {
+        return err({ ...checklistResult.error, itemId: returnReq.gearItemId });
+      }
+      const checklist = checklistResult.value;
+      condition = checklist?.condition ?? condition;
+
       // Individual item return
       const returnResult = currentCheckout.returnItem(
         returnReq.gearItemId,
-        returnReq.condition ?? GearCondition.GOOD,
+        condition,
         returnReq.notes,
-        { clock: deps.clock }
+        input.staffMemberId,
+        { clock: deps.clock },
+        checklist ?? undefined
       );
 
       if (!returnResult.ok) {
@@ -212,29 +433,48 @@ export async function returnItems(
         if (returnResult.error.type === 'item_already_returned') {
           return err({ type: 'item_already_returned', itemId: returnReq.gearItemId });
         }
+        if (returnResult.error.type === 'item_lost') {
+          return err({ type: 'item_lost', itemId: returnReq.gearItemId });
+        }
         return err({ type: 'checkout_already_completed' });
       }
 
       currentCheckout = returnResult.value;
 
       // Update the gear item
-      const gearItem = await deps.gearItemRepo.findById(returnReq.gearItemId as GearItemId);
       if (gearItem) {
-        const itemResult = gearItem.markReturned(
-          returnReq.condition ?? GearCondition.GOOD,
-          { clock: deps.clock }
-        );
+        const itemResult = gearItem.markReturned(condition, { clock: deps.clock });
         if (itemResult.ok) {
           gearItemsToUpdate.push(itemResult.value);
+          const ticket =
+            itemResult.value.status === GearStatus.MAINTENANCE
+              ? createDamagedReturnTicket(deps, {
+                  gearItemId: gearItem.id,
+                  checkout: currentCheckout,
+                  conditionAtReturn: itemResult.value.condition,
+                  notes: returnReq.notes,
+                  staffMemberId: input.staffMemberId
+                })
+              : null;
+          if (ticket) maintenanceTickets.push(ticket);
+        }
+
+        if (gearType && dueAt) {
+          lateReturns.push({ checkout: initialCheckout, gearType, gearItem, dueAt, quantity: 1 });
         }
       }
     } else if (returnReq.gearTypeId && returnReq.quantity) {
+      const kitId = returnReq.kitId ?? null;
+      const dueAt = currentCheckout.findItem(returnReq.gearTypeId, kitId)?.dueAt;
+
       // Bulk item return
       const returnResult = currentCheckout.returnBulkItem(
         returnReq.gearTypeId,
         returnReq.quantity,
         returnReq.notes,
-        { clock: deps.clock }
+        input.staffMemberId,
+        { clock: deps.clock },
+        kitId
       );
 
       if (!returnResult.ok) {
@@ -242,34 +482,54 @@ export async function returnItems(
       }
 
       currentCheckout = returnResult.value;
-    }
-  }
 
-  // Persist changes
-  await deps.checkoutRepo.save(currentCheckout);
-  for (const item of gearItemsToUpdate) {
-    await deps.gearItemRepo.save(item);
+      const gearType = await deps.gearTypeRepo.findById(returnReq.gearTypeId as GearTypeId);
+      if (gearType && dueAt) {
+        lateReturns.push({ checkout: initialCheckout, gearType, dueAt, quantity: returnReq.quantity });
+      }
+    }
   }
 
   const member = await deps.memberRepo.findById(currentCheckout.memberId);
 
-  // Publish event
-  await deps.eventPublisher.publish({
-    id: deps.idGenerator.generate(),
-    type: 'ItemsReturned',
-    aggregateId: currentCheckout.id,
-    occurredAt: now,
-    payload: {
-      checkoutId: currentCheckout.id,
-      returnCount: input.returns.length,
-      checkoutComplete: currentCheckout.status === CheckoutStatus.COMPLETED
+  const account = await deps.memberAccountRepo.findByMemberId(currentCheckout.memberId);
+  const lateFees = lateReturns
+    .map(late => buildLateFeeCharge(deps, account, member, late, input.staffMemberId))
+    .filter((charge): charge is AccountEntry => charge !== null);
+
+  // Persist changes, any late fees and the events together
+  await deps.unitOfWork.run(async () => {
+    await deps.checkoutRepo.save(currentCheckout);
+    for (const item of gearItemsToUpdate) {
+      await deps.gearItemRepo.save(item);
     }
+    for (const ticket of maintenanceTickets) {
+      const code = gearItemsToUpdate.find((i) => i.id === ticket.gearItemId)?.code ?? '';
+      await saveOpenedTicket(deps, ticket, code, input.staffMemberId);
+    }
+    await postLateFees(deps, lateFees, input.staffMemberId);
+    await deps.eventPublisher.publish(
+      ItemsReturned.create(
+        {
+          aggregateId: currentCheckout.id,
+          staffMemberId: input.staffMemberId,
+          payload: {
+            checkoutId: currentCheckout.id,
+            returnCount: input.returns.length,
+            checkoutComplete: currentCheckout.status === CheckoutStatus.COMPLETED
+          }
+        },
+        deps
+      )
+    );
   });
 
   return ok({
     checkout: currentCheckout,
     member: member!,
-    checkoutComplete: currentCheckout.status === CheckoutStatus.COMPLETED
+    checkoutComplete: currentCheckout.status === CheckoutStatus.COMPLETED,
+    lateFees,
+    maintenanceTickets
   });
 }
 
@@ -282,7 +542,10 @@ export interface GetItemsToReturnDeps {
   gearItemRepo: GearItemRepository;
   gearTypeRepo: GearTypeRepository;
   memberRepo: MemberRepository;
+  kitRepo: KitRepository;
   clock: Clock;
+  lateFeePolicy: LateFeePolicy;
+  membershipTierPolicy: MembershipTierPolicy;
 }
 
 export interface ItemToReturn {
@@ -294,6 +557,12 @@ export interface ItemToReturn {
   dueAt: Date;
   isOverdue: boolean;
   daysOverdue: number;
+  // Late fee that would be charged if the outstanding units came back now
+  estimatedLateFeeCents: number;
+  renewalCount: number;
+  // Set when the item went out as part of a kit
+  kitId: string | null;
+  kitName: string | null;
 }
 
 export interface MemberItemsToReturn {
@@ -317,6 +586,7 @@ export async function getMemberItemsToReturn(
   const activeCheckouts = await deps.checkoutRepo.findActiveByMemberId(memberId as MemberId);
   const now = deps.clock.now();
   const items: ItemToReturn[] = [];
+  const kitNames = new Map<string, string | null>();
   let totalOverdue = 0;
 
   for (const checkout of activeCheckouts) {
@@ -335,14 +605,24 @@ export async function getMemberItemsToReturn(
 
       if (gearType) {
         const isOverdue = item.dueAt < now;
-        const daysOverdue = isOverdue
-          ? Math.floor((now.getTime() - item.dueAt.getTime()) / (1000 * 60 * 60 * 24))
-          : 0;
+        const daysOverdue = daysPastDue(item.dueAt, now);
+        const estimatedLateFeeCents = estimateLateFee(
+          deps,
+          member,
+          gearType,
+          daysOverdue,
+          item.quantity - item.returnedQuantity
+        );
 
         if (isOverdue) {
           totalOverdue += item.quantity - item.returnedQuantity;
         }
 
+        if (item.kitId && !kitNames.has(item.kitId)) {
+          const kit = await deps.kitRepo.findById(item.kitId);
+          kitNames.set(item.kitId, kit?.name ?? null);
+        }
+
         items.push({
           checkoutId: checkout.id,
           gearType,
@@ -351,7 +631,11 @@ export async function getMemberItemsToReturn(
           returnedQuantity: item.returnedQuantity,
           dueAt: item.dueAt,
           isOverdue,
-          daysOverdue
+          daysOverdue,
+          estimatedLateFeeCents,
+          renewalCount: item.renewalCount,
+          kitId: item.kitId,
+          kitName: item.kitId ? (kitNames.get(item.kitId) ?? null) : null
         });
       }
     }
@@ -369,6 +653,9 @@ export interface LookupItemDeps {
   gearTypeRepo: GearTypeRepository;
   checkoutRepo: CheckoutRepository;
   memberRepo: MemberRepository;
+  clock: Clock;
+  lateFeePolicy: LateFeePolicy;
+  membershipTierPolicy: MembershipTierPolicy;
 }
 
 export interface ItemLookupResult {
@@ -376,6 +663,8 @@ export interface ItemLookupResult {
   gearType: GearType;
   checkout?: Checkout;
   member?: Member;
+  // Late fee that returning the item now would charge
+  estimatedLateFeeCents: number;
 }
 
 /**
@@ -397,6 +686,7 @@ export async function lookupItemByCode(
 
   let checkout: Checkout | undefined;
   let member: Member | undefined;
+  let estimatedLateFeeCents = 0;
 
   if (gearItem.isCheckedOut()) {
     // Find the active checkout
@@ -410,8 +700,14 @@ export async function lookupItemByCode(
 
     if (checkout) {
       member = (await deps.memberRepo.findById(checkout.memberId)) ?? undefined;
+
+      const item = checkout.items.find(i => i.gearItemId === gearItem.id && i.returnedAt === null);
+      if (item) {
+        const daysOverdue = daysPastDue(item.dueAt, deps.clock.now());
+        estimatedLateFeeCents = estimateLateFee(deps, member, gearType, daysOverdue, 1);
+      }
     }
   }
 
-  return { gearItem, gearType, checkout, member };
+  return { gearItem, gearType, checkout, member, estimatedLateFeeCents };
 }
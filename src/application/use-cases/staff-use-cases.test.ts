@@ -0,0 +1,255 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createStaffMember,
+  signInStaff,
+  changeStaffRole,
+  changeStaffPin,
+  listActiveStaffMembers
+} from './staff-use-cases.js';
+import { StaffRole } from '../../domain/types.js';
+import { PIN_LOCKOUT_MS } from '../../domain/entities/staff-member.js';
+import { unwrap } from '../result.js';
+import { createTestEnvironment } from '../../test-utils/in-memory-repositories.js';
+
+// ============================================================================
+// Test helpers
+// ============================================================================
+
+function makeDeps() {
+  return createTestEnvironment();
+}
+
+// First account, created during first-run setup
+async function createAdmin(deps: ReturnType<typeof makeDeps>) {
+  return unwrap(
+    await createStaffMember(deps, {
+      name: 'Morgan Lee',
+      pin: '1234',
+      role: StaffRole.ADMIN,
+      actingStaffMemberId: null
+    })
+  );
+}
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+describe('createStaffMember', () => {
+  it('stores a hashed PIN, never the PIN itself', async () => {
+    const deps = makeDeps();
+
+    const staffMember = await createAdmin(deps);
+
+    expect(staffMember.pinHash).not.toBe('1234');
+    expect(await deps.pinHasher.verify('1234', staffMember.pinHash)).toBe(true);
+  });
+
+  it('rejects PINs that are not 4-8 digits', async () => {
+    const deps = makeDeps();
+
+    for (const pin of ['123', '123456789', '12a4']) {
+      const result = await createStaffMember(deps, {
+        name: 'Morgan Lee',
+        pin,
+        role: StaffRole.DESK,
+        actingStaffMemberId: null
+      });
+      expect(result.ok).toBe(false);
+      if (!result.ok) expect(result.error.type).toBe('invalid_pin');
+    }
+  });
+
+  it('rejects a duplicate name', async () => {
+    const deps = makeDeps();
+    const admin = await createAdmin(deps);
+
+    const result = await createStaffMember(deps, {
+      name: ' morgan lee ',
+      pin: '5678',
+      role: StaffRole.DESK,
+      actingStaffMemberId: admin.id
+    });
+
+    expect(result.ok).toBe(false);
+    if (!result.ok) expect(result.error.type).toBe('duplicate_name');
+  });
+});
+
+describe('createStaffMember permissions', () => {
+  it('makes the first account an admin regardless of the requested role', async () => {
+    const deps = makeDeps();
+
+    const first = unwrap(
+      await createStaffMember(deps, { name: 'Morgan Lee', pin: '1234', role: StaffRole.DESK, actingStaffMemberId: null })
+    );
+
+    expect(first.role).toBe(StaffRole.ADMIN);
+  });
+
+  it('only lets admins add further accounts', async () => {
+    const deps = makeDeps();
+    const admin = await createAdmin(deps);
+    const desk = unwrap(
+      await createStaffMember(deps, { name: 'Sam Patel', pin: '5678', role: StaffRole.DESK, actingStaffMemberId: admin.id })
+    );
+
+    const byDesk = await createStaffMember(deps, {
+      name: 'Jamie Chen',
+      pin: '2468',
+      role: StaffRole.ADMIN,
+      actingStaffMemberId: desk.id
+    });
+    const anonymous = await createStaffMember(deps, {
+      name: 'Jamie Chen',
+      pin: '2468',
+      role: StaffRole.ADMIN,
+      actingStaffMemberId: null
+    });
+
+    expect(byDesk.ok).toBe(false);
+    if (!byDesk.ok) expect(byDesk.error.type).toBe('forbidden');
+    expect(anonymous.ok).toBe(false);
+    if (!anonymous.ok) expect(anonymous.error.type).toBe('forbidden');
+  });
+});
+
+describe('changeStaffRole', () => {
+  it('lets an admin promote another staff member', async () => {
+    const deps = makeDeps();
+    const admin = await createAdmin(deps);
+    const desk = unwrap(
+      await createStaffMember(deps, { name: 'Sam Patel', pin: '5678', role: StaffRole.DESK, actingStaffMemberId: admin.id })
+    );
+
+    const result = await changeStaffRole(deps, {
+      staffMemberId: desk.id,
+      role: StaffRole.COORDINATOR,
+      actingStaffMemberId: admin.id
+    });
+
+    expect(result.ok).toBe(true);
+    if (result.ok) expect(result.value.role).toBe(StaffRole.COORDINATOR);
+    expect(deps.events.map((e) => e.type)).toEqual(['StaffRoleChanged']);
+  });
+
+  it('refuses admins changing their own role', async () => {
+    const deps = makeDeps();
+    const admin = await createAdmin(deps);
+
+    const result = await changeStaffRole(deps, {
+      staffMemberId: admin.id,
+      role: StaffRole.DESK,
+      actingStaffMemberId: admin.id
+    });
+
+    expect(result.ok).toBe(false);
+    if (!result.ok) expect(result.error.type).toBe('cannot_change_own_role');
+  });
+});
+
+describe('changeStaffPin', () => {
+  it('lets staff change their own PIN and sign in with it', async () => {
+    const deps = makeDeps();
+    const admin = await createAdmin(deps);
+    const desk = unwrap(
+      await createStaffMember(deps, { name: 'Sam Patel', pin: '5678', role: StaffRole.DESK, actingStaffMemberId: admin.id })
+    );
+
+    unwrap(await changeStaffPin(deps, { staffMemberId: desk.id, pin: '8765', actingStaffMemberId: desk.id }));
+
+    expect((await signInStaff(deps, { staffMemberId: desk.id, pin: '5678' })).ok).toBe(false);
+    expect((await signInStaff(deps, { staffMemberId: desk.id, pin: '8765' })).ok).toBe(true);
+  });
+
+  it("only lets admins change someone else's PIN", async () => {
+    const deps = makeDeps();
+    const admin = await createAdmin(deps);
+    const desk = unwrap(
+      await createStaffMember(deps, { name: 'Sam Patel', pin: '5678', role: StaffRole.DESK, actingStaffMemberId: admin.id })
+    );
+
+    const byDesk = await changeStaffPin(deps, { staffMemberId: admin.id, pin: '0000', actingStaffMemberId: desk.id });
+    const byAdmin = await changeStaffPin(deps, { staffMemberId: desk.id, pin: '0000', actingStaffMemberId: admin.id });
+
+    expect(byDesk.ok).toBe(false);
+    if (!byDesk.ok) expect(byDesk.error.type).toBe('forbidden');
+    expect(byAdmin.ok).toBe(true);
+  });
+
+  it('lifts a PIN lockout', async () => {
+    const deps = makeDeps();
+    const admin = await createAdmin(deps);
+    const desk = unwrap(
+      await createStaffMember(deps, { name: 'Sam Patel', pin: '5678', role: StaffRole.DESK, actingStaffMemberId: admin.id })
+    );
+    for (let i = 0; i < 5; i++) {
+      await signInStaff(deps, { staffMemberId: desk.id, pin: '0000' });
+    }
+
+    const result = unwrap(
+      await changeStaffPin(deps, { staffMemberId: desk.id, pin: '2468', actingStaffMemberId: admin.id })
+    );
+
+    expect(result.pinLockedUntil).toBeNull();
+    expect((await signInStaff(deps, { staffMemberId: desk.id, pin: '2468' })).ok).toBe(true);
+  });
+});
+
+describe('signInStaff', () => {
+  it('signs in with the correct PIN and records the sign-in', async () => {
+    const deps = makeDeps();
+    const staffMember = await createAdmin(deps);
+
+    const result = await signInStaff(deps, { staffMemberId: staffMember.id, pin: '1234' });
+
+    expect(result.ok).toBe(true);
+    if (result.ok) expect(result.value.lastSignInAt).toEqual(deps.clock.now());
+    expect(deps.events.map((e) => e.type)).toEqual(['StaffSignedIn']);
+    expect(deps.events[0].staffMemberId).toBe(staffMember.id);
+  });
+
+  it('refuses an incorrect PIN', async () => {
+    const deps = makeDeps();
+    const staffMember = await createAdmin(deps);
+
+    const result = await signInStaff(deps, { staffMemberId: staffMember.id, pin: '4321' });
+
+    expect(result).toEqual({ ok: false, error: { type: 'incorrect_pin', attemptsLeft: 4 } });
+    expect(deps.events).toHaveLength(0);
+  });
+
+  it('locks sign-in after five incorrect PINs in a row until the lockout passes', async () => {
+    const deps = makeDeps();
+    const staffMember = await createAdmin(deps);
+    for (let i = 0; i < 4; i++) {
+      await signInStaff(deps, { staffMemberId: staffMember.id, pin: '4321' });
+    }
+
+    const until = new Date(deps.clock.now().getTime() + PIN_LOCKOUT_MS);
+    expect(await signInStaff(deps, { staffMemberId: staffMember.id, pin: '4321' })).toEqual({
+      ok: false,
+      error: { type: 'pin_locked', until }
+    });
+    expect(await signInStaff(deps, { staffMemberId: staffMember.id, pin: '1234' })).toEqual({
+      ok: false,
+      error: { type: 'pin_locked', until }
+    });
+
+    deps.clock.set(until);
+    const result = unwrap(await signInStaff(deps, { staffMemberId: staffMember.id, pin: '1234' }));
+    expect(result).toMatchObject({ failedPinAttempts: 0, pinLockedUntil: null });
+  });
+
+  it('refuses a deactivated staff member', async () => {
+    const deps = makeDeps();
+    const staffMember = await createAdmin(deps);
+    await deps.staffMemberRepo.save(unwrap(staffMember.deactivate(deps)));
+
+    const result = await signInStaff(deps, { staffMemberId: staffMember.id, pin: '1234' });
+
+    expect(result.ok).toBe(false);
+    if (!result.ok) expect(result.error.type).toBe('staff_inactive');
+    expect(await listActiveStaffMembers(deps)).toHaveLength(0);
+  });
+});
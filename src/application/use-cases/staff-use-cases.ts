@@ -0,0 +1,289 @@
+import { type Result, ok, err } from '../result.js';
+import { type ForbiddenError, authorize } from '../authorization.js';
+import type { StaffMemberRepository } from '../ports/repositories.js';
+import type { IdGenerator, Clock, EventPublisher, PinHasher } from '../ports/services.js';
+import {
+  StaffMember,
+  MAX_PIN_ATTEMPTS,
+  type CreateStaffMemberError
+} from '../../domain/entities/staff-member.js';
+import { staffMemberId } from '../../domain/value-objects/index.js';
+import { StaffRole } from '../../domain/types.js';
+import { Permission } from '../../domain/policies/index.js';
+import { StaffSignedIn, StaffRoleChanged } from '../../domain/events/index.js';
+
+const PIN_PATTERN = /^\d{4,8}$/;
+
+// ============================================================================
+// Create Staff Member
+// ============================================================================
+
+export type CreateStaffMemberUseCaseError =
+  | CreateStaffMemberError
+  | ForbiddenError
+  | { type: 'invalid_pin' }
+  | { type: 'duplicate_name'; name: string };
+
+export interface CreateStaffMemberDeps {
+  staffMemberRepo: StaffMemberRepository;
+  pinHasher: PinHasher;
+  idGenerator: IdGenerator;
+  clock: Clock;
+}
+
+export interface CreateStaffMemberInput {
+  name: string;
+  // 4-8 digits
+  pin: string;
+  role: StaffRole;
+  // Null only when creating the very first account
+  actingStaffMemberId: string | null;
+}
+
+/**
+ * Add a staff account. Requires MANAGE_STAFF, except for the first account,
+ * which is always an ADMIN so someone can manage the rest.
+ */
+export async function createStaffMember(
+  deps: CreateStaffMemberDeps,
+  input: CreateStaffMemberInput
+): Promise<Result<StaffMember, CreateStaffMemberUseCaseError>> {
+  const existing = await deps.staffMemberRepo.findAll();
+  const isFirstAccount = existing.length === 0;
+
+  if (!isFirstAccount) {
+    const auth = await authorize(deps, input.actingStaffMemberId ?? '', Permission.MANAGE_STAFF);
+    if (!auth.ok) {
+      return auth;
+    }
+  }
+
+  if (!PIN_PATTERN.test(input.pin)) {
+    return err({ type: 'invalid_pin' });
+  }
+
+  const nameNormalized = input.name.trim().toLowerCase();
+  if (existing.some((s) => s.name.toLowerCase() === nameNormalized)) {
+    return err({ type: 'duplicate_name', name: input.name.trim() });
+  }
+
+  const result = StaffMember.create(
+    {
+      name: input.name,
+      pinHash: await deps.pinHasher.hash(input.pin),
+      role: isFirstAccount ? StaffRole.ADMIN : input.role
+    },
+    deps
+  );
+  if (!result.ok) {
+    return result;
+  }
+
+  await deps.staffMemberRepo.save(result.value);
+  return result;
+}
+
+// ============================================================================
+// Sign In
+// ============================================================================
+
+export type SignInStaffError =
+  | { type: 'staff_not_found'; staffMemberId: string }
+  | { type: 'staff_inactive' }
+  | { type: 'incorrect_pin'; attemptsLeft: number }
+  | { type: 'pin_locked'; until: Date };
+
+export interface SignInStaffDeps {
+  staffMemberRepo: StaffMemberRepository;
+  pinHasher: PinHasher;
+  idGenerator: IdGenerator;
+  clock: Clock;
+  eventPublisher: EventPublisher;
+}
+
+export interface SignInStaffInput {
+  staffMemberId: string;
+  pin: string;
+}
+
+/**
+ * Check a staff member's PIN and record the sign-in. Too many incorrect PINs
+ * in a row lock the account's sign-in for a few minutes.
+ */
+export async function signInStaff(
+  deps: SignInStaffDeps,
+  input: SignInStaffInput
+): Promise<Result<StaffMember, SignInStaffError>> {
+  const staffMember = await deps.staffMemberRepo.findById(staffMemberId(input.staffMemberId));
+  if (!staffMember) {
+    return err({ type: 'staff_not_found', staffMemberId: input.staffMemberId });
+  }
+
+  if (!staffMember.isActive) {
+    return err({ type: 'staff_inactive' });
+  }
+
+  if (staffMember.isPinLocked(deps.clock.now())) {
+    return err({ type: 'pin_locked', until: staffMember.pinLockedUntil! });
+  }
+
+  if (!(await deps.pinHasher.verify(input.pin, staffMember.pinHash))) {
+    const failed = staffMember.recordFailedPinAttempt(deps);
+    await deps.staffMemberRepo.save(failed);
+    if (failed.isPinLocked(deps.clock.now())) {
+      return err({ type: 'pin_locked', until: failed.pinLockedUntil! });
+    }
+    return err({ type: 'incorrect_pin', attemptsLeft: MAX_PIN_ATTEMPTS - failed.failedPinAttempts });
+  }
+
+  const signedIn = staffMember.recordSignIn(deps);
+  await deps.staffMemberRepo.save(signedIn);
+
+  await deps.eventPublisher.publish(
+    StaffSignedIn.create(
+      {
+        aggregateId: signedIn.id,
+        staffMemberId: signedIn.id,
+        payload: {}
+      },
+      deps
+    )
+  );
+
+  return ok(signedIn);
+}
+
+// ============================================================================
+// Change Staff Role
+// ============================================================================
+
+export type ChangeStaffRoleError =
+  | ForbiddenError
+  | { type: 'staff_not_found'; staffMemberId: string }
+  | { type: 'cannot_change_own_role' };
+
+export interface ChangeStaffRoleDeps {
+  staffMemberRepo: StaffMemberRepository;
+  idGenerator: IdGenerator;
+  clock: Clock;
+  eventPublisher: EventPublisher;
+}
+
+export interface ChangeStaffRoleInput {
+  staffMemberId: string;
+  role: StaffRole;
+  actingStaffMemberId: string;
+}
+
+/**
+ * Assign a role to a staff member. Admins cannot change their own role,
+ * so the last admin can never lock everyone out of staff management.
+ */
+export async function changeStaffRole(
+  deps: ChangeStaffRoleDeps,
+  input: ChangeStaffRoleInput
+): Promise<Result<StaffMember, ChangeStaffRoleError>> {
+  const auth = await authorize(deps, input.actingStaffMemberId, Permission.MANAGE_STAFF);
+  if (!auth.ok) {
+    return auth;
+  }
+
+  if (input.staffMemberId === input.actingStaffMemberId) {
+    return err({ type: 'cannot_change_own_role' });
+  }
+
+  const staffMember = await deps.staffMemberRepo.findById(staffMemberId(input.staffMemberId));
+  if (!staffMember) {
+    return err({ type: 'staff_not_found', staffMemberId: input.staffMemberId });
+  }
+
+  const updated = staffMember.changeRole(input.role, deps);
+  await deps.staffMemberRepo.save(updated);
+
+  await deps.eventPublisher.publish(
+    StaffRoleChanged.create(
+      {
+        aggregateId: updated.id,
+        staffMemberId: input.actingStaffMemberId,
+        payload: { previousRole: staffMember.role, newRole: input.role }
+      },
+      deps
+    )
+  );
+
+  return ok(updated);
+}
+
+// ============================================================================
+// Change Staff PIN
+// ============================================================================
+
+export type ChangeStaffPinError =
+  | ForbiddenError
+  | { type: 'invalid_pin' }
+  | { type: 'staff_not_found'; staffMemberId: string };
+
+export interface ChangeStaffPinDeps {
+  staffMemberRepo: StaffMemberRepository;
+  pinHasher: PinHasher;
+  clock: Clock;
+}
+
+export interface ChangeStaffPinInput {
+  staffMemberId: string;
+  // 4-8 digits
+  pin: string;
+  actingStaffMemberId: string;
+}
+
+/**
+ * Set a new PIN for a staff account and lift any PIN lockout. Staff may change
+ * their own PIN; changing anyone else's requires MANAGE_STAFF.
+ */
+export async function changeStaffPin(
+  deps: ChangeStaffPinDeps,
+  input: ChangeStaffPinInput
+): Promise<Result<StaffMember, ChangeStaffPinError>> {
+  if (input.staffMemberId !== input.actingStaffMemberId) {
+    const auth = await authorize(deps, input.actingStaffMemberId, Permission.MANAGE_STAFF);
+    if (!auth.ok) {
+      return auth;
+    }
+  }
+
+  if (!PIN_PATTERN.test(input.pin)) {
+    return err({ type: 'invalid_pin' });
+  }
+
+  const staffMember = await deps.staffMemberRepo.findById(staffMemberId(input.staffMemberId));
+  if (!staffMember) {
+    return err({ type: 'staff_not_found', staffMemberId: input.staffMemberId });
+  }
+
+  const updated = staffMember.changePin(await deps.pinHasher.hash(input.pin), deps);
+  await deps.staffMemberRepo.save(updated);
+
+  return ok(updated);
+}
+
+// ============================================================================
+// List Staff Members
+// ============================================================================
+
+export interface ListStaffMembersDeps {
+  staffMemberRepo: StaffMemberRepository;
+}
+
+/**
+ * List staff members who can sign in, ordered by name.
+ */
+export async function listActiveStaffMembers(deps: ListStaffMembersDeps): Promise<StaffMember[]> {
+  return (await deps.staffMemberRepo.findAll()).filter((s) => s.isActive);
+}
+
+/**
+ * List every staff account, including deactivated ones, ordered by name.
+ */
+export async function listStaffMembers(deps: ListStaffMembersDeps): Promise<StaffMember[]> {
+  return deps.staffMemberRepo.findAll();
+}
@@ -0,0 +1,102 @@
+import { describe, it, expect } from 'vitest';
+import { publishWaiverDocument, getCurrentWaiverDocument } from './waiver-use-cases.js';
+import { signWaiver, getCheckoutEligibility } from './member-use-cases.js';
+import { StaffRole } from '../../domain/types.js';
+import { unwrap } from '../result.js';
+import { createTestEnvironment } from '../../test-utils/in-memory-repositories.js';
+import { createTestMember, createTestStaffMember, TEST_SIGNATURE } from '../../test-utils/fixtures.js';
+
+// ============================================================================
+// Test helpers
+// ============================================================================
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+async function makeDeps() {
+  const deps = createTestEnvironment();
+  await createTestStaffMember(deps);
+  await createTestStaffMember(deps, 'admin-1', StaffRole.ADMIN);
+  const member = await createTestMember(deps, 'S100', 'Avery');
+  return { deps, member };
+}
+
+const draft = {
+  text: 'Revised liability waiver',
+  validityDays: 180,
+  invalidatesPriorSignatures: true,
+  staffMemberId: 'admin-1'
+};
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+describe('waiver documents', () => {
+  it('lets only admins publish, once per version', async () => {
+    const { deps } = await makeDeps();
+
+    expect(await publishWaiverDocument(deps, { ...draft, version: 'v2', staffMemberId: 'staff-1' })).toMatchObject({
+      ok: false,
+      error: { type: 'forbidden' }
+    });
+    unwrap(await publishWaiverDocument(deps, { ...draft, version: 'v2' }));
+    expect(await publishWaiverDocument(deps, { ...draft, version: ' v2 ' })).toEqual({
+      ok: false,
+      error: { type: 'version_already_exists', version: 'v2' }
+    });
+    expect(deps.events.at(-1)).toMatchObject({
+      type: 'WaiverDocumentPublished',
+      payload: { version: 'v2', validityDays: 180, invalidatesPriorSignatures: true }
+    });
+  });
+
+  it('asks members to sign again once a version that invalidates theirs takes effect', async () => {
+    const { deps, member } = await makeDeps();
+    const effectiveAt = new Date(deps.clock.now().getTime() + 10 * DAY_MS);
+    const v2 = unwrap(await publishWaiverDocument(deps, { ...draft, version: 'v2', effectiveAt }));
+
+    expect((await getCurrentWaiverDocument(deps))?.version).toBe('v1');
+    expect((await getCheckoutEligibility(deps, member.id)).eligible).toBe(true);
+
+    deps.clock.set(effectiveAt);
+    expect(await getCheckoutEligibility(deps, member.id)).toMatchObject({
+      eligible: false,
+      reasons: [{ type: 'waiver_outdated', signedVersion: 'v1', currentVersion: 'v2' }]
+    });
+
+    const signed = unwrap(
+      await signWaiver(deps, { memberId: member.id, waiverDocumentId: v2.id, signature: TEST_SIGNATURE, staffMemberId: 'staff-1' })
+    );
+
+    expect(signed.waiverStatus).toMatchObject({
+      waiverVersion: 'v2',
+      signature: TEST_SIGNATURE,
+      expiresAt: new Date(effectiveAt.getTime() + 180 * DAY_MS)
+    });
+    expect((await getCheckoutEligibility(deps, member.id)).eligible).toBe(true);
+  });
+
+  it('keeps earlier signatures valid when the new version does not invalidate them', async () => {
+    const { deps, member } = await makeDeps();
+    unwrap(await publishWaiverDocument(deps, { ...draft, version: 'v2', invalidatesPriorSignatures: false }));
+
+    expect((await getCheckoutEligibility(deps, member.id)).eligible).toBe(true);
+  });
+
+  it('refuses a signature that is not an image or a version not yet in effect', async () => {
+    const { deps, member } = await makeDeps();
+    const effectiveAt = new Date(deps.clock.now().getTime() + DAY_MS);
+    const v2 = unwrap(await publishWaiverDocument(deps, { ...draft, version: 'v2', effectiveAt }));
+    const input = { memberId: member.id, waiverDocumentId: v2.id, staffMemberId: 'staff-1' };
+
+    expect(await signWaiver(deps, { ...input, signature: TEST_SIGNATURE })).toEqual({
+      ok: false,
+      error: { type: 'document_not_effective', effectiveAt }
+    });
+    deps.clock.set(effectiveAt);
+    expect(await signWaiver(deps, { ...input, signature: 'Avery Tester' })).toEqual({
+      ok: false,
+      error: { type: 'invalid_signature' }
+    });
+  });
+});
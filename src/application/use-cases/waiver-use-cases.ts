@@ -0,0 +1,107 @@
+import { type Result, err } from '../result.js';
+import { type ForbiddenError, authorize } from '../authorization.js';
+import type { StaffMemberRepository, WaiverDocumentRepository } from '../ports/repositories.js';
+import type { IdGenerator, Clock, EventPublisher } from '../ports/services.js';
+import {
+  WaiverDocument,
+  type CreateWaiverDocumentError
+} from '../../domain/entities/waiver-document.js';
+import { Permission } from '../../domain/policies/index.js';
+import { WaiverDocumentPublished } from '../../domain/events/index.js';
+
+// ============================================================================
+// Publish Waiver Document
+// ============================================================================
+
+export type PublishWaiverDocumentError =
+  | ForbiddenError
+  | CreateWaiverDocumentError
+  | { type: 'version_already_exists'; version: string }
+  | { type: 'effective_in_past'; effectiveAt: Date };
+
+export interface PublishWaiverDocumentDeps {
+  waiverDocumentRepo: WaiverDocumentRepository;
+  staffMemberRepo: StaffMemberRepository;
+  idGenerator: IdGenerator;
+  clock: Clock;
+  eventPublisher: EventPublisher;
+}
+
+export interface PublishWaiverDocumentInput {
+  version: string;
+  text: string;
+  // Omit to take effect immediately
+  effectiveAt?: Date;
+  validityDays: number;
+  // Require members who signed an earlier version to sign again
+  invalidatesPriorSignatures: boolean;
+  staffMemberId: string;
+}
+
+/**
+ * Publish a new waiver version. Admins only; published versions cannot be edited.
+ */
+export async function publishWaiverDocument(
+  deps: PublishWaiverDocumentDeps,
+  input: PublishWaiverDocumentInput
+): Promise<Result<WaiverDocument, PublishWaiverDocumentError>> {
+  const auth = await authorize(deps, input.staffMemberId, Permission.MANAGE_WAIVERS);
+  if (!auth.ok) {
+    return auth;
+  }
+
+  if (await deps.waiverDocumentRepo.findByVersion(input.version.trim())) {
+    return err({ type: 'version_already_exists', version: input.version.trim() });
+  }
+  if (input.effectiveAt && input.effectiveAt < deps.clock.now()) {
+    return err({ type: 'effective_in_past', effectiveAt: input.effectiveAt });
+  }
+
+  const result = WaiverDocument.create({ ...input, publishedBy: input.staffMemberId }, deps);
+  if (!result.ok) {
+    return result;
+  }
+  const document = result.value;
+
+  await deps.waiverDocumentRepo.save(document);
+  await deps.eventPublisher.publish(
+    WaiverDocumentPublished.create(
+      {
+        aggregateId: document.id,
+        staffMemberId: input.staffMemberId,
+        payload: {
+          version: document.version,
+          effectiveAt: document.effectiveAt.toISOString(),
+          validityDays: document.validityDays,
+          invalidatesPriorSignatures: document.invalidatesPriorSignatures
+        }
+      },
+      deps
+    )
+  );
+
+  return result;
+}
+
+// ============================================================================
+// Query Waiver Documents
+// ============================================================================
+
+export interface WaiverDocumentQueryDeps {
+  waiverDocumentRepo: WaiverDocumentRepository;
+  clock: Clock;
+}
+
+/**
+ * The waiver members sign today, or null if none has been published.
+ */
+export async function getCurrentWaiverDocument(deps: WaiverDocumentQueryDeps): Promise<WaiverDocument | null> {
+  return deps.waiverDocumentRepo.findCurrent(deps.clock.now());
+}
+
+/**
+ * Every published version, including ones not yet in effect, newest first.
+ */
+export async function listWaiverDocuments(deps: WaiverDocumentQueryDeps): Promise<WaiverDocument[]> {
+  return deps.waiverDocumentRepo.findAll();
+}
@@ -0,0 +1,196 @@
+import { type Result, ok, err } from '../../application/result.js';
+import { AccountEntryType, type ChargeType } from '../types.js';
+import {
+  type AccountEntryId,
+  accountEntryId,
+  type MemberId,
+  memberId,
+  type CheckoutId,
+  checkoutId,
+  type GearItemId,
+  gearItemId,
+  type StaffMemberId,
+  staffMemberId
+} from '../value-objects/index.js';
+
+/**
+ * Props for creating a new AccountEntry.
+ */
+export interface CreateAccountEntryInput {
+  memberId: string;
+  type: AccountEntryType;
+  amountCents: number;
+  description: string;
+  // Required for CHARGE entries, ignored otherwise
+  chargeType?: ChargeType;
+  // The charge a WAIVER voids
+  reversesEntryId?: string;
+  checkoutId?: string;
+  gearItemId?: string;
+  staffMemberId: string;
+}
+
+/**
+ * Props for hydrating an AccountEntry from database.
+ */
+export interface AccountEntryRecord {
+  id: string;
+  memberId: string;
+  type: AccountEntryType;
+  amountCents: number;
+  description: string;
+  chargeType: ChargeType | null;
+  reversesEntryId: string | null;
+  checkoutId: string | null;
+  gearItemId: string | null;
+  createdAt: string;
+  createdBy: string;
+}
+
+interface AccountEntryProps {
+  id: AccountEntryId;
+  memberId: MemberId;
+  type: AccountEntryType;
+  amountCents: number;
+  description: string;
+  chargeType: ChargeType | null;
+  reversesEntryId: AccountEntryId | null;
+  checkoutId: CheckoutId | null;
+  gearItemId: GearItemId | null;
+  createdAt: Date;
+  createdBy: StaffMemberId;
+}
+
+export type CreateAccountEntryError =
+  | { type: 'invalid_amount'; amountCents: number }
+  | { type: 'empty_description' };
+
+/**
+ * One line in a member's account ledger. Entries are never changed or deleted;
+ * mistakes are corrected by appending another entry.
+ * Amounts are positive whole cents; the entry type decides the direction.
+ */
+export class AccountEntry {
+  private constructor(private readonly props: AccountEntryProps) {}
+
+  // Getters
+  get id(): AccountEntryId {
+    return this.props.id;
+  }
+  get memberId(): MemberId {
+    return this.props.memberId;
+  }
+  get type(): AccountEntryType {
+    return this.props.type;
+  }
+  get amountCents(): number {
+    return this.props.amountCents;
+  }
+  get description(): string {
+    return this.props.description;
+  }
+  get chargeType(): ChargeType | null {
+    return this.props.chargeType;
+  }
+  get reversesEntryId(): AccountEntryId | null {
+    return this.props.reversesEntryId;
+  }
+  get checkoutId(): CheckoutId | null {
+    return this.props.checkoutId;
+  }
+  get gearItemId(): GearItemId | null {
+    return this.props.gearItemId;
+  }
+  get createdAt(): Date {
+    return this.props.createdAt;
+  }
+  get createdBy(): StaffMemberId {
+    return this.props.createdBy;
+  }
+
+  /**
+   * Effect on the amount the member owes: charges and refunds add, payments and waivers subtract.
+   */
+  get balanceEffectCents(): number {
+    switch (this.props.type) {
+      case AccountEntryType.CHARGE:
+      case AccountEntryType.REFUND:
+        return this.props.amountCents;
+      case AccountEntryType.PAYMENT:
+      case AccountEntryType.WAIVER:
+        return -this.props.amountCents;
+    }
+  }
+
+  /**
+   * Factory method to create a new AccountEntry with validation.
+   */
+  static create(
+    input: CreateAccountEntryInput,
+    deps: { idGenerator: { generate(): string }; clock: { now(): Date } }
+  ): Result<AccountEntry, CreateAccountEntryError> {
+    if (!Number.isInteger(input.amountCents) || input.amountCents <= 0) {
+      return err({ type: 'invalid_amount', amountCents: input.amountCents });
+    }
+    const description = input.description.trim();
+    if (!description) {
+      return err({ type: 'empty_description' });
+    }
+
+    const isCharge = input.type === AccountEntryType.CHARGE;
+
+    return ok(
+      new AccountEntry({
+        id: accountEntryId(deps.idGenerator.generate()),
+        memberId: memberId(input.memberId),
+        type: input.type,
+        amountCents: input.amountCents,
+        description,
+        chargeType: isCharge ? (input.chargeType ?? null) : null,
+        reversesEntryId: input.reversesEntryId ? accountEntryId(input.reversesEntryId) : null,
+        checkoutId: input.checkoutId ? checkoutId(input.checkoutId) : null,
+        gearItemId: input.gearItemId ? gearItemId(input.gearItemId) : null,
+        createdAt: deps.clock.now(),
+        createdBy: staffMemberId(input.staffMemberId)
+      })
+    );
+  }
+
+  /**
+   * Hydrate an AccountEntry from database record.
+   */
+  static fromRecord(record: AccountEntryRecord): AccountEntry {
+    return new AccountEntry({
+      id: accountEntryId(record.id),
+      memberId: memberId(record.memberId),
+      type: record.type,
+      amountCents: record.amountCents,
+      description: record.description,
+      chargeType: record.chargeType,
+      reversesEntryId: record.reversesEntryId ? accountEntryId(record.reversesEntryId) : null,
+      checkoutId: record.checkoutId ? checkoutId(record.checkoutId) : null,
+      gearItemId: record.gearItemId ? gearItemId(record.gearItemId) : null,
+      createdAt: new Date(record.createdAt),
+      createdBy: staffMemberId(record.createdBy)
+    });
+  }
+
+  /**
+   * Convert to a record for database storage.
+   */
+  toRecord(): AccountEntryRecord {
+    return {
+      id: this.props.id,
+      memberId: this.props.memberId,
+      type: this.props.type,
+      amountCents: this.props.amountCents,
+      description: this.props.description,
+      chargeType: this.props.chargeType,
+      reversesEntryId: this.props.reversesEntryId,
+      checkoutId: this.props.checkoutId,
+      gearItemId: this.props.gearItemId,
+      createdAt: this.props.createdAt.toISOString(),
+      createdBy: this.props.createdBy
+    };
+  }
+}
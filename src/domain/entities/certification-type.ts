@@ -0,0 +1,213 @@
+import { type Result, ok, err } from '../../application/result.js';
+import { GearCategory } from '../types.js';
+import {
+  type CertificationTypeId,
+  certificationTypeId,
+  type GearTypeId,
+  gearTypeId
+} from '../value-objects/index.js';
+
+/**
+ * Gear a certification is required for: whole categories and individual gear types.
+ */
+export interface CertificationRequirements {
+  categories: GearCategory[];
+  gearTypeIds: string[];
+}
+
+/**
+ * Props for creating a new CertificationType.
+ */
+export interface CreateCertificationTypeInput extends CertificationRequirements {
+  name: string;
+  description?: string;
+  // Omit for certifications that never expire
+  validityDays?: number;
+}
+
+/**
+ * Props for hydrating a CertificationType from database.
+ */
+export interface CertificationTypeRecord {
+  id: string;
+  name: string;
+  description: string | null;
+  validityDays: number | null;
+  categories: GearCategory[];
+  gearTypeIds: string[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+interface CertificationTypeProps {
+  id: CertificationTypeId;
+  name: string;
+  description: string | null;
+  validityDays: number | null;
+  categories: GearCategory[];
+  gearTypeIds: GearTypeId[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type CreateCertificationTypeError =
+  | { type: 'empty_name' }
+  | { type: 'invalid_validity'; validityDays: number }
+  | { type: 'invalid_category'; category: string };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const CATEGORIES: readonly string[] = Object.values(GearCategory);
+
+/**
+ * CertificationType is a sign-off beyond the general waiver, such as a belay check
+ * or a bike safety briefing, that members need before borrowing certain gear.
+ */
+export class CertificationType {
+  private constructor(private readonly props: CertificationTypeProps) {}
+
+  // Getters
+  get id(): CertificationTypeId {
+    return this.props.id;
+  }
+  get name(): string {
+    return this.props.name;
+  }
+  get description(): string | null {
+    return this.props.description;
+  }
+  /**
+   * How long a grant lasts; null never expires.
+   */
+  get validityDays(): number | null {
+    return this.props.validityDays;
+  }
+  get categories(): readonly GearCategory[] {
+    return this.props.categories;
+  }
+  get gearTypeIds(): readonly GearTypeId[] {
+    return this.props.gearTypeIds;
+  }
+  get createdAt(): Date {
+    return this.props.createdAt;
+  }
+  get updatedAt(): Date {
+    return this.props.updatedAt;
+  }
+
+  /**
+   * Factory method to create a new CertificationType with validation.
+   */
+  static create(
+    input: CreateCertificationTypeInput,
+    deps: { idGenerator: { generate(): string }; clock: { now(): Date } }
+  ): Result<CertificationType, CreateCertificationTypeError> {
+    const name = input.name.trim();
+    if (!name) {
+      return err({ type: 'empty_name' });
+    }
+    const validityDays = input.validityDays ?? null;
+    if (validityDays !== null && (!Number.isInteger(validityDays) || validityDays <= 0)) {
+      return err({ type: 'invalid_validity', validityDays });
+    }
+    const requirements = validateRequirements(input);
+    if (!requirements.ok) {
+      return requirements;
+    }
+
+    const now = deps.clock.now();
+    return ok(
+      new CertificationType({
+        id: certificationTypeId(deps.idGenerator.generate()),
+        name,
+        description: input.description?.trim() || null,
+        validityDays,
+        ...requirements.value,
+        createdAt: now,
+        updatedAt: now
+      })
+    );
+  }
+
+  /**
+   * Hydrate a CertificationType from database record.
+   */
+  static fromRecord(record: CertificationTypeRecord): CertificationType {
+    return new CertificationType({
+      id: certificationTypeId(record.id),
+      name: record.name,
+      description: record.description,
+      validityDays: record.validityDays,
+      categories: [...record.categories],
+      gearTypeIds: record.gearTypeIds.map(gearTypeId),
+      createdAt: new Date(record.createdAt),
+      updatedAt: new Date(record.updatedAt)
+    });
+  }
+
+  /**
+   * Convert to a record for database storage.
+   */
+  toRecord(): CertificationTypeRecord {
+    return {
+      id: this.props.id,
+      name: this.props.name,
+      description: this.props.description,
+      validityDays: this.props.validityDays,
+      categories: [...this.props.categories],
+      gearTypeIds: [...this.props.gearTypeIds],
+      createdAt: this.props.createdAt.toISOString(),
+      updatedAt: this.props.updatedAt.toISOString()
+    };
+  }
+
+  // Queries
+
+  /**
+   * Whether borrowing this gear type needs the certification.
+   */
+  isRequiredFor(gearType: { id: GearTypeId; category: GearCategory }): boolean {
+    return this.props.categories.includes(gearType.category) || this.props.gearTypeIds.includes(gearType.id);
+  }
+
+  /**
+   * When a grant made at `grantedAt` runs out, or null if it never does.
+   */
+  expiryFor(grantedAt: Date): Date | null {
+    return this.props.validityDays === null ? null : new Date(grantedAt.getTime() + this.props.validityDays * DAY_MS);
+  }
+
+  // State transitions
+
+  /**
+   * Replace the gear this certification is required for.
+   */
+  setRequirements(
+    requirements: CertificationRequirements,
+    deps: { clock: { now(): Date } }
+  ): Result<CertificationType, CreateCertificationTypeError> {
+    const result = validateRequirements(requirements);
+    if (!result.ok) {
+      return result;
+    }
+    return ok(
+      new CertificationType({
+        ...this.props,
+        ...result.value,
+        updatedAt: deps.clock.now()
+      })
+    );
+  }
+}
+
+function validateRequirements(
+  requirements: CertificationRequirements
+): Result<{ categories: GearCategory[]; gearTypeIds: GearTypeId[] }, CreateCertificationTypeError> {
+  const invalid = requirements.categories.find((c) => !CATEGORIES.includes(c));
+  if (invalid) {
+    return err({ type: 'invalid_category', category: invalid });
+  }
+  return ok({
+    categories: [...new Set(requirements.categories)],
+    gearTypeIds: [...new Set(requirements.gearTypeIds)].map(gearTypeId)
+  });
+}
@@ -10,8 +10,11 @@ import {
   type GearTypeId,
   gearTypeId,
   type StaffMemberId,
-  staffMemberId
+  staffMemberId,
+  type KitId,
+  kitId
 } from '../value-objects/index.js';
+import type { ReturnChecklistAnswer } from './gear-type.js';
 
 /**
  * A checkout item can be either:
@@ -35,6 +38,12 @@ export interface CheckoutItem {
   readonly checkedOutAt: Date;
   readonly dueAt: Date;
   readonly returnedAt: Date | null;
+  // Staff member who checked the item back in (last one, for bulk items)
+  readonly returnedBy: StaffMemberId | null;
+
+  // Set when an individual item was declared lost instead of returned
+  readonly lostAt: Date | null;
+  readonly lostBy: StaffMemberId | null;
 
   // For bulk items, tracks how many have been returned
   readonly returnedQuantity: number;
@@ -45,6 +54,16 @@ export interface CheckoutItem {
 
   // Notes about this specific item
   readonly returnNotes: string | null;
+
+  // Return checklist answers and the components found missing (individual items)
+  readonly checklistAnswers: ReturnChecklistAnswer[];
+  readonly missingComponents: string[];
+
+  // How many times the due date has been renewed
+  readonly renewalCount: number;
+
+  // Set when the item was checked out as part of a kit
+  readonly kitId: KitId | null;
 }
 
 /**
@@ -57,6 +76,7 @@ export interface CreateCheckoutInput {
     input: CheckoutItemInput;
     dueAt: Date;
     conditionAtCheckout?: GearCondition; // For individual items
+    kitId?: string;
   }>;
   notes?: string;
 }
@@ -93,13 +113,30 @@ export type CreateCheckoutError =
 export type ReturnItemError =
   | { type: 'item_not_found'; gearItemId: string }
   | { type: 'item_already_returned' }
+  | { type: 'item_lost' }
   | { type: 'checkout_completed' };
 
+export type DeclareLostError =
+  | { type: 'item_not_found'; gearItemId: string }
+  | { type: 'item_already_returned' }
+  | { type: 'item_already_lost' };
+
+export type RecoverLostError =
+  | { type: 'item_not_found'; gearItemId: string }
+  | { type: 'item_not_lost' };
+
 export type ReturnBulkError =
   | { type: 'item_not_found'; gearTypeId: string }
   | { type: 'invalid_quantity'; requested: number; remaining: number }
   | { type: 'checkout_completed' };
 
+/**
+ * Whole days an item due at `dueAt` is past due; 0 until a full day has passed.
+ */
+export function daysPastDue(dueAt: Date, asOf: Date): number {
+  return dueAt < asOf ? Math.floor((asOf.getTime() - dueAt.getTime()) / (1000 * 60 * 60 * 24)) : 0;
+}
+
 /**
  * Checkout is the aggregate root for the checkout transaction.
  * It contains all items being borrowed in a single transaction.
@@ -165,10 +202,17 @@ export class Checkout {
         checkedOutAt: now,
         dueAt: itemInput.dueAt,
         returnedAt: null,
+        returnedBy: null,
+        lostAt: null,
+        lostBy: null,
         returnedQuantity: 0,
         conditionAtCheckout: itemInput.conditionAtCheckout ?? null,
         conditionAtReturn: null,
-        returnNotes: null
+        returnNotes: null,
+        checklistAnswers: [],
+        missingComponents: [],
+        renewalCount: 0,
+        kitId: itemInput.kitId ? kitId(itemInput.kitId) : null
       };
 
       checkoutItems.push(checkoutItem);
@@ -199,10 +243,17 @@ export class Checkout {
       checkedOutAt: new Date(item.checkedOutAt),
       dueAt: new Date(item.dueAt),
       returnedAt: item.returnedAt ? new Date(item.returnedAt) : null,
+      returnedBy: item.returnedBy ? staffMemberId(item.returnedBy) : null,
+      lostAt: item.lostAt ? new Date(item.lostAt) : null,
+      lostBy: item.lostBy ? staffMemberId(item.lostBy) : null,
       returnedQuantity: item.returnedQuantity ?? 0,
       conditionAtCheckout: item.conditionAtCheckout,
       conditionAtReturn: item.conditionAtReturn,
-      returnNotes: item.returnNotes
+      returnNotes: item.returnNotes,
+      checklistAnswers: item.checklistAnswers ?? [],
+      missingComponents: item.missingComponents ?? [],
+      renewalCount: item.renewalCount ?? 0,
+      kitId: item.kitId ? kitId(item.kitId) : null
     }));
 
     return new Checkout({
@@ -233,10 +284,17 @@ export class Checkout {
           checkedOutAt: item.checkedOutAt.toISOString(),
           dueAt: item.dueAt.toISOString(),
           returnedAt: item.returnedAt?.toISOString() ?? null,
+          returnedBy: item.returnedBy,
+          lostAt: item.lostAt?.toISOString() ?? null,
+          lostBy: item.lostBy,
           returnedQuantity: item.returnedQuantity,
           conditionAtCheckout: item.conditionAtCheckout,
           conditionAtReturn: item.conditionAtReturn,
-          returnNotes: item.returnNotes
+          returnNotes: item.returnNotes,
+          checklistAnswers: item.checklistAnswers,
+          missingComponents: item.missingComponents,
+          renewalCount: item.renewalCount,
+          kitId: item.kitId
         }))
       ),
       status: this.props.status,
@@ -273,6 +331,24 @@ export class Checkout {
     return this.props.items.filter((item) => !this.isItemFullyReturned(item));
   }
 
+  /**
+   * Units still out on this checkout, counting each bulk unit.
+   */
+  countUnitsOut(): number {
+    return this.getActiveItems().reduce((sum, item) => sum + item.quantity - item.returnedQuantity, 0);
+  }
+
+  /**
+   * Get how many units of a BULK gear type are still out on this checkout.
+   * When dueOnOrAfter is given, units due back before that instant are not counted.
+   */
+  getOutstandingBulkQuantity(typeId: string, dueOnOrAfter?: Date): number {
+    return this.props.items
+      .filter((item) => item.gearItemId === null && item.gearTypeId === typeId)
+      .filter((item) => !dueOnOrAfter || item.dueAt >= dueOnOrAfter)
+      .reduce((sum, item) => sum + Math.max(0, item.quantity - item.returnedQuantity), 0);
+  }
+
   /**
    * Get the maximum days overdue across all items.
    */
@@ -280,18 +356,21 @@ export class Checkout {
     const overdueItems = this.getOverdueItems(asOf);
     if (overdueItems.length === 0) return 0;
 
-    const maxOverdue = Math.max(
-      ...overdueItems.map((item) =>
-        Math.floor((asOf.getTime() - item.dueAt.getTime()) / (1000 * 60 * 60 * 24))
-      )
-    );
-    return Math.max(0, maxOverdue);
+    return Math.max(...overdueItems.map((item) => daysPastDue(item.dueAt, asOf)));
   }
 
+  /**
+   * Get the individual items that were declared lost and not recovered.
+   */
+  getLostItems(): CheckoutItem[] {
+    return this.props.items.filter((item) => item.lostAt !== null);
+  }
+
+  // Lost items count as closed: they will not come back on this checkout
   private isItemFullyReturned(item: CheckoutItem): boolean {
     if (item.gearItemId !== null) {
       // Individual item
-      return item.returnedAt !== null;
+      return item.returnedAt !== null || item.lostAt !== null;
     } else {
       // Bulk item
       return item.returnedQuantity >= item.quantity;
@@ -301,13 +380,15 @@ export class Checkout {
   // State transitions
 
   /**
-   * Return an individual gear item.
+   * Return an individual gear item, with its return checklist when the type has one.
    */
   returnItem(
     itemId: string,
     condition: GearCondition,
     notes: string | undefined,
-    deps: { clock: { now(): Date } }
+    returnedBy: string,
+    deps: { clock: { now(): Date } },
+    checklist?: { answers: ReturnChecklistAnswer[]; missingComponents: string[] }
   ): Result<Checkout, ReturnItemError> {
     if (this.props.status === CheckoutStatus.COMPLETED) {
       return err({ type: 'checkout_completed' });
@@ -325,14 +406,20 @@ export class Checkout {
     if (item.returnedAt !== null) {
       return err({ type: 'item_already_returned' });
     }
+    if (item.lostAt !== null) {
+      return err({ type: 'item_lost' });
+    }
 
     const now = deps.clock.now();
     const updatedItems = [...this.props.items];
     updatedItems[itemIndex] = {
       ...item,
       returnedAt: now,
+      returnedBy: staffMemberId(returnedBy),
       conditionAtReturn: condition,
-      returnNotes: notes?.trim() || null
+      returnNotes: notes?.trim() || null,
+      checklistAnswers: checklist?.answers.map((a) => ({ ...a })) ?? [],
+      missingComponents: checklist ? [...checklist.missingComponents] : []
     };
 
     const newStatus = this.calculateStatus(updatedItems);
@@ -348,21 +435,21 @@ export class Checkout {
   }
 
   /**
-   * Return a quantity of bulk items.
+   * Return a quantity of bulk items from the line for the gear type and kit.
    */
   returnBulkItem(
     typeId: string,
     quantity: number,
     notes: string | undefined,
-    deps: { clock: { now(): Date } }
+    returnedBy: string,
+    deps: { clock: { now(): Date } },
+    fromKitId: string | null = null
   ): Result<Checkout, ReturnBulkError> {
     if (this.props.status === CheckoutStatus.COMPLETED) {
       return err({ type: 'checkout_completed' });
     }
 
-    const itemIndex = this.props.items.findIndex(
-      (item) => item.gearTypeId === typeId
-    );
+    const itemIndex = this.indexOfItem(typeId, fromKitId);
 
     if (itemIndex === -1) {
       return err({ type: 'item_not_found', gearTypeId: typeId });
@@ -384,6 +471,7 @@ export class Checkout {
       ...item,
       returnedQuantity: newReturnedQuantity,
       returnedAt: isFullyReturned ? now : item.returnedAt,
+      returnedBy: staffMemberId(returnedBy),
       returnNotes: notes?.trim() || item.returnNotes
     };
 
@@ -400,15 +488,95 @@ export class Checkout {
   }
 
   /**
-   * Extend the due date for an item.
+   * Close out an individual item that will never come back.
+   * Completes the checkout if nothing else is outstanding.
+   */
+  declareItemLost(
+    itemId: string,
+    declaredBy: string,
+    deps: { clock: { now(): Date } }
+  ): Result<Checkout, DeclareLostError> {
+    const itemIndex = this.props.items.findIndex((item) => item.gearItemId === itemId);
+    if (itemIndex === -1) {
+      return err({ type: 'item_not_found', gearItemId: itemId });
+    }
+
+    const item = this.props.items[itemIndex];
+    if (item.lostAt !== null) {
+      return err({ type: 'item_already_lost' });
+    }
+    if (item.returnedAt !== null) {
+      return err({ type: 'item_already_returned' });
+    }
+
+    const now = deps.clock.now();
+    const updatedItems = [...this.props.items];
+    updatedItems[itemIndex] = {
+      ...item,
+      lostAt: now,
+      lostBy: staffMemberId(declaredBy)
+    };
+
+    const newStatus = this.calculateStatus(updatedItems);
+
+    return ok(
+      new Checkout({
+        ...this.props,
+        items: updatedItems,
+        status: newStatus,
+        completedAt: newStatus === CheckoutStatus.COMPLETED ? now : null
+      })
+    );
+  }
+
+  /**
+   * Record a lost item as returned after all, in the condition it turned up in.
+   */
+  recoverLostItem(
+    itemId: string,
+    condition: GearCondition,
+    returnedBy: string,
+    deps: { clock: { now(): Date } }
+  ): Result<Checkout, RecoverLostError> {
+    const itemIndex = this.props.items.findIndex((item) => item.gearItemId === itemId);
+    if (itemIndex === -1) {
+      return err({ type: 'item_not_found', gearItemId: itemId });
+    }
+
+    const item = this.props.items[itemIndex];
+    if (item.lostAt === null) {
+      return err({ type: 'item_not_lost' });
+    }
+
+    const now = deps.clock.now();
+    const updatedItems = [...this.props.items];
+    updatedItems[itemIndex] = {
+      ...item,
+      lostAt: null,
+      lostBy: null,
+      returnedAt: now,
+      returnedBy: staffMemberId(returnedBy),
+      conditionAtReturn: condition
+    };
+
+    // Closing the lost item may already have completed the checkout; keep that date
+    return ok(
+      new Checkout({
+        ...this.props,
+        items: updatedItems
+      })
+    );
+  }
+
+  /**
+   * Extend the due date for an item. Bulk lines are picked by gear type and kit.
    */
   extendDueDate(
     itemId: string,
-    newDueDate: Date
+    newDueDate: Date,
+    fromKitId: string | null = null
   ): Result<Checkout, { type: 'item_not_found' } | { type: 'item_already_returned' }> {
-    const itemIndex = this.props.items.findIndex(
-      (item) => item.gearItemId === itemId || item.gearTypeId === itemId
-    );
+    const itemIndex = this.indexOfItem(itemId, fromKitId);
 
     if (itemIndex === -1) {
       return err({ type: 'item_not_found' });
@@ -433,11 +601,57 @@ export class Checkout {
     );
   }
 
+  /**
+   * Renew an item: move its due date and count the renewal.
+   * Whether the renewal is allowed is decided by the RenewalPolicy.
+   */
+  renewItem(
+    itemId: string,
+    newDueDate: Date,
+    fromKitId: string | null = null
+  ): Result<Checkout, { type: 'item_not_found' } | { type: 'item_already_returned' }> {
+    const extended = this.extendDueDate(itemId, newDueDate, fromKitId);
+    if (!extended.ok) {
+      return extended;
+    }
+
+    const itemIndex = this.indexOfItem(itemId, fromKitId);
+    const updatedItems = [...extended.value.props.items];
+    updatedItems[itemIndex] = {
+      ...updatedItems[itemIndex],
+      renewalCount: updatedItems[itemIndex].renewalCount + 1
+    };
+
+    return ok(
+      new Checkout({
+        ...extended.value.props,
+        items: updatedItems
+      })
+    );
+  }
+
+  /**
+   * Find the item with the given gear item ID (individual), or the line for the
+   * gear type ID and kit (bulk; null for gear checked out on its own).
+   */
+  findItem(itemId: string, fromKitId: string | null = null): CheckoutItem | undefined {
+    return this.props.items[this.indexOfItem(itemId, fromKitId)];
+  }
+
+  // Individual lines match only by gear item, so a gear type ID never picks out one of its items.
+  // Bulk lines match by gear type and kit, preferring one that still has units out
+  private indexOfItem(itemId: string, fromKitId: string | null): number {
+    const matches = (item: CheckoutItem) =>
+      item.gearItemId !== null ? item.gearItemId === itemId : item.gearTypeId === itemId && item.kitId === fromKitId;
+    const outstanding = this.props.items.findIndex((item) => matches(item) && !this.isItemFullyReturned(item));
+    return outstanding !== -1 ? outstanding : this.props.items.findIndex(matches);
+  }
+
   private calculateStatus(items: CheckoutItem[]): CheckoutStatus {
     const allReturned = items.every((item) => this.isItemFullyReturned(item));
     const someReturned = items.some((item) => {
       if (item.gearItemId !== null) {
-        return item.returnedAt !== null;
+        return item.returnedAt !== null || item.lostAt !== null;
       } else {
         return item.returnedQuantity > 0;
       }
@@ -24,6 +24,13 @@ export interface GearItemRecord {
   notes: string | null;
   acquiredAt: string;
   retiredAt: string | null;
+  // Absent on records written before inspections existed
+  lastInspectedAt?: string | null;
+  usesSinceInspection?: number;
+  // Absent on records written before usage counters existed
+  checkoutCount?: number;
+  daysInUse?: number;
+  checkedOutAt?: string | null;
   updatedAt: string;
 }
 
@@ -36,6 +43,11 @@ interface GearItemProps {
   notes: string | null;
   acquiredAt: Date;
   retiredAt: Date | null;
+  lastInspectedAt: Date | null;
+  usesSinceInspection: number;
+  checkoutCount: number;
+  daysInUse: number;
+  checkedOutAt: Date | null;
   updatedAt: Date;
 }
 
@@ -43,6 +55,16 @@ export type CreateGearItemError =
   | { type: 'empty_code' }
   | { type: 'invalid_code_format'; code: string };
 
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Days an item spent out between checkout and return. A part day counts as a
+ * whole one, so every checkout adds at least one day.
+ */
+export function countDaysInUse(checkedOutAt: Date, returnedAt: Date): number {
+  return Math.max(1, Math.ceil((returnedAt.getTime() - checkedOutAt.getTime()) / DAY_MS));
+}
+
 /**
  * GearItem represents a specific piece of equipment for INDIVIDUAL tracking.
  * Each GearItem belongs to a GearType and has a unique code (e.g., "BIKE-003").
@@ -75,6 +97,36 @@ export class GearItem {
   get retiredAt(): Date | null {
     return this.props.retiredAt;
   }
+  /**
+   * When the item last passed a safety inspection; null if it never has.
+   */
+  get lastInspectedAt(): Date | null {
+    return this.props.lastInspectedAt;
+  }
+  /**
+   * Checkouts since the last passed inspection, or since acquisition.
+   */
+  get usesSinceInspection(): number {
+    return this.props.usesSinceInspection;
+  }
+  /**
+   * Times the item has been checked out over its life.
+   */
+  get checkoutCount(): number {
+    return this.props.checkoutCount;
+  }
+  /**
+   * Days spent checked out, added as each checkout ends.
+   */
+  get daysInUse(): number {
+    return this.props.daysInUse;
+  }
+  /**
+   * When the current checkout began; null while the item is not out.
+   */
+  get checkedOutAt(): Date | null {
+    return this.props.checkedOutAt;
+  }
   get updatedAt(): Date {
     return this.props.updatedAt;
   }
@@ -108,6 +160,11 @@ export class GearItem {
         notes: input.notes?.trim() || null,
         acquiredAt: now,
         retiredAt: null,
+        lastInspectedAt: null,
+        usesSinceInspection: 0,
+        checkoutCount: 0,
+        daysInUse: 0,
+        checkedOutAt: null,
         updatedAt: now
       })
     );
@@ -126,6 +183,11 @@ export class GearItem {
       notes: record.notes,
       acquiredAt: new Date(record.acquiredAt),
       retiredAt: record.retiredAt ? new Date(record.retiredAt) : null,
+      lastInspectedAt: record.lastInspectedAt ? new Date(record.lastInspectedAt) : null,
+      usesSinceInspection: record.usesSinceInspection ?? 0,
+      checkoutCount: record.checkoutCount ?? 0,
+      daysInUse: record.daysInUse ?? 0,
+      checkedOutAt: record.checkedOutAt ? new Date(record.checkedOutAt) : null,
       updatedAt: new Date(record.updatedAt)
     });
   }
@@ -143,6 +205,11 @@ export class GearItem {
       notes: this.props.notes,
       acquiredAt: this.props.acquiredAt.toISOString(),
       retiredAt: this.props.retiredAt?.toISOString() ?? null,
+      lastInspectedAt: this.props.lastInspectedAt?.toISOString() ?? null,
+      usesSinceInspection: this.props.usesSinceInspection,
+      checkoutCount: this.props.checkoutCount,
+      daysInUse: this.props.daysInUse,
+      checkedOutAt: this.props.checkedOutAt?.toISOString() ?? null,
       updatedAt: this.props.updatedAt.toISOString()
     };
   }
@@ -170,6 +237,13 @@ export class GearItem {
     return this.props.status === GearStatus.RETIRED;
   }
 
+  /**
+   * Check if the item has been declared lost.
+   */
+  isLost(): boolean {
+    return this.props.status === GearStatus.LOST;
+  }
+
   // State transitions
 
   /**
@@ -180,11 +254,15 @@ export class GearItem {
       return err({ type: 'not_available' });
     }
 
+    const now = deps.clock.now();
     return ok(
       new GearItem({
         ...this.props,
         status: GearStatus.CHECKED_OUT,
-        updatedAt: deps.clock.now()
+        usesSinceInspection: this.props.usesSinceInspection + 1,
+        checkoutCount: this.props.checkoutCount + 1,
+        checkedOutAt: now,
+        updatedAt: now
       })
     );
   }
@@ -206,11 +284,50 @@ export class GearItem {
         ? GearStatus.MAINTENANCE
         : GearStatus.AVAILABLE;
 
+    const now = deps.clock.now();
     return ok(
       new GearItem({
         ...this.props,
+        ...this.endCheckout(now),
         status: newStatus,
         condition,
+        updatedAt: now
+      })
+    );
+  }
+
+  /**
+   * Mark a checked-out item as lost; it will not come back.
+   */
+  markLost(deps: { clock: { now(): Date } }): Result<GearItem, { type: 'not_checked_out' }> {
+    if (this.props.status !== GearStatus.CHECKED_OUT) {
+      return err({ type: 'not_checked_out' });
+    }
+
+    const now = deps.clock.now();
+    return ok(
+      new GearItem({
+        ...this.props,
+        ...this.endCheckout(now),
+        status: GearStatus.LOST,
+        updatedAt: now
+      })
+    );
+  }
+
+  /**
+   * Bring a lost item back into the inventory with its current condition.
+   */
+  markFound(condition: GearCondition, deps: { clock: { now(): Date } }): Result<GearItem, { type: 'not_lost' }> {
+    if (this.props.status !== GearStatus.LOST) {
+      return err({ type: 'not_lost' });
+    }
+
+    return ok(
+      new GearItem({
+        ...this.props,
+        status: condition === GearCondition.NEEDS_REPAIR ? GearStatus.MAINTENANCE : GearStatus.AVAILABLE,
+        condition,
         updatedAt: deps.clock.now()
       })
     );
@@ -222,10 +339,16 @@ export class GearItem {
   sendToMaintenance(
     notes: string | undefined,
     deps: { clock: { now(): Date } }
-  ): Result<GearItem, { type: 'already_in_maintenance' } | { type: 'is_checked_out' } | { type: 'is_retired' }> {
+  ): Result<
+    GearItem,
+    { type: 'already_in_maintenance' } | { type: 'is_checked_out' } | { type: 'is_retired' } | { type: 'is_lost' }
+  > {
     if (this.props.status === GearStatus.MAINTENANCE) {
       return err({ type: 'already_in_maintenance' });
     }
+    if (this.props.status === GearStatus.LOST) {
+      return err({ type: 'is_lost' });
+    }
     if (this.props.status === GearStatus.CHECKED_OUT) {
       return err({ type: 'is_checked_out' });
     }
@@ -264,6 +387,33 @@ export class GearItem {
     );
   }
 
+  /**
+   * Record a passed safety inspection, restarting the inspection interval.
+   */
+  markInspected(
+    deps: { clock: { now(): Date } }
+  ): Result<GearItem, { type: 'is_checked_out' } | { type: 'is_retired' } | { type: 'is_lost' }> {
+    if (this.props.status === GearStatus.CHECKED_OUT) {
+      return err({ type: 'is_checked_out' });
+    }
+    if (this.props.status === GearStatus.RETIRED) {
+      return err({ type: 'is_retired' });
+    }
+    if (this.props.status === GearStatus.LOST) {
+      return err({ type: 'is_lost' });
+    }
+
+    const now = deps.clock.now();
+    return ok(
+      new GearItem({
+        ...this.props,
+        lastInspectedAt: now,
+        usesSinceInspection: 0,
+        updatedAt: now
+      })
+    );
+  }
+
   /**
    * Retire the item permanently.
    */
@@ -322,4 +472,10 @@ export class GearItem {
       updatedAt: deps.clock.now()
     });
   }
+
+  // Usage counters once a checkout ends, by return or loss
+  private endCheckout(now: Date): Pick<GearItemProps, 'daysInUse' | 'checkedOutAt'> {
+    const days = this.props.checkedOutAt ? countDaysInUse(this.props.checkedOutAt, now) : 0;
+    return { daysInUse: this.props.daysInUse + days, checkedOutAt: null };
+  }
 }
@@ -1,7 +1,45 @@
 import { type Result, ok, err } from '../../application/result.js';
-import { GearCategory, TrackingMode } from '../types.js';
+import { GearCategory, GearCondition, TrackingMode } from '../types.js';
 import { type GearTypeId, gearTypeId } from '../value-objects/index.js';
 
+/**
+ * How often items of a gear type must pass a safety inspection: after so many
+ * days, so many checkouts, or whichever comes first when both are set.
+ */
+export interface InspectionSchedule {
+  intervalDays: number | null;
+  intervalUses: number | null;
+  // Points the inspector answers pass or fail
+  checklist: string[];
+}
+
+/**
+ * When items of a gear type must be retired: after so many checkouts, so many
+ * years since they were acquired, or whichever comes first when both are set.
+ */
+export interface LifecycleLimit {
+  maxUses: number | null;
+  maxYears: number | null;
+}
+
+/**
+ * One question staff answer when an item of the type comes back. A "no" or a
+ * short count rates the item down to `failCondition` when one is set; otherwise
+ * it is flagged as a missing component.
+ */
+export type ReturnChecklistQuestion =
+  | { kind: 'boolean'; prompt: string; failCondition: GearCondition | null }
+  | { kind: 'count'; prompt: string; expectedCount: number; failCondition: GearCondition | null }
+  | { kind: 'text'; prompt: string };
+
+/**
+ * Staff's answer to a return checklist question, matched by prompt.
+ */
+export interface ReturnChecklistAnswer {
+  readonly prompt: string;
+  readonly value: boolean | number | string;
+}
+
 /**
  * Props for creating a new GearType.
  */
@@ -24,7 +62,11 @@ export interface GearTypeRecord {
   category: GearCategory;
   trackingMode: TrackingMode;
   totalQuantity: number;
+  maintenanceQuantity?: number; // Absent on records written before bulk maintenance existed
   checkoutDurationDays: number;
+  inspectionSchedule?: InspectionSchedule | null; // Absent on records written before inspections existed
+  returnChecklist?: ReturnChecklistQuestion[]; // Absent on records written before return checklists existed
+  lifecycleLimit?: LifecycleLimit | null; // Absent on records written before lifecycle limits existed
   notes: string | null;
   imageUrl: string | null;
   createdAt: string;
@@ -37,7 +79,11 @@ interface GearTypeProps {
   category: GearCategory;
   trackingMode: TrackingMode;
   totalQuantity: number;
+  maintenanceQuantity: number;
   checkoutDurationDays: number;
+  inspectionSchedule: InspectionSchedule | null;
+  returnChecklist: ReturnChecklistQuestion[];
+  lifecycleLimit: LifecycleLimit | null;
   notes: string | null;
   imageUrl: string | null;
   createdAt: Date;
@@ -49,6 +95,28 @@ export type CreateGearTypeError =
   | { type: 'bulk_requires_quantity' }
   | { type: 'invalid_quantity'; value: number };
 
+export type InspectionScheduleError =
+  | { type: 'not_individually_tracked' }
+  | { type: 'no_inspection_interval' }
+  | { type: 'invalid_inspection_interval'; value: number }
+  | { type: 'empty_checklist_item'; index: number };
+
+export type LifecycleLimitError =
+  | { type: 'not_individually_tracked' }
+  | { type: 'no_lifecycle_limit' }
+  | { type: 'invalid_lifecycle_limit'; value: number };
+
+export type UpdateQuantityError =
+  | { type: 'not_bulk_tracked' }
+  | { type: 'invalid_quantity'; value: number }
+  | { type: 'insufficient_quantity'; requested: number; inUse: number };
+
+export type ReturnChecklistError =
+  | { type: 'not_individually_tracked' }
+  | { type: 'empty_checklist_item'; index: number }
+  | { type: 'duplicate_checklist_prompt'; prompt: string }
+  | { type: 'invalid_expected_count'; prompt: string; value: number };
+
 const DEFAULT_CHECKOUT_DAYS = 7;
 
 /**
@@ -75,9 +143,33 @@ export class GearType {
   get totalQuantity(): number {
     return this.props.totalQuantity;
   }
+  /**
+   * Number of BULK units currently out of circulation for maintenance.
+   */
+  get maintenanceQuantity(): number {
+    return this.props.maintenanceQuantity;
+  }
   get checkoutDurationDays(): number {
     return this.props.checkoutDurationDays;
   }
+  /**
+   * Safety inspection schedule for the type's items; null if they need none.
+   */
+  get inspectionSchedule(): InspectionSchedule | null {
+    return this.props.inspectionSchedule;
+  }
+  /**
+   * Questions answered when an item comes back; empty if there are none.
+   */
+  get returnChecklist(): readonly ReturnChecklistQuestion[] {
+    return this.props.returnChecklist;
+  }
+  /**
+   * When the type's items must be retired; null if they have no limit.
+   */
+  get lifecycleLimit(): LifecycleLimit | null {
+    return this.props.lifecycleLimit;
+  }
   get notes(): string | null {
     return this.props.notes;
   }
@@ -140,7 +232,11 @@ export class GearType {
         category: input.category,
         trackingMode: input.trackingMode,
         totalQuantity,
+        maintenanceQuantity: 0,
         checkoutDurationDays: input.checkoutDurationDays ?? DEFAULT_CHECKOUT_DAYS,
+        inspectionSchedule: null,
+        returnChecklist: [],
+        lifecycleLimit: null,
         notes: input.notes?.trim() || null,
         imageUrl: input.imageUrl?.trim() || null,
         createdAt: now,
@@ -159,7 +255,11 @@ export class GearType {
       category: record.category,
       trackingMode: record.trackingMode,
       totalQuantity: record.totalQuantity,
+      maintenanceQuantity: record.maintenanceQuantity ?? 0,
       checkoutDurationDays: record.checkoutDurationDays,
+      inspectionSchedule: record.inspectionSchedule ? copySchedule(record.inspectionSchedule) : null,
+      returnChecklist: (record.returnChecklist ?? []).map((q) => ({ ...q })),
+      lifecycleLimit: record.lifecycleLimit ? { ...record.lifecycleLimit } : null,
       notes: record.notes,
       imageUrl: record.imageUrl,
       createdAt: new Date(record.createdAt),
@@ -177,7 +277,11 @@ export class GearType {
       category: this.props.category,
       trackingMode: this.props.trackingMode,
       totalQuantity: this.props.totalQuantity,
+      maintenanceQuantity: this.props.maintenanceQuantity,
       checkoutDurationDays: this.props.checkoutDurationDays,
+      inspectionSchedule: this.props.inspectionSchedule ? copySchedule(this.props.inspectionSchedule) : null,
+      returnChecklist: this.props.returnChecklist.map((q) => ({ ...q })),
+      lifecycleLimit: this.props.lifecycleLimit ? { ...this.props.lifecycleLimit } : null,
       notes: this.props.notes,
       imageUrl: this.props.imageUrl,
       createdAt: this.props.createdAt.toISOString(),
@@ -187,17 +291,24 @@ export class GearType {
 
   /**
    * Update the total quantity (for BULK tracked items).
+   * The total cannot drop below the units in maintenance plus `unitsCheckedOut`,
+   * which the caller counts from outstanding checkouts.
    */
   updateQuantity(
     newQuantity: number,
+    unitsCheckedOut: number,
     deps: { clock: { now(): Date } }
-  ): Result<GearType, { type: 'not_bulk_tracked' } | { type: 'invalid_quantity'; value: number }> {
+  ): Result<GearType, UpdateQuantityError> {
     if (this.props.trackingMode !== TrackingMode.BULK) {
       return err({ type: 'not_bulk_tracked' });
     }
     if (newQuantity < 0) {
       return err({ type: 'invalid_quantity', value: newQuantity });
     }
+    const inUse = this.props.maintenanceQuantity + unitsCheckedOut;
+    if (newQuantity < inUse) {
+      return err({ type: 'insufficient_quantity', requested: newQuantity, inUse });
+    }
 
     return ok(
       new GearType({
@@ -208,6 +319,158 @@ export class GearType {
     );
   }
 
+  /**
+   * Take BULK units out of circulation for maintenance.
+   * Whether the units are actually on the shelf is checked by the caller,
+   * since that depends on outstanding checkouts.
+   */
+  sendUnitsToMaintenance(
+    quantity: number,
+    deps: { clock: { now(): Date } }
+  ): Result<GearType, { type: 'not_bulk_tracked' } | { type: 'invalid_quantity'; value: number }> {
+    if (this.props.trackingMode !== TrackingMode.BULK) {
+      return err({ type: 'not_bulk_tracked' });
+    }
+    if (quantity < 1 || this.props.maintenanceQuantity + quantity > this.props.totalQuantity) {
+      return err({ type: 'invalid_quantity', value: quantity });
+    }
+
+    return ok(
+      new GearType({
+        ...this.props,
+        maintenanceQuantity: this.props.maintenanceQuantity + quantity,
+        updatedAt: deps.clock.now()
+      })
+    );
+  }
+
+  /**
+   * Put BULK units back into circulation after maintenance.
+   */
+  returnUnitsFromMaintenance(
+    quantity: number,
+    deps: { clock: { now(): Date } }
+  ): Result<GearType, { type: 'not_bulk_tracked' } | { type: 'invalid_quantity'; value: number }> {
+    if (this.props.trackingMode !== TrackingMode.BULK) {
+      return err({ type: 'not_bulk_tracked' });
+    }
+    if (quantity < 1 || quantity > this.props.maintenanceQuantity) {
+      return err({ type: 'invalid_quantity', value: quantity });
+    }
+
+    return ok(
+      new GearType({
+        ...this.props,
+        maintenanceQuantity: this.props.maintenanceQuantity - quantity,
+        updatedAt: deps.clock.now()
+      })
+    );
+  }
+
+  /**
+   * Set how often the type's items must be inspected, or pass null to stop
+   * requiring inspections. Only individually tracked items can be inspected.
+   */
+  setInspectionSchedule(
+    schedule: InspectionSchedule | null,
+    deps: { clock: { now(): Date } }
+  ): Result<GearType, InspectionScheduleError> {
+    if (schedule) {
+      if (this.props.trackingMode !== TrackingMode.INDIVIDUAL) {
+        return err({ type: 'not_individually_tracked' });
+      }
+      if (schedule.intervalDays === null && schedule.intervalUses === null) {
+        return err({ type: 'no_inspection_interval' });
+      }
+      for (const value of [schedule.intervalDays, schedule.intervalUses]) {
+        if (value !== null && (!Number.isInteger(value) || value < 1)) {
+          return err({ type: 'invalid_inspection_interval', value });
+        }
+      }
+      const blank = schedule.checklist.findIndex((point) => !point.trim());
+      if (blank !== -1) {
+        return err({ type: 'empty_checklist_item', index: blank });
+      }
+    }
+
+    return ok(
+      new GearType({
+        ...this.props,
+        inspectionSchedule: schedule
+          ? { ...schedule, checklist: schedule.checklist.map((point) => point.trim()) }
+          : null,
+        updatedAt: deps.clock.now()
+      })
+    );
+  }
+
+  /**
+   * Set when the type's items must be retired, or pass null to remove the
+   * limit. Only individually tracked items are counted.
+   */
+  setLifecycleLimit(
+    limit: LifecycleLimit | null,
+    deps: { clock: { now(): Date } }
+  ): Result<GearType, LifecycleLimitError> {
+    if (limit) {
+      if (this.props.trackingMode !== TrackingMode.INDIVIDUAL) {
+        return err({ type: 'not_individually_tracked' });
+      }
+      if (limit.maxUses === null && limit.maxYears === null) {
+        return err({ type: 'no_lifecycle_limit' });
+      }
+      for (const value of [limit.maxUses, limit.maxYears]) {
+        if (value !== null && (!Number.isInteger(value) || value < 1)) {
+          return err({ type: 'invalid_lifecycle_limit', value });
+        }
+      }
+    }
+
+    return ok(
+      new GearType({
+        ...this.props,
+        lifecycleLimit: limit ? { ...limit } : null,
+        updatedAt: deps.clock.now()
+      })
+    );
+  }
+
+  /**
+   * Replace the questions answered when an item comes back. An empty list
+   * removes the checklist. Only individually tracked items are checked in one by one.
+   */
+  setReturnChecklist(
+    questions: ReturnChecklistQuestion[],
+    deps: { clock: { now(): Date } }
+  ): Result<GearType, ReturnChecklistError> {
+    if (questions.length > 0 && this.props.trackingMode !== TrackingMode.INDIVIDUAL) {
+      return err({ type: 'not_individually_tracked' });
+    }
+
+    const checklist = questions.map((q) => ({ ...q, prompt: q.prompt.trim() }));
+    const seen = new Set<string>();
+    for (const [index, question] of checklist.entries()) {
+      if (!question.prompt) {
+        return err({ type: 'empty_checklist_item', index });
+      }
+      if (seen.has(question.prompt)) {
+        return err({ type: 'duplicate_checklist_prompt', prompt: question.prompt });
+      }
+      seen.add(question.prompt);
+      if (question.kind === 'count' && (!Number.isInteger(question.expectedCount) || question.expectedCount < 1)) {
+        return err({ type: 'invalid_expected_count', prompt: question.prompt, value: question.expectedCount });
+      }
+    }
+
+    return ok(
+      new GearType({
+        ...this.props,
+        returnChecklist: checklist,
+        updatedAt: deps.clock.now()
+      })
+    );
+  }
+
   /**
    * Update gear type details.
    */
@@ -237,3 +500,7 @@ export class GearType {
     );
   }
 }
+
+function copySchedule(schedule: InspectionSchedule): InspectionSchedule {
+  return { ...schedule, checklist: [...schedule.checklist] };
+}
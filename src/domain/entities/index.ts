@@ -2,3 +2,12 @@ export * from './member.js';
 export * from './gear-type.js';
 export * from './gear-item.js';
 export * from './checkout.js';
+export * from './reservation.js';
+export * from './kit.js';
+export * from './staff-member.js';
+export * from './account-entry.js';
+export * from './member-account.js';
+export * from './waiver-document.js';
+export * from './certification-type.js';
+export * from './maintenance-ticket.js';
+export * from './inspection.js';
@@ -0,0 +1,153 @@
+import { type Result, ok, err } from '../../application/result.js';
+import {
+  type InspectionId,
+  inspectionId,
+  type GearItemId,
+  gearItemId,
+  type StaffMemberId,
+  staffMemberId
+} from '../value-objects/index.js';
+
+/**
+ * The inspector's verdict on one checklist point.
+ */
+export interface InspectionAnswer {
+  readonly point: string;
+  readonly passed: boolean;
+}
+
+/**
+ * Props for recording a new Inspection.
+ */
+export interface CreateInspectionInput {
+  gearItemId: string;
+  inspectedBy: string;
+  passed: boolean;
+  answers: InspectionAnswer[];
+  notes?: string;
+}
+
+/**
+ * Props for hydrating an Inspection from database.
+ */
+export interface InspectionRecord {
+  id: string;
+  gearItemId: string;
+  inspectedBy: string;
+  inspectedAt: string;
+  passed: boolean;
+  answers: InspectionAnswer[];
+  notes: string | null;
+}
+
+interface InspectionProps {
+  id: InspectionId;
+  gearItemId: GearItemId;
+  inspectedBy: StaffMemberId;
+  inspectedAt: Date;
+  passed: boolean;
+  answers: InspectionAnswer[];
+  notes: string | null;
+}
+
+export type CreateInspectionError =
+  | { type: 'failed_point_in_passed_inspection'; point: string }
+  | { type: 'failure_needs_notes' };
+
+/**
+ * Inspection is one safety inspection of a gear item: who inspected it, when,
+ * the verdict on each checklist point and the overall pass or fail.
+ */
+export class Inspection {
+  private constructor(private readonly props: InspectionProps) {}
+
+  // Getters
+  get id(): InspectionId {
+    return this.props.id;
+  }
+  get gearItemId(): GearItemId {
+    return this.props.gearItemId;
+  }
+  get inspectedBy(): StaffMemberId {
+    return this.props.inspectedBy;
+  }
+  get inspectedAt(): Date {
+    return this.props.inspectedAt;
+  }
+  get passed(): boolean {
+    return this.props.passed;
+  }
+  get answers(): readonly InspectionAnswer[] {
+    return this.props.answers;
+  }
+  get notes(): string | null {
+    return this.props.notes;
+  }
+
+  /**
+   * Checklist points the item failed.
+   */
+  get failedPoints(): string[] {
+    return this.props.answers.filter((a) => !a.passed).map((a) => a.point);
+  }
+
+  /**
+   * Factory method to create a new Inspection with validation.
+   * A failed inspection must say why: a failed point or notes.
+   */
+  static create(
+    input: CreateInspectionInput,
+    deps: { idGenerator: { generate(): string }; clock: { now(): Date } }
+  ): Result<Inspection, CreateInspectionError> {
+    const failed = input.answers.find((a) => !a.passed);
+    if (input.passed && failed) {
+      return err({ type: 'failed_point_in_passed_inspection', point: failed.point });
+    }
+    const notes = input.notes?.trim() || null;
+    if (!input.passed && !failed && !notes) {
+      return err({ type: 'failure_needs_notes' });
+    }
+
+    return ok(
+      new Inspection({
+        id: inspectionId(deps.idGenerator.generate()),
+        gearItemId: gearItemId(input.gearItemId),
+        inspectedBy: staffMemberId(input.inspectedBy),
+        inspectedAt: deps.clock.now(),
+        passed: input.passed,
+        answers: input.answers.map((a) => ({ ...a })),
+        notes
+      })
+    );
+  }
+
+  /**
+   * Hydrate an Inspection from database record.
+   */
+  static fromRecord(record: InspectionRecord): Inspection {
+    return new Inspection({
+      id: inspectionId(record.id),
+      gearItemId: gearItemId(record.gearItemId),
+      inspectedBy: staffMemberId(record.inspectedBy),
+      inspectedAt: new Date(record.inspectedAt),
+      passed: record.passed,
+      answers: record.answers.map((a) => ({ ...a })),
+      notes: record.notes
+    });
+  }
+
+  /**
+   * Convert to a record for database storage.
+   */
+  toRecord(): InspectionRecord {
+    return {
+      id: this.props.id,
+      gearItemId: this.props.gearItemId,
+      inspectedBy: this.props.inspectedBy,
+      inspectedAt: this.props.inspectedAt.toISOString(),
+      passed: this.props.passed,
+      answers: this.props.answers.map((a) => ({ ...a })),
+      notes: this.props.notes
+    };
+  }
+}
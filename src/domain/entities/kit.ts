@@ -0,0 +1,200 @@
+import { type Result, ok, err } from '../../application/result.js';
+import { type KitId, kitId, type GearTypeId, gearTypeId } from '../value-objects/index.js';
+
+/**
+ * One line of a kit: how many of a gear type go into it.
+ * For INDIVIDUAL types this is a number of gear items, for BULK types a number of units.
+ */
+export interface KitSlot {
+  readonly gearTypeId: GearTypeId;
+  readonly quantity: number;
+}
+
+/**
+ * Props for creating a new Kit.
+ */
+export interface CreateKitInput {
+  name: string;
+  description?: string;
+  slots: Array<{ gearTypeId: string; quantity: number }>;
+}
+
+/**
+ * Props for hydrating a Kit from database.
+ */
+export interface KitRecord {
+  id: string;
+  name: string;
+  description: string | null;
+  slots: string; // JSON serialized KitSlot[]
+  createdAt: string;
+  updatedAt: string;
+}
+
+interface KitProps {
+  id: KitId;
+  name: string;
+  description: string | null;
+  slots: KitSlot[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type CreateKitError =
+  | { type: 'empty_name' }
+  | { type: 'no_slots' }
+  | { type: 'invalid_quantity'; index: number; quantity: number }
+  | { type: 'duplicate_slot'; gearTypeId: string };
+
+/**
+ * Kit is a named bundle of gear that is checked out as one unit
+ * (e.g., "Backpacking Kit" = backpack, tent, stove, two pads, water filter).
+ * It is a definition only; concrete items are picked at checkout time.
+ */
+export class Kit {
+  private constructor(private readonly props: KitProps) {}
+
+  // Getters
+  get id(): KitId {
+    return this.props.id;
+  }
+  get name(): string {
+    return this.props.name;
+  }
+  get description(): string | null {
+    return this.props.description;
+  }
+  get slots(): readonly KitSlot[] {
+    return this.props.slots;
+  }
+  get createdAt(): Date {
+    return this.props.createdAt;
+  }
+  get updatedAt(): Date {
+    return this.props.updatedAt;
+  }
+
+  /**
+   * Factory method to create a new Kit with validation.
+   */
+  static create(
+    input: CreateKitInput,
+    deps: { idGenerator: { generate(): string }; clock: { now(): Date } }
+  ): Result<Kit, CreateKitError> {
+    const name = input.name.trim();
+    if (!name) {
+      return err({ type: 'empty_name' });
+    }
+
+    const slotsResult = validateSlots(input.slots);
+    if (!slotsResult.ok) {
+      return slotsResult;
+    }
+
+    const now = deps.clock.now();
+    return ok(
+      new Kit({
+        id: kitId(deps.idGenerator.generate()),
+        name,
+        description: input.description?.trim() || null,
+        slots: slotsResult.value,
+        createdAt: now,
+        updatedAt: now
+      })
+    );
+  }
+
+  /**
+   * Hydrate a Kit from database record.
+   */
+  static fromRecord(record: KitRecord): Kit {
+    const slots: KitSlot[] = JSON.parse(record.slots).map((slot: any) => ({
+      gearTypeId: gearTypeId(slot.gearTypeId),
+      quantity: slot.quantity
+    }));
+
+    return new Kit({
+      id: kitId(record.id),
+      name: record.name,
+      description: record.description,
+      slots,
+      createdAt: new Date(record.createdAt),
+      updatedAt: new Date(record.updatedAt)
+    });
+  }
+
+  /**
+   * Convert to a record for database storage.
+   */
+  toRecord(): KitRecord {
+    return {
+      id: this.props.id,
+      name: this.props.name,
+      description: this.props.description,
+      slots: JSON.stringify(this.props.slots),
+      createdAt: this.props.createdAt.toISOString(),
+      updatedAt: this.props.updatedAt.toISOString()
+    };
+  }
+
+  /**
+   * Update the kit's name, description or contents.
+   */
+  update(
+    updates: {
+      name?: string;
+      description?: string;
+      slots?: Array<{ gearTypeId: string; quantity: number }>;
+    },
+    deps: { clock: { now(): Date } }
+  ): Result<Kit, CreateKitError> {
+    const name = updates.name !== undefined ? updates.name.trim() : this.props.name;
+    if (!name) {
+      return err({ type: 'empty_name' });
+    }
+
+    let slots = this.props.slots;
+    if (updates.slots !== undefined) {
+      const slotsResult = validateSlots(updates.slots);
+      if (!slotsResult.ok) {
+        return slotsResult;
+      }
+      slots = slotsResult.value;
+    }
+
+    return ok(
+      new Kit({
+        ...this.props,
+        name,
+        description:
+          updates.description !== undefined ? updates.description.trim() || null : this.props.description,
+        slots,
+        updatedAt: deps.clock.now()
+      })
+    );
+  }
+}
+
+function validateSlots(
+  input: Array<{ gearTypeId: string; quantity: number }>
+): Result<KitSlot[], CreateKitError> {
+  if (input.length === 0) {
+    return err({ type: 'no_slots' });
+  }
+
+  const seen = new Set<string>();
+  const slots: KitSlot[] = [];
+  for (let i = 0; i < input.length; i++) {
+    const slot = input[i];
+    if (!Number.isInteger(slot.quantity) || slot.quantity < 1) {
+      return err({ type: 'invalid_quantity', index: i, quantity: slot.quantity });
+    }
+    if (seen.has(slot.gearTypeId)) {
+      return err({ type: 'duplicate_slot', gearTypeId: slot.gearTypeId });
+    }
+    seen.add(slot.gearTypeId);
+    slots.push({ gearTypeId: gearTypeId(slot.gearTypeId), quantity: slot.quantity });
+  }
+
+  return ok(slots);
+}
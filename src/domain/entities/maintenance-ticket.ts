@@ -0,0 +1,384 @@
+import { type Result, ok, err } from '../../application/result.js';
+import { GearCondition, MaintenanceTicketStatus } from '../types.js';
+import {
+  type MaintenanceTicketId,
+  maintenanceTicketId,
+  type GearItemId,
+  gearItemId,
+  type StaffMemberId,
+  staffMemberId,
+  type CheckoutId,
+  checkoutId,
+  type MemberId,
+  memberId
+} from '../value-objects/index.js';
+
+/**
+ * A part fitted during a repair. `costCents` is the line total.
+ */
+export interface MaintenancePart {
+  readonly name: string;
+  readonly quantity: number;
+  readonly costCents: number;
+}
+
+/**
+ * Where the damage came from when an item was returned needing repair.
+ */
+export interface DamageReport {
+  readonly checkoutId: CheckoutId;
+  readonly memberId: MemberId;
+  readonly conditionAtCheckout: GearCondition | null;
+  readonly conditionAtReturn: GearCondition;
+}
+
+export interface DamageReportRecord {
+  checkoutId: string;
+  memberId: string;
+  conditionAtCheckout: GearCondition | null;
+  conditionAtReturn: GearCondition;
+}
+
+/**
+ * Props for opening a new MaintenanceTicket.
+ */
+export interface CreateMaintenanceTicketInput {
+  gearItemId: string;
+  issue: string;
+  reportedBy: string;
+  assignedTo?: string;
+  damage?: DamageReportRecord;
+}
+
+/**
+ * Work logged against a ticket; labor is added to what was already logged.
+ */
+export interface RecordMaintenanceWorkInput {
+  laborMinutes?: number;
+  parts?: MaintenancePart[];
+}
+
+/**
+ * Props for hydrating a MaintenanceTicket from database.
+ */
+export interface MaintenanceTicketRecord {
+  id: string;
+  gearItemId: string;
+  issue: string;
+  reportedBy: string;
+  assignedTo: string | null;
+  status: MaintenanceTicketStatus;
+  parts: MaintenancePart[];
+  laborMinutes: number;
+  resolution: string | null;
+  finalCondition: GearCondition | null;
+  // Absent on tickets saved before damage reports were recorded
+  damage?: DamageReportRecord | null;
+  openedAt: string;
+  closedAt: string | null;
+  updatedAt: string;
+}
+
+interface MaintenanceTicketProps {
+  id: MaintenanceTicketId;
+  gearItemId: GearItemId;
+  issue: string;
+  reportedBy: StaffMemberId;
+  assignedTo: StaffMemberId | null;
+  status: MaintenanceTicketStatus;
+  parts: MaintenancePart[];
+  laborMinutes: number;
+  resolution: string | null;
+  finalCondition: GearCondition | null;
+  damage: DamageReport | null;
+  openedAt: Date;
+  closedAt: Date | null;
+  updatedAt: Date;
+}
+
+export type CreateMaintenanceTicketError = { type: 'empty_issue' };
+
+export type UpdateMaintenanceTicketError =
+  | { type: 'ticket_closed' }
+  | { type: 'invalid_status'; status: string }
+  | { type: 'invalid_labor_minutes'; laborMinutes: number }
+  | { type: 'invalid_part'; index: number };
+
+export type CloseMaintenanceTicketError = { type: 'ticket_closed' } | { type: 'invalid_condition'; condition: string };
+
+// Statuses staff can move an open ticket between; DONE is reached by closing it
+const WORKING_STATUSES: readonly string[] = [
+  MaintenanceTicketStatus.OPEN,
+  MaintenanceTicketStatus.IN_PROGRESS,
+  MaintenanceTicketStatus.WAITING_PARTS
+];
+
+// Conditions an item can return to service in
+const SERVICEABLE_CONDITIONS: readonly string[] = [
+  GearCondition.EXCELLENT,
+  GearCondition.GOOD,
+  GearCondition.FAIR,
+  GearCondition.NEEDS_REPAIR
+];
+
+/**
+ * MaintenanceTicket is a work order for repairing one gear item: what is wrong,
+ * who is fixing it, and the parts and time the repair took.
+ * Immutable - all mutations return new instances.
+ */
+export class MaintenanceTicket {
+  private constructor(private readonly props: MaintenanceTicketProps) {}
+
+  // Getters
+  get id(): MaintenanceTicketId {
+    return this.props.id;
+  }
+  get gearItemId(): GearItemId {
+    return this.props.gearItemId;
+  }
+  get issue(): string {
+    return this.props.issue;
+  }
+  get reportedBy(): StaffMemberId {
+    return this.props.reportedBy;
+  }
+  get assignedTo(): StaffMemberId | null {
+    return this.props.assignedTo;
+  }
+  get status(): MaintenanceTicketStatus {
+    return this.props.status;
+  }
+  get parts(): readonly MaintenancePart[] {
+    return this.props.parts;
+  }
+  get laborMinutes(): number {
+    return this.props.laborMinutes;
+  }
+  /**
+   * Total cost of the parts used.
+   */
+  get costCents(): number {
+    return this.props.parts.reduce((sum, p) => sum + p.costCents, 0);
+  }
+  get resolution(): string | null {
+    return this.props.resolution;
+  }
+  /**
+   * Condition the item went back into service in; null until closed.
+   */
+  get finalCondition(): GearCondition | null {
+    return this.props.finalCondition;
+  }
+  /**
+   * The damaged return that opened the ticket; null for tickets opened by staff.
+   */
+  get damage(): DamageReport | null {
+    return this.props.damage;
+  }
+  get openedAt(): Date {
+    return this.props.openedAt;
+  }
+  get closedAt(): Date | null {
+    return this.props.closedAt;
+  }
+  get updatedAt(): Date {
+    return this.props.updatedAt;
+  }
+
+  /**
+   * Factory method to create a new MaintenanceTicket with validation.
+   */
+  static create(
+    input: CreateMaintenanceTicketInput,
+    deps: { idGenerator: { generate(): string }; clock: { now(): Date } }
+  ): Result<MaintenanceTicket, CreateMaintenanceTicketError> {
+    const issue = input.issue.trim();
+    if (!issue) {
+      return err({ type: 'empty_issue' });
+    }
+
+    const now = deps.clock.now();
+    return ok(
+      new MaintenanceTicket({
+        id: maintenanceTicketId(deps.idGenerator.generate()),
+        gearItemId: gearItemId(input.gearItemId),
+        issue,
+        reportedBy: staffMemberId(input.reportedBy),
+        assignedTo: input.assignedTo ? staffMemberId(input.assignedTo) : null,
+        status: MaintenanceTicketStatus.OPEN,
+        parts: [],
+        laborMinutes: 0,
+        resolution: null,
+        finalCondition: null,
+        damage: input.damage ? toDamageReport(input.damage) : null,
+        openedAt: now,
+        closedAt: null,
+        updatedAt: now
+      })
+    );
+  }
+
+  /**
+   * Hydrate a MaintenanceTicket from database record.
+   */
+  static fromRecord(record: MaintenanceTicketRecord): MaintenanceTicket {
+    return new MaintenanceTicket({
+      id: maintenanceTicketId(record.id),
+      gearItemId: gearItemId(record.gearItemId),
+      issue: record.issue,
+      reportedBy: staffMemberId(record.reportedBy),
+      assignedTo: record.assignedTo ? staffMemberId(record.assignedTo) : null,
+      status: record.status,
+      parts: record.parts.map((p) => ({ ...p })),
+      laborMinutes: record.laborMinutes,
+      resolution: record.resolution,
+      finalCondition: record.finalCondition,
+      damage: record.damage ? toDamageReport(record.damage) : null,
+      openedAt: new Date(record.openedAt),
+      closedAt: record.closedAt ? new Date(record.closedAt) : null,
+      updatedAt: new Date(record.updatedAt)
+    });
+  }
+
+  /**
+   * Convert to a record for database storage.
+   */
+  toRecord(): MaintenanceTicketRecord {
+    return {
+      id: this.props.id,
+      gearItemId: this.props.gearItemId,
+      issue: this.props.issue,
+      reportedBy: this.props.reportedBy,
+      assignedTo: this.props.assignedTo,
+      status: this.props.status,
+      parts: this.props.parts.map((p) => ({ ...p })),
+      laborMinutes: this.props.laborMinutes,
+      resolution: this.props.resolution,
+      finalCondition: this.props.finalCondition,
+      damage: this.props.damage ? { ...this.props.damage } : null,
+      openedAt: this.props.openedAt.toISOString(),
+      closedAt: this.props.closedAt?.toISOString() ?? null,
+      updatedAt: this.props.updatedAt.toISOString()
+    };
+  }
+
+  // Queries
+
+  isOpen(): boolean {
+    return this.props.status !== MaintenanceTicketStatus.DONE;
+  }
+
+  // State transitions
+
+  /**
+   * Hand the ticket to a staff member, or pass null to unassign it.
+   */
+  assign(assignee: string | null, deps: { clock: { now(): Date } }): Result<MaintenanceTicket, UpdateMaintenanceTicketError> {
+    if (!this.isOpen()) {
+      return err({ type: 'ticket_closed' });
+    }
+    return ok(
+      new MaintenanceTicket({
+        ...this.props,
+        assignedTo: assignee ? staffMemberId(assignee) : null,
+        updatedAt: deps.clock.now()
+      })
+    );
+  }
+
+  /**
+   * Move an open ticket between OPEN, IN_PROGRESS and WAITING_PARTS.
+   */
+  changeStatus(
+    status: MaintenanceTicketStatus,
+    deps: { clock: { now(): Date } }
+  ): Result<MaintenanceTicket, UpdateMaintenanceTicketError> {
+    if (!this.isOpen()) {
+      return err({ type: 'ticket_closed' });
+    }
+    if (!WORKING_STATUSES.includes(status)) {
+      return err({ type: 'invalid_status', status });
+    }
+    return ok(
+      new MaintenanceTicket({
+        ...this.props,
+        status,
+        updatedAt: deps.clock.now()
+      })
+    );
+  }
+
+  /**
+   * Log labor and parts used.
+   */
+  recordWork(
+    input: RecordMaintenanceWorkInput,
+    deps: { clock: { now(): Date } }
+  ): Result<MaintenanceTicket, UpdateMaintenanceTicketError> {
+    if (!this.isOpen()) {
+      return err({ type: 'ticket_closed' });
+    }
+    const laborMinutes = input.laborMinutes ?? 0;
+    if (!Number.isInteger(laborMinutes) || laborMinutes < 0) {
+      return err({ type: 'invalid_labor_minutes', laborMinutes });
+    }
+    const parts = input.parts ?? [];
+    const invalid = parts.findIndex(
+      (p) =>
+        !p.name.trim() ||
+        !Number.isInteger(p.quantity) ||
+        p.quantity <= 0 ||
+        !Number.isInteger(p.costCents) ||
+        p.costCents < 0
+    );
+    if (invalid !== -1) {
+      return err({ type: 'invalid_part', index: invalid });
+    }
+
+    return ok(
+      new MaintenanceTicket({
+        ...this.props,
+        laborMinutes: this.props.laborMinutes + laborMinutes,
+        parts: [...this.props.parts, ...parts.map((p) => ({ ...p, name: p.name.trim() }))],
+        updatedAt: deps.clock.now()
+      })
+    );
+  }
+
+  /**
+   * Finish the repair, recording the condition the item goes back into service in.
+   */
+  close(
+    condition: GearCondition,
+    resolution: string | undefined,
+    deps: { clock: { now(): Date } }
+  ): Result<MaintenanceTicket, CloseMaintenanceTicketError> {
+    if (!this.isOpen()) {
+      return err({ type: 'ticket_closed' });
+    }
+    if (!SERVICEABLE_CONDITIONS.includes(condition)) {
+      return err({ type: 'invalid_condition', condition });
+    }
+
+    const now = deps.clock.now();
+    return ok(
+      new MaintenanceTicket({
+        ...this.props,
+        status: MaintenanceTicketStatus.DONE,
+        finalCondition: condition,
+        resolution: resolution?.trim() || null,
+        closedAt: now,
+        updatedAt: now
+      })
+    );
+  }
+}
+
+function toDamageReport(record: DamageReportRecord): DamageReport {
+  return {
+    checkoutId: checkoutId(record.checkoutId),
+    memberId: memberId(record.memberId),
+    conditionAtCheckout: record.conditionAtCheckout,
+    conditionAtReturn: record.conditionAtReturn
+  };
+}
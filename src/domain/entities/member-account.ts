@@ -0,0 +1,130 @@
+import { type Result, err } from '../../application/result.js';
+import { AccountEntryType, type ChargeType } from '../types.js';
+import type { AccountEntryId, MemberId } from '../value-objects/index.js';
+import { AccountEntry, type CreateAccountEntryError } from './account-entry.js';
+
+type EntryDeps = { idGenerator: { generate(): string }; clock: { now(): Date } };
+
+export interface PostChargeInput {
+  chargeType: ChargeType;
+  amountCents: number;
+  description: string;
+  checkoutId?: string;
+  gearItemId?: string;
+  staffMemberId: string;
+}
+
+export interface PostAmountInput {
+  amountCents: number;
+  description: string;
+  staffMemberId: string;
+}
+
+export type VoidChargeError =
+  | { type: 'charge_not_found'; chargeId: string }
+  | { type: 'already_voided' };
+
+export type RefundError = CreateAccountEntryError | { type: 'refund_exceeds_credit'; creditCents: number };
+
+/**
+ * A member's ledger of charges, payments, waivers and refunds.
+ * The balance is always derived from the entries; a positive balance is owed by the member.
+ * Posting methods return the new entry for the caller to append; the account itself never changes.
+ */
+export class MemberAccount {
+  private constructor(
+    readonly memberId: MemberId,
+    private readonly ledger: readonly AccountEntry[]
+  ) {}
+
+  /**
+   * Build the account from its stored entries, in any order.
+   */
+  static fromEntries(memberId: MemberId, entries: AccountEntry[]): MemberAccount {
+    const sorted = [...entries].sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+    return new MemberAccount(memberId, sorted);
+  }
+
+  // Query methods
+
+  /**
+   * Entries oldest first.
+   */
+  get entries(): readonly AccountEntry[] {
+    return this.ledger;
+  }
+
+  get balanceCents(): number {
+    return this.ledger.reduce((sum, entry) => sum + entry.balanceEffectCents, 0);
+  }
+
+  findEntry(id: string): AccountEntry | undefined {
+    return this.ledger.find((entry) => entry.id === id);
+  }
+
+  isVoided(chargeId: AccountEntryId): boolean {
+    return this.ledger.some(
+      (entry) => entry.type === AccountEntryType.WAIVER && entry.reversesEntryId === chargeId
+    );
+  }
+
+  /**
+   * Charges that have not been voided, oldest first.
+   */
+  getOutstandingCharges(): AccountEntry[] {
+    return this.ledger.filter((entry) => entry.type === AccountEntryType.CHARGE && !this.isVoided(entry.id));
+  }
+
+  // Posting
+
+  charge(input: PostChargeInput, deps: EntryDeps): Result<AccountEntry, CreateAccountEntryError> {
+    return AccountEntry.create({ ...input, memberId: this.memberId, type: AccountEntryType.CHARGE }, deps);
+  }
+
+  recordPayment(input: PostAmountInput, deps: EntryDeps): Result<AccountEntry, CreateAccountEntryError> {
+    return AccountEntry.create({ ...input, memberId: this.memberId, type: AccountEntryType.PAYMENT }, deps);
+  }
+
+  /**
+   * Cancel a charge in full by posting a waiver against it.
+   */
+  voidCharge(
+    chargeId: string,
+    reason: string,
+    staffMemberId: string,
+    deps: EntryDeps
+  ): Result<AccountEntry, VoidChargeError | CreateAccountEntryError> {
+    const charge = this.findEntry(chargeId);
+    if (!charge || charge.type !== AccountEntryType.CHARGE) {
+      return err({ type: 'charge_not_found', chargeId });
+    }
+    if (this.isVoided(charge.id)) {
+      return err({ type: 'already_voided' });
+    }
+
+    return AccountEntry.create(
+      {
+        memberId: this.memberId,
+        type: AccountEntryType.WAIVER,
+        amountCents: charge.amountCents,
+        description: reason,
+        reversesEntryId: charge.id,
+        checkoutId: charge.checkoutId ?? undefined,
+        gearItemId: charge.gearItemId ?? undefined,
+        staffMemberId
+      },
+      deps
+    );
+  }
+
+  /**
+   * Pay money back to the member, up to the credit on the account.
+   */
+  refund(input: PostAmountInput, deps: EntryDeps): Result<AccountEntry, RefundError> {
+    const creditCents = Math.max(0, -this.balanceCents);
+    if (input.amountCents > creditCents) {
+      return err({ type: 'refund_exceeds_credit', creditCents });
+    }
+    return AccountEntry.create({ ...input, memberId: this.memberId, type: AccountEntryType.REFUND }, deps);
+  }
+}
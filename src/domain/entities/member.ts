@@ -1,5 +1,5 @@
 import { type Result, ok, err } from '../../application/result.js';
-import { MembershipStatus } from '../types.js';
+import { MembershipStatus, MembershipTier, type MembershipPlan } from '../types.js';
 import {
   type MemberId,
   memberId,
@@ -10,8 +10,16 @@ import {
   type Email,
   emailFromRecord,
   createEmail,
-  type EmailError
+  type EmailError,
+  type StaffMemberId,
+  staffMemberId,
+  type WaiverDocumentId,
+  waiverDocumentId,
+  type CertificationTypeId,
+  certificationTypeId
 } from '../value-objects/index.js';
+import type { WaiverDocument } from './waiver-document.js';
+import type { CertificationType } from './certification-type.js';
 
 /**
  * WaiverStatus is embedded in Member and tracks waiver signing state.
@@ -21,6 +29,76 @@ export interface WaiverStatus {
   readonly signedAt: Date | null;
   readonly expiresAt: Date | null;
   readonly waiverVersion: string | null;
+  readonly waiverDocumentId: WaiverDocumentId | null;
+  // PNG or SVG data URL drawn by the member; null for signatures taken before capture existed
+  readonly signature: string | null;
+  // Staff member who witnessed the signature
+  readonly witnessedBy: StaffMemberId | null;
+}
+
+/**
+ * One period of suspended borrowing privileges, kept on the member as history.
+ */
+export interface Suspension {
+  readonly reason: string;
+  // Internal detail for staff, not shown to the member
+  readonly note: string | null;
+  readonly startedAt: Date;
+  // The suspension lifts by itself at this time; null lasts until reinstated
+  readonly endsAt: Date | null;
+  readonly liftedAt: Date | null;
+  // Null when the strike policy suspended the member
+  readonly suspendedBy: StaffMemberId | null;
+  // Null when the suspension ran out rather than being lifted by staff
+  readonly liftedBy: StaffMemberId | null;
+}
+
+/**
+ * The period a member has paid for. Borrowing stops when it ends until the membership is renewed.
+ */
+export interface MembershipTerm {
+  readonly plan: MembershipPlan;
+  // Start of the continuous membership; renewing before the end keeps it
+  readonly startsAt: Date;
+  readonly endsAt: Date;
+}
+
+export interface MembershipTermRecord {
+  plan: MembershipPlan;
+  startsAt: string;
+  endsAt: string;
+}
+
+/**
+ * A certification granted to the member. Granting again replaces the previous grant.
+ */
+export interface MemberCertification {
+  readonly certificationTypeId: CertificationTypeId;
+  readonly grantedAt: Date;
+  readonly grantedBy: StaffMemberId;
+  // Null for certifications that never expire
+  readonly expiresAt: Date | null;
+  readonly revokedAt: Date | null;
+  readonly revokedBy: StaffMemberId | null;
+}
+
+export interface MemberCertificationRecord {
+  certificationTypeId: string;
+  grantedAt: string;
+  grantedBy: string;
+  expiresAt: string | null;
+  revokedAt: string | null;
+  revokedBy: string | null;
+}
+
+export interface SuspensionRecord {
+  reason: string;
+  note?: string | null;
+  startedAt: string;
+  endsAt: string | null;
+  liftedAt: string | null;
+  suspendedBy: string | null;
+  liftedBy?: string | null;
 }
 
 /**
@@ -32,6 +110,8 @@ export interface CreateMemberInput {
   lastName: string;
   email: string;
   phone?: string;
+  // Defaults to STUDENT
+  tier?: MembershipTier;
 }
 
 /**
@@ -45,10 +125,21 @@ export interface MemberRecord {
   email: string;
   phone: string | null;
   membershipStatus: MembershipStatus;
+  // Absent on records saved before tiers existed
+  tier?: MembershipTier;
+  // Absent or null for members without a term, whose membership never lapses
+  term?: MembershipTermRecord | null;
   waiverSigned: boolean;
   waiverSignedAt: string | null;
   waiverExpiresAt: string | null;
   waiverVersion: string | null;
+  waiverWitnessedBy?: string | null;
+  waiverDocumentId?: string | null;
+  waiverSignature?: string | null;
+  // Absent on records saved before suspension history was kept
+  suspensions?: SuspensionRecord[];
+  // Absent on records saved before certifications existed
+  certifications?: MemberCertificationRecord[];
   registeredAt: string;
   updatedAt: string;
 }
@@ -61,23 +152,54 @@ interface MemberProps {
   email: Email;
   phone: string | null;
   membershipStatus: MembershipStatus;
+  tier: MembershipTier;
+  term: MembershipTerm | null;
   waiverStatus: WaiverStatus;
+  suspensions: readonly Suspension[];
+  certifications: readonly MemberCertification[];
   registeredAt: Date;
   updatedAt: Date;
 }
 
+export interface SuspendInput {
+  reason: string;
+  note?: string;
+  endsAt?: Date;
+  // Omitted for automatic suspensions
+  suspendedBy?: string;
+}
+
 export type CreateMemberError =
   | { type: 'invalid_college_id'; error: CollegeIdError }
   | { type: 'invalid_email'; error: EmailError }
   | { type: 'empty_first_name' }
-  | { type: 'empty_last_name' };
+  | { type: 'empty_last_name' }
+  | { type: 'invalid_tier'; tier: string };
 
-export type SignWaiverError = { type: 'waiver_already_signed'; signedAt: Date };
+export type SignWaiverError =
+  | { type: 'waiver_already_signed'; signedAt: Date }
+  | { type: 'document_not_effective'; effectiveAt: Date }
+  | { type: 'invalid_signature' };
 
-export type SuspendError = { type: 'already_suspended' };
+export type SuspendError =
+  | { type: 'already_suspended' }
+  | { type: 'empty_reason' }
+  | { type: 'end_before_start' };
 
 export type ReinstateError = { type: 'not_suspended' };
 
+export type ChangeTierError = { type: 'invalid_tier'; tier: string } | { type: 'same_tier'; tier: MembershipTier };
+
+export type RevokeCertificationError = { type: 'not_certified'; certificationTypeId: string };
+
+export type ExpireMembershipError = { type: 'not_active' } | { type: 'term_not_ended' };
+
+export type LiftExpiredSuspensionError = { type: 'not_suspended' } | { type: 'suspension_not_ended' };
+
+// Signatures are stored as the image the signature pad produced
+const SIGNATURE_DATA_URL = /^data:image\/(png|svg\+xml)[;,]/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
 /**
  * Member entity representing a person who can check out gear.
  * Immutable - all mutations return new instances.
@@ -110,9 +232,33 @@ export class Member {
   get membershipStatus(): MembershipStatus {
     return this.props.membershipStatus;
   }
+  /**
+   * Decides borrowing limits and fees through the tier policy.
+   */
+  get tier(): MembershipTier {
+    return this.props.tier;
+  }
+  /**
+   * Null for members whose membership never lapses.
+   */
+  get term(): MembershipTerm | null {
+    return this.props.term;
+  }
   get waiverStatus(): WaiverStatus {
     return this.props.waiverStatus;
   }
+  /**
+   * Suspensions oldest first, including the current one.
+   */
+  get suspensions(): readonly Suspension[] {
+    return this.props.suspensions;
+  }
+  /**
+   * Latest grant of each certification, including expired and revoked ones.
+   */
+  get certifications(): readonly MemberCertification[] {
+    return this.props.certifications;
+  }
   get registeredAt(): Date {
     return this.props.registeredAt;
   }
@@ -150,6 +296,11 @@ export class Member {
       return err({ type: 'empty_last_name' });
     }
 
+    const tier = input.tier ?? MembershipTier.STUDENT;
+    if (!Object.values(MembershipTier).includes(tier)) {
+      return err({ type: 'invalid_tier', tier });
+    }
+
     const now = deps.clock.now();
 
     return ok(
@@ -161,12 +312,19 @@ export class Member {
         email: emailResult.value,
         phone: input.phone?.trim() || null,
         membershipStatus: MembershipStatus.ACTIVE,
+        tier,
+        term: null,
         waiverStatus: {
           signed: false,
           signedAt: null,
           expiresAt: null,
-          waiverVersion: null
+          waiverVersion: null,
+          waiverDocumentId: null,
+          signature: null,
+          witnessedBy: null
         },
+        suspensions: [],
+        certifications: [],
         registeredAt: now,
         updatedAt: now
       })
@@ -185,12 +343,36 @@ export class Member {
       email: emailFromRecord(record.email),
       phone: record.phone,
       membershipStatus: record.membershipStatus,
+      tier: record.tier ?? MembershipTier.STUDENT,
+      term: record.term
+        ? { plan: record.term.plan, startsAt: new Date(record.term.startsAt), endsAt: new Date(record.term.endsAt) }
+        : null,
       waiverStatus: {
         signed: record.waiverSigned,
         signedAt: record.waiverSignedAt ? new Date(record.waiverSignedAt) : null,
         expiresAt: record.waiverExpiresAt ? new Date(record.waiverExpiresAt) : null,
-        waiverVersion: record.waiverVersion
+        waiverVersion: record.waiverVersion,
+        waiverDocumentId: record.waiverDocumentId ? waiverDocumentId(record.waiverDocumentId) : null,
+        signature: record.waiverSignature ?? null,
+        witnessedBy: record.waiverWitnessedBy ? staffMemberId(record.waiverWitnessedBy) : null
       },
+      suspensions: (record.suspensions ?? []).map((s) => ({
+        reason: s.reason,
+        note: s.note ?? null,
+        startedAt: new Date(s.startedAt),
+        endsAt: s.endsAt ? new Date(s.endsAt) : null,
+        liftedAt: s.liftedAt ? new Date(s.liftedAt) : null,
+        suspendedBy: s.suspendedBy ? staffMemberId(s.suspendedBy) : null,
+        liftedBy: s.liftedBy ? staffMemberId(s.liftedBy) : null
+      })),
+      certifications: (record.certifications ?? []).map((c) => ({
+        certificationTypeId: certificationTypeId(c.certificationTypeId),
+        grantedAt: new Date(c.grantedAt),
+        grantedBy: staffMemberId(c.grantedBy),
+        expiresAt: c.expiresAt ? new Date(c.expiresAt) : null,
+        revokedAt: c.revokedAt ? new Date(c.revokedAt) : null,
+        revokedBy: c.revokedBy ? staffMemberId(c.revokedBy) : null
+      })),
       registeredAt: new Date(record.registeredAt),
       updatedAt: new Date(record.updatedAt)
     });
@@ -208,10 +390,38 @@ export class Member {
       email: this.props.email.value,
       phone: this.props.phone,
       membershipStatus: this.props.membershipStatus,
+      tier: this.props.tier,
+      term: this.props.term
+        ? {
+            plan: this.props.term.plan,
+            startsAt: this.props.term.startsAt.toISOString(),
+            endsAt: this.props.term.endsAt.toISOString()
+          }
+        : null,
       waiverSigned: this.props.waiverStatus.signed,
       waiverSignedAt: this.props.waiverStatus.signedAt?.toISOString() ?? null,
       waiverExpiresAt: this.props.waiverStatus.expiresAt?.toISOString() ?? null,
       waiverVersion: this.props.waiverStatus.waiverVersion,
+      waiverWitnessedBy: this.props.waiverStatus.witnessedBy,
+      waiverDocumentId: this.props.waiverStatus.waiverDocumentId,
+      waiverSignature: this.props.waiverStatus.signature,
+      suspensions: this.props.suspensions.map((s) => ({
+        reason: s.reason,
+        note: s.note,
+        startedAt: s.startedAt.toISOString(),
+        endsAt: s.endsAt?.toISOString() ?? null,
+        liftedAt: s.liftedAt?.toISOString() ?? null,
+        suspendedBy: s.suspendedBy,
+        liftedBy: s.liftedBy
+      })),
+      certifications: this.props.certifications.map((c) => ({
+        certificationTypeId: c.certificationTypeId,
+        grantedAt: c.grantedAt.toISOString(),
+        grantedBy: c.grantedBy,
+        expiresAt: c.expiresAt?.toISOString() ?? null,
+        revokedAt: c.revokedAt?.toISOString() ?? null,
+        revokedBy: c.revokedBy
+      })),
       registeredAt: this.props.registeredAt.toISOString(),
       updatedAt: this.props.updatedAt.toISOString()
     };
@@ -221,41 +431,87 @@ export class Member {
 
   /**
    * Check if the member has a valid (signed and not expired) waiver.
+   * Given the current waiver document, a signature on a version it invalidates does not count.
    */
-  hasValidWaiver(asOf: Date = new Date()): boolean {
+  hasValidWaiver(asOf: Date = new Date(), currentDocument: WaiverDocument | null = null): boolean {
     if (!this.props.waiverStatus.signed) {
       return false;
     }
-    if (!this.props.waiverStatus.expiresAt) {
+    if (!this.props.waiverStatus.expiresAt || this.props.waiverStatus.expiresAt <= asOf) {
       return false;
     }
-    return this.props.waiverStatus.expiresAt > asOf;
+    return !currentDocument || currentDocument.accepts(this.props.waiverStatus.waiverVersion);
+  }
+
+  /**
+   * Whether the member holds an unrevoked, unexpired grant of the certification.
+   */
+  hasCertification(typeId: CertificationTypeId, asOf: Date = new Date()): boolean {
+    const grant = this.props.certifications.find((c) => c.certificationTypeId === typeId);
+    return !!grant && !grant.revokedAt && (!grant.expiresAt || grant.expiresAt > asOf);
+  }
+
+  /**
+   * The open suspension, or null. Members suspended before history was kept have none.
+   */
+  get currentSuspension(): Suspension | null {
+    if (this.props.membershipStatus !== MembershipStatus.SUSPENDED) {
+      return null;
+    }
+    const last = this.props.suspensions[this.props.suspensions.length - 1];
+    return last && !last.liftedAt ? last : null;
+  }
+
+  /**
+   * Membership status with suspensions past their end date treated as lifted
+   * and active memberships past the end of their term treated as expired.
+   */
+  membershipStatusAt(asOf: Date = new Date()): MembershipStatus {
+    const current = this.currentSuspension;
+    const status = current?.endsAt && current.endsAt <= asOf ? MembershipStatus.ACTIVE : this.props.membershipStatus;
+    if (status === MembershipStatus.ACTIVE && this.hasTermEnded(asOf)) {
+      return MembershipStatus.EXPIRED;
+    }
+    return status;
+  }
+
+  /**
+   * Whether the member's term ran out by `asOf`. Members without a term never lapse.
+   */
+  hasTermEnded(asOf: Date = new Date()): boolean {
+    return this.props.term !== null && this.props.term.endsAt <= asOf;
   }
 
   /**
    * Check if the member can check out gear.
    * Requires active status and valid waiver.
    */
-  canCheckout(asOf: Date = new Date()): boolean {
-    return this.props.membershipStatus === MembershipStatus.ACTIVE && this.hasValidWaiver(asOf);
+  canCheckout(asOf: Date = new Date(), currentWaiver: WaiverDocument | null = null): boolean {
+    return this.membershipStatusAt(asOf) === MembershipStatus.ACTIVE && this.hasValidWaiver(asOf, currentWaiver);
   }
 
   // State transitions
 
   /**
-   * Sign the waiver. Sets expiration to 1 year from now.
+   * Sign a waiver document with a captured signature image.
+   * The signature stays valid for the document's validity period.
    */
   signWaiver(
-    waiverVersion: string,
+    document: WaiverDocument,
+    signature: string,
+    witnessedBy: string,
     deps: { clock: { now(): Date } }
   ): Result<Member, SignWaiverError> {
-    if (this.props.waiverStatus.signed && this.hasValidWaiver(deps.clock.now())) {
+    const now = deps.clock.now();
+    if (!document.isEffective(now)) {
+      return err({ type: 'document_not_effective', effectiveAt: document.effectiveAt });
+    }
+    if (this.props.waiverStatus.waiverVersion === document.version && this.hasValidWaiver(now, document)) {
       return err({ type: 'waiver_already_signed', signedAt: this.props.waiverStatus.signedAt! });
     }
-
-    const now = deps.clock.now();
-    const expiresAt = new Date(now);
-    expiresAt.setFullYear(expiresAt.getFullYear() + 1);
+    if (!SIGNATURE_DATA_URL.test(signature)) {
+      return err({ type: 'invalid_signature' });
+    }
 
     return ok(
       new Member({
@@ -263,8 +519,11 @@ export class Member {
         waiverStatus: {
           signed: true,
           signedAt: now,
-          expiresAt,
-          waiverVersion
+          expiresAt: document.expiryFor(now),
+          waiverVersion: document.version,
+          waiverDocumentId: document.id,
+          signature,
+          witnessedBy: staffMemberId(witnessedBy)
         },
         updatedAt: now
       })
@@ -273,33 +532,201 @@ export class Member {
 
   /**
    * Suspend the member (e.g., for overdue items or policy violation).
+   * A suspension that has already run out is closed at its end date first.
    */
-  suspend(deps: { clock: { now(): Date } }): Result<Member, SuspendError> {
-    if (this.props.membershipStatus === MembershipStatus.SUSPENDED) {
+  suspend(input: SuspendInput, deps: { clock: { now(): Date } }): Result<Member, SuspendError> {
+    const now = deps.clock.now();
+    if (this.membershipStatusAt(now) === MembershipStatus.SUSPENDED) {
       return err({ type: 'already_suspended' });
     }
+    const reason = input.reason.trim();
+    if (!reason) {
+      return err({ type: 'empty_reason' });
+    }
+    if (input.endsAt && input.endsAt <= now) {
+      return err({ type: 'end_before_start' });
+    }
 
     return ok(
       new Member({
         ...this.props,
         membershipStatus: MembershipStatus.SUSPENDED,
-        updatedAt: deps.clock.now()
+        suspensions: [
+          ...this.closeCurrentSuspension(now, null),
+          {
+            reason,
+            note: input.note?.trim() || null,
+            startedAt: now,
+            endsAt: input.endsAt ?? null,
+            liftedAt: null,
+            suspendedBy: input.suspendedBy ? staffMemberId(input.suspendedBy) : null,
+            liftedBy: null
+          }
+        ],
+        updatedAt: now
       })
     );
   }
 
   /**
-   * Reinstate a suspended member.
+   * Reinstate a suspended member before the suspension runs out.
    */
-  reinstate(deps: { clock: { now(): Date } }): Result<Member, ReinstateError> {
+  reinstate(reinstatedBy: string, deps: { clock: { now(): Date } }): Result<Member, ReinstateError> {
     if (this.props.membershipStatus !== MembershipStatus.SUSPENDED) {
       return err({ type: 'not_suspended' });
     }
 
+    const now = deps.clock.now();
     return ok(
       new Member({
         ...this.props,
         membershipStatus: MembershipStatus.ACTIVE,
+        suspensions: this.closeCurrentSuspension(now, staffMemberId(reinstatedBy)),
+        updatedAt: now
+      })
+    );
+  }
+
+  /**
+   * Record that a suspension with an end date has run out.
+   */
+  liftExpiredSuspension(deps: { clock: { now(): Date } }): Result<Member, LiftExpiredSuspensionError> {
+    if (this.props.membershipStatus !== MembershipStatus.SUSPENDED) {
+      return err({ type: 'not_suspended' });
+    }
+    const now = deps.clock.now();
+    const current = this.currentSuspension;
+    if (!current?.endsAt || current.endsAt > now) {
+      return err({ type: 'suspension_not_ended' });
+    }
+
+    return ok(
+      new Member({
+        ...this.props,
+        membershipStatus: MembershipStatus.ACTIVE,
+        suspensions: this.closeCurrentSuspension(now, null),
+        updatedAt: now
+      })
+    );
+  }
+
+  // A suspension that has already run out is closed at its end date
+  private closeCurrentSuspension(now: Date, liftedBy: StaffMemberId | null): Suspension[] {
+    const current = this.currentSuspension;
+    if (!current) {
+      return [...this.props.suspensions];
+    }
+    const expired = current.endsAt !== null && current.endsAt <= now;
+    return [
+      ...this.props.suspensions.slice(0, -1),
+      { ...current, liftedAt: expired ? current.endsAt : now, liftedBy: expired ? null : liftedBy }
+    ];
+  }
+
+  /**
+   * Start or extend the membership term by `termDays`. A term that has not ended yet is
+   * extended from its end date; otherwise a new term starts now and an expired membership
+   * becomes active again. Suspensions are unaffected.
+   */
+  renewTerm(plan: MembershipPlan, termDays: number, deps: { clock: { now(): Date } }): Member {
+    const now = deps.clock.now();
+    const current = this.props.term && this.props.term.endsAt > now ? this.props.term : null;
+    const from = current ? current.endsAt : now;
+    const endsAt = new Date(from.getTime() + termDays * DAY_MS);
+
+    return new Member({
+      ...this.props,
+      membershipStatus:
+        this.props.membershipStatus === MembershipStatus.EXPIRED ? MembershipStatus.ACTIVE : this.props.membershipStatus,
+      term: { plan, startsAt: current ? current.startsAt : now, endsAt },
+      updatedAt: now
+    });
+  }
+
+  /**
+   * Record that an active membership has passed the end of its term.
+   */
+  expireMembership(deps: { clock: { now(): Date } }): Result<Member, ExpireMembershipError> {
+    if (this.props.membershipStatus !== MembershipStatus.ACTIVE) {
+      return err({ type: 'not_active' });
+    }
+    const now = deps.clock.now();
+    if (!this.hasTermEnded(now)) {
+      return err({ type: 'term_not_ended' });
+    }
+
+    return ok(
+      new Member({
+        ...this.props,
+        membershipStatus: MembershipStatus.EXPIRED,
+        updatedAt: now
+      })
+    );
+  }
+
+  /**
+   * Grant a certification, replacing any earlier grant of the same type.
+   */
+  grantCertification(
+    certificationType: CertificationType,
+    grantedBy: string,
+    deps: { clock: { now(): Date } }
+  ): Member {
+    const now = deps.clock.now();
+    return new Member({
+      ...this.props,
+      certifications: [
+        ...this.props.certifications.filter((c) => c.certificationTypeId !== certificationType.id),
+        {
+          certificationTypeId: certificationType.id,
+          grantedAt: now,
+          grantedBy: staffMemberId(grantedBy),
+          expiresAt: certificationType.expiryFor(now),
+          revokedAt: null,
+          revokedBy: null
+        }
+      ],
+      updatedAt: now
+    });
+  }
+
+  /**
+   * Revoke a certification the member currently holds.
+   */
+  revokeCertification(
+    typeId: CertificationTypeId,
+    revokedBy: string,
+    deps: { clock: { now(): Date } }
+  ): Result<Member, RevokeCertificationError> {
+    const now = deps.clock.now();
+    if (!this.hasCertification(typeId, now)) {
+      return err({ type: 'not_certified', certificationTypeId: typeId });
+    }
+    return ok(
+      new Member({
+        ...this.props,
+        certifications: this.props.certifications.map((c) =>
+          c.certificationTypeId === typeId ? { ...c, revokedAt: now, revokedBy: staffMemberId(revokedBy) } : c
+        ),
+        updatedAt: now
+      })
+    );
+  }
+
+  /**
+   * Move the member to another membership tier.
+   */
+  changeTier(tier: MembershipTier, deps: { clock: { now(): Date } }): Result<Member, ChangeTierError> {
+    if (!Object.values(MembershipTier).includes(tier)) {
+      return err({ type: 'invalid_tier', tier });
+    }
+    if (tier === this.props.tier) {
+      return err({ type: 'same_tier', tier });
+    }
+    return ok(
+      new Member({
+        ...this.props,
+        tier,
         updatedAt: deps.clock.now()
       })
     );
@@ -0,0 +1,318 @@
+import { type Result, ok, err } from '../../application/result.js';
+import { ReservationStatus } from '../types.js';
+import {
+  type ReservationId,
+  reservationId,
+  type MemberId,
+  memberId,
+  type GearItemId,
+  gearItemId,
+  type GearTypeId,
+  gearTypeId,
+  type StaffMemberId,
+  staffMemberId,
+  type CheckoutId,
+  checkoutId
+} from '../value-objects/index.js';
+import type { CheckoutItemInput } from './checkout.js';
+
+/**
+ * A reserved line is either a specific gear item or a bulk quantity of a gear type.
+ */
+export interface ReservationItem {
+  readonly gearItemId: GearItemId | null;
+  readonly gearTypeId: GearTypeId | null;
+  readonly quantity: number; // 1 for individual, N for bulk
+}
+
+/**
+ * A span of time between two instants, inclusive at both ends.
+ */
+export interface ReservationWindow {
+  readonly start: Date;
+  readonly end: Date;
+}
+
+/**
+ * Props for creating a new Reservation.
+ */
+export interface CreateReservationInput {
+  memberId: string;
+  staffMemberId: string;
+  items: CheckoutItemInput[];
+  pickupWindow: ReservationWindow;
+  returnWindow: ReservationWindow;
+  notes?: string;
+}
+
+/**
+ * Props for hydrating a Reservation from database.
+ */
+export interface ReservationRecord {
+  id: string;
+  memberId: string;
+  staffMemberId: string;
+  items: string; // JSON serialized ReservationItem[]
+  status: ReservationStatus;
+  pickupStart: string;
+  pickupEnd: string;
+  returnStart: string;
+  returnEnd: string;
+  createdAt: string;
+  updatedAt: string;
+  checkoutId: string | null;
+  notes: string | null;
+}
+
+interface ReservationProps {
+  id: ReservationId;
+  memberId: MemberId;
+  staffMemberId: StaffMemberId;
+  items: ReservationItem[];
+  status: ReservationStatus;
+  pickupWindow: ReservationWindow;
+  returnWindow: ReservationWindow;
+  createdAt: Date;
+  updatedAt: Date;
+  checkoutId: CheckoutId | null;
+  notes: string | null;
+}
+
+export type CreateReservationError =
+  | { type: 'no_items' }
+  | { type: 'invalid_quantity'; index: number; quantity: number }
+  | { type: 'invalid_window'; reason: string };
+
+export type ReservationTransitionError = { type: 'not_pending'; status: ReservationStatus };
+
+/**
+ * Reservation holds gear for a member over a future period.
+ * The gear is blocked from the start of the pickup window to the end of the return window.
+ */
+export class Reservation {
+  private constructor(private readonly props: ReservationProps) {}
+
+  // Getters
+  get id(): ReservationId {
+    return this.props.id;
+  }
+  get memberId(): MemberId {
+    return this.props.memberId;
+  }
+  get staffMemberId(): StaffMemberId {
+    return this.props.staffMemberId;
+  }
+  get items(): readonly ReservationItem[] {
+    return this.props.items;
+  }
+  get status(): ReservationStatus {
+    return this.props.status;
+  }
+  get pickupWindow(): ReservationWindow {
+    return this.props.pickupWindow;
+  }
+  get returnWindow(): ReservationWindow {
+    return this.props.returnWindow;
+  }
+  get createdAt(): Date {
+    return this.props.createdAt;
+  }
+  get updatedAt(): Date {
+    return this.props.updatedAt;
+  }
+  get checkoutId(): CheckoutId | null {
+    return this.props.checkoutId;
+  }
+  get notes(): string | null {
+    return this.props.notes;
+  }
+
+  /**
+   * The full period during which the reserved gear is unavailable to others.
+   */
+  get blockedWindow(): ReservationWindow {
+    return { start: this.props.pickupWindow.start, end: this.props.returnWindow.end };
+  }
+
+  /**
+   * Factory method to create a new Reservation with validation.
+   */
+  static create(
+    input: CreateReservationInput,
+    deps: { idGenerator: { generate(): string }; clock: { now(): Date } }
+  ): Result<Reservation, CreateReservationError> {
+    if (input.items.length === 0) {
+      return err({ type: 'no_items' });
+    }
+
+    const { pickupWindow, returnWindow } = input;
+    if (pickupWindow.end < pickupWindow.start) {
+      return err({ type: 'invalid_window', reason: 'Pickup window ends before it starts' });
+    }
+    if (returnWindow.end < returnWindow.start) {
+      return err({ type: 'invalid_window', reason: 'Return window ends before it starts' });
+    }
+    if (returnWindow.end <= pickupWindow.start) {
+      return err({ type: 'invalid_window', reason: 'Return window must end after pickup starts' });
+    }
+
+    const items: ReservationItem[] = [];
+    for (let i = 0; i < input.items.length; i++) {
+      const itemInput = input.items[i];
+
+      if (itemInput.type === 'bulk' && itemInput.quantity < 1) {
+        return err({ type: 'invalid_quantity', index: i, quantity: itemInput.quantity });
+      }
+
+      items.push({
+        gearItemId: itemInput.type === 'individual' ? gearItemId(itemInput.gearItemId) : null,
+        gearTypeId: itemInput.type === 'bulk' ? gearTypeId(itemInput.gearTypeId) : null,
+        quantity: itemInput.type === 'bulk' ? itemInput.quantity : 1
+      });
+    }
+
+    const now = deps.clock.now();
+    return ok(
+      new Reservation({
+        id: reservationId(deps.idGenerator.generate()),
+        memberId: memberId(input.memberId),
+        staffMemberId: staffMemberId(input.staffMemberId),
+        items,
+        status: ReservationStatus.PENDING,
+        pickupWindow,
+        returnWindow,
+        createdAt: now,
+        updatedAt: now,
+        checkoutId: null,
+        notes: input.notes?.trim() || null
+      })
+    );
+  }
+
+  /**
+   * Hydrate a Reservation from database record.
+   */
+  static fromRecord(record: ReservationRecord): Reservation {
+    const items: ReservationItem[] = JSON.parse(record.items).map((item: any) => ({
+      gearItemId: item.gearItemId ? gearItemId(item.gearItemId) : null,
+      gearTypeId: item.gearTypeId ? gearTypeId(item.gearTypeId) : null,
+      quantity: item.quantity
+    }));
+
+    return new Reservation({
+      id: reservationId(record.id),
+      memberId: memberId(record.memberId),
+      staffMemberId: staffMemberId(record.staffMemberId),
+      items,
+      status: record.status,
+      pickupWindow: { start: new Date(record.pickupStart), end: new Date(record.pickupEnd) },
+      returnWindow: { start: new Date(record.returnStart), end: new Date(record.returnEnd) },
+      createdAt: new Date(record.createdAt),
+      updatedAt: new Date(record.updatedAt),
+      checkoutId: record.checkoutId ? checkoutId(record.checkoutId) : null,
+      notes: record.notes
+    });
+  }
+
+  /**
+   * Convert to a record for database storage.
+   */
+  toRecord(): ReservationRecord {
+    return {
+      id: this.props.id,
+      memberId: this.props.memberId,
+      staffMemberId: this.props.staffMemberId,
+      items: JSON.stringify(this.props.items),
+      status: this.props.status,
+      pickupStart: this.props.pickupWindow.start.toISOString(),
+      pickupEnd: this.props.pickupWindow.end.toISOString(),
+      returnStart: this.props.returnWindow.start.toISOString(),
+      returnEnd: this.props.returnWindow.end.toISOString(),
+      createdAt: this.props.createdAt.toISOString(),
+      updatedAt: this.props.updatedAt.toISOString(),
+      checkoutId: this.props.checkoutId,
+      notes: this.props.notes
+    };
+  }
+
+  // Query methods
+
+  /**
+   * Check if the reservation still holds gear as of the given time.
+   * A pending reservation lapses once its pickup window has passed.
+   */
+  isHolding(asOf: Date): boolean {
+    return this.props.status === ReservationStatus.PENDING && this.props.pickupWindow.end >= asOf;
+  }
+
+  /**
+   * Check if the blocked period overlaps the given span.
+   */
+  overlaps(start: Date, end: Date): boolean {
+    const blocked = this.blockedWindow;
+    return blocked.start <= end && start <= blocked.end;
+  }
+
+  /**
+   * Check if the given instant falls inside the pickup window.
+   */
+  isInPickupWindow(asOf: Date): boolean {
+    return this.props.pickupWindow.start <= asOf && asOf <= this.props.pickupWindow.end;
+  }
+
+  /**
+   * Check if a specific gear item is part of this reservation.
+   */
+  includesGearItem(itemId: string): boolean {
+    return this.props.items.some((item) => item.gearItemId === itemId);
+  }
+
+  /**
+   * Get how many units of a BULK gear type this reservation holds.
+   */
+  getReservedBulkQuantity(typeId: string): number {
+    return this.props.items
+      .filter((item) => item.gearItemId === null && item.gearTypeId === typeId)
+      .reduce((sum, item) => sum + item.quantity, 0);
+  }
+
+  // State transitions
+
+  /**
+   * Cancel the reservation and release the held gear.
+   */
+  cancel(deps: { clock: { now(): Date } }): Result<Reservation, ReservationTransitionError> {
+    if (this.props.status !== ReservationStatus.PENDING) {
+      return err({ type: 'not_pending', status: this.props.status });
+    }
+
+    return ok(
+      new Reservation({
+        ...this.props,
+        status: ReservationStatus.CANCELLED,
+        updatedAt: deps.clock.now()
+      })
+    );
+  }
+
+  /**
+   * Mark the reservation as picked up by the given checkout.
+   */
+  fulfill(
+    fulfilledBy: CheckoutId,
+    deps: { clock: { now(): Date } }
+  ): Result<Reservation, ReservationTransitionError> {
+    if (this.props.status !== ReservationStatus.PENDING) {
+      return err({ type: 'not_pending', status: this.props.status });
+    }
+
+    return ok(
+      new Reservation({
+        ...this.props,
+        status: ReservationStatus.FULFILLED,
+        checkoutId: fulfilledBy,
+        updatedAt: deps.clock.now()
+      })
+    );
+  }
+}
@@ -0,0 +1,235 @@
+import { type Result, ok, err } from '../../application/result.js';
+import { type StaffMemberId, staffMemberId } from '../value-objects/index.js';
+import { StaffRole } from '../types.js';
+
+// Incorrect PINs in a row before sign-in is locked
+export const MAX_PIN_ATTEMPTS = 5;
+export const PIN_LOCKOUT_MS = 5 * 60 * 1000;
+
+/**
+ * Props for creating a new StaffMember.
+ * The PIN arrives already hashed; hashing is an infrastructure concern.
+ */
+export interface CreateStaffMemberInput {
+  name: string;
+  pinHash: string;
+  role: StaffRole;
+}
+
+/**
+ * Props for hydrating a StaffMember from database.
+ */
+export interface StaffMemberRecord {
+  id: string;
+  name: string;
+  pinHash: string;
+  role: StaffRole;
+  isActive: boolean;
+  lastSignInAt: string | null;
+  // Absent on records written before PIN lockout
+  failedPinAttempts?: number;
+  pinLockedUntil?: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+interface StaffMemberProps {
+  id: StaffMemberId;
+  name: string;
+  pinHash: string;
+  role: StaffRole;
+  isActive: boolean;
+  lastSignInAt: Date | null;
+  failedPinAttempts: number;
+  pinLockedUntil: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type CreateStaffMemberError = { type: 'empty_name' };
+
+export type DeactivateStaffMemberError = { type: 'already_inactive' };
+
+/**
+ * StaffMember is a gear room worker who signs in at the desk with a PIN.
+ * Checkouts, returns and inventory changes are attributed to them.
+ */
+export class StaffMember {
+  private constructor(private readonly props: StaffMemberProps) {}
+
+  // Getters
+  get id(): StaffMemberId {
+    return this.props.id;
+  }
+  get name(): string {
+    return this.props.name;
+  }
+  get pinHash(): string {
+    return this.props.pinHash;
+  }
+  get role(): StaffRole {
+    return this.props.role;
+  }
+  get isActive(): boolean {
+    return this.props.isActive;
+  }
+  get lastSignInAt(): Date | null {
+    return this.props.lastSignInAt;
+  }
+  get failedPinAttempts(): number {
+    return this.props.failedPinAttempts;
+  }
+  get pinLockedUntil(): Date | null {
+    return this.props.pinLockedUntil;
+  }
+  get createdAt(): Date {
+    return this.props.createdAt;
+  }
+  get updatedAt(): Date {
+    return this.props.updatedAt;
+  }
+
+  /**
+   * Factory method to create a new StaffMember with validation.
+   */
+  static create(
+    input: CreateStaffMemberInput,
+    deps: { idGenerator: { generate(): string }; clock: { now(): Date } }
+  ): Result<StaffMember, CreateStaffMemberError> {
+    const name = input.name.trim();
+    if (!name) {
+      return err({ type: 'empty_name' });
+    }
+
+    const now = deps.clock.now();
+    return ok(
+      new StaffMember({
+        id: staffMemberId(deps.idGenerator.generate()),
+        name,
+        pinHash: input.pinHash,
+        role: input.role,
+        isActive: true,
+        lastSignInAt: null,
+        failedPinAttempts: 0,
+        pinLockedUntil: null,
+        createdAt: now,
+        updatedAt: now
+      })
+    );
+  }
+
+  /**
+   * Hydrate a StaffMember from database record.
+   */
+  static fromRecord(record: StaffMemberRecord): StaffMember {
+    return new StaffMember({
+      id: staffMemberId(record.id),
+      name: record.name,
+      pinHash: record.pinHash,
+      role: record.role,
+      isActive: record.isActive,
+      lastSignInAt: record.lastSignInAt ? new Date(record.lastSignInAt) : null,
+      failedPinAttempts: record.failedPinAttempts ?? 0,
+      pinLockedUntil: record.pinLockedUntil ? new Date(record.pinLockedUntil) : null,
+      createdAt: new Date(record.createdAt),
+      updatedAt: new Date(record.updatedAt)
+    });
+  }
+
+  /**
+   * Convert to a record for database storage.
+   */
+  toRecord(): StaffMemberRecord {
+    return {
+      id: this.props.id,
+      name: this.props.name,
+      pinHash: this.props.pinHash,
+      role: this.props.role,
+      isActive: this.props.isActive,
+      lastSignInAt: this.props.lastSignInAt?.toISOString() ?? null,
+      failedPinAttempts: this.props.failedPinAttempts,
+      pinLockedUntil: this.props.pinLockedUntil?.toISOString() ?? null,
+      createdAt: this.props.createdAt.toISOString(),
+      updatedAt: this.props.updatedAt.toISOString()
+    };
+  }
+
+  /**
+   * Whether sign-in is locked after too many incorrect PINs.
+   */
+  isPinLocked(now: Date): boolean {
+    return this.props.pinLockedUntil !== null && this.props.pinLockedUntil > now;
+  }
+
+  // State transitions
+
+  /**
+   * Record a successful sign-in, clearing any incorrect PIN attempts.
+   */
+  recordSignIn(deps: { clock: { now(): Date } }): StaffMember {
+    const now = deps.clock.now();
+    return new StaffMember({
+      ...this.props,
+      lastSignInAt: now,
+      failedPinAttempts: 0,
+      pinLockedUntil: null,
+      updatedAt: now
+    });
+  }
+
+  /**
+   * Count an incorrect PIN. Reaching MAX_PIN_ATTEMPTS locks sign-in for PIN_LOCKOUT_MS
+   * and starts the count again.
+   */
+  recordFailedPinAttempt(deps: { clock: { now(): Date } }): StaffMember {
+    const now = deps.clock.now();
+    const attempts = this.props.failedPinAttempts + 1;
+    const locked = attempts >= MAX_PIN_ATTEMPTS;
+    return new StaffMember({
+      ...this.props,
+      failedPinAttempts: locked ? 0 : attempts,
+      pinLockedUntil: locked ? new Date(now.getTime() + PIN_LOCKOUT_MS) : this.props.pinLockedUntil,
+      updatedAt: now
+    });
+  }
+
+  /**
+   * Replace the PIN with a newly hashed one. Lifts any PIN lockout.
+   */
+  changePin(pinHash: string, deps: { clock: { now(): Date } }): StaffMember {
+    return new StaffMember({
+      ...this.props,
+      pinHash,
+      failedPinAttempts: 0,
+      pinLockedUntil: null,
+      updatedAt: deps.clock.now()
+    });
+  }
+
+  /**
+   * Assign a different role.
+   */
+  changeRole(role: StaffRole, deps: { clock: { now(): Date } }): StaffMember {
+    return new StaffMember({
+      ...this.props,
+      role,
+      updatedAt: deps.clock.now()
+    });
+  }
+
+  /**
+   * Deactivate the account. Past attribution is kept; sign-in is refused.
+   */
+  deactivate(deps: { clock: { now(): Date } }): Result<StaffMember, DeactivateStaffMemberError> {
+    if (!this.props.isActive) {
+      return err({ type: 'already_inactive' });
+    }
+    return ok(
+      new StaffMember({
+        ...this.props,
+        isActive: false,
+        updatedAt: deps.clock.now()
+      })
+    );
+  }
+}
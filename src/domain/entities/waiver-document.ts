@@ -0,0 +1,181 @@
+import { type Result, ok, err } from '../../application/result.js';
+import {
+  type WaiverDocumentId,
+  waiverDocumentId,
+  type StaffMemberId,
+  staffMemberId
+} from '../value-objects/index.js';
+
+/**
+ * Props for publishing a new WaiverDocument.
+ */
+export interface CreateWaiverDocumentInput {
+  version: string;
+  text: string;
+  // Defaults to the time of publishing
+  effectiveAt?: Date;
+  validityDays: number;
+  invalidatesPriorSignatures: boolean;
+  publishedBy: string;
+}
+
+/**
+ * Props for hydrating a WaiverDocument from database.
+ */
+export interface WaiverDocumentRecord {
+  id: string;
+  version: string;
+  text: string;
+  effectiveAt: string;
+  validityDays: number;
+  invalidatesPriorSignatures: boolean;
+  publishedBy: string;
+  publishedAt: string;
+}
+
+interface WaiverDocumentProps {
+  id: WaiverDocumentId;
+  version: string;
+  text: string;
+  effectiveAt: Date;
+  validityDays: number;
+  invalidatesPriorSignatures: boolean;
+  publishedBy: StaffMemberId;
+  publishedAt: Date;
+}
+
+export type CreateWaiverDocumentError =
+  | { type: 'empty_version' }
+  | { type: 'empty_text' }
+  | { type: 'invalid_validity'; validityDays: number };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * WaiverDocument is one published version of the liability waiver members sign.
+ * Published documents are never edited; a change means publishing a new version.
+ */
+export class WaiverDocument {
+  private constructor(private readonly props: WaiverDocumentProps) {}
+
+  // Getters
+  get id(): WaiverDocumentId {
+    return this.props.id;
+  }
+  get version(): string {
+    return this.props.version;
+  }
+  get text(): string {
+    return this.props.text;
+  }
+  get effectiveAt(): Date {
+    return this.props.effectiveAt;
+  }
+  /**
+   * How long a signature on this version stays valid.
+   */
+  get validityDays(): number {
+    return this.props.validityDays;
+  }
+  /**
+   * Once effective, signatures on earlier versions no longer count.
+   */
+  get invalidatesPriorSignatures(): boolean {
+    return this.props.invalidatesPriorSignatures;
+  }
+  get publishedBy(): StaffMemberId {
+    return this.props.publishedBy;
+  }
+  get publishedAt(): Date {
+    return this.props.publishedAt;
+  }
+
+  /**
+   * Factory method to publish a new WaiverDocument with validation.
+   */
+  static create(
+    input: CreateWaiverDocumentInput,
+    deps: { idGenerator: { generate(): string }; clock: { now(): Date } }
+  ): Result<WaiverDocument, CreateWaiverDocumentError> {
+    const version = input.version.trim();
+    if (!version) {
+      return err({ type: 'empty_version' });
+    }
+    const text = input.text.trim();
+    if (!text) {
+      return err({ type: 'empty_text' });
+    }
+    if (!Number.isInteger(input.validityDays) || input.validityDays <= 0) {
+      return err({ type: 'invalid_validity', validityDays: input.validityDays });
+    }
+
+    const now = deps.clock.now();
+    return ok(
+      new WaiverDocument({
+        id: waiverDocumentId(deps.idGenerator.generate()),
+        version,
+        text,
+        effectiveAt: input.effectiveAt ?? now,
+        validityDays: input.validityDays,
+        invalidatesPriorSignatures: input.invalidatesPriorSignatures,
+        publishedBy: staffMemberId(input.publishedBy),
+        publishedAt: now
+      })
+    );
+  }
+
+  /**
+   * Hydrate a WaiverDocument from database record.
+   */
+  static fromRecord(record: WaiverDocumentRecord): WaiverDocument {
+    return new WaiverDocument({
+      id: waiverDocumentId(record.id),
+      version: record.version,
+      text: record.text,
+      effectiveAt: new Date(record.effectiveAt),
+      validityDays: record.validityDays,
+      invalidatesPriorSignatures: record.invalidatesPriorSignatures,
+      publishedBy: staffMemberId(record.publishedBy),
+      publishedAt: new Date(record.publishedAt)
+    });
+  }
+
+  /**
+   * Convert to a record for database storage.
+   */
+  toRecord(): WaiverDocumentRecord {
+    return {
+      id: this.props.id,
+      version: this.props.version,
+      text: this.props.text,
+      effectiveAt: this.props.effectiveAt.toISOString(),
+      validityDays: this.props.validityDays,
+      invalidatesPriorSignatures: this.props.invalidatesPriorSignatures,
+      publishedBy: this.props.publishedBy,
+      publishedAt: this.props.publishedAt.toISOString()
+    };
+  }
+
+  // Queries
+
+  isEffective(asOf: Date): boolean {
+    return this.props.effectiveAt <= asOf;
+  }
+
+  /**
+   * When a signature made at `signedAt` on this version runs out.
+   */
+  expiryFor(signedAt: Date): Date {
+    return new Date(signedAt.getTime() + this.props.validityDays * DAY_MS);
+  }
+
+  /**
+   * Whether a signature on `signedVersion` still satisfies this document, ignoring expiry.
+   */
+  accepts(signedVersion: string | null): boolean {
+    if (signedVersion === this.props.version) {
+      return true;
+    }
+    return signedVersion !== null && !this.props.invalidatesPriorSignatures;
+  }
+}
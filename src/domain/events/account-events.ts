@@ -0,0 +1,57 @@
+import { defineEvent } from './domain-event.js';
+import { ChargeType } from '../types.js';
+
+const CHARGE_TYPES = Object.values(ChargeType);
+
+export interface ChargePostedPayload {
+  memberId: string;
+  entryId: string;
+  chargeType: ChargeType;
+  amountCents: number;
+}
+
+export interface PaymentPostedPayload {
+  memberId: string;
+  entryId: string;
+  amountCents: number;
+}
+
+export interface ChargeVoidedPayload {
+  memberId: string;
+  chargeId: string;
+  // The waiver entry that cancels the charge
+  entryId: string;
+  amountCents: number;
+}
+
+export interface RefundPostedPayload {
+  memberId: string;
+  entryId: string;
+  amountCents: number;
+}
+
+export const ChargePosted = defineEvent<'ChargePosted', ChargePostedPayload>('ChargePosted', 1, {
+  memberId: 'string',
+  entryId: 'string',
+  chargeType: { oneOf: CHARGE_TYPES },
+  amountCents: 'number'
+});
+
+export const PaymentPosted = defineEvent<'PaymentPosted', PaymentPostedPayload>('PaymentPosted', 1, {
+  memberId: 'string',
+  entryId: 'string',
+  amountCents: 'number'
+});
+
+export const ChargeVoided = defineEvent<'ChargeVoided', ChargeVoidedPayload>('ChargeVoided', 1, {
+  memberId: 'string',
+  chargeId: 'string',
+  entryId: 'string',
+  amountCents: 'number'
+});
+
+export const RefundPosted = defineEvent<'RefundPosted', RefundPostedPayload>('RefundPosted', 1, {
+  memberId: 'string',
+  entryId: 'string',
+  amountCents: 'number'
+});
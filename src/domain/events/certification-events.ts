@@ -0,0 +1,51 @@
+import { defineEvent } from './domain-event.js';
+
+export interface CertificationTypeChangedPayload {
+  name: string;
+}
+
+export interface CertificationGrantedPayload {
+  memberId: string;
+  certificationTypeId: string;
+  name: string;
+  expiresAt?: string;
+}
+
+export interface CertificationRevokedPayload {
+  memberId: string;
+  certificationTypeId: string;
+  name: string;
+}
+
+export const CertificationTypeCreated = defineEvent<'CertificationTypeCreated', CertificationTypeChangedPayload>(
+  'CertificationTypeCreated',
+  1,
+  { name: 'string' }
+);
+
+export const CertificationTypeUpdated = defineEvent<'CertificationTypeUpdated', CertificationTypeChangedPayload>(
+  'CertificationTypeUpdated',
+  1,
+  { name: 'string' }
+);
+
+export const CertificationGranted = defineEvent<'CertificationGranted', CertificationGrantedPayload>(
+  'CertificationGranted',
+  1,
+  {
+    memberId: 'string',
+    certificationTypeId: 'string',
+    name: 'string',
+    expiresAt: 'string?'
+  }
+);
+
+export const CertificationRevoked = defineEvent<'CertificationRevoked', CertificationRevokedPayload>(
+  'CertificationRevoked',
+  1,
+  {
+    memberId: 'string',
+    certificationTypeId: 'string',
+    name: 'string'
+  }
+);
@@ -0,0 +1,107 @@
+import { defineEvent } from './domain-event.js';
+import { GearCondition } from '../types.js';
+
+const GEAR_CONDITIONS = Object.values(GearCondition);
+
+export interface CheckoutCreatedPayload {
+  checkoutId: string;
+  memberId: string;
+  itemCount: number;
+}
+
+export interface CheckoutRenewedPayload {
+  checkoutId: string;
+  memberId: string;
+  itemId: string;
+  renewalCount: number;
+  previousDueAt: string;
+  newDueAt: string;
+  staffOverride: boolean;
+}
+
+export interface ItemReturnedPayload {
+  checkoutId: string;
+  gearItemId: string;
+  itemCode: string;
+  condition: GearCondition;
+  checkoutComplete: boolean;
+  // Set when the return checklist found components missing
+  missingComponents?: string;
+}
+
+export interface ItemsReturnedPayload {
+  checkoutId: string;
+  returnCount: number;
+  checkoutComplete: boolean;
+}
+
+export interface ItemLostPayload {
+  checkoutId: string;
+  memberId: string;
+  gearItemId: string;
+  itemCode: string;
+  // Replacement charge on the member's account; absent when nothing was charged
+  chargeId?: string;
+  amountCents: number;
+  checkoutComplete: boolean;
+}
+
+export interface LostItemRecoveredPayload {
+  checkoutId: string;
+  memberId: string;
+  gearItemId: string;
+  itemCode: string;
+  condition: GearCondition;
+  // Replacement charge cancelled by the recovery, if one was still outstanding
+  voidedChargeId?: string;
+}
+
+export const CheckoutCreated = defineEvent<'CheckoutCreated', CheckoutCreatedPayload>('CheckoutCreated', 1, {
+  checkoutId: 'string',
+  memberId: 'string',
+  itemCount: 'number'
+});
+
+export const CheckoutRenewed = defineEvent<'CheckoutRenewed', CheckoutRenewedPayload>('CheckoutRenewed', 1, {
+  checkoutId: 'string',
+  memberId: 'string',
+  itemId: 'string',
+  renewalCount: 'number',
+  previousDueAt: 'string',
+  newDueAt: 'string',
+  staffOverride: 'boolean'
+});
+
+export const ItemReturned = defineEvent<'ItemReturned', ItemReturnedPayload>('ItemReturned', 1, {
+  checkoutId: 'string',
+  gearItemId: 'string',
+  itemCode: 'string',
+  condition: { oneOf: GEAR_CONDITIONS },
+  checkoutComplete: 'boolean',
+  missingComponents: 'string?'
+});
+
+export const ItemsReturned = defineEvent<'ItemsReturned', ItemsReturnedPayload>('ItemsReturned', 1, {
+  checkoutId: 'string',
+  returnCount: 'number',
+  checkoutComplete: 'boolean'
+});
+
+export const ItemLost = defineEvent<'ItemLost', ItemLostPayload>('ItemLost', 1, {
+  checkoutId: 'string',
+  memberId: 'string',
+  gearItemId: 'string',
+  itemCode: 'string',
+  chargeId: 'string?',
+  amountCents: 'number',
+  checkoutComplete: 'boolean'
+});
+
+export const LostItemRecovered = defineEvent<'LostItemRecovered', LostItemRecoveredPayload>('LostItemRecovered', 1, {
+  checkoutId: 'string',
+  memberId: 'string',
+  gearItemId: 'string',
+  itemCode: 'string',
+  condition: { oneOf: GEAR_CONDITIONS },
+  voidedChargeId: 'string?'
+});
@@ -0,0 +1,102 @@
+/**
+ * Common shape of every domain event.
+ * `version` is the payload schema version, bumped when a payload changes shape.
+ */
+export interface EventEnvelope<TType extends string, TPayload> {
+  readonly id: string;
+  readonly type: TType;
+  readonly version: number;
+  readonly aggregateId: string;
+  readonly occurredAt: Date;
+  // Staff member who performed the action, if any
+  readonly staffMemberId?: string;
+  readonly payload: TPayload;
+}
+
+/**
+ * Validation rule for one payload field. A `?` suffix marks the field optional.
+ */
+export type FieldSpec =
+  | 'string'
+  | 'number'
+  | 'boolean'
+  | 'string?'
+  | 'number?'
+  | 'boolean?'
+  | { readonly oneOf: readonly string[]; readonly optional?: boolean };
+
+/**
+ * One rule per payload key, so a schema cannot drift from its payload type.
+ */
+export type PayloadSchema<TPayload> = { readonly [K in keyof TPayload]-?: FieldSpec };
+
+export interface CreateEventInput<TPayload> {
+  aggregateId: string;
+  staffMemberId?: string;
+  payload: TPayload;
+}
+
+export interface EventDefinition<TType extends string, TPayload> {
+  readonly type: TType;
+  readonly version: number;
+  readonly schema: PayloadSchema<TPayload>;
+  create(
+    input: CreateEventInput<TPayload>,
+    deps: { idGenerator: { generate(): string }; clock: { now(): Date } }
+  ): EventEnvelope<TType, TPayload>;
+}
+
+/**
+ * Declare an event type with its current payload version and schema.
+ */
+export function defineEvent<TType extends string, TPayload>(
+  type: TType,
+  version: number,
+  schema: PayloadSchema<TPayload>
+): EventDefinition<TType, TPayload> {
+  return {
+    type,
+    version,
+    schema,
+    create(input, deps) {
+      return {
+        id: deps.idGenerator.generate(),
+        type,
+        version,
+        aggregateId: input.aggregateId,
+        occurredAt: deps.clock.now(),
+        ...(input.staffMemberId !== undefined && { staffMemberId: input.staffMemberId }),
+        payload: input.payload
+      };
+    }
+  };
+}
+
+/**
+ * Check a raw payload against a schema. Returns a description of the first problem, or null.
+ */
+export function validatePayload(schema: Record<string, FieldSpec>, payload: unknown): string | null {
+  if (typeof payload !== 'object' || payload === null || Array.isArray(payload)) {
+    return 'payload is not an object';
+  }
+  const values = payload as Record<string, unknown>;
+
+  for (const [key, spec] of Object.entries(schema)) {
+    const value = values[key];
+    const optional = typeof spec === 'string' ? spec.endsWith('?') : spec.optional === true;
+    if (value === undefined || value === null) {
+      if (optional) continue;
+      return `${key} is missing`;
+    }
+
+    if (typeof spec === 'string') {
+      const expected = spec.replace('?', '');
+      if (typeof value !== expected) {
+        return `${key} should be a ${expected}`;
+      }
+    } else if (typeof value !== 'string' || !spec.oneOf.includes(value)) {
+      return `${key} should be one of ${spec.oneOf.join(', ')}`;
+    }
+  }
+  return null;
+}
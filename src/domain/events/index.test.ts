@@ -0,0 +1,106 @@
+import { describe, it, expect } from 'vitest';
+import { ItemReturned, MemberRegistered, deserializeDomainEvent, serializeDomainEvent } from './index.js';
+import { GearCondition } from '../types.js';
+import { createTestEnvironment } from '../../test-utils/in-memory-repositories.js';
+
+// ============================================================================
+// Test helpers
+// ============================================================================
+
+function makeDeps() {
+  return createTestEnvironment();
+}
+
+function serializedItemReturned(overrides: Record<string, unknown> = {}) {
+  const event = ItemReturned.create(
+    {
+      aggregateId: 'checkout-1',
+      staffMemberId: 'staff-1',
+      payload: {
+        checkoutId: 'checkout-1',
+        gearItemId: 'item-1',
+        itemCode: 'TENT-001',
+        condition: GearCondition.GOOD,
+        checkoutComplete: true
+      }
+    },
+    makeDeps()
+  );
+  return { ...serializeDomainEvent(event), ...overrides };
+}
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+describe('domain event factories', () => {
+  it('stamp the id, version and time', () => {
+    const deps = makeDeps();
+
+    const event = MemberRegistered.create(
+      { aggregateId: 'member-1', payload: { memberId: 'member-1', collegeId: 'S100', email: 's100@example.edu' } },
+      deps
+    );
+
+    expect(event).toMatchObject({
+      id: 'test-id-1',
+      type: 'MemberRegistered',
+      version: 1,
+      occurredAt: deps.clock.now()
+    });
+    expect(event).not.toHaveProperty('staffMemberId');
+  });
+});
+
+describe('deserializeDomainEvent', () => {
+  it('round-trips a serialized event', () => {
+    const record = serializedItemReturned();
+
+    const result = deserializeDomainEvent(record);
+
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(serializeDomainEvent(result.value)).toEqual(record);
+    }
+  });
+
+  it('treats records without a version as version 1', () => {
+    const { version: _version, ...record } = serializedItemReturned();
+
+    expect(deserializeDomainEvent(record).ok).toBe(true);
+  });
+
+  it('rejects unknown event types', () => {
+    const result = deserializeDomainEvent(serializedItemReturned({ type: 'ItemTeleported' }));
+
+    expect(result).toEqual({ ok: false, error: { type: 'unknown_event_type', eventType: 'ItemTeleported' } });
+  });
+
+  it('rejects versions it does not know', () => {
+    const result = deserializeDomainEvent(serializedItemReturned({ version: 2 }));
+
+    expect(result).toEqual({
+      ok: false,
+      error: { type: 'unsupported_version', eventType: 'ItemReturned', version: 2 }
+    });
+  });
+
+  it('rejects payloads that do not match the schema', () => {
+    const missing = deserializeDomainEvent(serializedItemReturned({ payload: JSON.stringify({ checkoutId: 'c' }) }));
+    const badEnum = deserializeDomainEvent(
+      serializedItemReturned({
+        payload: JSON.stringify({
+          checkoutId: 'checkout-1',
+          gearItemId: 'item-1',
+          itemCode: 'TENT-001',
+          condition: 'sparkling',
+          checkoutComplete: true
+        })
+      })
+    );
+
+    expect(missing.ok).toBe(false);
+    expect(!missing.ok && missing.error.type).toBe('invalid_payload');
+    expect(!badEnum.ok && badEnum.error).toMatchObject({ type: 'invalid_payload', reason: expect.stringContaining('condition') });
+  });
+});
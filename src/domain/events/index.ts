@@ -0,0 +1,255 @@
+import { type Result, ok, err } from '../../application/result.js';
+import { type EventDefinition, type EventEnvelope, validatePayload } from './domain-event.js';
+import {
+  MemberRegistered,
+  WaiverSigned,
+  MemberSuspended,
+  MemberReinstated,
+  MemberContactUpdated,
+  MemberTierChanged,
+  MembershipRenewed,
+  MembershipExpired
+} from './member-events.js';
+import {
+  CheckoutCreated,
+  CheckoutRenewed,
+  ItemReturned,
+  ItemsReturned,
+  ItemLost,
+  LostItemRecovered
+} from './checkout-events.js';
+import { ReservationCreated, ReservationCancelled, ReservationFulfilled } from './reservation-events.js';
+import {
+  GearTypeCreated,
+  GearTypeUpdated,
+  GearTypeDeleted,
+  ReturnChecklistUpdated,
+  LifecycleLimitUpdated,
+  BulkQuantityUpdated,
+  BulkUnitsSentToMaintenance,
+  BulkUnitsReturnedFromMaintenance,
+  GearItemAdded,
+  GearItemUpdated,
+  GearItemSentToMaintenance,
+  GearItemReturnedFromMaintenance,
+  GearItemRetired
+} from './inventory-events.js';
+import { KitCreated, KitUpdated, KitDeleted } from './kit-events.js';
+import { StaffSignedIn, StaffRoleChanged } from './staff-events.js';
+import { ChargePosted, PaymentPosted, ChargeVoided, RefundPosted } from './account-events.js';
+import { WaiverDocumentPublished } from './waiver-events.js';
+import {
+  CertificationTypeCreated,
+  CertificationTypeUpdated,
+  CertificationGranted,
+  CertificationRevoked
+} from './certification-events.js';
+import {
+  MaintenanceTicketOpened,
+  MaintenanceTicketUpdated,
+  MaintenanceTicketClosed
+} from './maintenance-events.js';
+import { InspectionScheduleUpdated, GearItemInspected } from './inspection-events.js';
+
+export * from './domain-event.js';
+export * from './member-events.js';
+export * from './checkout-events.js';
+export * from './reservation-events.js';
+export * from './inventory-events.js';
+export * from './kit-events.js';
+export * from './staff-events.js';
+export * from './account-events.js';
+export * from './waiver-events.js';
+export * from './certification-events.js';
+export * from './maintenance-events.js';
+export * from './inspection-events.js';
+
+type EventOf<D> = D extends EventDefinition<infer TType, infer TPayload> ? EventEnvelope<TType, TPayload> : never;
+
+/**
+ * Every event the gear room records. Narrow on `type` to get the payload shape.
+ */
+export type DomainEvent =
+  | EventOf<typeof MemberRegistered>
+  | EventOf<typeof WaiverSigned>
+  | EventOf<typeof MemberSuspended>
+  | EventOf<typeof MemberReinstated>
+  | EventOf<typeof MemberContactUpdated>
+  | EventOf<typeof MemberTierChanged>
+  | EventOf<typeof MembershipRenewed>
+  | EventOf<typeof MembershipExpired>
+  | EventOf<typeof CheckoutCreated>
+  | EventOf<typeof CheckoutRenewed>
+  | EventOf<typeof ItemReturned>
+  | EventOf<typeof ItemsReturned>
+  | EventOf<typeof ItemLost>
+  | EventOf<typeof LostItemRecovered>
+  | EventOf<typeof ReservationCreated>
+  | EventOf<typeof ReservationCancelled>
+  | EventOf<typeof ReservationFulfilled>
+  | EventOf<typeof GearTypeCreated>
+  | EventOf<typeof GearTypeUpdated>
+  | EventOf<typeof GearTypeDeleted>
+  | EventOf<typeof ReturnChecklistUpdated>
+  | EventOf<typeof LifecycleLimitUpdated>
+  | EventOf<typeof BulkQuantityUpdated>
+  | EventOf<typeof BulkUnitsSentToMaintenance>
+  | EventOf<typeof BulkUnitsReturnedFromMaintenance>
+  | EventOf<typeof GearItemAdded>
+  | EventOf<typeof GearItemUpdated>
+  | EventOf<typeof GearItemSentToMaintenance>
+  | EventOf<typeof GearItemReturnedFromMaintenance>
+  | EventOf<typeof GearItemRetired>
+  | EventOf<typeof KitCreated>
+  | EventOf<typeof KitUpdated>
+  | EventOf<typeof KitDeleted>
+  | EventOf<typeof StaffSignedIn>
+  | EventOf<typeof StaffRoleChanged>
+  | EventOf<typeof ChargePosted>
+  | EventOf<typeof PaymentPosted>
+  | EventOf<typeof ChargeVoided>
+  | EventOf<typeof RefundPosted>
+  | EventOf<typeof WaiverDocumentPublished>
+  | EventOf<typeof CertificationTypeCreated>
+  | EventOf<typeof CertificationTypeUpdated>
+  | EventOf<typeof CertificationGranted>
+  | EventOf<typeof CertificationRevoked>
+  | EventOf<typeof MaintenanceTicketOpened>
+  | EventOf<typeof MaintenanceTicketUpdated>
+  | EventOf<typeof MaintenanceTicketClosed>
+  | EventOf<typeof InspectionScheduleUpdated>
+  | EventOf<typeof GearItemInspected>;
+
+export type DomainEventType = DomainEvent['type'];
+
+export type DomainEventOfType<T extends DomainEventType> = Extract<DomainEvent, { type: T }>;
+
+// Keyed by type so adding an event to the union without registering it fails to compile
+const EVENT_DEFINITIONS: { [T in DomainEventType]: EventDefinition<T, DomainEventOfType<T>['payload']> } = {
+  MemberRegistered,
+  WaiverSigned,
+  MemberSuspended,
+  MemberReinstated,
+  MemberContactUpdated,
+  MemberTierChanged,
+  MembershipRenewed,
+  MembershipExpired,
+  CheckoutCreated,
+  CheckoutRenewed,
+  ItemReturned,
+  ItemsReturned,
+  ItemLost,
+  LostItemRecovered,
+  ReservationCreated,
+  ReservationCancelled,
+  ReservationFulfilled,
+  GearTypeCreated,
+  GearTypeUpdated,
+  GearTypeDeleted,
+  ReturnChecklistUpdated,
+  LifecycleLimitUpdated,
+  BulkQuantityUpdated,
+  BulkUnitsSentToMaintenance,
+  BulkUnitsReturnedFromMaintenance,
+  GearItemAdded,
+  GearItemUpdated,
+  GearItemSentToMaintenance,
+  GearItemReturnedFromMaintenance,
+  GearItemRetired,
+  KitCreated,
+  KitUpdated,
+  KitDeleted,
+  StaffSignedIn,
+  StaffRoleChanged,
+  ChargePosted,
+  PaymentPosted,
+  ChargeVoided,
+  RefundPosted,
+  WaiverDocumentPublished,
+  CertificationTypeCreated,
+  CertificationTypeUpdated,
+  CertificationGranted,
+  CertificationRevoked,
+  MaintenanceTicketOpened,
+  MaintenanceTicketUpdated,
+  MaintenanceTicketClosed,
+  InspectionScheduleUpdated,
+  GearItemInspected
+};
+
+export const DOMAIN_EVENT_TYPES = Object.keys(EVENT_DEFINITIONS) as DomainEventType[];
+
+export function isDomainEventType(value: string): value is DomainEventType {
+  return Object.hasOwn(EVENT_DEFINITIONS, value);
+}
+
+// ============================================================================
+// Serialization
+// ============================================================================
+
+/**
+ * Storage shape of a domain event. Records written before versioning have no version.
+ */
+export interface SerializedDomainEvent {
+  id: string;
+  type: string;
+  version?: number;
+  aggregateId: string;
+  occurredAt: string;
+  staffMemberId?: string | null;
+  payload: string; // JSON
+}
+
+export type DomainEventParseError =
+  | { type: 'unknown_event_type'; eventType: string }
+  | { type: 'unsupported_version'; eventType: string; version: number }
+  | { type: 'invalid_payload'; eventType: string; reason: string };
+
+export function serializeDomainEvent(event: DomainEvent): SerializedDomainEvent {
+  return {
+    id: event.id,
+    type: event.type,
+    version: event.version,
+    aggregateId: event.aggregateId,
+    occurredAt: event.occurredAt.toISOString(),
+    staffMemberId: event.staffMemberId ?? null,
+    payload: JSON.stringify(event.payload)
+  };
+}
+
+/**
+ * Rebuild a domain event from storage, checking its type, version and payload shape.
+ */
+export function deserializeDomainEvent(record: SerializedDomainEvent): Result<DomainEvent, DomainEventParseError> {
+  if (!isDomainEventType(record.type)) {
+    return err({ type: 'unknown_event_type', eventType: record.type });
+  }
+  const definition = EVENT_DEFINITIONS[record.type];
+
+  const version = record.version ?? 1;
+  if (version !== definition.version) {
+    return err({ type: 'unsupported_version', eventType: record.type, version });
+  }
+
+  let payload: unknown;
+  try {
+    payload = JSON.parse(record.payload);
+  } catch {
+    return err({ type: 'invalid_payload', eventType: record.type, reason: 'payload is not valid JSON' });
+  }
+
+  const problem = validatePayload(definition.schema, payload);
+  if (problem) {
+    return err({ type: 'invalid_payload', eventType: record.type, reason: problem });
+  }
+
+  return ok({
+    id: record.id,
+    type: record.type,
+    version,
+    aggregateId: record.aggregateId,
+    occurredAt: new Date(record.occurredAt),
+    ...(record.staffMemberId ? { staffMemberId: record.staffMemberId } : {}),
+    payload
+  } as DomainEvent);
+}
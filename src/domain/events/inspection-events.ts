@@ -0,0 +1,35 @@
+import { defineEvent } from './domain-event.js';
+
+export interface InspectionScheduleUpdatedPayload {
+  name: string;
+  // Both intervals absent means the type no longer needs inspections
+  intervalDays?: number;
+  intervalUses?: number;
+  checklistPoints: number;
+}
+
+export interface GearItemInspectedPayload {
+  inspectionId: string;
+  code: string;
+  passed: boolean;
+  // Comma-separated checklist points the item failed
+  failedPoints?: string;
+}
+
+export const InspectionScheduleUpdated = defineEvent<'InspectionScheduleUpdated', InspectionScheduleUpdatedPayload>(
+  'InspectionScheduleUpdated',
+  1,
+  {
+    name: 'string',
+    intervalDays: 'number?',
+    intervalUses: 'number?',
+    checklistPoints: 'number'
+  }
+);
+
+export const GearItemInspected = defineEvent<'GearItemInspected', GearItemInspectedPayload>('GearItemInspected', 1, {
+  inspectionId: 'string',
+  code: 'string',
+  passed: 'boolean',
+  failedPoints: 'string?'
+});
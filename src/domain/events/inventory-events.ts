@@ -0,0 +1,161 @@
+import { defineEvent } from './domain-event.js';
+import { GearCondition, TrackingMode } from '../types.js';
+
+const GEAR_CONDITIONS = Object.values(GearCondition);
+
+// ============================================================================
+// Gear Types
+// ============================================================================
+
+export interface GearTypeCreatedPayload {
+  name: string;
+  trackingMode: TrackingMode;
+}
+
+export interface GearTypeUpdatedPayload {
+  name?: string;
+  checkoutDurationDays?: number;
+  notes?: string;
+}
+
+export interface GearTypeDeletedPayload {
+  name: string;
+  itemCount: number;
+}
+
+export interface ReturnChecklistUpdatedPayload {
+  name: string;
+  questions: number;
+}
+
+export interface LifecycleLimitUpdatedPayload {
+  name: string;
+  // Both absent means the type's items no longer have a limit
+  maxUses?: number;
+  maxYears?: number;
+}
+
+export interface BulkQuantityUpdatedPayload {
+  previousQuantity: number;
+  newQuantity: number;
+}
+
+export interface BulkMaintenancePayload {
+  quantity: number;
+}
+
+export const GearTypeCreated = defineEvent<'GearTypeCreated', GearTypeCreatedPayload>('GearTypeCreated', 1, {
+  name: 'string',
+  trackingMode: { oneOf: Object.values(TrackingMode) }
+});
+
+export const GearTypeUpdated = defineEvent<'GearTypeUpdated', GearTypeUpdatedPayload>('GearTypeUpdated', 1, {
+  name: 'string?',
+  checkoutDurationDays: 'number?',
+  notes: 'string?'
+});
+
+export const GearTypeDeleted = defineEvent<'GearTypeDeleted', GearTypeDeletedPayload>('GearTypeDeleted', 1, {
+  name: 'string',
+  itemCount: 'number'
+});
+
+export const ReturnChecklistUpdated = defineEvent<'ReturnChecklistUpdated', ReturnChecklistUpdatedPayload>(
+  'ReturnChecklistUpdated',
+  1,
+  {
+    name: 'string',
+    questions: 'number'
+  }
+);
+
+export const LifecycleLimitUpdated = defineEvent<'LifecycleLimitUpdated', LifecycleLimitUpdatedPayload>(
+  'LifecycleLimitUpdated',
+  1,
+  {
+    name: 'string',
+    maxUses: 'number?',
+    maxYears: 'number?'
+  }
+);
+
+export const BulkQuantityUpdated = defineEvent<'BulkQuantityUpdated', BulkQuantityUpdatedPayload>(
+  'BulkQuantityUpdated',
+  1,
+  {
+    previousQuantity: 'number',
+    newQuantity: 'number'
+  }
+);
+
+export const BulkUnitsSentToMaintenance = defineEvent<'BulkUnitsSentToMaintenance', BulkMaintenancePayload>(
+  'BulkUnitsSentToMaintenance',
+  1,
+  { quantity: 'number' }
+);
+
+export const BulkUnitsReturnedFromMaintenance = defineEvent<
+  'BulkUnitsReturnedFromMaintenance',
+  BulkMaintenancePayload
+>('BulkUnitsReturnedFromMaintenance', 1, { quantity: 'number' });
+
+// ============================================================================
+// Gear Items
+// ============================================================================
+
+export interface GearItemAddedPayload {
+  gearTypeId: string;
+  code: string;
+}
+
+export interface GearItemUpdatedPayload {
+  code: string;
+  condition?: GearCondition;
+  notes?: string;
+}
+
+export interface GearItemSentToMaintenancePayload {
+  code: string;
+  notes?: string;
+}
+
+export interface GearItemReturnedFromMaintenancePayload {
+  code: string;
+  condition: GearCondition;
+}
+
+export interface GearItemRetiredPayload {
+  code: string;
+}
+
+export const GearItemAdded = defineEvent<'GearItemAdded', GearItemAddedPayload>('GearItemAdded', 1, {
+  gearTypeId: 'string',
+  code: 'string'
+});
+
+export const GearItemUpdated = defineEvent<'GearItemUpdated', GearItemUpdatedPayload>('GearItemUpdated', 1, {
+  code: 'string',
+  condition: { oneOf: GEAR_CONDITIONS, optional: true },
+  notes: 'string?'
+});
+
+export const GearItemSentToMaintenance = defineEvent<'GearItemSentToMaintenance', GearItemSentToMaintenancePayload>(
+  'GearItemSentToMaintenance',
+  1,
+  {
+    code: 'string',
+    notes: 'string?'
+  }
+);
+
+export const GearItemReturnedFromMaintenance = defineEvent<
+  'GearItemReturnedFromMaintenance',
+  GearItemReturnedFromMaintenancePayload
+>('GearItemReturnedFromMaintenance', 1, {
+  code: 'string',
+  condition: { oneOf: GEAR_CONDITIONS }
+});
+
+export const GearItemRetired = defineEvent<'GearItemRetired', GearItemRetiredPayload>('GearItemRetired', 1, {
+  code: 'string'
+});
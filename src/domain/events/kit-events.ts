@@ -0,0 +1,11 @@
+import { defineEvent } from './domain-event.js';
+
+export interface KitChangedPayload {
+  name: string;
+}
+
+export const KitCreated = defineEvent<'KitCreated', KitChangedPayload>('KitCreated', 1, { name: 'string' });
+
+export const KitUpdated = defineEvent<'KitUpdated', KitChangedPayload>('KitUpdated', 1, { name: 'string' });
+
+export const KitDeleted = defineEvent<'KitDeleted', KitChangedPayload>('KitDeleted', 1, { name: 'string' });
@@ -0,0 +1,69 @@
+import { defineEvent } from './domain-event.js';
+import { GearCondition, MaintenanceTicketStatus } from '../types.js';
+
+export interface MaintenanceTicketOpenedPayload {
+  gearItemId: string;
+  code: string;
+  issue: string;
+  assignedTo?: string;
+  // Set when a damaged return opened the ticket
+  checkoutId?: string;
+  memberId?: string;
+}
+
+export interface MaintenanceTicketUpdatedPayload {
+  gearItemId: string;
+  code: string;
+  status: MaintenanceTicketStatus;
+  assignedTo?: string;
+  laborMinutes: number;
+  costCents: number;
+}
+
+export interface MaintenanceTicketClosedPayload {
+  gearItemId: string;
+  code: string;
+  condition: GearCondition;
+  resolution?: string;
+  laborMinutes: number;
+  costCents: number;
+}
+
+export const MaintenanceTicketOpened = defineEvent<'MaintenanceTicketOpened', MaintenanceTicketOpenedPayload>(
+  'MaintenanceTicketOpened',
+  1,
+  {
+    gearItemId: 'string',
+    code: 'string',
+    issue: 'string',
+    assignedTo: 'string?',
+    checkoutId: 'string?',
+    memberId: 'string?'
+  }
+);
+
+export const MaintenanceTicketUpdated = defineEvent<'MaintenanceTicketUpdated', MaintenanceTicketUpdatedPayload>(
+  'MaintenanceTicketUpdated',
+  1,
+  {
+    gearItemId: 'string',
+    code: 'string',
+    status: { oneOf: Object.values(MaintenanceTicketStatus) },
+    assignedTo: 'string?',
+    laborMinutes: 'number',
+    costCents: 'number'
+  }
+);
+
+export const MaintenanceTicketClosed = defineEvent<'MaintenanceTicketClosed', MaintenanceTicketClosedPayload>(
+  'MaintenanceTicketClosed',
+  1,
+  {
+    gearItemId: 'string',
+    code: 'string',
+    condition: { oneOf: Object.values(GearCondition) },
+    resolution: 'string?',
+    laborMinutes: 'number',
+    costCents: 'number'
+  }
+);
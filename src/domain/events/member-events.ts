@@ -0,0 +1,105 @@
+import { defineEvent } from './domain-event.js';
+
+export interface MemberRegisteredPayload {
+  memberId: string;
+  collegeId: string;
+  email: string;
+}
+
+export interface WaiverSignedPayload {
+  memberId: string;
+  waiverVersion: string;
+  waiverDocumentId?: string;
+  expiresAt?: string;
+}
+
+export interface MemberSuspendedPayload {
+  memberId: string;
+  reason?: string;
+  endsAt?: string;
+  // True when the strike policy suspended the member
+  automatic?: boolean;
+}
+
+export interface MemberReinstatedPayload {
+  memberId: string;
+  // True when a suspension ran out rather than being lifted by staff
+  automatic?: boolean;
+}
+
+export interface MemberContactUpdatedPayload {
+  memberId: string;
+  email: string;
+  phone?: string;
+}
+
+export interface MemberTierChangedPayload {
+  memberId: string;
+  previousTier: string;
+  tier: string;
+}
+
+export interface MembershipRenewedPayload {
+  memberId: string;
+  plan: string;
+  termEndsAt: string;
+  feeCents: number;
+}
+
+export interface MembershipExpiredPayload {
+  memberId: string;
+  termEndedAt: string;
+}
+
+export const MemberRegistered = defineEvent<'MemberRegistered', MemberRegisteredPayload>('MemberRegistered', 1, {
+  memberId: 'string',
+  collegeId: 'string',
+  email: 'string'
+});
+
+export const WaiverSigned = defineEvent<'WaiverSigned', WaiverSignedPayload>('WaiverSigned', 1, {
+  memberId: 'string',
+  waiverVersion: 'string',
+  waiverDocumentId: 'string?',
+  expiresAt: 'string?'
+});
+
+export const MemberSuspended = defineEvent<'MemberSuspended', MemberSuspendedPayload>('MemberSuspended', 1, {
+  memberId: 'string',
+  reason: 'string?',
+  endsAt: 'string?',
+  automatic: 'boolean?'
+});
+
+export const MemberReinstated = defineEvent<'MemberReinstated', MemberReinstatedPayload>('MemberReinstated', 1, {
+  memberId: 'string',
+  automatic: 'boolean?'
+});
+
+export const MemberContactUpdated = defineEvent<'MemberContactUpdated', MemberContactUpdatedPayload>(
+  'MemberContactUpdated',
+  1,
+  {
+    memberId: 'string',
+    email: 'string',
+    phone: 'string?'
+  }
+);
+
+export const MemberTierChanged = defineEvent<'MemberTierChanged', MemberTierChangedPayload>('MemberTierChanged', 1, {
+  memberId: 'string',
+  previousTier: 'string',
+  tier: 'string'
+});
+
+export const MembershipRenewed = defineEvent<'MembershipRenewed', MembershipRenewedPayload>('MembershipRenewed', 1, {
+  memberId: 'string',
+  plan: 'string',
+  termEndsAt: 'string',
+  feeCents: 'number'
+});
+
+export const MembershipExpired = defineEvent<'MembershipExpired', MembershipExpiredPayload>('MembershipExpired', 1, {
+  memberId: 'string',
+  termEndedAt: 'string'
+});
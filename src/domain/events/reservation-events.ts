@@ -0,0 +1,51 @@
+import { defineEvent } from './domain-event.js';
+
+export interface ReservationCreatedPayload {
+  reservationId: string;
+  memberId: string;
+  itemCount: number;
+  pickupStart: string;
+  returnEnd: string;
+}
+
+export interface ReservationCancelledPayload {
+  reservationId: string;
+  memberId: string;
+}
+
+export interface ReservationFulfilledPayload {
+  reservationId: string;
+  checkoutId: string;
+  memberId: string;
+}
+
+export const ReservationCreated = defineEvent<'ReservationCreated', ReservationCreatedPayload>(
+  'ReservationCreated',
+  1,
+  {
+    reservationId: 'string',
+    memberId: 'string',
+    itemCount: 'number',
+    pickupStart: 'string',
+    returnEnd: 'string'
+  }
+);
+
+export const ReservationCancelled = defineEvent<'ReservationCancelled', ReservationCancelledPayload>(
+  'ReservationCancelled',
+  1,
+  {
+    reservationId: 'string',
+    memberId: 'string'
+  }
+);
+
+export const ReservationFulfilled = defineEvent<'ReservationFulfilled', ReservationFulfilledPayload>(
+  'ReservationFulfilled',
+  1,
+  {
+    reservationId: 'string',
+    checkoutId: 'string',
+    memberId: 'string'
+  }
+);
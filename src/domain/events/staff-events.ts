@@ -0,0 +1,18 @@
+import { defineEvent } from './domain-event.js';
+import { StaffRole } from '../types.js';
+
+const STAFF_ROLES = Object.values(StaffRole);
+
+export type StaffSignedInPayload = Record<string, never>;
+
+export interface StaffRoleChangedPayload {
+  previousRole: StaffRole;
+  newRole: StaffRole;
+}
+
+export const StaffSignedIn = defineEvent<'StaffSignedIn', StaffSignedInPayload>('StaffSignedIn', 1, {});
+
+export const StaffRoleChanged = defineEvent<'StaffRoleChanged', StaffRoleChangedPayload>('StaffRoleChanged', 1, {
+  previousRole: { oneOf: STAFF_ROLES },
+  newRole: { oneOf: STAFF_ROLES }
+});
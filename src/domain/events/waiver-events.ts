@@ -0,0 +1,19 @@
+import { defineEvent } from './domain-event.js';
+
+export interface WaiverDocumentPublishedPayload {
+  version: string;
+  effectiveAt: string;
+  validityDays: number;
+  invalidatesPriorSignatures: boolean;
+}
+
+export const WaiverDocumentPublished = defineEvent<'WaiverDocumentPublished', WaiverDocumentPublishedPayload>(
+  'WaiverDocumentPublished',
+  1,
+  {
+    version: 'string',
+    effectiveAt: 'string',
+    validityDays: 'number',
+    invalidatesPriorSignatures: 'boolean'
+  }
+);
@@ -0,0 +1,19 @@
+/**
+ * Rules for what a member's account balance allows.
+ */
+export interface AccountPolicy {
+  // Checkout is refused while the member owes more than this; null disables the rule
+  readonly maxBalanceForCheckoutCents: number | null;
+}
+
+export const DEFAULT_ACCOUNT_POLICY: AccountPolicy = {
+  maxBalanceForCheckoutCents: 5000
+};
+
+/**
+ * The policy's checkout limit when the balance is over it, or null when checkout is allowed.
+ */
+export function balanceBlocksCheckout(policy: AccountPolicy, balanceCents: number): number | null {
+  const limitCents = policy.maxBalanceForCheckoutCents;
+  return limitCents !== null && balanceCents > limitCents ? limitCents : null;
+}
@@ -0,0 +1,10 @@
+export * from './renewal-policy.js';
+export * from './account-policy.js';
+export * from './late-fee-policy.js';
+export * from './strike-policy.js';
+export * from './staff-permissions.js';
+export * from './tier-policy.js';
+export * from './membership-plan-policy.js';
+export * from './inspection-policy.js';
+export * from './return-checklist-policy.js';
+export * from './lifecycle-policy.js';
@@ -0,0 +1,29 @@
+import type { InspectionSchedule } from '../entities/gear-type.js';
+import type { GearItem } from '../entities/gear-item.js';
+
+/**
+ * Where an item stands against its gear type's inspection schedule.
+ */
+export interface InspectionStanding {
+  // Null when the schedule only counts uses
+  readonly dueAt: Date | null;
+  // Checkouts left before the next inspection; null when the schedule only counts days
+  readonly usesLeft: number | null;
+  readonly overdue: boolean;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Items never inspected count from the day they were acquired.
+ */
+export function inspectionStanding(schedule: InspectionSchedule, item: GearItem, now: Date): InspectionStanding {
+  const since = item.lastInspectedAt ?? item.acquiredAt;
+  const dueAt = schedule.intervalDays === null ? null : new Date(since.getTime() + schedule.intervalDays * DAY_MS);
+  const usesLeft = schedule.intervalUses === null ? null : Math.max(0, schedule.intervalUses - item.usesSinceInspection);
+  return {
+    dueAt,
+    usesLeft,
+    overdue: (dueAt !== null && dueAt <= now) || usesLeft === 0
+  };
+}
@@ -0,0 +1,56 @@
+import type { GearCategory } from '../types.js';
+
+/**
+ * How late fees accrue on one kind of gear.
+ */
+export interface LateFeeRule {
+  // Days past due before any fee accrues
+  readonly graceDays: number;
+  // Fee per unit for each day past the grace period
+  readonly dailyRateCents: number;
+  // Most a single unit can accrue; null means no cap
+  readonly maxFeeCents: number | null;
+}
+
+/**
+ * Late fee rules by gear type and category.
+ * A gear type rule wins over its category's rule, which wins over the default.
+ */
+export interface LateFeePolicy {
+  // Applies when nothing more specific matches; null charges nothing
+  readonly default: LateFeeRule | null;
+  readonly byCategory: Partial<Record<GearCategory, LateFeeRule>>;
+  // Keyed by gear type id
+  readonly byGearType: Readonly<Record<string, LateFeeRule>>;
+}
+
+export const DEFAULT_LATE_FEE_POLICY: LateFeePolicy = {
+  default: { graceDays: 1, dailyRateCents: 100, maxFeeCents: 2000 },
+  byCategory: {
+    BIKE: { graceDays: 0, dailyRateCents: 500, maxFeeCents: 5000 }
+  },
+  byGearType: {}
+};
+
+/**
+ * The rule that applies to a gear type, if any.
+ */
+export function lateFeeRuleFor(
+  policy: LateFeePolicy,
+  gearType: { id: string; category: GearCategory }
+): LateFeeRule | null {
+  return policy.byGearType[gearType.id] ?? policy.byCategory[gearType.category] ?? policy.default;
+}
+
+/**
+ * Fee for returning `quantity` units `daysOverdue` days late. The cap applies per unit.
+ */
+export function calculateLateFee(rule: LateFeeRule | null, daysOverdue: number, quantity: number): number {
+  if (!rule) {
+    return 0;
+  }
+  const chargeableDays = Math.max(0, daysOverdue - rule.graceDays);
+  const perUnit = chargeableDays * rule.dailyRateCents;
+  const capped = rule.maxFeeCents === null ? perUnit : Math.min(perUnit, rule.maxFeeCents);
+  return capped * quantity;
+}
@@ -0,0 +1,30 @@
+import type { LifecycleLimit } from '../entities/gear-type.js';
+import type { GearItem } from '../entities/gear-item.js';
+
+/**
+ * Where an item stands against its gear type's lifecycle limit.
+ */
+export interface LifecycleStanding {
+  // Null when the limit only counts uses
+  readonly retireBy: Date | null;
+  // Checkouts left before retirement; null when the limit only counts years
+  readonly usesLeft: number | null;
+  readonly due: boolean;
+}
+
+/**
+ * Years count from the day the item was acquired.
+ */
+export function lifecycleStanding(limit: LifecycleLimit, item: GearItem, now: Date): LifecycleStanding {
+  let retireBy: Date | null = null;
+  if (limit.maxYears !== null) {
+    retireBy = new Date(item.acquiredAt);
+    retireBy.setUTCFullYear(retireBy.getUTCFullYear() + limit.maxYears);
+  }
+  const usesLeft = limit.maxUses === null ? null : Math.max(0, limit.maxUses - item.checkoutCount);
+  return {
+    retireBy,
+    usesLeft,
+    due: (retireBy !== null && retireBy <= now) || usesLeft === 0
+  };
+}
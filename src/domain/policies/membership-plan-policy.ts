@@ -0,0 +1,16 @@
+import type { MembershipPlan } from '../types.js';
+
+/**
+ * Length and price of one membership plan.
+ */
+export interface MembershipPlanTerms {
+  readonly termDays: number;
+  readonly feeCents: number;
+}
+
+export type MembershipPlanPolicy = Readonly<Record<MembershipPlan, MembershipPlanTerms>>;
+
+export const DEFAULT_MEMBERSHIP_PLAN_POLICY: MembershipPlanPolicy = {
+  SEMESTER: { termDays: 183, feeCents: 2500 },
+  ACADEMIC_YEAR: { termDays: 365, feeCents: 4000 }
+};
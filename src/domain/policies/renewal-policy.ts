@@ -0,0 +1,57 @@
+import { type Result, ok, err } from '../../application/result.js';
+
+/**
+ * Rules that decide whether a checked-out item may be renewed.
+ */
+export interface RenewalPolicy {
+  // Renewals allowed per checkout item
+  readonly maxRenewals: number;
+  // Refuse when another member has the gear reserved during the extension
+  readonly blockWhenReserved: boolean;
+  // Refuse overdue items unless staff explicitly override
+  readonly blockWhenOverdue: boolean;
+}
+
+export const DEFAULT_RENEWAL_POLICY: RenewalPolicy = {
+  maxRenewals: 2,
+  blockWhenReserved: true,
+  blockWhenOverdue: true
+};
+
+/**
+ * Facts about a checkout item relevant to a renewal request.
+ */
+export interface RenewalRequest {
+  renewalCount: number;
+  // Past its due time, even by less than a day
+  overdue: boolean;
+  // Whole days past due, for the denial message
+  daysOverdue: number;
+  reservedByOtherMember: boolean;
+  staffOverride: boolean;
+}
+
+export type RenewalDenial =
+  | { type: 'renewal_limit_reached'; maxRenewals: number }
+  | { type: 'reserved_by_other_member' }
+  | { type: 'overdue_requires_override'; daysOverdue: number };
+
+/**
+ * Apply the policy to a renewal request.
+ * Staff override only lifts the overdue rule; limits and reservations always apply.
+ */
+export function evaluateRenewal(
+  policy: RenewalPolicy,
+  request: RenewalRequest
+): Result<void, RenewalDenial> {
+  if (request.renewalCount >= policy.maxRenewals) {
+    return err({ type: 'renewal_limit_reached', maxRenewals: policy.maxRenewals });
+  }
+  if (policy.blockWhenReserved && request.reservedByOtherMember) {
+    return err({ type: 'reserved_by_other_member' });
+  }
+  if (policy.blockWhenOverdue && request.overdue && !request.staffOverride) {
+    return err({ type: 'overdue_requires_override', daysOverdue: request.daysOverdue });
+  }
+  return ok(undefined);
+}
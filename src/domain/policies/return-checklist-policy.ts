@@ -0,0 +1,86 @@
+import { type Result, ok, err } from '../../application/result.js';
+import type { ReturnChecklistAnswer, ReturnChecklistQuestion } from '../entities/gear-type.js';
+import { GearCondition } from '../types.js';
+
+/**
+ * What a filled-in return checklist says about the item.
+ */
+export interface ReturnChecklistOutcome {
+  // One per question, in checklist order
+  readonly answers: ReturnChecklistAnswer[];
+  // The reported condition, or worse if an answer failed
+  readonly condition: GearCondition;
+  // e.g. "Stakes: 6 of 8"
+  readonly missingComponents: string[];
+}
+
+export type ReturnChecklistAnswerError =
+  | { type: 'incomplete_return_checklist'; missing: string[] }
+  | { type: 'invalid_checklist_answer'; prompt: string };
+
+// Best to worst
+const CONDITION_RANK: GearCondition[] = [
+  GearCondition.EXCELLENT,
+  GearCondition.GOOD,
+  GearCondition.FAIR,
+  GearCondition.NEEDS_REPAIR,
+  GearCondition.RETIRED
+];
+
+function worseOf(a: GearCondition, b: GearCondition): GearCondition {
+  return CONDITION_RANK.indexOf(a) >= CONDITION_RANK.indexOf(b) ? a : b;
+}
+
+/**
+ * Check the answers against the checklist and work out the condition the item
+ * comes back in. Yes/no and count questions must be answered; text is optional.
+ */
+export function gradeReturnChecklist(
+  checklist: readonly ReturnChecklistQuestion[],
+  answers: readonly ReturnChecklistAnswer[],
+  reportedCondition: GearCondition
+): Result<ReturnChecklistOutcome, ReturnChecklistAnswerError> {
+  const byPrompt = new Map(answers.map((a) => [a.prompt, a.value]));
+  const missing = checklist
+    .filter((q) => q.kind !== 'text' && !byPrompt.has(q.prompt))
+    .map((q) => q.prompt);
+  if (missing.length > 0) {
+    return err({ type: 'incomplete_return_checklist', missing });
+  }
+
+  const graded: ReturnChecklistAnswer[] = [];
+  const missingComponents: string[] = [];
+  let condition = reportedCondition;
+
+  for (const question of checklist) {
+    const value = byPrompt.get(question.prompt);
+    let failed = false;
+
+    if (question.kind === 'boolean') {
+      if (typeof value !== 'boolean') {
+        return err({ type: 'invalid_checklist_answer', prompt: question.prompt });
+      }
+      failed = !value;
+      if (failed && !question.failCondition) {
+        missingComponents.push(question.prompt);
+      }
+    } else if (question.kind === 'count') {
+      if (typeof value !== 'number' || !Number.isInteger(value) || value < 0) {
+        return err({ type: 'invalid_checklist_answer', prompt: question.prompt });
+      }
+      failed = value < question.expectedCount;
+      if (failed) {
+        missingComponents.push(`${question.prompt}: ${value} of ${question.expectedCount}`);
+      }
+    } else if (value !== undefined && typeof value !== 'string') {
+      return err({ type: 'invalid_checklist_answer', prompt: question.prompt });
+    }
+
+    if (failed && question.kind !== 'text' && question.failCondition) {
+      condition = worseOf(condition, question.failCondition);
+    }
+    graded.push({ prompt: question.prompt, value: value ?? '' });
+  }
+
+  return ok({ answers: graded, condition, missingComponents });
+}
@@ -0,0 +1,42 @@
+import { StaffRole } from '../types.js';
+
+/**
+ * Sensitive actions that not every staff role may perform.
+ * Routine desk work (checkouts, returns, waivers) needs no permission.
+ */
+export const Permission = {
+  ADJUST_BULK_QUANTITY: 'ADJUST_BULK_QUANTITY',
+  DELETE_GEAR_TYPE: 'DELETE_GEAR_TYPE',
+  RETIRE_ITEM: 'RETIRE_ITEM',
+  MANAGE_LOST_ITEMS: 'MANAGE_LOST_ITEMS',
+  MANAGE_ACCOUNTS: 'MANAGE_ACCOUNTS',
+  SUSPEND_MEMBER: 'SUSPEND_MEMBER',
+  MANAGE_MEMBERSHIPS: 'MANAGE_MEMBERSHIPS',
+  MANAGE_CERTIFICATIONS: 'MANAGE_CERTIFICATIONS',
+  MANAGE_INSPECTIONS: 'MANAGE_INSPECTIONS',
+  MANAGE_STAFF: 'MANAGE_STAFF',
+  MANAGE_WAIVERS: 'MANAGE_WAIVERS'
+} as const;
+export type Permission = (typeof Permission)[keyof typeof Permission];
+
+const COORDINATOR_PERMISSIONS: readonly Permission[] = [
+  Permission.ADJUST_BULK_QUANTITY,
+  Permission.DELETE_GEAR_TYPE,
+  Permission.RETIRE_ITEM,
+  Permission.MANAGE_LOST_ITEMS,
+  Permission.MANAGE_ACCOUNTS,
+  Permission.SUSPEND_MEMBER,
+  Permission.MANAGE_MEMBERSHIPS,
+  Permission.MANAGE_CERTIFICATIONS,
+  Permission.MANAGE_INSPECTIONS
+];
+
+export const ROLE_PERMISSIONS: Record<StaffRole, readonly Permission[]> = {
+  [StaffRole.DESK]: [],
+  [StaffRole.COORDINATOR]: COORDINATOR_PERMISSIONS,
+  [StaffRole.ADMIN]: [...COORDINATOR_PERMISSIONS, Permission.MANAGE_STAFF, Permission.MANAGE_WAIVERS]
+};
+
+export function roleHasPermission(role: StaffRole, permission: Permission): boolean {
+  return ROLE_PERMISSIONS[role].includes(permission);
+}
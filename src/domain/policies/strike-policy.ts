@@ -0,0 +1,72 @@
+/**
+ * Thresholds at which repeated problems suspend a member automatically.
+ */
+export interface StrikePolicy {
+  // Only strikes this recent count
+  readonly windowDays: number;
+  // Late returns in the window that trigger a suspension; null disables the rule
+  readonly maxLateReturns: number | null;
+  // Damage incidents in the window that trigger a suspension; null disables the rule
+  readonly maxDamageIncidents: number | null;
+  // How long an automatic suspension lasts; null lasts until staff reinstate
+  readonly suspensionDays: number | null;
+}
+
+export const DEFAULT_STRIKE_POLICY: StrikePolicy = {
+  windowDays: 365,
+  maxLateReturns: 3,
+  maxDamageIncidents: 2,
+  suspensionDays: 30
+};
+
+export type StrikeKind = 'late_return' | 'damage';
+
+/**
+ * One late return or damage incident counted against a member.
+ */
+export interface Strike {
+  kind: StrikeKind;
+  reason: string;
+  occurredAt: Date;
+}
+
+export interface StrikeSuspension {
+  reason: string;
+  endsAt: Date | null;
+  strikes: Strike[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Decide whether a member's strikes call for a suspension.
+ * Strikes before `countFrom` (usually the start of the last suspension) were already acted on and are ignored.
+ */
+export function evaluateStrikes(
+  policy: StrikePolicy,
+  strikes: Strike[],
+  asOf: Date,
+  countFrom: Date | null
+): StrikeSuspension | null {
+  const windowStart = new Date(asOf.getTime() - policy.windowDays * DAY_MS);
+  const counted = strikes.filter(
+    (s) => s.occurredAt >= windowStart && s.occurredAt <= asOf && (!countFrom || s.occurredAt > countFrom)
+  );
+
+  const rules: Array<{ kind: StrikeKind; limit: number | null; label: string }> = [
+    { kind: 'late_return', limit: policy.maxLateReturns, label: 'late returns' },
+    { kind: 'damage', limit: policy.maxDamageIncidents, label: 'damage incidents' }
+  ];
+
+  for (const rule of rules) {
+    const matching = counted.filter((s) => s.kind === rule.kind);
+    if (rule.limit !== null && matching.length >= rule.limit) {
+      return {
+        reason: `${matching.length} ${rule.label} in ${policy.windowDays} days: ${matching.map((s) => s.reason).join('; ')}`,
+        endsAt: policy.suspensionDays === null ? null : new Date(asOf.getTime() + policy.suspensionDays * DAY_MS),
+        strikes: matching
+      };
+    }
+  }
+  return null;
+}
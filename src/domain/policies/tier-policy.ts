@@ -0,0 +1,38 @@
+import type { MembershipTier } from '../types.js';
+
+/**
+ * Borrowing limits and fees for one membership tier.
+ */
+export interface TierRules {
+  // Units out at once across all open checkouts; null means no limit
+  readonly maxItemsOut: number | null;
+  // Longest checkout period; gear types with a shorter duration keep theirs. Null means no cap
+  readonly maxCheckoutDays: number | null;
+  // Renewals allowed per checkout item; null uses the renewal policy's limit
+  readonly maxRenewals: number | null;
+  // Share of the late fee policy's amount charged, in percent; 0 exempts the tier
+  readonly lateFeePercent: number;
+}
+
+export type MembershipTierPolicy = Readonly<Record<MembershipTier, TierRules>>;
+
+export const DEFAULT_MEMBERSHIP_TIER_POLICY: MembershipTierPolicy = {
+  STUDENT: { maxItemsOut: 10, maxCheckoutDays: null, maxRenewals: null, lateFeePercent: 100 },
+  STAFF: { maxItemsOut: 15, maxCheckoutDays: null, maxRenewals: 3, lateFeePercent: 100 },
+  ALUMNI: { maxItemsOut: 5, maxCheckoutDays: 7, maxRenewals: 1, lateFeePercent: 100 },
+  TRIP_LEADER: { maxItemsOut: null, maxCheckoutDays: 21, maxRenewals: 4, lateFeePercent: 0 }
+};
+
+/**
+ * Checkout period in days for a gear type under the tier's rules.
+ */
+export function tierCheckoutDays(rules: TierRules, gearTypeDays: number): number {
+  return rules.maxCheckoutDays === null ? gearTypeDays : Math.min(gearTypeDays, rules.maxCheckoutDays);
+}
+
+/**
+ * The late fee the tier actually pays, rounded to the cent.
+ */
+export function tierLateFee(rules: TierRules, amountCents: number): number {
+  return Math.round((amountCents * rules.lateFeePercent) / 100);
+}
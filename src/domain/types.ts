@@ -10,6 +10,20 @@ export const MembershipStatus = {
 } as const;
 export type MembershipStatus = (typeof MembershipStatus)[keyof typeof MembershipStatus];
 
+export const MembershipTier = {
+  STUDENT: 'STUDENT',
+  STAFF: 'STAFF',
+  ALUMNI: 'ALUMNI',
+  TRIP_LEADER: 'TRIP_LEADER'
+} as const;
+export type MembershipTier = (typeof MembershipTier)[keyof typeof MembershipTier];
+
+export const MembershipPlan = {
+  SEMESTER: 'SEMESTER',
+  ACADEMIC_YEAR: 'ACADEMIC_YEAR'
+} as const;
+export type MembershipPlan = (typeof MembershipPlan)[keyof typeof MembershipPlan];
+
 export const GearCategory = {
   SLEEPING_BAG: 'SLEEPING_BAG',
   TENT: 'TENT',
@@ -38,10 +52,19 @@ export const GearStatus = {
   AVAILABLE: 'AVAILABLE',
   CHECKED_OUT: 'CHECKED_OUT',
   MAINTENANCE: 'MAINTENANCE',
-  RETIRED: 'RETIRED'
+  RETIRED: 'RETIRED',
+  LOST: 'LOST'
 } as const;
 export type GearStatus = (typeof GearStatus)[keyof typeof GearStatus];
 
+export const MaintenanceTicketStatus = {
+  OPEN: 'OPEN',
+  IN_PROGRESS: 'IN_PROGRESS',
+  WAITING_PARTS: 'WAITING_PARTS',
+  DONE: 'DONE'
+} as const;
+export type MaintenanceTicketStatus = (typeof MaintenanceTicketStatus)[keyof typeof MaintenanceTicketStatus];
+
 export const TrackingMode = {
   INDIVIDUAL: 'INDIVIDUAL',
   BULK: 'BULK'
@@ -54,3 +77,34 @@ export const CheckoutStatus = {
   COMPLETED: 'COMPLETED'
 } as const;
 export type CheckoutStatus = (typeof CheckoutStatus)[keyof typeof CheckoutStatus];
+
+export const ReservationStatus = {
+  PENDING: 'PENDING',
+  FULFILLED: 'FULFILLED',
+  CANCELLED: 'CANCELLED'
+} as const;
+export type ReservationStatus = (typeof ReservationStatus)[keyof typeof ReservationStatus];
+
+export const StaffRole = {
+  DESK: 'DESK',
+  COORDINATOR: 'COORDINATOR',
+  ADMIN: 'ADMIN'
+} as const;
+export type StaffRole = (typeof StaffRole)[keyof typeof StaffRole];
+
+export const AccountEntryType = {
+  CHARGE: 'CHARGE',
+  PAYMENT: 'PAYMENT',
+  WAIVER: 'WAIVER',
+  REFUND: 'REFUND'
+} as const;
+export type AccountEntryType = (typeof AccountEntryType)[keyof typeof AccountEntryType];
+
+export const ChargeType = {
+  REPLACEMENT: 'REPLACEMENT',
+  DEPOSIT: 'DEPOSIT',
+  LATE_FEE: 'LATE_FEE',
+  MEMBERSHIP_FEE: 'MEMBERSHIP_FEE',
+  OTHER: 'OTHER'
+} as const;
+export type ChargeType = (typeof ChargeType)[keyof typeof ChargeType];
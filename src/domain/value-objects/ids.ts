@@ -12,6 +12,13 @@ export type GearTypeId = Brand<string, 'GearTypeId'>;
 export type GearItemId = Brand<string, 'GearItemId'>;
 export type CheckoutId = Brand<string, 'CheckoutId'>;
 export type StaffMemberId = Brand<string, 'StaffMemberId'>;
+export type ReservationId = Brand<string, 'ReservationId'>;
+export type KitId = Brand<string, 'KitId'>;
+export type AccountEntryId = Brand<string, 'AccountEntryId'>;
+export type WaiverDocumentId = Brand<string, 'WaiverDocumentId'>;
+export type CertificationTypeId = Brand<string, 'CertificationTypeId'>;
+export type MaintenanceTicketId = Brand<string, 'MaintenanceTicketId'>;
+export type InspectionId = Brand<string, 'InspectionId'>;
 
 /**
  * Create a MemberId from a raw string (trusted source).
@@ -47,3 +54,52 @@ export function checkoutId(id: string): CheckoutId {
 export function staffMemberId(id: string): StaffMemberId {
   return id as StaffMemberId;
 }
+
+/**
+ * Create a ReservationId from a raw string (trusted source).
+ */
+export function reservationId(id: string): ReservationId {
+  return id as ReservationId;
+}
+
+/**
+ * Create a KitId from a raw string (trusted source).
+ */
+export function kitId(id: string): KitId {
+  return id as KitId;
+}
+
+/**
+ * Create an AccountEntryId from a raw string (trusted source).
+ */
+export function accountEntryId(id: string): AccountEntryId {
+  return id as AccountEntryId;
+}
+
+/**
+ * Create a WaiverDocumentId from a raw string (trusted source).
+ */
+export function waiverDocumentId(id: string): WaiverDocumentId {
+  return id as WaiverDocumentId;
+}
+
+/**
+ * Create a CertificationTypeId from a raw string (trusted source).
+ */
+export function certificationTypeId(id: string): CertificationTypeId {
+  return id as CertificationTypeId;
+}
+
+/**
+ * Create a MaintenanceTicketId from a raw string (trusted source).
+ */
+export function maintenanceTicketId(id: string): MaintenanceTicketId {
+  return id as MaintenanceTicketId;
+}
+
+/**
+ * Create an InspectionId from a raw string (trusted source).
+ */
+export function inspectionId(id: string): InspectionId {
+  return id as InspectionId;
+}
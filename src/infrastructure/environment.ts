@@ -2,17 +2,53 @@ import type {
   MemberRepository,
   GearTypeRepository,
   GearItemRepository,
-  CheckoutRepository
+  CheckoutRepository,
+  ReservationRepository,
+  KitRepository,
+  StaffMemberRepository,
+  MemberAccountRepository,
+  WaiverDocumentRepository,
+  CertificationTypeRepository,
+  MaintenanceTicketRepository,
+  InspectionRepository,
+  DomainEventRepository
 } from '../application/ports/repositories.js';
-import type { IdGenerator, Clock, EventPublisher } from '../application/ports/services.js';
+import type { IdGenerator, Clock, EventPublisher, PinHasher, UnitOfWork } from '../application/ports/services.js';
+import {
+  DEFAULT_RENEWAL_POLICY,
+  DEFAULT_ACCOUNT_POLICY,
+  DEFAULT_LATE_FEE_POLICY,
+  DEFAULT_MEMBERSHIP_TIER_POLICY,
+  DEFAULT_MEMBERSHIP_PLAN_POLICY,
+  DEFAULT_STRIKE_POLICY,
+  type RenewalPolicy,
+  type AccountPolicy,
+  type LateFeePolicy,
+  type MembershipTierPolicy,
+  type MembershipPlanPolicy,
+  type StrikePolicy
+} from '../domain/policies/index.js';
 import { getDatabase, type GearRoomDatabase } from './storage/database.js';
 import { DexieMemberRepository } from './repositories/dexie-member-repository.js';
 import { DexieGearTypeRepository } from './repositories/dexie-gear-type-repository.js';
 import { DexieGearItemRepository } from './repositories/dexie-gear-item-repository.js';
 import { DexieCheckoutRepository } from './repositories/dexie-checkout-repository.js';
+import { DexieReservationRepository } from './repositories/dexie-reservation-repository.js';
+import { DexieKitRepository } from './repositories/dexie-kit-repository.js';
+import { DexieStaffMemberRepository } from './repositories/dexie-staff-member-repository.js';
+import { DexieMemberAccountRepository } from './repositories/dexie-member-account-repository.js';
+import { DexieWaiverDocumentRepository } from './repositories/dexie-waiver-document-repository.js';
+import { DexieCertificationTypeRepository } from './repositories/dexie-certification-type-repository.js';
+import { DexieMaintenanceTicketRepository } from './repositories/dexie-maintenance-ticket-repository.js';
+import { DexieInspectionRepository } from './repositories/dexie-inspection-repository.js';
+import { DexieDomainEventRepository } from './repositories/dexie-domain-event-repository.js';
 import { UuidGenerator } from './services/uuid-generator.js';
 import { SystemClock } from './services/system-clock.js';
 import { LocalEventPublisher } from './services/local-event-publisher.js';
+import { EventSubscriptions } from './services/event-subscriptions.js';
+import { DexieUnitOfWork } from './services/dexie-unit-of-work.js';
+import { WebCryptoPinHasher } from './services/web-crypto-pin-hasher.js';
+import { subscribeStrikePolicy } from '../application/use-cases/member-use-cases.js';
 
 /**
  * Application environment containing all dependencies.
@@ -24,11 +60,30 @@ export interface AppEnvironment {
   gearTypeRepo: GearTypeRepository;
   gearItemRepo: GearItemRepository;
   checkoutRepo: CheckoutRepository;
+  reservationRepo: ReservationRepository;
+  kitRepo: KitRepository;
+  staffMemberRepo: StaffMemberRepository;
+  memberAccountRepo: MemberAccountRepository;
+  waiverDocumentRepo: WaiverDocumentRepository;
+  certificationTypeRepo: CertificationTypeRepository;
+  maintenanceTicketRepo: MaintenanceTicketRepository;
+  inspectionRepo: InspectionRepository;
+  domainEventRepo: DomainEventRepository;
 
   // Services
   idGenerator: IdGenerator;
   clock: Clock;
   eventPublisher: EventPublisher;
+  pinHasher: PinHasher;
+  unitOfWork: UnitOfWork;
+
+  // Policies
+  renewalPolicy: RenewalPolicy;
+  accountPolicy: AccountPolicy;
+  lateFeePolicy: LateFeePolicy;
+  membershipTierPolicy: MembershipTierPolicy;
+  membershipPlanPolicy: MembershipPlanPolicy;
+  strikePolicy: StrikePolicy;
 
   // Database (for direct access if needed)
   db: GearRoomDatabase;
@@ -36,6 +91,10 @@ export interface AppEnvironment {
 
 let environment: AppEnvironment | null = null;
 
+// Kept outside the environment so subscribers survive a reset (e.g. reseeding demo data)
+const subscriptions = new EventSubscriptions();
+let unsubscribeStrikePolicy: (() => void) | null = null;
+
 /**
  * Create the application environment.
  * Uses singleton pattern - call this once at app startup.
@@ -46,6 +105,7 @@ export function createEnvironment(): AppEnvironment {
   }
 
   const db = getDatabase();
+  const clock = new SystemClock();
 
   environment = {
     // Repositories
@@ -53,16 +113,39 @@ export function createEnvironment(): AppEnvironment {
     gearTypeRepo: new DexieGearTypeRepository(db),
     gearItemRepo: new DexieGearItemRepository(db),
     checkoutRepo: new DexieCheckoutRepository(db),
+    reservationRepo: new DexieReservationRepository(db),
+    kitRepo: new DexieKitRepository(db),
+    staffMemberRepo: new DexieStaffMemberRepository(db),
+    memberAccountRepo: new DexieMemberAccountRepository(db),
+    waiverDocumentRepo: new DexieWaiverDocumentRepository(db),
+    certificationTypeRepo: new DexieCertificationTypeRepository(db),
+    maintenanceTicketRepo: new DexieMaintenanceTicketRepository(db),
+    inspectionRepo: new DexieInspectionRepository(db),
+    domainEventRepo: new DexieDomainEventRepository(db),
 
     // Services
     idGenerator: new UuidGenerator(),
-    clock: new SystemClock(),
-    eventPublisher: new LocalEventPublisher(db),
+    clock,
+    eventPublisher: new LocalEventPublisher(db, clock, subscriptions),
+    pinHasher: new WebCryptoPinHasher(),
+    unitOfWork: new DexieUnitOfWork(db),
+
+    // Policies
+    renewalPolicy: DEFAULT_RENEWAL_POLICY,
+    accountPolicy: DEFAULT_ACCOUNT_POLICY,
+    lateFeePolicy: DEFAULT_LATE_FEE_POLICY,
+    membershipTierPolicy: DEFAULT_MEMBERSHIP_TIER_POLICY,
+    membershipPlanPolicy: DEFAULT_MEMBERSHIP_PLAN_POLICY,
+    strikePolicy: DEFAULT_STRIKE_POLICY,
 
     // Database
     db
   };
 
+  // Re-registered with each environment so the handlers use its repositories
+  unsubscribeStrikePolicy?.();
+  unsubscribeStrikePolicy = subscribeStrikePolicy(environment);
+
   return environment;
 }
 
@@ -0,0 +1,25 @@
+import type { CertificationTypeRepository } from '../../application/ports/repositories.js';
+import { CertificationType } from '../../domain/entities/certification-type.js';
+import type { CertificationTypeId } from '../../domain/value-objects/index.js';
+import type { GearRoomDatabase } from '../storage/database.js';
+
+/**
+ * Dexie (IndexedDB) implementation of CertificationTypeRepository.
+ */
+export class DexieCertificationTypeRepository implements CertificationTypeRepository {
+  constructor(private readonly db: GearRoomDatabase) {}
+
+  async findById(id: CertificationTypeId): Promise<CertificationType | null> {
+    const record = await this.db.certificationTypes.get(id);
+    return record ? CertificationType.fromRecord(record) : null;
+  }
+
+  async findAll(): Promise<CertificationType[]> {
+    const records = await this.db.certificationTypes.orderBy('name').toArray();
+    return records.map((r) => CertificationType.fromRecord(r));
+  }
+
+  async save(certificationType: CertificationType): Promise<void> {
+    await this.db.certificationTypes.put(certificationType.toRecord());
+  }
+}
@@ -0,0 +1,52 @@
+import Dexie from 'dexie';
+import type {
+  DomainEventRepository,
+  DomainEventFilter
+} from '../../application/ports/repositories.js';
+import type { DomainEvent } from '../../application/ports/services.js';
+import { deserializeDomainEvent } from '../../domain/events/index.js';
+import type { GearRoomDatabase, DomainEventRecord } from '../storage/database.js';
+
+/**
+ * Dexie (IndexedDB) implementation of DomainEventRepository.
+ * Walks the [occurredAt+id] index backwards so paging never skips or repeats events.
+ * Records that fail validation against the event catalog are skipped.
+ */
+export class DexieDomainEventRepository implements DomainEventRepository {
+  constructor(private readonly db: GearRoomDatabase) {}
+
+  async find(filter: DomainEventFilter, limit: number): Promise<DomainEvent[]> {
+    const lower = filter.fromDate ? [filter.fromDate.toISOString(), Dexie.minKey] : [Dexie.minKey, Dexie.minKey];
+    const upper = filter.before
+      ? [filter.before.occurredAt.toISOString(), filter.before.id]
+      : [filter.toDate ? filter.toDate.toISOString() : Dexie.maxKey, Dexie.maxKey];
+    const includeUpper = !filter.before;
+
+    const records = await this.db.domainEvents
+      .where('[occurredAt+id]')
+      .between(lower, upper, true, includeUpper)
+      .reverse()
+      .filter((r) => matches(r, filter) && deserializeDomainEvent(r).ok)
+      .limit(limit)
+      .toArray();
+
+    return records.flatMap((r) => {
+      const result = deserializeDomainEvent(r);
+      return result.ok ? [result.value] : [];
+    });
+  }
+
+  async findTypes(): Promise<string[]> {
+    const types = await this.db.domainEvents.orderBy('type').uniqueKeys();
+    return types.map(String);
+  }
+}
+
+function matches(record: DomainEventRecord, filter: DomainEventFilter): boolean {
+  if (filter.type && record.type !== filter.type) return false;
+  if (filter.aggregateId && record.aggregateId !== filter.aggregateId) return false;
+  if (filter.staffMemberId && record.staffMemberId !== filter.staffMemberId) return false;
+  // The cursor may sit past toDate's end when paging, so check it explicitly
+  if (filter.toDate && record.occurredAt > filter.toDate.toISOString()) return false;
+  return true;
+}
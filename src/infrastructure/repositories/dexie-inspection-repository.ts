@@ -0,0 +1,27 @@
+import type { InspectionRepository } from '../../application/ports/repositories.js';
+import { Inspection } from '../../domain/entities/inspection.js';
+import type { GearItemId, InspectionId } from '../../domain/value-objects/index.js';
+import type { GearRoomDatabase } from '../storage/database.js';
+
+/**
+ * Dexie (IndexedDB) implementation of InspectionRepository.
+ */
+export class DexieInspectionRepository implements InspectionRepository {
+  constructor(private readonly db: GearRoomDatabase) {}
+
+  async findById(id: InspectionId): Promise<Inspection | null> {
+    const record = await this.db.inspections.get(id);
+    return record ? Inspection.fromRecord(record) : null;
+  }
+
+  async findByGearItemId(gearItemId: GearItemId): Promise<Inspection[]> {
+    const records = await this.db.inspections.where('gearItemId').equals(gearItemId).toArray();
+    return records
+      .sort((a, b) => b.inspectedAt.localeCompare(a.inspectedAt))
+      .map((r) => Inspection.fromRecord(r));
+  }
+
+  async save(inspection: Inspection): Promise<void> {
+    await this.db.inspections.put(inspection.toRecord());
+  }
+}
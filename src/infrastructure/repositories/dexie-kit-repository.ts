@@ -0,0 +1,29 @@
+import type { KitRepository } from '../../application/ports/repositories.js';
+import { Kit } from '../../domain/entities/kit.js';
+import type { KitId } from '../../domain/value-objects/index.js';
+import type { GearRoomDatabase } from '../storage/database.js';
+
+/**
+ * Dexie (IndexedDB) implementation of KitRepository.
+ */
+export class DexieKitRepository implements KitRepository {
+  constructor(private readonly db: GearRoomDatabase) {}
+
+  async findById(id: KitId): Promise<Kit | null> {
+    const record = await this.db.kits.get(id);
+    return record ? Kit.fromRecord(record) : null;
+  }
+
+  async findAll(): Promise<Kit[]> {
+    const records = await this.db.kits.orderBy('name').toArray();
+    return records.map((r) => Kit.fromRecord(r));
+  }
+
+  async save(kit: Kit): Promise<void> {
+    await this.db.kits.put(kit.toRecord());
+  }
+
+  async delete(id: KitId): Promise<void> {
+    await this.db.kits.delete(id);
+  }
+}
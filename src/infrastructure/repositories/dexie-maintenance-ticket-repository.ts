@@ -0,0 +1,45 @@
+import type { MaintenanceTicketRepository } from '../../application/ports/repositories.js';
+import { MaintenanceTicket } from '../../domain/entities/maintenance-ticket.js';
+import { MaintenanceTicketStatus } from '../../domain/types.js';
+import type { GearItemId, MaintenanceTicketId, MemberId } from '../../domain/value-objects/index.js';
+import type { GearRoomDatabase } from '../storage/database.js';
+
+/**
+ * Dexie (IndexedDB) implementation of MaintenanceTicketRepository.
+ */
+export class DexieMaintenanceTicketRepository implements MaintenanceTicketRepository {
+  constructor(private readonly db: GearRoomDatabase) {}
+
+  async findById(id: MaintenanceTicketId): Promise<MaintenanceTicket | null> {
+    const record = await this.db.maintenanceTickets.get(id);
+    return record ? MaintenanceTicket.fromRecord(record) : null;
+  }
+
+  async findByGearItemId(gearItemId: GearItemId): Promise<MaintenanceTicket[]> {
+    const records = await this.db.maintenanceTickets.where('gearItemId').equals(gearItemId).toArray();
+    return records
+      .sort((a, b) => b.openedAt.localeCompare(a.openedAt))
+      .map((r) => MaintenanceTicket.fromRecord(r));
+  }
+
+  async findByMemberId(memberId: MemberId): Promise<MaintenanceTicket[]> {
+    const records = await this.db.maintenanceTickets.where('damage.memberId').equals(memberId).toArray();
+    return records
+      .sort((a, b) => b.openedAt.localeCompare(a.openedAt))
+      .map((r) => MaintenanceTicket.fromRecord(r));
+  }
+
+  async findOpen(): Promise<MaintenanceTicket[]> {
+    const records = await this.db.maintenanceTickets
+      .where('status')
+      .notEqual(MaintenanceTicketStatus.DONE)
+      .toArray();
+    return records
+      .sort((a, b) => a.openedAt.localeCompare(b.openedAt))
+      .map((r) => MaintenanceTicket.fromRecord(r));
+  }
+
+  async save(ticket: MaintenanceTicket): Promise<void> {
+    await this.db.maintenanceTickets.put(ticket.toRecord());
+  }
+}
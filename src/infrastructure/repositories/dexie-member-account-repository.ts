@@ -0,0 +1,25 @@
+import type { MemberAccountRepository } from '../../application/ports/repositories.js';
+import { AccountEntry } from '../../domain/entities/account-entry.js';
+import { MemberAccount } from '../../domain/entities/member-account.js';
+import type { MemberId } from '../../domain/value-objects/index.js';
+import type { GearRoomDatabase } from '../storage/database.js';
+
+/**
+ * Dexie (IndexedDB) implementation of MemberAccountRepository.
+ */
+export class DexieMemberAccountRepository implements MemberAccountRepository {
+  constructor(private readonly db: GearRoomDatabase) {}
+
+  async findByMemberId(memberId: MemberId): Promise<MemberAccount> {
+    const records = await this.db.accountEntries.where('memberId').equals(memberId).toArray();
+    return MemberAccount.fromEntries(
+      memberId,
+      records.map((r) => AccountEntry.fromRecord(r))
+    );
+  }
+
+  async append(entry: AccountEntry): Promise<void> {
+    // add, not put: an existing entry is never overwritten
+    await this.db.accountEntries.add(entry.toRecord());
+  }
+}
@@ -0,0 +1,50 @@
+import type { ReservationRepository, ReservationFilter } from '../../application/ports/repositories.js';
+import { Reservation, type ReservationRecord } from '../../domain/entities/reservation.js';
+import type { MemberId, ReservationId } from '../../domain/value-objects/index.js';
+import { ReservationStatus } from '../../domain/types.js';
+import type { GearRoomDatabase } from '../storage/database.js';
+
+/**
+ * Dexie (IndexedDB) implementation of ReservationRepository.
+ */
+export class DexieReservationRepository implements ReservationRepository {
+  constructor(private readonly db: GearRoomDatabase) {}
+
+  async findById(id: ReservationId): Promise<Reservation | null> {
+    const record = await this.db.reservations.get(id);
+    return record ? Reservation.fromRecord(record) : null;
+  }
+
+  async findByMemberId(memberId: MemberId, filter?: ReservationFilter): Promise<Reservation[]> {
+    const records = await this.db.reservations.where('memberId').equals(memberId).toArray();
+    return this.applyFilter(records, filter).map((r) => Reservation.fromRecord(r));
+  }
+
+  async findPendingOverlapping(start: Date, end: Date): Promise<Reservation[]> {
+    const records = await this.db.reservations
+      .where('status')
+      .equals(ReservationStatus.PENDING)
+      .toArray();
+
+    return records
+      .map((r) => Reservation.fromRecord(r))
+      .filter((r) => r.overlaps(start, end));
+  }
+
+  async findAll(filter?: ReservationFilter): Promise<Reservation[]> {
+    const records = await this.db.reservations.toArray();
+    return this.applyFilter(records, filter).map((r) => Reservation.fromRecord(r));
+  }
+
+  async save(reservation: Reservation): Promise<void> {
+    await this.db.reservations.put(reservation.toRecord());
+  }
+
+  private applyFilter(records: ReservationRecord[], filter?: ReservationFilter): ReservationRecord[] {
+    if (!filter?.status) {
+      return records;
+    }
+    const statuses = Array.isArray(filter.status) ? filter.status : [filter.status];
+    return records.filter((r) => statuses.includes(r.status));
+  }
+}
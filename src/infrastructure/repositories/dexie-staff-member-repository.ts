@@ -0,0 +1,25 @@
+import type { StaffMemberRepository } from '../../application/ports/repositories.js';
+import { StaffMember } from '../../domain/entities/staff-member.js';
+import type { StaffMemberId } from '../../domain/value-objects/index.js';
+import type { GearRoomDatabase } from '../storage/database.js';
+
+/**
+ * Dexie (IndexedDB) implementation of StaffMemberRepository.
+ */
+export class DexieStaffMemberRepository implements StaffMemberRepository {
+  constructor(private readonly db: GearRoomDatabase) {}
+
+  async findById(id: StaffMemberId): Promise<StaffMember | null> {
+    const record = await this.db.staffMembers.get(id);
+    return record ? StaffMember.fromRecord(record) : null;
+  }
+
+  async findAll(): Promise<StaffMember[]> {
+    const records = await this.db.staffMembers.orderBy('name').toArray();
+    return records.map((r) => StaffMember.fromRecord(r));
+  }
+
+  async save(staffMember: StaffMember): Promise<void> {
+    await this.db.staffMembers.put(staffMember.toRecord());
+  }
+}
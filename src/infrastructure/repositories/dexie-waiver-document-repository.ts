@@ -0,0 +1,38 @@
+import type { WaiverDocumentRepository } from '../../application/ports/repositories.js';
+import { WaiverDocument } from '../../domain/entities/waiver-document.js';
+import type { WaiverDocumentId } from '../../domain/value-objects/index.js';
+import type { GearRoomDatabase } from '../storage/database.js';
+
+/**
+ * Dexie (IndexedDB) implementation of WaiverDocumentRepository.
+ */
+export class DexieWaiverDocumentRepository implements WaiverDocumentRepository {
+  constructor(private readonly db: GearRoomDatabase) {}
+
+  async findById(id: WaiverDocumentId): Promise<WaiverDocument | null> {
+    const record = await this.db.waiverDocuments.get(id);
+    return record ? WaiverDocument.fromRecord(record) : null;
+  }
+
+  async findByVersion(version: string): Promise<WaiverDocument | null> {
+    const record = await this.db.waiverDocuments.where('version').equals(version).first();
+    return record ? WaiverDocument.fromRecord(record) : null;
+  }
+
+  async findCurrent(asOf: Date): Promise<WaiverDocument | null> {
+    const record = await this.db.waiverDocuments
+      .where('effectiveAt')
+      .belowOrEqual(asOf.toISOString())
+      .last();
+    return record ? WaiverDocument.fromRecord(record) : null;
+  }
+
+  async findAll(): Promise<WaiverDocument[]> {
+    const records = await this.db.waiverDocuments.orderBy('effectiveAt').reverse().toArray();
+    return records.map((r) => WaiverDocument.fromRecord(r));
+  }
+
+  async save(document: WaiverDocument): Promise<void> {
+    await this.db.waiverDocuments.put(document.toRecord());
+  }
+}
@@ -2,3 +2,12 @@ export * from './dexie-member-repository.js';
 export * from './dexie-gear-type-repository.js';
 export * from './dexie-gear-item-repository.js';
 export * from './dexie-checkout-repository.js';
+export * from './dexie-reservation-repository.js';
+export * from './dexie-kit-repository.js';
+export * from './dexie-staff-member-repository.js';
+export * from './dexie-domain-event-repository.js';
+export * from './dexie-member-account-repository.js';
+export * from './dexie-waiver-document-repository.js';
+export * from './dexie-certification-type-repository.js';
+export * from './dexie-maintenance-ticket-repository.js';
+export * from './dexie-inspection-repository.js';
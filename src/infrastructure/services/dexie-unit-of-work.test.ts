@@ -0,0 +1,131 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { DexieUnitOfWork } from './dexie-unit-of-work.js';
+import { LocalEventPublisher } from './local-event-publisher.js';
+import { GearRoomDatabase } from '../storage/database.js';
+import { DexieGearItemRepository } from '../repositories/dexie-gear-item-repository.js';
+import { GearItem } from '../../domain/entities/gear-item.js';
+import { GearItemRetired } from '../../domain/events/index.js';
+import { gearTypeId } from '../../domain/value-objects/index.js';
+import { unwrap } from '../../application/result.js';
+import { createMockClock, createMockIdGenerator } from '../../test-utils/in-memory-repositories.js';
+
+// ============================================================================
+// Test helpers
+// ============================================================================
+
+const deps = { idGenerator: createMockIdGenerator(), clock: createMockClock() };
+
+let db: GearRoomDatabase;
+let unitOfWork: DexieUnitOfWork;
+let gearItemRepo: DexieGearItemRepository;
+let eventPublisher: LocalEventPublisher;
+
+beforeEach(() => {
+  db = new GearRoomDatabase();
+  unitOfWork = new DexieUnitOfWork(db);
+  gearItemRepo = new DexieGearItemRepository(db);
+  eventPublisher = new LocalEventPublisher(db, deps.clock);
+});
+
+afterEach(async () => {
+  await db.delete();
+});
+
+function retireEvent(item: GearItem) {
+  return GearItemRetired.create({ aggregateId: item.id, payload: { code: item.code } }, deps);
+}
+
+function newItem() {
+  return unwrap(GearItem.create({ gearTypeId: gearTypeId('type-1'), code: 'TENT-001' }, deps));
+}
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+describe('DexieUnitOfWork', () => {
+  it('commits every write in the block together', async () => {
+    const item = newItem();
+
+    await unitOfWork.run(async () => {
+      await gearItemRepo.save(item);
+      await eventPublisher.publish(retireEvent(item));
+    });
+
+    expect(await gearItemRepo.findById(item.id)).not.toBeNull();
+    expect(await db.domainEvents.count()).toBe(1);
+  });
+
+  it('rolls back every write when the block fails partway', async () => {
+    const item = newItem();
+    const event = retireEvent(item);
+    await eventPublisher.publish(event);
+
+    // Re-publishing the same event id fails after the item was saved
+    await expect(
+      unitOfWork.run(async () => {
+        await gearItemRepo.save(item);
+        await eventPublisher.publish(event);
+      })
+    ).rejects.toThrow();
+
+    expect(await gearItemRepo.findById(item.id)).toBeNull();
+    expect(await db.domainEvents.count()).toBe(1);
+  });
+
+  it('runs event subscribers only after the transaction commits', async () => {
+    const item = newItem();
+    const handled: string[] = [];
+    eventPublisher.subscribe({
+      name: 'watch-retirements',
+      eventType: 'GearItemRetired',
+      handle: async (event) => {
+        handled.push(event.payload.code);
+      }
+    });
+
+    await expect(
+      unitOfWork.run(async () => {
+        await eventPublisher.publish(retireEvent(item));
+        throw new Error('abort');
+      })
+    ).rejects.toThrow('abort');
+    expect(handled).toEqual([]);
+
+    await unitOfWork.run(async () => {
+      await eventPublisher.publish(retireEvent(item));
+      expect(handled).toEqual([]);
+    });
+    await vi.waitFor(() => expect(handled).toEqual(['TENT-001']));
+  });
+
+  it('joins an outer unit of work, holding subscribers until the outer one commits', async () => {
+    const item = newItem();
+    const handled: string[] = [];
+    eventPublisher.subscribe({
+      name: 'watch-retirements',
+      eventType: 'GearItemRetired',
+      handle: async (event) => {
+        handled.push(event.payload.code);
+      }
+    });
+
+    await expect(
+      unitOfWork.run(async () => {
+        await unitOfWork.run(async () => {
+          await gearItemRepo.save(item);
+          await eventPublisher.publish(retireEvent(item));
+        });
+        // Reads give an early dispatch time to run without letting the transaction commit
+        for (let i = 0; i < 5; i++) {
+          await db.gearItems.count();
+        }
+        expect(handled).toEqual([]);
+        throw new Error('abort');
+      })
+    ).rejects.toThrow('abort');
+
+    expect(await gearItemRepo.findById(item.id)).toBeNull();
+    expect(handled).toEqual([]);
+  });
+});
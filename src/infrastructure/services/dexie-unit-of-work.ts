@@ -0,0 +1,35 @@
+import type { UnitOfWork } from '../../application/ports/services.js';
+import type { GearRoomDatabase } from '../storage/database.js';
+
+/**
+ * Dexie implementation of UnitOfWork: one read-write transaction over the tables
+ * that checkouts, returns, account postings, inventory changes, maintenance tickets,
+ * inspections, membership renewals and reservation pickups read and write.
+ * Repositories and the event publisher join it automatically while `work` runs,
+ * and a unit of work started inside another joins the outer one.
+ */
+export class DexieUnitOfWork implements UnitOfWork {
+  constructor(private readonly db: GearRoomDatabase) {}
+
+  run<T>(work: () => Promise<T>): Promise<T> {
+    const db = this.db;
+    return db.transaction(
+      'rw',
+      [
+        db.members,
+        db.checkouts,
+        db.gearItems,
+        db.gearTypes,
+        db.accountEntries,
+        db.maintenanceTickets,
+        db.inspections,
+        db.reservations,
+        db.kits,
+        db.waiverDocuments,
+        db.certificationTypes,
+        db.domainEvents
+      ],
+      work
+    );
+  }
+}
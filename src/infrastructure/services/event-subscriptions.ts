@@ -0,0 +1,65 @@
+import type { DomainEvent, EventSubscription } from '../../application/ports/services.js';
+import type { DomainEventType } from '../../domain/events/index.js';
+
+/**
+ * Deliveries that fail this many times stay recorded but are no longer retried.
+ */
+export const MAX_DELIVERY_ATTEMPTS = 5;
+
+export interface DeliveryFailure {
+  eventId: string;
+  subscriber: string;
+  error: string;
+}
+
+/**
+ * Registry of event subscribers, shared by the event publishers.
+ */
+export class EventSubscriptions {
+  private readonly byName = new Map<string, EventSubscription>();
+
+  add<T extends DomainEventType>(subscription: EventSubscription<T>): () => void {
+    if (this.byName.has(subscription.name)) {
+      throw new Error(`An event subscriber named "${subscription.name}" is already registered`);
+    }
+    // Safe: dispatch only hands a subscriber events of its own type
+    const registered = subscription as unknown as EventSubscription;
+    this.byName.set(subscription.name, registered);
+    return () => {
+      if (this.byName.get(subscription.name) === registered) {
+        this.byName.delete(subscription.name);
+      }
+    };
+  }
+
+  find(name: string): EventSubscription | undefined {
+    return this.byName.get(name);
+  }
+
+  /**
+   * Run every subscriber for the event. One subscriber throwing does not stop the others.
+   */
+  async dispatch(event: DomainEvent): Promise<DeliveryFailure[]> {
+    const failures: DeliveryFailure[] = [];
+    for (const subscription of this.byName.values()) {
+      if (subscription.eventType !== event.type) continue;
+      const error = await this.deliver(subscription, event);
+      if (error !== null) {
+        failures.push({ eventId: event.id, subscriber: subscription.name, error });
+      }
+    }
+    return failures;
+  }
+
+  /**
+   * Run one subscriber. Returns the error message if it threw, otherwise null.
+   */
+  async deliver(subscription: EventSubscription, event: DomainEvent): Promise<string | null> {
+    try {
+      await subscription.handle(event);
+      return null;
+    } catch (e) {
+      return e instanceof Error ? e.message : String(e);
+    }
+  }
+}
@@ -1,3 +1,6 @@
 export * from './uuid-generator.js';
 export * from './system-clock.js';
 export * from './local-event-publisher.js';
+export * from './event-subscriptions.js';
+export * from './dexie-unit-of-work.js';
+export * from './web-crypto-pin-hasher.js';
@@ -0,0 +1,194 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { LocalEventPublisher } from './local-event-publisher.js';
+import { DexieUnitOfWork } from './dexie-unit-of-work.js';
+import { MAX_DELIVERY_ATTEMPTS } from './event-subscriptions.js';
+import { GearRoomDatabase } from '../storage/database.js';
+import { ItemsReturned, CheckoutCreated, serializeDomainEvent } from '../../domain/events/index.js';
+import type { DomainEvent } from '../../application/ports/services.js';
+import { createMockClock, createMockIdGenerator } from '../../test-utils/in-memory-repositories.js';
+
+// ============================================================================
+// Test helpers
+// ============================================================================
+
+const deps = { idGenerator: createMockIdGenerator(), clock: createMockClock() };
+
+function itemsReturned(checkoutId = 'checkout-1') {
+  return ItemsReturned.create(
+    { aggregateId: checkoutId, payload: { checkoutId, returnCount: 1, checkoutComplete: true } },
+    deps
+  );
+}
+
+let db: GearRoomDatabase;
+let publisher: LocalEventPublisher;
+
+beforeEach(() => {
+  db = new GearRoomDatabase();
+  publisher = new LocalEventPublisher(db, deps.clock);
+});
+
+afterEach(async () => {
+  await db.delete();
+});
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+describe('LocalEventPublisher subscriptions', () => {
+  it('runs subscribers for their event type after the event is stored', async () => {
+    const seen: string[] = [];
+    publisher.subscribe({
+      name: 'count-returns',
+      eventType: 'ItemsReturned',
+      handle: async (event) => {
+        expect(await db.domainEvents.get(event.id)).toBeDefined();
+        seen.push(event.payload.checkoutId);
+      }
+    });
+
+    const returned = itemsReturned();
+    await publisher.publish(returned);
+    await publisher.publish(
+      CheckoutCreated.create(
+        { aggregateId: 'checkout-2', payload: { checkoutId: 'checkout-2', memberId: 'member-1', itemCount: 1 } },
+        deps
+      )
+    );
+
+    expect(seen).toEqual(['checkout-1']);
+    expect((await db.domainEvents.get(returned.id))?.pendingSince).toBeUndefined();
+  });
+
+  it('isolates a failing subscriber and records the failure', async () => {
+    const seen: string[] = [];
+    publisher.subscribe({
+      name: 'broken',
+      eventType: 'ItemsReturned',
+      handle: async () => {
+        throw new Error('mail server down');
+      }
+    });
+    publisher.subscribe({
+      name: 'working',
+      eventType: 'ItemsReturned',
+      handle: async (event) => {
+        seen.push(event.id);
+      }
+    });
+
+    const event = itemsReturned();
+    await publisher.publish(event);
+
+    expect(seen).toEqual([event.id]);
+    expect(await db.eventDeliveryFailures.toArray()).toEqual([
+      {
+        eventId: event.id,
+        subscriber: 'broken',
+        attempts: 1,
+        lastError: 'mail server down',
+        lastAttemptAt: deps.clock.now().toISOString()
+      }
+    ]);
+  });
+
+  it('retries failed deliveries from the stored event', async () => {
+    let failing = true;
+    const delivered: DomainEvent[] = [];
+    publisher.subscribe({
+      name: 'flaky',
+      eventType: 'ItemsReturned',
+      handle: async (event) => {
+        if (failing) throw new Error('not yet');
+        delivered.push(event);
+      }
+    });
+
+    const event = itemsReturned();
+    await publisher.publish(event);
+    await publisher.retryFailedDeliveries();
+    expect((await db.eventDeliveryFailures.toArray())[0].attempts).toBe(2);
+
+    failing = false;
+    await publisher.retryFailedDeliveries();
+
+    expect(delivered).toEqual([event]);
+    expect(await db.eventDeliveryFailures.count()).toBe(0);
+  });
+
+  it('stops retrying after the maximum number of attempts', async () => {
+    let calls = 0;
+    publisher.subscribe({
+      name: 'always-broken',
+      eventType: 'ItemsReturned',
+      handle: async () => {
+        calls++;
+        throw new Error('still broken');
+      }
+    });
+
+    await publisher.publish(itemsReturned());
+    for (let i = 0; i < MAX_DELIVERY_ATTEMPTS + 2; i++) {
+      await publisher.retryFailedDeliveries();
+    }
+
+    expect(calls).toBe(MAX_DELIVERY_ATTEMPTS);
+    expect((await db.eventDeliveryFailures.toArray())[0].attempts).toBe(MAX_DELIVERY_ATTEMPTS);
+  });
+
+  it('dispatches events that were stored but never dispatched once they are a minute old', async () => {
+    const clock = createMockClock();
+    const sweeping = new LocalEventPublisher(db, clock);
+    const seen: string[] = [];
+    sweeping.subscribe({
+      name: 'count-returns',
+      eventType: 'ItemsReturned',
+      handle: async (event) => {
+        seen.push(event.id);
+      }
+    });
+
+    // As left behind when the tab closes between commit and dispatch
+    const event = itemsReturned();
+    await db.domainEvents.add({ ...serializeDomainEvent(event), synced: false, pendingSince: clock.now().toISOString() });
+
+    await sweeping.retryFailedDeliveries();
+    expect(seen).toEqual([]);
+
+    clock.set(new Date(clock.now().getTime() + 2 * 60_000));
+    await sweeping.retryFailedDeliveries();
+    await sweeping.retryFailedDeliveries();
+
+    expect(seen).toEqual([event.id]);
+    expect((await db.domainEvents.get(event.id))?.pendingSince).toBeUndefined();
+  });
+
+  it('leaves events pending when a dispatch after commit cannot record its failures', async () => {
+    let calls = 0;
+    publisher.subscribe({
+      name: 'broken',
+      eventType: 'ItemsReturned',
+      handle: async () => {
+        calls++;
+        throw new Error('mail server down');
+      }
+    });
+    const bulkPut = vi.spyOn(db.eventDeliveryFailures, 'bulkPut').mockRejectedValueOnce(new Error('quota exceeded'));
+
+    const event = itemsReturned();
+    await new DexieUnitOfWork(db).run(() => publisher.publish(event));
+    await vi.waitFor(() => expect(bulkPut).toHaveBeenCalled());
+
+    expect(calls).toBe(1);
+    expect(await db.eventDeliveryFailures.count()).toBe(0);
+    expect((await db.domainEvents.get(event.id))?.pendingSince).toBe(deps.clock.now().toISOString());
+  });
+
+  it('rejects two subscribers with the same name', () => {
+    const subscription = { name: 'dup', eventType: 'ItemsReturned' as const, handle: async () => {} };
+    publisher.subscribe(subscription);
+
+    expect(() => publisher.subscribe(subscription)).toThrow(/already registered/);
+  });
+});
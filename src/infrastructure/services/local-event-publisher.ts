@@ -1,34 +1,152 @@
-import type { EventPublisher, DomainEvent } from '../../application/ports/services.js';
-import type { GearRoomDatabase } from '../storage/database.js';
+import Dexie from 'dexie';
+import type { EventPublisher, EventSubscription, DomainEvent, Clock } from '../../application/ports/services.js';
+import { serializeDomainEvent, deserializeDomainEvent, type DomainEventType } from '../../domain/events/index.js';
+import type { DomainEventRecord, GearRoomDatabase } from '../storage/database.js';
+import { EventSubscriptions, MAX_DELIVERY_ATTEMPTS, type DeliveryFailure } from './event-subscriptions.js';
+
+// Pending events younger than this may still be dispatching after their commit
+const PENDING_DISPATCH_GRACE_MS = 60_000;
 
 /**
  * Local event publisher that stores events in IndexedDB.
  * Events are stored for audit trail and potential future sync.
+ * Subscribers run once the events are written, or once the surrounding transaction commits;
+ * their failures are recorded for retry. Events are stored as pending until dispatched,
+ * so ones that never were (e.g. the tab closed right after commit) are picked up by the retry sweep.
  */
 export class LocalEventPublisher implements EventPublisher {
-  constructor(private readonly db: GearRoomDatabase) {}
+  constructor(
+    private readonly db: GearRoomDatabase,
+    private readonly clock: Clock,
+    private readonly subscriptions: EventSubscriptions = new EventSubscriptions()
+  ) {}
 
   async publish(event: DomainEvent): Promise<void> {
-    await this.db.domainEvents.add({
-      id: event.id,
-      type: event.type,
-      aggregateId: event.aggregateId,
-      occurredAt: event.occurredAt.toISOString(),
-      payload: JSON.stringify(event.payload),
-      synced: false
-    });
+    await this.db.domainEvents.add(this.toRecord(event));
+    await this.dispatchAfterCommit([event]);
   }
 
   async publishMany(events: DomainEvent[]): Promise<void> {
-    await this.db.domainEvents.bulkAdd(
-      events.map((event) => ({
-        id: event.id,
-        type: event.type,
-        aggregateId: event.aggregateId,
-        occurredAt: event.occurredAt.toISOString(),
-        payload: JSON.stringify(event.payload),
-        synced: false
+    await this.db.domainEvents.bulkAdd(events.map((event) => this.toRecord(event)));
+    await this.dispatchAfterCommit(events);
+  }
+
+  subscribe<T extends DomainEventType>(subscription: EventSubscription<T>): () => void {
+    return this.subscriptions.add(subscription);
+  }
+
+  async retryFailedDeliveries(): Promise<void> {
+    await this.dispatchPending();
+
+    const failures = await this.db.eventDeliveryFailures.where('attempts').below(MAX_DELIVERY_ATTEMPTS).toArray();
+
+    for (const failure of failures) {
+      // Subscribers register at runtime; leave the failure until this one is back
+      const subscription = this.subscriptions.find(failure.subscriber);
+      if (!subscription) continue;
+
+      const key: [string, string] = [failure.eventId, failure.subscriber];
+      const record = await this.db.domainEvents.get(failure.eventId);
+      const parsed = record ? deserializeDomainEvent(record) : null;
+      if (!parsed?.ok) {
+        await this.db.eventDeliveryFailures.delete(key);
+        continue;
+      }
+
+      const error = await this.subscriptions.deliver(subscription, parsed.value);
+      if (error === null) {
+        await this.db.eventDeliveryFailures.delete(key);
+      } else {
+        await this.db.eventDeliveryFailures.put({
+          ...failure,
+          attempts: failure.attempts + 1,
+          lastError: error,
+          lastAttemptAt: this.clock.now().toISOString()
+        });
+      }
+    }
+  }
+
+  private toRecord(event: DomainEvent): DomainEventRecord {
+    return { ...serializeDomainEvent(event), synced: false, pendingSince: this.clock.now().toISOString() };
+  }
+
+  /**
+   * Dispatch events stored as pending that were never dispatched after their commit.
+   */
+  private async dispatchPending(): Promise<void> {
+    const cutoff = new Date(this.clock.now().getTime() - PENDING_DISPATCH_GRACE_MS).toISOString();
+    const records = await this.db.domainEvents.where('pendingSince').below(cutoff).toArray();
+    const events: DomainEvent[] = [];
+    const unreadable: string[] = [];
+    for (const record of records) {
+      const parsed = deserializeDomainEvent(record);
+      if (parsed.ok) {
+        events.push(parsed.value);
+      } else {
+        unreadable.push(record.id);
+      }
+    }
+    await this.dispatchOrLeavePending(events);
+    // Unreadable events can never be dispatched; stop sweeping them
+    await this.markDispatched(unreadable);
+  }
+
+  private async dispatchAfterCommit(events: DomainEvent[]): Promise<void> {
+    let transaction = Dexie.currentTransaction;
+    if (!transaction) {
+      await this.dispatchOrLeavePending(events);
+      return;
+    }
+    // A nested unit of work completes when its block ends; only the outermost one commits
+    while (transaction.parent) {
+      transaction = transaction.parent;
+    }
+    // Subscribers must not see events that roll back, and cannot write inside the transaction
+    transaction.on('complete', () => {
+      Dexie.ignoreTransaction(() => this.dispatchOrLeavePending(events));
+    });
+  }
+
+  /**
+   * Never rejects: if recording the outcome fails, the events stay pending
+   * and the retry sweep dispatches them again.
+   */
+  private async dispatchOrLeavePending(events: DomainEvent[]): Promise<void> {
+    try {
+      await this.dispatch(events);
+      await this.markDispatched(events.map((e) => e.id));
+    } catch {
+      // Left pending for the sweep
+    }
+  }
+
+  private async dispatch(events: DomainEvent[]): Promise<void> {
+    const failures: DeliveryFailure[] = [];
+    for (const event of events) {
+      failures.push(...(await this.subscriptions.dispatch(event)));
+    }
+    if (failures.length === 0) return;
+
+    const lastAttemptAt = this.clock.now().toISOString();
+    await this.db.eventDeliveryFailures.bulkPut(
+      failures.map(({ eventId, subscriber, error }) => ({
+        eventId,
+        subscriber,
+        attempts: 1,
+        lastError: error,
+        lastAttemptAt
       }))
     );
   }
+
+  private async markDispatched(eventIds: string[]): Promise<void> {
+    if (eventIds.length === 0) return;
+    await this.db.domainEvents
+      .where('id')
+      .anyOf(eventIds)
+      .modify((record) => {
+        delete record.pendingSince;
+      });
+  }
 }
@@ -0,0 +1,57 @@
+import type { PinHasher } from '../../application/ports/services.js';
+
+const ITERATIONS = 100_000;
+const SALT_BYTES = 16;
+const KEY_BITS = 256;
+
+/**
+ * PinHasher using PBKDF2-SHA256 from the Web Crypto API.
+ * Hashes are stored as "pbkdf2$<iterations>$<salt hex>$<hash hex>".
+ */
+export class WebCryptoPinHasher implements PinHasher {
+  async hash(pin: string): Promise<string> {
+    const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+    const derived = await derive(pin, salt, ITERATIONS);
+    return ['pbkdf2', ITERATIONS, toHex(salt), toHex(derived)].join('$');
+  }
+
+  async verify(pin: string, pinHash: string): Promise<boolean> {
+    const [scheme, iterations, saltHex, hashHex] = pinHash.split('$');
+    if (scheme !== 'pbkdf2' || !iterations || !saltHex || !hashHex) {
+      return false;
+    }
+
+    const derived = toHex(await derive(pin, fromHex(saltHex), Number(iterations)));
+
+    // Compare every character so timing doesn't reveal how much matched
+    let diff = derived.length ^ hashHex.length;
+    for (let i = 0; i < Math.min(derived.length, hashHex.length); i++) {
+      diff |= derived.charCodeAt(i) ^ hashHex.charCodeAt(i);
+    }
+    return diff === 0;
+  }
+}
+
+async function derive(pin: string, salt: Uint8Array<ArrayBuffer>, iterations: number): Promise<Uint8Array> {
+  const key = await crypto.subtle.importKey('raw', new TextEncoder().encode(pin), 'PBKDF2', false, [
+    'deriveBits'
+  ]);
+  const bits = await crypto.subtle.deriveBits(
+    { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+    key,
+    KEY_BITS
+  );
+  return new Uint8Array(bits);
+}
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+function fromHex(hex: string): Uint8Array<ArrayBuffer> {
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+  }
+  return bytes;
+}
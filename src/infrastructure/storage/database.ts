@@ -1,19 +1,37 @@
 import Dexie, { type Table } from 'dexie';
 import type { MemberRecord } from '../../domain/entities/member.js';
 import type { GearTypeRecord } from '../../domain/entities/gear-type.js';
-import type { GearItemRecord } from '../../domain/entities/gear-item.js';
+import { type GearItemRecord, countDaysInUse } from '../../domain/entities/gear-item.js';
 import type { CheckoutRecord } from '../../domain/entities/checkout.js';
+import type { ReservationRecord } from '../../domain/entities/reservation.js';
+import type { KitRecord } from '../../domain/entities/kit.js';
+import type { StaffMemberRecord } from '../../domain/entities/staff-member.js';
+import type { AccountEntryRecord } from '../../domain/entities/account-entry.js';
+import type { WaiverDocumentRecord } from '../../domain/entities/waiver-document.js';
+import type { CertificationTypeRecord } from '../../domain/entities/certification-type.js';
+import type { MaintenanceTicketRecord } from '../../domain/entities/maintenance-ticket.js';
+import type { InspectionRecord } from '../../domain/entities/inspection.js';
+import type { SerializedDomainEvent } from '../../domain/events/index.js';
 
 /**
  * Domain event record for audit trail.
  */
-export interface DomainEventRecord {
-  id: string;
-  type: string;
-  aggregateId: string;
-  occurredAt: string;
-  payload: string; // JSON
+export interface DomainEventRecord extends SerializedDomainEvent {
   synced: boolean;
+  // ISO date the event was stored; cleared once its subscribers have run.
+  // Absent on records written before dispatch was tracked
+  pendingSince?: string;
+}
+
+/**
+ * A subscriber that threw while handling a stored event, kept for retry.
+ */
+export interface EventDeliveryFailureRecord {
+  eventId: string;
+  subscriber: string;
+  attempts: number;
+  lastError: string;
+  lastAttemptAt: string; // ISO date
 }
 
 /**
@@ -33,7 +51,16 @@ export class GearRoomDatabase extends Dexie {
   gearTypes!: Table<GearTypeRecord>;
   gearItems!: Table<GearItemRecord>;
   checkouts!: Table<CheckoutRecord>;
+  reservations!: Table<ReservationRecord>;
+  kits!: Table<KitRecord>;
+  staffMembers!: Table<StaffMemberRecord>;
+  accountEntries!: Table<AccountEntryRecord>;
+  waiverDocuments!: Table<WaiverDocumentRecord>;
+  certificationTypes!: Table<CertificationTypeRecord>;
+  maintenanceTickets!: Table<MaintenanceTicketRecord>;
+  inspections!: Table<InspectionRecord>;
   domainEvents!: Table<DomainEventRecord>;
+  eventDeliveryFailures!: Table<EventDeliveryFailureRecord, [string, string]>;
   syncMeta!: Table<SyncMetaRecord>;
 
   constructor() {
@@ -58,7 +85,106 @@ export class GearRoomDatabase extends Dexie {
       // Sync metadata
       syncMeta: 'key'
     });
+
+    this.version(2).stores({
+      // Reservation table - indexed by id, memberId, status, pickupStart
+      reservations: 'id, memberId, status, pickupStart'
+    });
+
+    this.version(3).stores({
+      // Kit table - indexed by id, name
+      kits: 'id, name'
+    });
+
+    this.version(4).stores({
+      // StaffMember table - indexed by id, name
+      staffMembers: 'id, name'
+    });
+
+    this.version(5).stores({
+      // Compound index so the audit log can page newest-first with a stable cursor
+      domainEvents: 'id, type, aggregateId, occurredAt, synced, [occurredAt+id]'
+    });
+
+    this.version(6).stores({
+      // Failed subscriber deliveries - keyed by event and subscriber
+      eventDeliveryFailures: '[eventId+subscriber], attempts'
+    });
+
+    this.version(7).stores({
+      // Member account ledger - indexed by id, memberId
+      accountEntries: 'id, memberId'
+    });
+
+    this.version(8).stores({
+      // Published waiver documents - indexed by id, version, effectiveAt
+      waiverDocuments: 'id, &version, effectiveAt'
+    });
+
+    this.version(9).stores({
+      // Certification types - indexed by id, name
+      certificationTypes: 'id, name'
+    });
+
+    this.version(10).stores({
+      // Maintenance tickets - indexed by id, gearItemId, status, openedAt
+      maintenanceTickets: 'id, gearItemId, status, openedAt'
+    });
+
+    this.version(11).stores({
+      // Maintenance tickets - add damage.memberId for a member's damage history
+      maintenanceTickets: 'id, gearItemId, status, openedAt, damage.memberId'
+    });
+
+    this.version(12).stores({
+      // Safety inspections - indexed by id, gearItemId, inspectedAt
+      inspections: 'id, gearItemId, inspectedAt'
+    });
+
+    this.version(13)
+      .stores({})
+      .upgrade(async (tx) => {
+        // Usage counters start from the checkout history
+        const usage = gearItemUsage(await tx.table('checkouts').toArray());
+        await tx
+          .table('gearItems')
+          .toCollection()
+          .modify((item: GearItemRecord) => {
+            Object.assign(item, usage.get(item.id) ?? { checkoutCount: 0, daysInUse: 0, checkedOutAt: null });
+          });
+      });
+
+    this.version(14).stores({
+      // Events whose subscribers have not run yet, for the retry sweep
+      domainEvents: 'id, type, aggregateId, occurredAt, synced, [occurredAt+id], pendingSince'
+    });
+  }
+}
+
+type GearItemUsage = Required<Pick<GearItemRecord, 'checkoutCount' | 'daysInUse' | 'checkedOutAt'>>;
+
+/**
+ * Usage counters for each individual item, for the version 13 migration.
+ */
+function gearItemUsage(checkouts: CheckoutRecord[]): Map<string, GearItemUsage> {
+  const usage = new Map<string, GearItemUsage>();
+  for (const checkout of checkouts) {
+    const items: Array<{ gearItemId: string | null; checkedOutAt: string; returnedAt: string | null; lostAt: string | null }> =
+      JSON.parse(checkout.items);
+    for (const item of items) {
+      if (!item.gearItemId) continue;
+      const counted = usage.get(item.gearItemId) ?? { checkoutCount: 0, daysInUse: 0, checkedOutAt: null };
+      const endedAt = item.returnedAt ?? item.lostAt;
+      counted.checkoutCount += 1;
+      if (endedAt) {
+        counted.daysInUse += countDaysInUse(new Date(item.checkedOutAt), new Date(endedAt));
+      } else {
+        counted.checkedOutAt = item.checkedOutAt;
+      }
+      usage.set(item.gearItemId, counted);
+    }
   }
+  return usage;
 }
 
 // Singleton database instance
@@ -12,6 +12,21 @@ export const WIDGET_REGISTRY: WidgetDefinition[] = [
     label: 'Overdue Items',
     description: 'Items past their due date with member contact info'
   },
+  {
+    id: 'expiring-memberships',
+    label: 'Expiring Memberships',
+    description: 'Memberships ending in the next 14 days'
+  },
+  {
+    id: 'inspections-due',
+    label: 'Inspections Due',
+    description: 'Gear overdue or coming up for a safety inspection'
+  },
+  {
+    id: 'retirements-due',
+    label: 'Retirements Due',
+    description: 'Gear at or nearing its lifecycle limit'
+  },
   {
     id: 'inventory-status',
     label: 'Inventory Status',
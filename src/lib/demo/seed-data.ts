@@ -4,7 +4,22 @@ import { Member } from '../../domain/entities/member.js';
 import { GearType } from '../../domain/entities/gear-type.js';
 import { GearItem } from '../../domain/entities/gear-item.js';
 import { Checkout } from '../../domain/entities/checkout.js';
-import { GearCategory, GearCondition, TrackingMode, MembershipStatus } from '../../domain/types.js';
+import { Kit } from '../../domain/entities/kit.js';
+import { StaffMember } from '../../domain/entities/staff-member.js';
+import { WaiverDocument } from '../../domain/entities/waiver-document.js';
+import { CertificationType } from '../../domain/entities/certification-type.js';
+import { MaintenanceTicket } from '../../domain/entities/maintenance-ticket.js';
+import { Inspection } from '../../domain/entities/inspection.js';
+import { gearItemId } from '../../domain/value-objects/index.js';
+import {
+  GearCategory,
+  GearCondition,
+  TrackingMode,
+  MembershipStatus,
+  MembershipTier,
+  MembershipPlan,
+  StaffRole
+} from '../../domain/types.js';
 
 // Sample member data
 const SAMPLE_MEMBERS = [
@@ -14,7 +29,9 @@ const SAMPLE_MEMBERS = [
     lastName: 'Rivera',
     email: 'alex.rivera@college.edu',
     phone: '555-0101',
-    signWaiver: true
+    plan: MembershipPlan.ACADEMIC_YEAR,
+    signWaiver: true,
+    certifications: ['Belay Check', 'Bike Safety Briefing']
   },
   {
     collegeId: 'STU002',
@@ -22,7 +39,10 @@ const SAMPLE_MEMBERS = [
     lastName: 'Chen',
     email: 'jordan.chen@college.edu',
     phone: '555-0102',
-    signWaiver: true
+    tier: MembershipTier.TRIP_LEADER,
+    plan: MembershipPlan.ACADEMIC_YEAR,
+    signWaiver: true,
+    certifications: ['Bike Safety Briefing']
   },
   {
     collegeId: 'STU003',
@@ -30,6 +50,7 @@ const SAMPLE_MEMBERS = [
     lastName: 'Taylor',
     email: 'sam.taylor@college.edu',
     phone: '555-0103',
+    plan: MembershipPlan.SEMESTER,
     signWaiver: false // No waiver signed
   },
   {
@@ -38,6 +59,7 @@ const SAMPLE_MEMBERS = [
     lastName: 'Williams',
     email: 'morgan.williams@college.edu',
     phone: '555-0104',
+    plan: MembershipPlan.SEMESTER,
     signWaiver: true,
     suspended: true // Suspended member
   },
@@ -46,10 +68,30 @@ const SAMPLE_MEMBERS = [
     firstName: 'Casey',
     lastName: 'Johnson',
     email: 'casey.johnson@college.edu',
+    tier: MembershipTier.ALUMNI,
+    plan: MembershipPlan.SEMESTER,
+    termDaysLeft: 10, // Shows on the expiring memberships widget
     signWaiver: true
   }
 ];
 
+// Sign-offs beyond the waiver
+const SAMPLE_CERTIFICATIONS = [
+  {
+    name: 'Belay Check',
+    description: 'Tie-in, belay and lowering checked by a coordinator at the wall',
+    validityDays: 365,
+    categories: [GearCategory.CLIMBING],
+    gearTypeIds: []
+  },
+  {
+    name: 'Bike Safety Briefing',
+    description: 'Brakes, helmet fit and trail etiquette',
+    categories: [GearCategory.BIKE],
+    gearTypeIds: []
+  }
+];
+
 // Sample gear types
 const SAMPLE_GEAR_TYPES = [
   // Individual tracking
@@ -70,6 +112,13 @@ const SAMPLE_GEAR_TYPES = [
     category: GearCategory.TENT,
     trackingMode: TrackingMode.INDIVIDUAL,
     checkoutDurationDays: 7,
+    returnChecklist: [
+      { kind: 'count' as const, prompt: 'Poles', expectedCount: 2, failCondition: GearCondition.NEEDS_REPAIR },
+      { kind: 'count' as const, prompt: 'Stakes', expectedCount: 8, failCondition: null },
+      { kind: 'boolean' as const, prompt: 'Rainfly included', failCondition: null },
+      { kind: 'boolean' as const, prompt: 'Dry and clean', failCondition: GearCondition.FAIR },
+      { kind: 'text' as const, prompt: 'Other damage' }
+    ],
     items: [
       { code: 'TENT-001', condition: GearCondition.EXCELLENT },
       { code: 'TENT-002', condition: GearCondition.GOOD },
@@ -126,6 +175,11 @@ const SAMPLE_GEAR_TYPES = [
     category: GearCategory.STOVE,
     trackingMode: TrackingMode.INDIVIDUAL,
     checkoutDurationDays: 7,
+    inspectionSchedule: {
+      intervalDays: 90,
+      intervalUses: null,
+      checklist: ['Burner valve seals without leaking', 'Pot supports straight']
+    },
     items: [
       { code: 'STOVE-001', condition: GearCondition.EXCELLENT },
       { code: 'STOVE-002', condition: GearCondition.GOOD }
@@ -136,10 +190,17 @@ const SAMPLE_GEAR_TYPES = [
     category: GearCategory.CLIMBING,
     trackingMode: TrackingMode.INDIVIDUAL,
     checkoutDurationDays: 3,
+    inspectionSchedule: {
+      intervalDays: 180,
+      intervalUses: 25,
+      checklist: ['Webbing free of cuts and fraying', 'Belay loop not worn', 'Buckles double back']
+    },
+    lifecycleLimit: { maxUses: 100, maxYears: 5 },
+    // Older harnesses: one reaching its age limit, one nearly out of uses and one past its limit
     items: [
-      { code: 'HARNESS-001', condition: GearCondition.GOOD, notes: 'Size: M' },
-      { code: 'HARNESS-002', condition: GearCondition.GOOD, notes: 'Size: L' },
-      { code: 'HARNESS-003', condition: GearCondition.FAIR, notes: 'Size: S' }
+      { code: 'HARNESS-001', condition: GearCondition.GOOD, notes: 'Size: M', acquiredDaysAgo: 1800, pastCheckouts: 60 },
+      { code: 'HARNESS-002', condition: GearCondition.GOOD, notes: 'Size: L', acquiredDaysAgo: 700, pastCheckouts: 97 },
+      { code: 'HARNESS-003', condition: GearCondition.FAIR, notes: 'Size: S', acquiredDaysAgo: 1900, pastCheckouts: 80 }
     ]
   },
   // Bulk tracking
@@ -180,8 +241,35 @@ const SAMPLE_GEAR_TYPES = [
   }
 ];
 
-// Staff member ID for checkouts
-const STAFF_MEMBER_ID = 'staff-001';
+// Desk staff; demo PINs are shown on the home page
+export const SAMPLE_STAFF = [
+  { name: 'Morgan Lee', pin: '1234', role: StaffRole.ADMIN },
+  { name: 'Jamie Chen', pin: '2468', role: StaffRole.COORDINATOR },
+  { name: 'Sam Patel', pin: '5678', role: StaffRole.DESK }
+];
+
+const SAMPLE_WAIVER_TEXT = `
+GEAR ROOM LIABILITY WAIVER AND RELEASE
+
+By signing this waiver, I acknowledge that I am voluntarily participating in outdoor activities using equipment provided by the Gear Room. I understand that these activities involve inherent risks including, but not limited to, injury, illness, or death.
+
+I agree to:
+1. Inspect all equipment before use and report any damage or concerns
+2. Use equipment only for its intended purpose
+3. Return all equipment by the due date in clean condition
+4. Pay for any lost, stolen, or damaged equipment
+5. Follow all safety guidelines and instructions provided
+
+I hereby release and hold harmless the Gear Room, its staff, and affiliated organizations from any claims, damages, or liability arising from my use of the equipment.
+
+I confirm that I am at least 18 years old and legally able to enter into this agreement.
+`.trim();
+
+// Stand-in for a drawn signature: the member's name in a script font
+function sampleSignature(name: string): string {
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="400" height="120"><text x="20" y="80" font-family="cursive" font-size="40">${name}</text></svg>`;
+  return `data:image/svg+xml,${encodeURIComponent(svg)}`;
+}
 
 /**
  * Seed the database with demo data.
@@ -194,7 +282,7 @@ export async function seedDemoData(): Promise<{ memberCount: number; gearTypeCou
 
   // Create fresh environment
   const env = createEnvironment();
-  const { memberRepo, gearTypeRepo, gearItemRepo, checkoutRepo, idGenerator, clock } = env;
+  const { memberRepo, gearTypeRepo, gearItemRepo, checkoutRepo, kitRepo, staffMemberRepo, waiverDocumentRepo, certificationTypeRepo, maintenanceTicketRepo, inspectionRepo, membershipPlanPolicy, pinHasher, idGenerator, clock } = env;
 
   const now = clock.now();
   const deps = { idGenerator, clock };
@@ -204,6 +292,42 @@ export async function seedDemoData(): Promise<{ memberCount: number; gearTypeCou
   const gearItemIds: Map<string, string[]> = new Map(); // gearTypeId -> itemIds
   const bulkGearTypes: Map<string, { id: string; name: string }> = new Map(); // category -> { id, name }
 
+  // 0. Create staff; the first one handles all seeded activity
+  const staffIds: string[] = [];
+  for (const staffData of SAMPLE_STAFF) {
+    const result = StaffMember.create(
+      { name: staffData.name, pinHash: await pinHasher.hash(staffData.pin), role: staffData.role },
+      deps
+    );
+    if (result.ok) {
+      await staffMemberRepo.save(result.value);
+      staffIds.push(result.value.id);
+    }
+  }
+  const STAFF_MEMBER_ID = staffIds[0];
+
+  // Publish the waiver members sign
+  const waiver = WaiverDocument.create({
+    version: '1.0',
+    text: SAMPLE_WAIVER_TEXT,
+    validityDays: 365,
+    invalidatesPriorSignatures: false,
+    publishedBy: STAFF_MEMBER_ID
+  }, deps);
+  if (waiver.ok) {
+    await waiverDocumentRepo.save(waiver.value);
+  }
+
+  // Certifications for climbing gear and bikes
+  const certificationTypes = new Map<string, CertificationType>();
+  for (const certificationData of SAMPLE_CERTIFICATIONS) {
+    const result = CertificationType.create(certificationData, deps);
+    if (result.ok) {
+      await certificationTypeRepo.save(result.value);
+      certificationTypes.set(result.value.name, result.value);
+    }
+  }
+
   // 1. Create members
   for (const memberData of SAMPLE_MEMBERS) {
     const result = Member.create({
@@ -211,23 +335,35 @@ export async function seedDemoData(): Promise<{ memberCount: number; gearTypeCou
       firstName: memberData.firstName,
       lastName: memberData.lastName,
       email: memberData.email,
-      phone: memberData.phone
+      phone: memberData.phone,
+      tier: memberData.tier
     }, deps);
 
     if (result.ok) {
-      let member = result.value;
+      let member = result.value.renewTerm(
+        memberData.plan,
+        memberData.termDaysLeft ?? membershipPlanPolicy[memberData.plan].termDays,
+        deps
+      );
 
       // Sign waiver if needed
-      if (memberData.signWaiver) {
-        const waiverResult = member.signWaiver('1.0', deps);
+      if (memberData.signWaiver && waiver.ok) {
+        const waiverResult = member.signWaiver(waiver.value, sampleSignature(member.fullName), STAFF_MEMBER_ID, deps);
         if (waiverResult.ok) {
           member = waiverResult.value;
         }
       }
 
+      for (const name of memberData.certifications ?? []) {
+        const certificationType = certificationTypes.get(name);
+        if (certificationType) {
+          member = member.grantCertification(certificationType, STAFF_MEMBER_ID, deps);
+        }
+      }
+
       // Suspend if needed
       if (memberData.suspended) {
-        const suspendResult = member.suspend(deps);
+        const suspendResult = member.suspend({ reason: 'Repeated late returns' }, deps);
         if (suspendResult.ok) {
           member = suspendResult.value;
         }
@@ -250,7 +386,19 @@ export async function seedDemoData(): Promise<{ memberCount: number; gearTypeCou
     }, deps);
 
     if (gearTypeResult.ok) {
-      const gearType = gearTypeResult.value;
+      let gearType = gearTypeResult.value;
+      if (gearTypeData.inspectionSchedule) {
+        const scheduled = gearType.setInspectionSchedule(gearTypeData.inspectionSchedule, deps);
+        if (scheduled.ok) gearType = scheduled.value;
+      }
+      if (gearTypeData.lifecycleLimit) {
+        const limited = gearType.setLifecycleLimit(gearTypeData.lifecycleLimit, deps);
+        if (limited.ok) gearType = limited.value;
+      }
+      if (gearTypeData.returnChecklist) {
+        const withChecklist = gearType.setReturnChecklist(gearTypeData.returnChecklist, deps);
+        if (withChecklist.ok) gearType = withChecklist.value;
+      }
       await gearTypeRepo.save(gearType);
 
       // Create individual items
@@ -265,8 +413,19 @@ export async function seedDemoData(): Promise<{ memberCount: number; gearTypeCou
           }, deps);
 
           if (itemResult.ok) {
-            await gearItemRepo.save(itemResult.value);
-            itemIds.push(itemResult.value.id);
+            let item = itemResult.value;
+            if ('acquiredDaysAgo' in itemData) {
+              const acquiredAt = new Date(now);
+              acquiredAt.setDate(acquiredAt.getDate() - itemData.acquiredDaysAgo);
+              item = GearItem.fromRecord({
+                ...item.toRecord(),
+                acquiredAt: acquiredAt.toISOString(),
+                checkoutCount: itemData.pastCheckouts,
+                daysInUse: itemData.pastCheckouts * gearTypeData.checkoutDurationDays
+              });
+            }
+            await gearItemRepo.save(item);
+            itemIds.push(item.id);
             totalItems++;
           }
         }
@@ -391,6 +550,65 @@ export async function seedDemoData(): Promise<{ memberCount: number; gearTypeCou
     }
   }
 
+  // A bike in the repair queue
+  const shopBikeId = bikeType && gearItemIds.get(bikeType.id)?.[3];
+  if (shopBikeId) {
+    const bikeItem = await gearItemRepo.findById(gearItemId(shopBikeId));
+    const inShop = bikeItem?.sendToMaintenance(undefined, deps);
+    const ticket = MaintenanceTicket.create({
+      gearItemId: shopBikeId,
+      issue: 'Rear derailleur skipping under load',
+      reportedBy: STAFF_MEMBER_ID
+    }, deps);
+    if (inShop?.ok && ticket.ok) {
+      await gearItemRepo.save(inShop.value);
+      await maintenanceTicketRepo.save(ticket.value);
+    }
+  }
+
+  // Harness inspections: one recent, one coming up and one overdue
+  const harnessType = allGearTypes.find(gt => gt.name.includes('Harness'));
+  const harnessIds = harnessType ? gearItemIds.get(harnessType.id) ?? [] : [];
+  for (const [index, daysAgo] of [30, 170, 200].entries()) {
+    const harness = harnessIds[index] ? await gearItemRepo.findById(gearItemId(harnessIds[index])) : null;
+    const inspectedAt = new Date(now);
+    inspectedAt.setDate(inspectedAt.getDate() - daysAgo);
+    const inspectedDeps = { idGenerator, clock: { now: () => inspectedAt } };
+    const inspected = harness?.markInspected(inspectedDeps);
+    const inspection = Inspection.create({
+      gearItemId: harnessIds[index],
+      inspectedBy: STAFF_MEMBER_ID,
+      passed: true,
+      answers: (harnessType?.inspectionSchedule?.checklist ?? []).map(point => ({ point, passed: true }))
+    }, inspectedDeps);
+    if (inspected?.ok && inspection.ok) {
+      await gearItemRepo.save(inspected.value);
+      await inspectionRepo.save(inspection.value);
+    }
+  }
+
+  // 4. Create the backpacking kit
+  const packType = allGearTypes.find(gt => gt.name.includes('65L'));
+  const stoveType = allGearTypes.find(gt => gt.name.includes('PocketRocket'));
+  const filterType = allGearTypes.find(gt => gt.name.includes('Water Filter'));
+  if (packType && tentType && stoveType && padType && filterType) {
+    const kitResult = Kit.create({
+      name: 'Backpacking Kit',
+      description: 'Everything for an overnight trip except the sleeping bag',
+      slots: [
+        { gearTypeId: packType.id, quantity: 1 },
+        { gearTypeId: tentType.id, quantity: 1 },
+        { gearTypeId: stoveType.id, quantity: 1 },
+        { gearTypeId: padType.id, quantity: 2 },
+        { gearTypeId: filterType.id, quantity: 1 }
+      ]
+    }, deps);
+
+    if (kitResult.ok) {
+      await kitRepo.save(kitResult.value);
+    }
+  }
+
   return {
     memberCount: memberIds.length,
     gearTypeCount: SAMPLE_GEAR_TYPES.length,
@@ -5,40 +5,127 @@ import {
   lookupMemberByCollegeId,
   getCheckoutEligibility,
   searchMembers,
+  suspendMember,
+  reinstateMember,
+  changeMembershipTier,
+  liftExpiredSuspensions,
+  renewMembership,
+  expireLapsedMemberships,
+  previewMemberImport,
+  applyMemberImport,
   createCheckout,
+  renewCheckoutItem,
   getActiveCheckoutsForMember,
   searchAvailableGear,
+  createReservation,
+  cancelReservation,
+  fulfillReservation,
+  listPendingReservations,
   returnItemByCode,
   returnItems,
   getMemberItemsToReturn,
   lookupItemByCode,
   getOverdueCheckouts,
   getInventoryStatus,
+  getExpiringMemberships,
   createGearType,
   updateGearType,
+  setReturnChecklist,
   updateBulkQuantity,
+  sendBulkUnitsToMaintenance,
+  returnBulkUnitsFromMaintenance,
   deleteGearType,
   addGearItem,
   updateGearItem,
-  sendItemToMaintenance,
-  returnItemFromMaintenance,
   retireItem,
   getGearTypeDetail,
   listGearTypesWithStatus,
+  declareItemLost,
+  recoverLostItem,
+  getMemberAccount,
+  postCharge,
+  postPayment,
+  voidCharge,
+  postRefund,
+  createKit,
+  updateKit,
+  deleteKit,
+  listKits,
   getMemberProfile,
   getMemberOpenItems,
   getMemberBehaviorSummary,
   getMemberActivityTimeline,
-  type CreateMemberInput
+  publishWaiverDocument,
+  getCurrentWaiverDocument,
+  listWaiverDocuments,
+  createCertificationType,
+  updateCertificationRequirements,
+  listCertificationTypes,
+  grantCertification,
+  revokeCertification,
+  createStaffMember,
+  signInStaff,
+  changeStaffRole,
+  changeStaffPin,
+  listActiveStaffMembers,
+  listStaffMembers,
+  getAuditLog,
+  listAuditEventTypes,
+  openMaintenanceTicket,
+  updateMaintenanceTicket,
+  closeMaintenanceTicket,
+  finishItemMaintenance,
+  listMaintenanceQueue,
+  getMaintenanceHistory,
+  getMemberDamageHistory,
+  setInspectionSchedule,
+  recordInspection,
+  listInspectionsDue,
+  getInspectionHistory,
+  setLifecycleLimit,
+  listRetirementsDue,
+  type AuditLogQuery,
+  type UpdateMaintenanceTicketInput,
+  type RecordInspectionInput,
+  type RegisterMemberInput,
+  type MemberImportColumnMapping
 } from '../../application/use-cases/index.js';
-import type { Result } from '../../application/result.js';
+import { type Result, err } from '../../application/result.js';
+import type { EventSubscription } from '../../application/ports/services.js';
+import type { DomainEventType } from '../../domain/events/index.js';
 import type { Member } from '../../domain/entities/member.js';
-import type { GearCategory, GearCondition, GearStatus } from '../../domain/types.js';
-import type { CreateGearTypeInput } from '../../domain/entities/gear-type.js';
+import type {
+  ChargeType,
+  GearCategory,
+  GearCondition,
+  GearStatus,
+  MembershipPlan,
+  MembershipTier,
+  StaffRole
+} from '../../domain/types.js';
+import type {
+  CreateGearTypeInput,
+  InspectionSchedule,
+  LifecycleLimit,
+  ReturnChecklistAnswer,
+  ReturnChecklistQuestion
+} from '../../domain/entities/gear-type.js';
+import type { CreateKitInput } from '../../domain/entities/kit.js';
+import type {
+  CreateCertificationTypeInput,
+  CertificationRequirements
+} from '../../domain/entities/certification-type.js';
 import { seedDemoData, clearAllData, hasDemoData } from '../demo/seed-data.js';
+import { startSession, endSession, currentStaffMemberId, requireStaffMemberId } from './session.js';
 
 let env: AppEnvironment | null = null;
 
+/**
+ * Returned instead of running an operation when the desk locked before it started;
+ * the layout has already moved to the sign-in screen.
+ */
+export type SessionLockedError = { type: 'session_locked' };
+
 function getEnv(): AppEnvironment {
   if (!env) {
     env = createEnvironment();
@@ -46,38 +133,262 @@ function getEnv(): AppEnvironment {
   return env;
 }
 
+/**
+ * Run a staff operation as the signed-in staff member, or return a session locked
+ * result without running it when the desk has locked.
+ */
+async function withStaff<T>(
+  fn: (actingStaffMemberId: string, e: AppEnvironment) => Promise<T>
+): Promise<T | Result<never, SessionLockedError>> {
+  const actingStaffMemberId = requireStaffMemberId();
+  if (!actingStaffMemberId) {
+    return err({ type: 'session_locked' });
+  }
+  return fn(actingStaffMemberId, getEnv());
+}
+
 /**
  * App facade providing access to all use cases from the UI.
  * Uses the composition root to inject dependencies.
  */
 export const app = {
   // ============================================================================
-  // Member Operations
+  // Staff Operations
   // ============================================================================
 
-  async registerMember(input: CreateMemberInput) {
+  async listActiveStaffMembers() {
     const e = getEnv();
-    return registerMember(
+    return listActiveStaffMembers({ staffMemberRepo: e.staffMemberRepo });
+  },
+
+  async listStaffMembers() {
+    const e = getEnv();
+    return listStaffMembers({ staffMemberRepo: e.staffMemberRepo });
+  },
+
+  /**
+   * Add a staff account. Outside first-run setup the signed-in staff member must be an admin.
+   */
+  async createStaffMember(input: { name: string; pin: string; role: StaffRole }) {
+    const e = getEnv();
+    return createStaffMember(
+      { staffMemberRepo: e.staffMemberRepo, pinHasher: e.pinHasher, idGenerator: e.idGenerator, clock: e.clock },
+      { ...input, actingStaffMemberId: currentStaffMemberId() }
+    );
+  },
+
+  async changeStaffRole(staffMemberId: string, role: StaffRole) {
+    return withStaff((actingStaffMemberId, e) =>
+      changeStaffRole(
+        {
+          staffMemberRepo: e.staffMemberRepo,
+          idGenerator: e.idGenerator,
+          clock: e.clock,
+          eventPublisher: e.eventPublisher
+        },
+        { staffMemberId, role, actingStaffMemberId }
+      )
+    );
+  },
+
+  /**
+   * Set a new PIN. Anyone may change their own; other accounts need an admin.
+   */
+  async changeStaffPin(staffMemberId: string, pin: string) {
+    return withStaff((actingStaffMemberId, e) =>
+      changeStaffPin(
+        { staffMemberRepo: e.staffMemberRepo, pinHasher: e.pinHasher, clock: e.clock },
+        { staffMemberId, pin, actingStaffMemberId }
+      )
+    );
+  },
+
+  /**
+   * Check the PIN and, on success, start a desk session for the staff member.
+   */
+  async signIn(staffMemberId: string, pin: string) {
+    const e = getEnv();
+    const result = await signInStaff(
       {
-        memberRepo: e.memberRepo,
+        staffMemberRepo: e.staffMemberRepo,
+        pinHasher: e.pinHasher,
         idGenerator: e.idGenerator,
         clock: e.clock,
         eventPublisher: e.eventPublisher
       },
-      input
+      { staffMemberId, pin }
     );
+    if (result.ok) {
+      startSession(result.value, e.clock.now());
+    }
+    return result;
+  },
+
+  signOut() {
+    endSession();
   },
 
-  async signWaiver(memberId: string, waiverVersion: string) {
+  // ============================================================================
+  // Member Operations
+  // ============================================================================
+
+  async registerMember(input: RegisterMemberInput) {
     const e = getEnv();
-    return signWaiver(
+    return registerMember(
       {
         memberRepo: e.memberRepo,
+        idGenerator: e.idGenerator,
         clock: e.clock,
         eventPublisher: e.eventPublisher,
-        idGenerator: e.idGenerator
+        membershipPlanPolicy: e.membershipPlanPolicy
       },
-      { memberId, waiverVersion }
+      input
+    );
+  },
+
+  async signWaiver(memberId: string, waiverDocumentId: string, signature: string) {
+    return withStaff((actingStaffMemberId, e) =>
+      signWaiver(
+        {
+          memberRepo: e.memberRepo,
+          waiverDocumentRepo: e.waiverDocumentRepo,
+          clock: e.clock,
+          eventPublisher: e.eventPublisher,
+          idGenerator: e.idGenerator
+        },
+        { memberId, waiverDocumentId, signature, staffMemberId: actingStaffMemberId }
+      )
+    );
+  },
+
+  async suspendMember(memberId: string, reason: string, note?: string, endsAt?: Date) {
+    return withStaff((actingStaffMemberId, e) =>
+      suspendMember(
+        {
+          memberRepo: e.memberRepo,
+          staffMemberRepo: e.staffMemberRepo,
+          idGenerator: e.idGenerator,
+          clock: e.clock,
+          eventPublisher: e.eventPublisher
+        },
+        { memberId, reason, note, endsAt, staffMemberId: actingStaffMemberId }
+      )
+    );
+  },
+
+  async reinstateMember(memberId: string) {
+    return withStaff((actingStaffMemberId, e) =>
+      reinstateMember(
+        {
+          memberRepo: e.memberRepo,
+          staffMemberRepo: e.staffMemberRepo,
+          idGenerator: e.idGenerator,
+          clock: e.clock,
+          eventPublisher: e.eventPublisher
+        },
+        { memberId, staffMemberId: actingStaffMemberId }
+      )
+    );
+  },
+
+  async changeMembershipTier(memberId: string, tier: MembershipTier) {
+    return withStaff((actingStaffMemberId, e) =>
+      changeMembershipTier(
+        {
+          memberRepo: e.memberRepo,
+          staffMemberRepo: e.staffMemberRepo,
+          idGenerator: e.idGenerator,
+          clock: e.clock,
+          eventPublisher: e.eventPublisher
+        },
+        { memberId, tier, staffMemberId: actingStaffMemberId }
+      )
+    );
+  },
+
+  /**
+   * Borrowing limits and fees per membership tier.
+   */
+  getMembershipTierPolicy() {
+    return getEnv().membershipTierPolicy;
+  },
+
+  async renewMembership(memberId: string, plan: MembershipPlan, amountPaidCents?: number) {
+    return withStaff((actingStaffMemberId, e) =>
+      renewMembership(
+        {
+          memberRepo: e.memberRepo,
+          memberAccountRepo: e.memberAccountRepo,
+          staffMemberRepo: e.staffMemberRepo,
+          idGenerator: e.idGenerator,
+          clock: e.clock,
+          eventPublisher: e.eventPublisher,
+          unitOfWork: e.unitOfWork,
+          membershipPlanPolicy: e.membershipPlanPolicy
+        },
+        { memberId, plan, amountPaidCents, staffMemberId: actingStaffMemberId }
+      )
+    );
+  },
+
+  /**
+   * Term length and fee per membership plan.
+   */
+  getMembershipPlanPolicy() {
+    return getEnv().membershipPlanPolicy;
+  },
+
+  async expireLapsedMemberships() {
+    const e = getEnv();
+    return expireLapsedMemberships({
+      memberRepo: e.memberRepo,
+      idGenerator: e.idGenerator,
+      clock: e.clock,
+      eventPublisher: e.eventPublisher
+    });
+  },
+
+  async liftExpiredSuspensions() {
+    const e = getEnv();
+    return liftExpiredSuspensions({
+      memberRepo: e.memberRepo,
+      idGenerator: e.idGenerator,
+      clock: e.clock,
+      eventPublisher: e.eventPublisher
+    });
+  },
+
+  async previewMemberImport(csv: string, mapping: MemberImportColumnMapping) {
+    return withStaff((actingStaffMemberId, e) =>
+      previewMemberImport(
+        {
+          memberRepo: e.memberRepo,
+          staffMemberRepo: e.staffMemberRepo,
+          idGenerator: e.idGenerator,
+          clock: e.clock,
+          eventPublisher: e.eventPublisher,
+          unitOfWork: e.unitOfWork,
+          membershipPlanPolicy: e.membershipPlanPolicy
+        },
+        { csv, mapping, staffMemberId: actingStaffMemberId }
+      )
+    );
+  },
+
+  async applyMemberImport(csv: string, mapping: MemberImportColumnMapping, plan?: MembershipPlan) {
+    return withStaff((actingStaffMemberId, e) =>
+      applyMemberImport(
+        {
+          memberRepo: e.memberRepo,
+          staffMemberRepo: e.staffMemberRepo,
+          idGenerator: e.idGenerator,
+          clock: e.clock,
+          eventPublisher: e.eventPublisher,
+          unitOfWork: e.unitOfWork,
+          membershipPlanPolicy: e.membershipPlanPolicy
+        },
+        { csv, mapping, plan, staffMemberId: actingStaffMemberId }
+      )
     );
   },
 
@@ -92,7 +403,12 @@ export const app = {
       {
         memberRepo: e.memberRepo,
         checkoutRepo: e.checkoutRepo,
-        clock: e.clock
+        memberAccountRepo: e.memberAccountRepo,
+        waiverDocumentRepo: e.waiverDocumentRepo,
+        certificationTypeRepo: e.certificationTypeRepo,
+        gearTypeRepo: e.gearTypeRepo,
+        clock: e.clock,
+        accountPolicy: e.accountPolicy
       },
       memberId
     );
@@ -103,28 +419,170 @@ export const app = {
     return searchMembers({ memberRepo: e.memberRepo }, searchTerm);
   },
 
+  // ============================================================================
+  // Waiver Document Operations
+  // ============================================================================
+
+  async getCurrentWaiverDocument() {
+    const e = getEnv();
+    return getCurrentWaiverDocument({ waiverDocumentRepo: e.waiverDocumentRepo, clock: e.clock });
+  },
+
+  async listWaiverDocuments() {
+    const e = getEnv();
+    return listWaiverDocuments({ waiverDocumentRepo: e.waiverDocumentRepo, clock: e.clock });
+  },
+
+  async publishWaiverDocument(input: {
+    version: string;
+    text: string;
+    effectiveAt?: Date;
+    validityDays: number;
+    invalidatesPriorSignatures: boolean;
+  }) {
+    return withStaff((actingStaffMemberId, e) =>
+      publishWaiverDocument(
+        {
+          waiverDocumentRepo: e.waiverDocumentRepo,
+          staffMemberRepo: e.staffMemberRepo,
+          idGenerator: e.idGenerator,
+          clock: e.clock,
+          eventPublisher: e.eventPublisher
+        },
+        { ...input, staffMemberId: actingStaffMemberId }
+      )
+    );
+  },
+
+  // ============================================================================
+  // Certification Operations
+  // ============================================================================
+
+  async listCertificationTypes() {
+    const e = getEnv();
+    return listCertificationTypes({ certificationTypeRepo: e.certificationTypeRepo });
+  },
+
+  async createCertificationType(input: CreateCertificationTypeInput) {
+    return withStaff((actingStaffMemberId, e) =>
+      createCertificationType(
+        {
+          certificationTypeRepo: e.certificationTypeRepo,
+          gearTypeRepo: e.gearTypeRepo,
+          staffMemberRepo: e.staffMemberRepo,
+          idGenerator: e.idGenerator,
+          clock: e.clock,
+          eventPublisher: e.eventPublisher
+        },
+        { ...input, staffMemberId: actingStaffMemberId }
+      )
+    );
+  },
+
+  async updateCertificationRequirements(certificationTypeId: string, requirements: CertificationRequirements) {
+    return withStaff((actingStaffMemberId, e) =>
+      updateCertificationRequirements(
+        {
+          certificationTypeRepo: e.certificationTypeRepo,
+          gearTypeRepo: e.gearTypeRepo,
+          staffMemberRepo: e.staffMemberRepo,
+          idGenerator: e.idGenerator,
+          clock: e.clock,
+          eventPublisher: e.eventPublisher
+        },
+        { ...requirements, certificationTypeId, staffMemberId: actingStaffMemberId }
+      )
+    );
+  },
+
+  async grantCertification(memberId: string, certificationTypeId: string) {
+    return withStaff((actingStaffMemberId, e) =>
+      grantCertification(
+        {
+          memberRepo: e.memberRepo,
+          certificationTypeRepo: e.certificationTypeRepo,
+          staffMemberRepo: e.staffMemberRepo,
+          idGenerator: e.idGenerator,
+          clock: e.clock,
+          eventPublisher: e.eventPublisher
+        },
+        { memberId, certificationTypeId, staffMemberId: actingStaffMemberId }
+      )
+    );
+  },
+
+  async revokeCertification(memberId: string, certificationTypeId: string) {
+    return withStaff((actingStaffMemberId, e) =>
+      revokeCertification(
+        {
+          memberRepo: e.memberRepo,
+          certificationTypeRepo: e.certificationTypeRepo,
+          staffMemberRepo: e.staffMemberRepo,
+          idGenerator: e.idGenerator,
+          clock: e.clock,
+          eventPublisher: e.eventPublisher
+        },
+        { memberId, certificationTypeId, staffMemberId: actingStaffMemberId }
+      )
+    );
+  },
+
   // ============================================================================
   // Checkout Operations
   // ============================================================================
 
   async createCheckout(input: {
     memberId: string;
-    staffMemberId: string;
-    items: Array<{ itemCode?: string; gearTypeId?: string; quantity?: number }>;
+    items: Array<{ itemCode?: string; gearTypeId?: string; quantity?: number; kitId?: string }>;
     notes?: string;
   }) {
-    const e = getEnv();
-    return createCheckout(
-      {
-        memberRepo: e.memberRepo,
-        gearTypeRepo: e.gearTypeRepo,
-        gearItemRepo: e.gearItemRepo,
-        checkoutRepo: e.checkoutRepo,
-        idGenerator: e.idGenerator,
-        clock: e.clock,
-        eventPublisher: e.eventPublisher
-      },
-      input
+    return withStaff((actingStaffMemberId, e) =>
+      createCheckout(
+        {
+          memberRepo: e.memberRepo,
+          gearTypeRepo: e.gearTypeRepo,
+          gearItemRepo: e.gearItemRepo,
+          checkoutRepo: e.checkoutRepo,
+          reservationRepo: e.reservationRepo,
+          kitRepo: e.kitRepo,
+          waiverDocumentRepo: e.waiverDocumentRepo,
+          certificationTypeRepo: e.certificationTypeRepo,
+          memberAccountRepo: e.memberAccountRepo,
+          idGenerator: e.idGenerator,
+          clock: e.clock,
+          eventPublisher: e.eventPublisher,
+          unitOfWork: e.unitOfWork,
+          membershipTierPolicy: e.membershipTierPolicy,
+          accountPolicy: e.accountPolicy
+        },
+        { ...input, staffMemberId: actingStaffMemberId }
+      )
+    );
+  },
+
+  async renewCheckoutItem(input: {
+    checkoutId: string;
+    itemId: string;
+    kitId?: string | null;
+    staffOverride?: boolean;
+  }) {
+    return withStaff((actingStaffMemberId, e) =>
+      renewCheckoutItem(
+        {
+          checkoutRepo: e.checkoutRepo,
+          memberRepo: e.memberRepo,
+          gearTypeRepo: e.gearTypeRepo,
+          gearItemRepo: e.gearItemRepo,
+          reservationRepo: e.reservationRepo,
+          idGenerator: e.idGenerator,
+          clock: e.clock,
+          eventPublisher: e.eventPublisher,
+          unitOfWork: e.unitOfWork,
+          renewalPolicy: e.renewalPolicy,
+          membershipTierPolicy: e.membershipTierPolicy
+        },
+        { ...input, staffMemberId: actingStaffMemberId }
+      )
     );
   },
 
@@ -134,7 +592,8 @@ export const app = {
       {
         checkoutRepo: e.checkoutRepo,
         gearTypeRepo: e.gearTypeRepo,
-        gearItemRepo: e.gearItemRepo
+        gearItemRepo: e.gearItemRepo,
+        kitRepo: e.kitRepo
       },
       memberId,
       e.clock.now()
@@ -146,7 +605,11 @@ export const app = {
     return searchAvailableGear(
       {
         gearTypeRepo: e.gearTypeRepo,
-        gearItemRepo: e.gearItemRepo
+        gearItemRepo: e.gearItemRepo,
+        checkoutRepo: e.checkoutRepo,
+        reservationRepo: e.reservationRepo,
+        memberRepo: e.memberRepo,
+        clock: e.clock
       },
       searchTerm,
       category
@@ -154,22 +617,113 @@ export const app = {
   },
 
   // ============================================================================
-  // Return Operations
+  // Reservation Operations
   // ============================================================================
 
-  async returnItemByCode(itemCode: string, condition: GearCondition, notes?: string) {
+  async createReservation(input: {
+    memberId: string;
+    items: Array<{ itemCode?: string; gearTypeId?: string; quantity?: number }>;
+    pickupWindow: { start: Date; end: Date };
+    returnWindow: { start: Date; end: Date };
+    notes?: string;
+  }) {
+    return withStaff((actingStaffMemberId, e) =>
+      createReservation(
+        {
+          memberRepo: e.memberRepo,
+          gearTypeRepo: e.gearTypeRepo,
+          gearItemRepo: e.gearItemRepo,
+          checkoutRepo: e.checkoutRepo,
+          reservationRepo: e.reservationRepo,
+          idGenerator: e.idGenerator,
+          clock: e.clock,
+          eventPublisher: e.eventPublisher,
+          unitOfWork: e.unitOfWork
+        },
+        { ...input, staffMemberId: actingStaffMemberId }
+      )
+    );
+  },
+
+  async cancelReservation(reservationId: string) {
+    return withStaff((actingStaffMemberId, e) =>
+      cancelReservation(
+        {
+          reservationRepo: e.reservationRepo,
+          idGenerator: e.idGenerator,
+          clock: e.clock,
+          eventPublisher: e.eventPublisher
+        },
+        reservationId,
+        actingStaffMemberId
+      )
+    );
+  },
+
+  async fulfillReservation(reservationId: string) {
+    return withStaff((actingStaffMemberId, e) =>
+      fulfillReservation(
+        {
+          memberRepo: e.memberRepo,
+          gearTypeRepo: e.gearTypeRepo,
+          gearItemRepo: e.gearItemRepo,
+          checkoutRepo: e.checkoutRepo,
+          reservationRepo: e.reservationRepo,
+          kitRepo: e.kitRepo,
+          waiverDocumentRepo: e.waiverDocumentRepo,
+          certificationTypeRepo: e.certificationTypeRepo,
+          memberAccountRepo: e.memberAccountRepo,
+          idGenerator: e.idGenerator,
+          clock: e.clock,
+          eventPublisher: e.eventPublisher,
+          unitOfWork: e.unitOfWork,
+          membershipTierPolicy: e.membershipTierPolicy,
+          accountPolicy: e.accountPolicy
+        },
+        { reservationId, staffMemberId: actingStaffMemberId }
+      )
+    );
+  },
+
+  async listPendingReservations() {
     const e = getEnv();
-    return returnItemByCode(
-      {
-        gearItemRepo: e.gearItemRepo,
-        checkoutRepo: e.checkoutRepo,
-        gearTypeRepo: e.gearTypeRepo,
-        memberRepo: e.memberRepo,
-        clock: e.clock,
-        eventPublisher: e.eventPublisher,
-        idGenerator: e.idGenerator
-      },
-      { itemCode, condition, notes }
+    return listPendingReservations({
+      reservationRepo: e.reservationRepo,
+      memberRepo: e.memberRepo,
+      gearTypeRepo: e.gearTypeRepo,
+      gearItemRepo: e.gearItemRepo,
+      clock: e.clock
+    });
+  },
+
+  // ============================================================================
+  // Return Operations
+  // ============================================================================
+
+  async returnItemByCode(
+    itemCode: string,
+    condition: GearCondition,
+    notes?: string,
+    checklistAnswers?: ReturnChecklistAnswer[]
+  ) {
+    return withStaff((actingStaffMemberId, e) =>
+      returnItemByCode(
+        {
+          gearItemRepo: e.gearItemRepo,
+          checkoutRepo: e.checkoutRepo,
+          gearTypeRepo: e.gearTypeRepo,
+          memberRepo: e.memberRepo,
+          memberAccountRepo: e.memberAccountRepo,
+          maintenanceTicketRepo: e.maintenanceTicketRepo,
+          clock: e.clock,
+          eventPublisher: e.eventPublisher,
+          unitOfWork: e.unitOfWork,
+          idGenerator: e.idGenerator,
+          lateFeePolicy: e.lateFeePolicy,
+          membershipTierPolicy: e.membershipTierPolicy
+        },
+        { itemCode, condition, notes, checklistAnswers, staffMemberId: actingStaffMemberId }
+      )
     );
   },
 
@@ -178,22 +732,31 @@ export const app = {
     returns: Array<{
       gearItemId?: string;
       condition?: GearCondition;
+      checklistAnswers?: ReturnChecklistAnswer[];
       gearTypeId?: string;
       quantity?: number;
+      kitId?: string | null;
       notes?: string;
     }>
   ) {
-    const e = getEnv();
-    return returnItems(
-      {
-        checkoutRepo: e.checkoutRepo,
-        gearItemRepo: e.gearItemRepo,
-        memberRepo: e.memberRepo,
-        clock: e.clock,
-        eventPublisher: e.eventPublisher,
-        idGenerator: e.idGenerator
-      },
-      { checkoutId, returns }
+    return withStaff((actingStaffMemberId, e) =>
+      returnItems(
+        {
+          checkoutRepo: e.checkoutRepo,
+          gearItemRepo: e.gearItemRepo,
+          gearTypeRepo: e.gearTypeRepo,
+          memberRepo: e.memberRepo,
+          memberAccountRepo: e.memberAccountRepo,
+          maintenanceTicketRepo: e.maintenanceTicketRepo,
+          clock: e.clock,
+          eventPublisher: e.eventPublisher,
+          unitOfWork: e.unitOfWork,
+          idGenerator: e.idGenerator,
+          lateFeePolicy: e.lateFeePolicy,
+          membershipTierPolicy: e.membershipTierPolicy
+        },
+        { checkoutId, returns, staffMemberId: actingStaffMemberId }
+      )
     );
   },
 
@@ -205,7 +768,10 @@ export const app = {
         gearItemRepo: e.gearItemRepo,
         gearTypeRepo: e.gearTypeRepo,
         memberRepo: e.memberRepo,
-        clock: e.clock
+        kitRepo: e.kitRepo,
+        clock: e.clock,
+        lateFeePolicy: e.lateFeePolicy,
+        membershipTierPolicy: e.membershipTierPolicy
       },
       memberId
     );
@@ -218,7 +784,10 @@ export const app = {
         gearItemRepo: e.gearItemRepo,
         gearTypeRepo: e.gearTypeRepo,
         checkoutRepo: e.checkoutRepo,
-        memberRepo: e.memberRepo
+        memberRepo: e.memberRepo,
+        clock: e.clock,
+        lateFeePolicy: e.lateFeePolicy,
+        membershipTierPolicy: e.membershipTierPolicy
       },
       code
     );
@@ -235,15 +804,23 @@ export const app = {
       memberRepo: e.memberRepo,
       gearTypeRepo: e.gearTypeRepo,
       gearItemRepo: e.gearItemRepo,
-      clock: e.clock
+      clock: e.clock,
+      lateFeePolicy: e.lateFeePolicy,
+      membershipTierPolicy: e.membershipTierPolicy
     });
   },
 
+  async getExpiringMemberships() {
+    const e = getEnv();
+    return getExpiringMemberships({ memberRepo: e.memberRepo, clock: e.clock });
+  },
+
   async getInventoryStatus() {
     const e = getEnv();
     return getInventoryStatus({
       gearTypeRepo: e.gearTypeRepo,
-      gearItemRepo: e.gearItemRepo
+      gearItemRepo: e.gearItemRepo,
+      checkoutRepo: e.checkoutRepo
     });
   },
 
@@ -252,84 +829,147 @@ export const app = {
   // ============================================================================
 
   async createGearType(input: CreateGearTypeInput) {
-    const e = getEnv();
-    return createGearType(
-      { gearTypeRepo: e.gearTypeRepo, idGenerator: e.idGenerator, clock: e.clock },
-      input
+    return withStaff((actingStaffMemberId, e) =>
+      createGearType(
+        { gearTypeRepo: e.gearTypeRepo, idGenerator: e.idGenerator, clock: e.clock, eventPublisher: e.eventPublisher },
+        { ...input, staffMemberId: actingStaffMemberId }
+      )
     );
   },
 
   async updateGearType(input: { id: string; name?: string; checkoutDurationDays?: number; notes?: string }) {
-    const e = getEnv();
-    return updateGearType(
-      { gearTypeRepo: e.gearTypeRepo, clock: e.clock },
-      input
+    return withStaff((actingStaffMemberId, e) =>
+      updateGearType(
+        { gearTypeRepo: e.gearTypeRepo, idGenerator: e.idGenerator, clock: e.clock, eventPublisher: e.eventPublisher },
+        { ...input, staffMemberId: actingStaffMemberId }
+      )
+    );
+  },
+
+  async setReturnChecklist(gearTypeId: string, questions: ReturnChecklistQuestion[]) {
+    return withStaff((actingStaffMemberId, e) =>
+      setReturnChecklist(
+        { gearTypeRepo: e.gearTypeRepo, idGenerator: e.idGenerator, clock: e.clock, eventPublisher: e.eventPublisher },
+        { gearTypeId, questions, staffMemberId: actingStaffMemberId }
+      )
     );
   },
 
   async updateBulkQuantity(gearTypeId: string, newQuantity: number) {
-    const e = getEnv();
-    return updateBulkQuantity(
-      { gearTypeRepo: e.gearTypeRepo, clock: e.clock },
-      gearTypeId,
-      newQuantity
+    return withStaff((actingStaffMemberId, e) =>
+      updateBulkQuantity(
+        {
+          gearTypeRepo: e.gearTypeRepo,
+          checkoutRepo: e.checkoutRepo,
+          staffMemberRepo: e.staffMemberRepo,
+          idGenerator: e.idGenerator,
+          clock: e.clock,
+          eventPublisher: e.eventPublisher
+        },
+        gearTypeId,
+        newQuantity,
+        actingStaffMemberId
+      )
     );
   },
 
-  async deleteGearType(gearTypeId: string) {
-    const e = getEnv();
-    return deleteGearType(
-      { gearTypeRepo: e.gearTypeRepo, gearItemRepo: e.gearItemRepo },
-      gearTypeId
+  async sendBulkUnitsToMaintenance(gearTypeId: string, quantity: number) {
+    return withStaff((actingStaffMemberId, e) =>
+      sendBulkUnitsToMaintenance(
+        {
+          gearTypeRepo: e.gearTypeRepo,
+          checkoutRepo: e.checkoutRepo,
+          idGenerator: e.idGenerator,
+          clock: e.clock,
+          eventPublisher: e.eventPublisher,
+          unitOfWork: e.unitOfWork
+        },
+        gearTypeId,
+        quantity,
+        actingStaffMemberId
+      )
     );
   },
 
-  async addGearItem(input: { gearTypeId: string; code: string; condition?: GearCondition; notes?: string }) {
-    const e = getEnv();
-    return addGearItem(
-      { gearTypeRepo: e.gearTypeRepo, gearItemRepo: e.gearItemRepo, idGenerator: e.idGenerator, clock: e.clock },
-      input
+  async returnBulkUnitsFromMaintenance(gearTypeId: string, quantity: number) {
+    return withStaff((actingStaffMemberId, e) =>
+      returnBulkUnitsFromMaintenance(
+        {
+          gearTypeRepo: e.gearTypeRepo,
+          idGenerator: e.idGenerator,
+          clock: e.clock,
+          eventPublisher: e.eventPublisher,
+          unitOfWork: e.unitOfWork
+        },
+        gearTypeId,
+        quantity,
+        actingStaffMemberId
+      )
     );
   },
 
-  async updateGearItem(input: { id: string; condition?: GearCondition; notes?: string }) {
-    const e = getEnv();
-    return updateGearItem(
-      { gearItemRepo: e.gearItemRepo, clock: e.clock },
-      input
+  async deleteGearType(gearTypeId: string) {
+    return withStaff((actingStaffMemberId, e) =>
+      deleteGearType(
+        {
+          gearTypeRepo: e.gearTypeRepo,
+          gearItemRepo: e.gearItemRepo,
+          staffMemberRepo: e.staffMemberRepo,
+          idGenerator: e.idGenerator,
+          clock: e.clock,
+          eventPublisher: e.eventPublisher
+        },
+        gearTypeId,
+        actingStaffMemberId
+      )
     );
   },
 
-  async sendItemToMaintenance(itemId: string, notes?: string) {
-    const e = getEnv();
-    return sendItemToMaintenance(
-      { gearItemRepo: e.gearItemRepo, clock: e.clock },
-      itemId,
-      notes
+  async addGearItem(input: { gearTypeId: string; code: string; condition?: GearCondition; notes?: string }) {
+    return withStaff((actingStaffMemberId, e) =>
+      addGearItem(
+        {
+          gearTypeRepo: e.gearTypeRepo,
+          gearItemRepo: e.gearItemRepo,
+          idGenerator: e.idGenerator,
+          clock: e.clock,
+          eventPublisher: e.eventPublisher
+        },
+        { ...input, staffMemberId: actingStaffMemberId }
+      )
     );
   },
 
-  async returnItemFromMaintenance(itemId: string, condition: GearCondition) {
-    const e = getEnv();
-    return returnItemFromMaintenance(
-      { gearItemRepo: e.gearItemRepo, clock: e.clock },
-      itemId,
-      condition
+  async updateGearItem(input: { id: string; condition?: GearCondition; notes?: string }) {
+    return withStaff((actingStaffMemberId, e) =>
+      updateGearItem(
+        { gearItemRepo: e.gearItemRepo, idGenerator: e.idGenerator, clock: e.clock, eventPublisher: e.eventPublisher },
+        { ...input, staffMemberId: actingStaffMemberId }
+      )
     );
   },
 
   async retireItem(itemId: string) {
-    const e = getEnv();
-    return retireItem(
-      { gearItemRepo: e.gearItemRepo, clock: e.clock },
-      itemId
+    return withStaff((actingStaffMemberId, e) =>
+      retireItem(
+        {
+          gearItemRepo: e.gearItemRepo,
+          staffMemberRepo: e.staffMemberRepo,
+          idGenerator: e.idGenerator,
+          clock: e.clock,
+          eventPublisher: e.eventPublisher,
+          unitOfWork: e.unitOfWork
+        },
+        itemId,
+        actingStaffMemberId
+      )
     );
   },
 
   async getGearTypeDetail(gearTypeId: string) {
     const e = getEnv();
     return getGearTypeDetail(
-      { gearTypeRepo: e.gearTypeRepo, gearItemRepo: e.gearItemRepo },
+      { gearTypeRepo: e.gearTypeRepo, gearItemRepo: e.gearItemRepo, checkoutRepo: e.checkoutRepo },
       gearTypeId
     );
   },
@@ -337,11 +977,423 @@ export const app = {
   async listGearTypesWithStatus(filters?: { searchTerm?: string; category?: GearCategory; hasItemsInStatus?: GearStatus }) {
     const e = getEnv();
     return listGearTypesWithStatus(
-      { gearTypeRepo: e.gearTypeRepo, gearItemRepo: e.gearItemRepo },
+      { gearTypeRepo: e.gearTypeRepo, gearItemRepo: e.gearItemRepo, checkoutRepo: e.checkoutRepo },
       filters
     );
   },
 
+  // ============================================================================
+  // Lost Item Operations
+  // ============================================================================
+
+  async declareItemLost(input: { checkoutId: string; gearItemId: string; replacementChargeCents: number }) {
+    return withStaff((actingStaffMemberId, e) =>
+      declareItemLost(
+        {
+          checkoutRepo: e.checkoutRepo,
+          gearItemRepo: e.gearItemRepo,
+          memberAccountRepo: e.memberAccountRepo,
+          staffMemberRepo: e.staffMemberRepo,
+          idGenerator: e.idGenerator,
+          clock: e.clock,
+          eventPublisher: e.eventPublisher,
+          unitOfWork: e.unitOfWork
+        },
+        { ...input, staffMemberId: actingStaffMemberId }
+      )
+    );
+  },
+
+  async recoverLostItem(gearItemId: string, condition: GearCondition) {
+    return withStaff((actingStaffMemberId, e) =>
+      recoverLostItem(
+        {
+          checkoutRepo: e.checkoutRepo,
+          gearItemRepo: e.gearItemRepo,
+          memberAccountRepo: e.memberAccountRepo,
+          staffMemberRepo: e.staffMemberRepo,
+          idGenerator: e.idGenerator,
+          clock: e.clock,
+          eventPublisher: e.eventPublisher,
+          unitOfWork: e.unitOfWork
+        },
+        { gearItemId, condition, staffMemberId: actingStaffMemberId }
+      )
+    );
+  },
+
+  // ============================================================================
+  // Maintenance Operations
+  // ============================================================================
+
+  async openMaintenanceTicket(input: { gearItemId: string; issue: string; assignedTo?: string }) {
+    return withStaff((actingStaffMemberId, e) =>
+      openMaintenanceTicket(
+        {
+          maintenanceTicketRepo: e.maintenanceTicketRepo,
+          gearItemRepo: e.gearItemRepo,
+          staffMemberRepo: e.staffMemberRepo,
+          idGenerator: e.idGenerator,
+          clock: e.clock,
+          eventPublisher: e.eventPublisher,
+          unitOfWork: e.unitOfWork
+        },
+        { ...input, staffMemberId: actingStaffMemberId }
+      )
+    );
+  },
+
+  async updateMaintenanceTicket(input: Omit<UpdateMaintenanceTicketInput, 'staffMemberId'>) {
+    return withStaff((actingStaffMemberId, e) =>
+      updateMaintenanceTicket(
+        {
+          maintenanceTicketRepo: e.maintenanceTicketRepo,
+          gearItemRepo: e.gearItemRepo,
+          staffMemberRepo: e.staffMemberRepo,
+          idGenerator: e.idGenerator,
+          clock: e.clock,
+          eventPublisher: e.eventPublisher,
+          unitOfWork: e.unitOfWork
+        },
+        { ...input, staffMemberId: actingStaffMemberId }
+      )
+    );
+  },
+
+  async closeMaintenanceTicket(input: { ticketId: string; condition: GearCondition; resolution?: string }) {
+    return withStaff((actingStaffMemberId, e) =>
+      closeMaintenanceTicket(
+        {
+          maintenanceTicketRepo: e.maintenanceTicketRepo,
+          gearItemRepo: e.gearItemRepo,
+          staffMemberRepo: e.staffMemberRepo,
+          idGenerator: e.idGenerator,
+          clock: e.clock,
+          eventPublisher: e.eventPublisher,
+          unitOfWork: e.unitOfWork
+        },
+        { ...input, staffMemberId: actingStaffMemberId }
+      )
+    );
+  },
+
+  async finishItemMaintenance(gearItemId: string, condition: GearCondition) {
+    return withStaff((actingStaffMemberId, e) =>
+      finishItemMaintenance(
+        {
+          maintenanceTicketRepo: e.maintenanceTicketRepo,
+          gearItemRepo: e.gearItemRepo,
+          staffMemberRepo: e.staffMemberRepo,
+          idGenerator: e.idGenerator,
+          clock: e.clock,
+          eventPublisher: e.eventPublisher,
+          unitOfWork: e.unitOfWork
+        },
+        { gearItemId, condition, staffMemberId: actingStaffMemberId }
+      )
+    );
+  },
+
+  async listMaintenanceQueue() {
+    const e = getEnv();
+    return listMaintenanceQueue({
+      maintenanceTicketRepo: e.maintenanceTicketRepo,
+      gearItemRepo: e.gearItemRepo,
+      gearTypeRepo: e.gearTypeRepo,
+      memberRepo: e.memberRepo,
+      staffMemberRepo: e.staffMemberRepo
+    });
+  },
+
+  async getMemberDamageHistory(memberId: string) {
+    const e = getEnv();
+    return getMemberDamageHistory(
+      {
+        maintenanceTicketRepo: e.maintenanceTicketRepo,
+        gearItemRepo: e.gearItemRepo,
+        gearTypeRepo: e.gearTypeRepo,
+        memberRepo: e.memberRepo,
+        staffMemberRepo: e.staffMemberRepo
+      },
+      memberId
+    );
+  },
+
+  async getMaintenanceHistory(gearItemId: string) {
+    const e = getEnv();
+    return getMaintenanceHistory(
+      {
+        maintenanceTicketRepo: e.maintenanceTicketRepo,
+        gearItemRepo: e.gearItemRepo,
+        gearTypeRepo: e.gearTypeRepo,
+        memberRepo: e.memberRepo,
+        staffMemberRepo: e.staffMemberRepo
+      },
+      gearItemId
+    );
+  },
+
+  // ============================================================================
+  // Inspection Operations
+  // ============================================================================
+
+  async setInspectionSchedule(gearTypeId: string, schedule: InspectionSchedule | null) {
+    return withStaff((actingStaffMemberId, e) =>
+      setInspectionSchedule(
+        {
+          gearTypeRepo: e.gearTypeRepo,
+          staffMemberRepo: e.staffMemberRepo,
+          idGenerator: e.idGenerator,
+          clock: e.clock,
+          eventPublisher: e.eventPublisher
+        },
+        { gearTypeId, schedule, staffMemberId: actingStaffMemberId }
+      )
+    );
+  },
+
+  async recordInspection(input: Omit<RecordInspectionInput, 'staffMemberId'>) {
+    return withStaff((actingStaffMemberId, e) =>
+      recordInspection(
+        {
+          inspectionRepo: e.inspectionRepo,
+          maintenanceTicketRepo: e.maintenanceTicketRepo,
+          gearItemRepo: e.gearItemRepo,
+          gearTypeRepo: e.gearTypeRepo,
+          staffMemberRepo: e.staffMemberRepo,
+          idGenerator: e.idGenerator,
+          clock: e.clock,
+          eventPublisher: e.eventPublisher,
+          unitOfWork: e.unitOfWork
+        },
+        { ...input, staffMemberId: actingStaffMemberId }
+      )
+    );
+  },
+
+  async listInspectionsDue() {
+    const e = getEnv();
+    return listInspectionsDue({
+      gearTypeRepo: e.gearTypeRepo,
+      gearItemRepo: e.gearItemRepo,
+      clock: e.clock
+    });
+  },
+
+  async getInspectionHistory(gearItemId: string) {
+    const e = getEnv();
+    return getInspectionHistory(
+      {
+        inspectionRepo: e.inspectionRepo,
+        staffMemberRepo: e.staffMemberRepo
+      },
+      gearItemId
+    );
+  },
+
+  // ============================================================================
+  // Lifecycle Operations
+  // ============================================================================
+
+  async setLifecycleLimit(gearTypeId: string, limit: LifecycleLimit | null) {
+    return withStaff((actingStaffMemberId, e) =>
+      setLifecycleLimit(
+        {
+          gearTypeRepo: e.gearTypeRepo,
+          staffMemberRepo: e.staffMemberRepo,
+          idGenerator: e.idGenerator,
+          clock: e.clock,
+          eventPublisher: e.eventPublisher
+        },
+        { gearTypeId, limit, staffMemberId: actingStaffMemberId }
+      )
+    );
+  },
+
+  async listRetirementsDue() {
+    const e = getEnv();
+    return listRetirementsDue({
+      gearTypeRepo: e.gearTypeRepo,
+      gearItemRepo: e.gearItemRepo,
+      clock: e.clock
+    });
+  },
+
+  // ============================================================================
+  // Member Account Operations
+  // ============================================================================
+
+  async getMemberAccount(memberId: string) {
+    const e = getEnv();
+    return getMemberAccount({ memberRepo: e.memberRepo, memberAccountRepo: e.memberAccountRepo }, memberId);
+  },
+
+  async postCharge(input: { memberId: string; chargeType: ChargeType; amountCents: number; description: string }) {
+    return withStaff((actingStaffMemberId, e) =>
+      postCharge(
+        {
+          memberRepo: e.memberRepo,
+          memberAccountRepo: e.memberAccountRepo,
+          staffMemberRepo: e.staffMemberRepo,
+          idGenerator: e.idGenerator,
+          clock: e.clock,
+          eventPublisher: e.eventPublisher,
+          unitOfWork: e.unitOfWork
+        },
+        { ...input, staffMemberId: actingStaffMemberId }
+      )
+    );
+  },
+
+  async postPayment(input: { memberId: string; amountCents: number; note?: string }) {
+    return withStaff((actingStaffMemberId, e) =>
+      postPayment(
+        {
+          memberRepo: e.memberRepo,
+          memberAccountRepo: e.memberAccountRepo,
+          staffMemberRepo: e.staffMemberRepo,
+          idGenerator: e.idGenerator,
+          clock: e.clock,
+          eventPublisher: e.eventPublisher,
+          unitOfWork: e.unitOfWork
+        },
+        { ...input, staffMemberId: actingStaffMemberId }
+      )
+    );
+  },
+
+  async voidCharge(input: { memberId: string; chargeId: string; reason: string }) {
+    return withStaff((actingStaffMemberId, e) =>
+      voidCharge(
+        {
+          memberRepo: e.memberRepo,
+          memberAccountRepo: e.memberAccountRepo,
+          staffMemberRepo: e.staffMemberRepo,
+          idGenerator: e.idGenerator,
+          clock: e.clock,
+          eventPublisher: e.eventPublisher,
+          unitOfWork: e.unitOfWork
+        },
+        { ...input, staffMemberId: actingStaffMemberId }
+      )
+    );
+  },
+
+  async postRefund(input: { memberId: string; amountCents: number; note?: string }) {
+    return withStaff((actingStaffMemberId, e) =>
+      postRefund(
+        {
+          memberRepo: e.memberRepo,
+          memberAccountRepo: e.memberAccountRepo,
+          staffMemberRepo: e.staffMemberRepo,
+          idGenerator: e.idGenerator,
+          clock: e.clock,
+          eventPublisher: e.eventPublisher,
+          unitOfWork: e.unitOfWork
+        },
+        { ...input, staffMemberId: actingStaffMemberId }
+      )
+    );
+  },
+
+  // ============================================================================
+  // Kit Operations
+  // ============================================================================
+
+  async createKit(input: CreateKitInput) {
+    return withStaff((actingStaffMemberId, e) =>
+      createKit(
+        {
+          kitRepo: e.kitRepo,
+          gearTypeRepo: e.gearTypeRepo,
+          idGenerator: e.idGenerator,
+          clock: e.clock,
+          eventPublisher: e.eventPublisher
+        },
+        { ...input, staffMemberId: actingStaffMemberId }
+      )
+    );
+  },
+
+  async updateKit(input: {
+    id: string;
+    name?: string;
+    description?: string;
+    slots?: Array<{ gearTypeId: string; quantity: number }>;
+  }) {
+    return withStaff((actingStaffMemberId, e) =>
+      updateKit(
+        {
+          kitRepo: e.kitRepo,
+          gearTypeRepo: e.gearTypeRepo,
+          idGenerator: e.idGenerator,
+          clock: e.clock,
+          eventPublisher: e.eventPublisher
+        },
+        { ...input, staffMemberId: actingStaffMemberId }
+      )
+    );
+  },
+
+  async deleteKit(kitId: string) {
+    return withStaff((actingStaffMemberId, e) =>
+      deleteKit(
+        { kitRepo: e.kitRepo, idGenerator: e.idGenerator, clock: e.clock, eventPublisher: e.eventPublisher },
+        kitId,
+        actingStaffMemberId
+      )
+    );
+  },
+
+  async listKits() {
+    const e = getEnv();
+    return listKits({ kitRepo: e.kitRepo, gearTypeRepo: e.gearTypeRepo });
+  },
+
+  // ============================================================================
+  // Audit Operations
+  // ============================================================================
+
+  async getAuditLog(query: AuditLogQuery) {
+    const e = getEnv();
+    return getAuditLog(
+      {
+        domainEventRepo: e.domainEventRepo,
+        memberRepo: e.memberRepo,
+        checkoutRepo: e.checkoutRepo,
+        reservationRepo: e.reservationRepo,
+        gearItemRepo: e.gearItemRepo,
+        gearTypeRepo: e.gearTypeRepo,
+        kitRepo: e.kitRepo,
+        staffMemberRepo: e.staffMemberRepo,
+        waiverDocumentRepo: e.waiverDocumentRepo,
+        certificationTypeRepo: e.certificationTypeRepo,
+        maintenanceTicketRepo: e.maintenanceTicketRepo
+      },
+      query
+    );
+  },
+
+  async listAuditEventTypes() {
+    const e = getEnv();
+    return listAuditEventTypes({ domainEventRepo: e.domainEventRepo });
+  },
+
+  // ============================================================================
+  // Event Subscriptions
+  // ============================================================================
+
+  /**
+   * Run a handler after each stored event of one type. Returns an unsubscribe function.
+   */
+  subscribe<T extends DomainEventType>(subscription: EventSubscription<T>) {
+    return getEnv().eventPublisher.subscribe(subscription);
+  },
+
+  async retryFailedEventDeliveries() {
+    return getEnv().eventPublisher.retryFailedDeliveries();
+  },
+
   // ============================================================================
   // Member History Operations
   // ============================================================================
@@ -354,6 +1406,7 @@ export const app = {
         checkoutRepo: e.checkoutRepo,
         gearItemRepo: e.gearItemRepo,
         gearTypeRepo: e.gearTypeRepo,
+        memberAccountRepo: e.memberAccountRepo,
         clock: e.clock
       },
       memberId
@@ -368,6 +1421,7 @@ export const app = {
         checkoutRepo: e.checkoutRepo,
         gearItemRepo: e.gearItemRepo,
         gearTypeRepo: e.gearTypeRepo,
+        memberAccountRepo: e.memberAccountRepo,
         clock: e.clock
       },
       memberId
@@ -382,6 +1436,7 @@ export const app = {
         checkoutRepo: e.checkoutRepo,
         gearItemRepo: e.gearItemRepo,
         gearTypeRepo: e.gearTypeRepo,
+        memberAccountRepo: e.memberAccountRepo,
         clock: e.clock
       },
       memberId
@@ -396,6 +1451,7 @@ export const app = {
         checkoutRepo: e.checkoutRepo,
         gearItemRepo: e.gearItemRepo,
         gearTypeRepo: e.gearTypeRepo,
+        memberAccountRepo: e.memberAccountRepo,
         clock: e.clock
       },
       memberId,
@@ -410,12 +1466,14 @@ export const app = {
   async seedDemoData() {
     // Reset the environment reference so it gets recreated after seeding
     env = null;
+    endSession();
     const result = await seedDemoData();
     return result;
   },
 
   async clearAllData() {
     env = null;
+    endSession();
     await clearAllData();
   },
 
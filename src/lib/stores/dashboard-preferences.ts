@@ -1,6 +1,11 @@
 const STORAGE_KEY = 'gear-room:dashboard-widgets';
 
-export type WidgetId = 'overdue-items' | 'inventory-status';
+export type WidgetId =
+  | 'overdue-items'
+  | 'expiring-memberships'
+  | 'inspections-due'
+  | 'retirements-due'
+  | 'inventory-status';
 
 export interface DashboardPreferences {
   hiddenWidgets: WidgetId[];
@@ -0,0 +1,78 @@
+import { writable, derived, get } from 'svelte/store';
+import type { StaffRole } from '../../domain/types.js';
+import { type Permission, roleHasPermission } from '../../domain/policies/index.js';
+
+// Lock the desk after this long without input
+export const IDLE_TIMEOUT_MS = 5 * 60 * 1000;
+
+export interface StaffSession {
+  staffMemberId: string;
+  name: string;
+  role: StaffRole;
+  signedInAt: Date;
+  lastActivityAt: Date;
+}
+
+/**
+ * The staff member currently signed in at the desk, or null when locked.
+ */
+export const session = writable<StaffSession | null>(null);
+
+/**
+ * Whether the signed-in role may perform an action. Used to hide controls;
+ * the use cases enforce the same rules.
+ */
+export const can = derived(
+  session,
+  ($session) => (permission: Permission) => $session !== null && roleHasPermission($session.role, permission)
+);
+
+export function startSession(
+  staffMember: { id: string; name: string; role: StaffRole },
+  now = new Date()
+): void {
+  session.set({
+    staffMemberId: staffMember.id,
+    name: staffMember.name,
+    role: staffMember.role,
+    signedInAt: now,
+    lastActivityAt: now
+  });
+}
+
+export function endSession(): void {
+  session.set(null);
+}
+
+export function recordActivity(now = new Date()): void {
+  session.update((current) => (current ? { ...current, lastActivityAt: now } : current));
+}
+
+export function isIdle(current: StaffSession, now = new Date()): boolean {
+  return now.getTime() - current.lastActivityAt.getTime() >= IDLE_TIMEOUT_MS;
+}
+
+/**
+ * End the session if it has been idle too long. Returns true if it locked.
+ */
+export function lockIfIdle(now = new Date()): boolean {
+  const current = get(session);
+  if (current && isIdle(current, now)) {
+    endSession();
+    return true;
+  }
+  return false;
+}
+
+export function currentStaffMemberId(): string | null {
+  return get(session)?.staffMemberId ?? null;
+}
+
+/**
+ * The acting staff member for an operation, or null when the desk is locked.
+ * An idle desk is locked first, so the layout moves to the sign-in screen.
+ */
+export function requireStaffMemberId(): string | null {
+  lockIfIdle();
+  return currentStaffMemberId();
+}
@@ -0,0 +1,99 @@
+import { GearCategory, StaffRole, TrackingMode } from '../domain/types.js';
+import { Member } from '../domain/entities/member.js';
+import { StaffMember } from '../domain/entities/staff-member.js';
+import { WaiverDocument, type CreateWaiverDocumentInput } from '../domain/entities/waiver-document.js';
+import { GearType } from '../domain/entities/gear-type.js';
+import { GearItem } from '../domain/entities/gear-item.js';
+import { unwrap } from '../application/result.js';
+import type { createTestEnvironment } from './in-memory-repositories.js';
+
+type TestEnvironment = ReturnType<typeof createTestEnvironment>;
+
+export const TEST_SIGNATURE = 'data:image/png;base64,iVBORw0KGgo=';
+
+/**
+ * Published waiver document; `createTestMember` signs version v1.
+ */
+export async function createTestWaiver(
+  deps: TestEnvironment,
+  version = 'v1',
+  overrides: Partial<CreateWaiverDocumentInput> = {}
+) {
+  const document = unwrap(
+    WaiverDocument.create(
+      {
+        version,
+        text: `Liability waiver ${version}`,
+        validityDays: 365,
+        invalidatesPriorSignatures: false,
+        publishedBy: 'staff-1',
+        ...overrides
+      },
+      deps
+    )
+  );
+  await deps.waiverDocumentRepo.save(document);
+  return document;
+}
+
+/**
+ * Member with a signed waiver, saved to the test environment.
+ */
+export async function createTestMember(deps: TestEnvironment, collegeId: string, firstName: string) {
+  const member = unwrap(
+    Member.create(
+      { collegeId, firstName, lastName: 'Tester', email: `${collegeId.toLowerCase()}@example.edu` },
+      deps
+    )
+  );
+  const waiver = (await deps.waiverDocumentRepo.findByVersion('v1')) ?? (await createTestWaiver(deps));
+  const signed = unwrap(member.signWaiver(waiver, TEST_SIGNATURE, 'staff-1', deps));
+  await deps.memberRepo.save(signed);
+  return signed;
+}
+
+export async function createTent(deps: TestEnvironment, code = 'TENT-001') {
+  const gearType = unwrap(
+    GearType.create(
+      { name: 'REI Half Dome 2', category: GearCategory.TENT, trackingMode: TrackingMode.INDIVIDUAL },
+      deps
+    )
+  );
+  await deps.gearTypeRepo.save(gearType);
+  const item = unwrap(GearItem.create({ gearTypeId: gearType.id, code }, deps));
+  await deps.gearItemRepo.save(item);
+  return { gearType, item };
+}
+
+export async function createPads(deps: TestEnvironment, totalQuantity = 10) {
+  const gearType = unwrap(
+    GearType.create(
+      { name: 'Sleeping Pad', category: GearCategory.PAD, trackingMode: TrackingMode.BULK, totalQuantity },
+      deps
+    )
+  );
+  await deps.gearTypeRepo.save(gearType);
+  return gearType;
+}
+
+/**
+ * Staff account with a fixed id, so tests can keep passing 'staff-1' style literals.
+ */
+export async function createTestStaffMember(
+  deps: Pick<TestEnvironment, 'staffMemberRepo'>,
+  id = 'staff-1',
+  role: StaffRole = StaffRole.COORDINATOR
+) {
+  const staffMember = StaffMember.fromRecord({
+    id,
+    name: `Staff ${id}`,
+    pinHash: 'plain$1234',
+    role,
+    isActive: true,
+    lastSignInAt: null,
+    createdAt: '2025-01-01T00:00:00.000Z',
+    updatedAt: '2025-01-01T00:00:00.000Z'
+  });
+  await deps.staffMemberRepo.save(staffMember);
+  return staffMember;
+}
@@ -0,0 +1,455 @@
+import { CheckoutStatus, ReservationStatus } from '../domain/types.js';
+import type { Member } from '../domain/entities/member.js';
+import type { GearType } from '../domain/entities/gear-type.js';
+import type { GearItem } from '../domain/entities/gear-item.js';
+import type { Checkout } from '../domain/entities/checkout.js';
+import type { Reservation } from '../domain/entities/reservation.js';
+import type { Kit } from '../domain/entities/kit.js';
+import type { StaffMember } from '../domain/entities/staff-member.js';
+import type { AccountEntry } from '../domain/entities/account-entry.js';
+import { MemberAccount } from '../domain/entities/member-account.js';
+import type { WaiverDocument } from '../domain/entities/waiver-document.js';
+import type { CertificationType } from '../domain/entities/certification-type.js';
+import type { MaintenanceTicket } from '../domain/entities/maintenance-ticket.js';
+import type { Inspection } from '../domain/entities/inspection.js';
+import type {
+  MemberRepository,
+  GearTypeRepository,
+  GearItemRepository,
+  CheckoutRepository,
+  CheckoutFilter,
+  ReservationRepository,
+  ReservationFilter,
+  KitRepository,
+  StaffMemberRepository,
+  MemberAccountRepository,
+  WaiverDocumentRepository,
+  CertificationTypeRepository,
+  MaintenanceTicketRepository,
+  InspectionRepository,
+  DomainEventRepository,
+  DomainEventFilter
+} from '../application/ports/repositories.js';
+import type { DomainEvent, EventPublisher, EventSubscription, PinHasher, UnitOfWork } from '../application/ports/services.js';
+import type { DomainEventType } from '../domain/events/index.js';
+import {
+  EventSubscriptions,
+  MAX_DELIVERY_ATTEMPTS,
+  type DeliveryFailure
+} from '../infrastructure/services/event-subscriptions.js';
+import {
+  DEFAULT_RENEWAL_POLICY,
+  DEFAULT_ACCOUNT_POLICY,
+  DEFAULT_LATE_FEE_POLICY,
+  DEFAULT_MEMBERSHIP_TIER_POLICY,
+  DEFAULT_MEMBERSHIP_PLAN_POLICY,
+  DEFAULT_STRIKE_POLICY
+} from '../domain/policies/index.js';
+import type {
+  MemberId,
+  GearTypeId,
+  GearItemId,
+  CheckoutId,
+  ReservationId,
+  KitId,
+  StaffMemberId,
+  WaiverDocumentId,
+  CertificationTypeId,
+  MaintenanceTicketId,
+  InspectionId,
+  CollegeId
+} from '../domain/value-objects/index.js';
+
+/**
+ * In-memory test doubles shared by use case tests.
+ */
+
+export function createMockClock(date = new Date('2025-06-15T10:00:00Z')) {
+  let current = date;
+  return {
+    now: () => current,
+    today: () => new Date(current.toISOString().slice(0, 10)),
+    set: (next: Date) => {
+      current = next;
+    }
+  };
+}
+
+let idCounter = 0;
+export function createMockIdGenerator() {
+  return {
+    generate: () => `test-id-${++idCounter}`
+  };
+}
+
+export class InMemoryMemberRepository implements MemberRepository {
+  private store = new Map<string, Member>();
+
+  async findById(id: MemberId): Promise<Member | null> {
+    return this.store.get(id as string) ?? null;
+  }
+  async findByCollegeId(collegeId: CollegeId): Promise<Member | null> {
+    return [...this.store.values()].find((m) => m.collegeId.value === collegeId.value) ?? null;
+  }
+  async findByEmail(email: string): Promise<Member | null> {
+    return [...this.store.values()].find((m) => m.email.value === email) ?? null;
+  }
+  async findAll(): Promise<Member[]> {
+    return [...this.store.values()];
+  }
+  async save(member: Member): Promise<void> {
+    this.store.set(member.id as string, member);
+  }
+  async delete(id: MemberId): Promise<void> {
+    this.store.delete(id as string);
+  }
+}
+
+export class InMemoryGearTypeRepository implements GearTypeRepository {
+  private store = new Map<string, GearType>();
+
+  async findById(id: GearTypeId): Promise<GearType | null> {
+    return this.store.get(id as string) ?? null;
+  }
+  async findByCategory(category: string): Promise<GearType[]> {
+    return [...this.store.values()].filter((gt) => gt.category === category);
+  }
+  async search(searchTerm: string): Promise<GearType[]> {
+    const term = searchTerm.toLowerCase();
+    return [...this.store.values()].filter((gt) => gt.name.toLowerCase().includes(term));
+  }
+  async findAll(): Promise<GearType[]> {
+    return [...this.store.values()];
+  }
+  async save(gearType: GearType): Promise<void> {
+    this.store.set(gearType.id as string, gearType);
+  }
+  async delete(id: GearTypeId): Promise<void> {
+    this.store.delete(id as string);
+  }
+}
+
+export class InMemoryGearItemRepository implements GearItemRepository {
+  private store = new Map<string, GearItem>();
+
+  async findById(id: GearItemId): Promise<GearItem | null> {
+    return this.store.get(id as string) ?? null;
+  }
+  async findByCode(code: string): Promise<GearItem | null> {
+    const upper = code.toUpperCase();
+    return [...this.store.values()].find((i) => i.code === upper) ?? null;
+  }
+  async findByGearTypeId(gearTypeId: GearTypeId): Promise<GearItem[]> {
+    return [...this.store.values()].filter((i) => i.gearTypeId === gearTypeId);
+  }
+  async findAll(): Promise<GearItem[]> {
+    return [...this.store.values()];
+  }
+  async save(item: GearItem): Promise<void> {
+    this.store.set(item.id as string, item);
+  }
+  async saveMany(items: GearItem[]): Promise<void> {
+    for (const item of items) {
+      this.store.set(item.id as string, item);
+    }
+  }
+  async delete(id: GearItemId): Promise<void> {
+    this.store.delete(id as string);
+  }
+}
+
+export class InMemoryCheckoutRepository implements CheckoutRepository {
+  private store = new Map<string, Checkout>();
+
+  async findById(id: CheckoutId): Promise<Checkout | null> {
+    return this.store.get(id as string) ?? null;
+  }
+  async findByMemberId(memberId: MemberId, filter?: CheckoutFilter): Promise<Checkout[]> {
+    return (await this.findAll(filter)).filter((c) => c.memberId === memberId);
+  }
+  async findActiveByMemberId(memberId: MemberId): Promise<Checkout[]> {
+    return this.findByMemberId(memberId, {
+      status: [CheckoutStatus.ACTIVE, CheckoutStatus.PARTIALLY_RETURNED]
+    });
+  }
+  async findOverdue(asOf: Date): Promise<Checkout[]> {
+    return [...this.store.values()].filter((c) => c.isOverdue(asOf));
+  }
+  async findAll(filter?: CheckoutFilter): Promise<Checkout[]> {
+    const statuses = filter?.status === undefined ? null : [filter.status].flat();
+    return [...this.store.values()].filter((c) => !statuses || statuses.includes(c.status));
+  }
+  async save(checkout: Checkout): Promise<void> {
+    this.store.set(checkout.id as string, checkout);
+  }
+}
+
+export class InMemoryReservationRepository implements ReservationRepository {
+  private store = new Map<string, Reservation>();
+
+  async findById(id: ReservationId): Promise<Reservation | null> {
+    return this.store.get(id as string) ?? null;
+  }
+  async findByMemberId(memberId: MemberId, filter?: ReservationFilter): Promise<Reservation[]> {
+    return (await this.findAll(filter)).filter((r) => r.memberId === memberId);
+  }
+  async findPendingOverlapping(start: Date, end: Date): Promise<Reservation[]> {
+    return (await this.findAll({ status: ReservationStatus.PENDING })).filter((r) =>
+      r.overlaps(start, end)
+    );
+  }
+  async findAll(filter?: ReservationFilter): Promise<Reservation[]> {
+    const statuses = filter?.status === undefined ? null : [filter.status].flat();
+    return [...this.store.values()].filter((r) => !statuses || statuses.includes(r.status));
+  }
+  async save(reservation: Reservation): Promise<void> {
+    this.store.set(reservation.id as string, reservation);
+  }
+}
+
+export class InMemoryKitRepository implements KitRepository {
+  private store = new Map<string, Kit>();
+
+  async findById(id: KitId): Promise<Kit | null> {
+    return this.store.get(id as string) ?? null;
+  }
+  async findAll(): Promise<Kit[]> {
+    return [...this.store.values()].sort((a, b) => a.name.localeCompare(b.name));
+  }
+  async save(kit: Kit): Promise<void> {
+    this.store.set(kit.id as string, kit);
+  }
+  async delete(id: KitId): Promise<void> {
+    this.store.delete(id as string);
+  }
+}
+
+export class InMemoryStaffMemberRepository implements StaffMemberRepository {
+  private store = new Map<string, StaffMember>();
+
+  async findById(id: StaffMemberId): Promise<StaffMember | null> {
+    return this.store.get(id as string) ?? null;
+  }
+  async findAll(): Promise<StaffMember[]> {
+    return [...this.store.values()].sort((a, b) => a.name.localeCompare(b.name));
+  }
+  async save(staffMember: StaffMember): Promise<void> {
+    this.store.set(staffMember.id as string, staffMember);
+  }
+}
+
+export class InMemoryMemberAccountRepository implements MemberAccountRepository {
+  private entries: AccountEntry[] = [];
+
+  async findByMemberId(memberId: MemberId): Promise<MemberAccount> {
+    return MemberAccount.fromEntries(
+      memberId,
+      this.entries.filter((e) => e.memberId === memberId)
+    );
+  }
+  async append(entry: AccountEntry): Promise<void> {
+    if (this.entries.some((e) => e.id === entry.id)) {
+      throw new Error(`Account entry ${entry.id} already exists`);
+    }
+    this.entries.push(entry);
+  }
+}
+
+export class InMemoryWaiverDocumentRepository implements WaiverDocumentRepository {
+  private store = new Map<string, WaiverDocument>();
+
+  async findById(id: WaiverDocumentId): Promise<WaiverDocument | null> {
+    return this.store.get(id as string) ?? null;
+  }
+  async findByVersion(version: string): Promise<WaiverDocument | null> {
+    return [...this.store.values()].find((d) => d.version === version) ?? null;
+  }
+  async findCurrent(asOf: Date): Promise<WaiverDocument | null> {
+    return (await this.findAll()).find((d) => d.isEffective(asOf)) ?? null;
+  }
+  async findAll(): Promise<WaiverDocument[]> {
+    return [...this.store.values()].sort((a, b) => b.effectiveAt.getTime() - a.effectiveAt.getTime());
+  }
+  async save(document: WaiverDocument): Promise<void> {
+    this.store.set(document.id as string, document);
+  }
+}
+
+export class InMemoryCertificationTypeRepository implements CertificationTypeRepository {
+  private store = new Map<string, CertificationType>();
+
+  async findById(id: CertificationTypeId): Promise<CertificationType | null> {
+    return this.store.get(id as string) ?? null;
+  }
+  async findAll(): Promise<CertificationType[]> {
+    return [...this.store.values()].sort((a, b) => a.name.localeCompare(b.name));
+  }
+  async save(certificationType: CertificationType): Promise<void> {
+    this.store.set(certificationType.id as string, certificationType);
+  }
+}
+
+export class InMemoryMaintenanceTicketRepository implements MaintenanceTicketRepository {
+  private store = new Map<string, MaintenanceTicket>();
+
+  async findById(id: MaintenanceTicketId): Promise<MaintenanceTicket | null> {
+    return this.store.get(id as string) ?? null;
+  }
+  async findByGearItemId(gearItemId: GearItemId): Promise<MaintenanceTicket[]> {
+    return [...this.store.values()]
+      .filter((t) => t.gearItemId === gearItemId)
+      .sort((a, b) => b.openedAt.getTime() - a.openedAt.getTime());
+  }
+  async findByMemberId(memberId: MemberId): Promise<MaintenanceTicket[]> {
+    return [...this.store.values()]
+      .filter((t) => t.damage?.memberId === memberId)
+      .sort((a, b) => b.openedAt.getTime() - a.openedAt.getTime());
+  }
+  async findOpen(): Promise<MaintenanceTicket[]> {
+    return [...this.store.values()]
+      .filter((t) => t.isOpen())
+      .sort((a, b) => a.openedAt.getTime() - b.openedAt.getTime());
+  }
+  async save(ticket: MaintenanceTicket): Promise<void> {
+    this.store.set(ticket.id as string, ticket);
+  }
+}
+
+export class InMemoryInspectionRepository implements InspectionRepository {
+  private store = new Map<string, Inspection>();
+
+  async findById(id: InspectionId): Promise<Inspection | null> {
+    return this.store.get(id as string) ?? null;
+  }
+  async findByGearItemId(gearItemId: GearItemId): Promise<Inspection[]> {
+    return [...this.store.values()]
+      .filter((i) => i.gearItemId === gearItemId)
+      .sort((a, b) => b.inspectedAt.getTime() - a.inspectedAt.getTime());
+  }
+  async save(inspection: Inspection): Promise<void> {
+    this.store.set(inspection.id as string, inspection);
+  }
+}
+
+/**
+ * Reversible stand-in for the PBKDF2 hasher; keeps tests fast.
+ */
+export class PlainPinHasher implements PinHasher {
+  async hash(pin: string): Promise<string> {
+    return `plain$${pin}`;
+  }
+  async verify(pin: string, pinHash: string): Promise<boolean> {
+    return pinHash === `plain$${pin}`;
+  }
+}
+
+export class RecordingEventPublisher implements EventPublisher {
+  readonly events: DomainEvent[] = [];
+  // Failed deliveries keyed by `${eventId}:${subscriber}`
+  readonly failures = new Map<string, DeliveryFailure & { attempts: number }>();
+  private readonly subscriptions = new EventSubscriptions();
+
+  async publish(event: DomainEvent): Promise<void> {
+    this.events.push(event);
+    await this.dispatch(event);
+  }
+  async publishMany(events: DomainEvent[]): Promise<void> {
+    this.events.push(...events);
+    for (const event of events) {
+      await this.dispatch(event);
+    }
+  }
+  subscribe<T extends DomainEventType>(subscription: EventSubscription<T>): () => void {
+    return this.subscriptions.add(subscription);
+  }
+  async retryFailedDeliveries(): Promise<void> {
+    for (const [key, failure] of this.failures) {
+      const subscription = this.subscriptions.find(failure.subscriber);
+      const event = this.events.find((e) => e.id === failure.eventId);
+      if (!subscription || !event || failure.attempts >= MAX_DELIVERY_ATTEMPTS) continue;
+
+      const error = await this.subscriptions.deliver(subscription, event);
+      if (error === null) {
+        this.failures.delete(key);
+      } else {
+        this.failures.set(key, { ...failure, error, attempts: failure.attempts + 1 });
+      }
+    }
+  }
+  private async dispatch(event: DomainEvent): Promise<void> {
+    for (const failure of await this.subscriptions.dispatch(event)) {
+      this.failures.set(`${failure.eventId}:${failure.subscriber}`, { ...failure, attempts: 1 });
+    }
+  }
+}
+
+/**
+ * Runs the work directly; in-memory repositories have nothing to roll back.
+ */
+export class InMemoryUnitOfWork implements UnitOfWork {
+  run<T>(work: () => Promise<T>): Promise<T> {
+    return work();
+  }
+}
+
+/**
+ * Reads back whatever the RecordingEventPublisher captured.
+ */
+export class InMemoryDomainEventRepository implements DomainEventRepository {
+  constructor(private readonly events: DomainEvent[]) {}
+
+  async find(filter: DomainEventFilter, limit: number): Promise<DomainEvent[]> {
+    const before = filter.before;
+    return [...this.events]
+      .sort((a, b) => b.occurredAt.getTime() - a.occurredAt.getTime() || b.id.localeCompare(a.id))
+      .filter(
+        (e) =>
+          (!filter.type || e.type === filter.type) &&
+          (!filter.aggregateId || e.aggregateId === filter.aggregateId) &&
+          (!filter.staffMemberId || e.staffMemberId === filter.staffMemberId) &&
+          (!filter.fromDate || e.occurredAt >= filter.fromDate) &&
+          (!filter.toDate || e.occurredAt <= filter.toDate) &&
+          (!before ||
+            e.occurredAt < before.occurredAt ||
+            (e.occurredAt.getTime() === before.occurredAt.getTime() && e.id < before.id))
+      )
+      .slice(0, limit);
+  }
+  async findTypes(): Promise<string[]> {
+    return [...new Set(this.events.map((e) => e.type))].sort();
+  }
+}
+
+/**
+ * Fresh set of repositories and services matching AppEnvironment's shape.
+ */
+export function createTestEnvironment() {
+  const eventPublisher = new RecordingEventPublisher();
+  return {
+    memberRepo: new InMemoryMemberRepository(),
+    gearTypeRepo: new InMemoryGearTypeRepository(),
+    gearItemRepo: new InMemoryGearItemRepository(),
+    checkoutRepo: new InMemoryCheckoutRepository(),
+    reservationRepo: new InMemoryReservationRepository(),
+    kitRepo: new InMemoryKitRepository(),
+    staffMemberRepo: new InMemoryStaffMemberRepository(),
+    memberAccountRepo: new InMemoryMemberAccountRepository(),
+    waiverDocumentRepo: new InMemoryWaiverDocumentRepository(),
+    certificationTypeRepo: new InMemoryCertificationTypeRepository(),
+    maintenanceTicketRepo: new InMemoryMaintenanceTicketRepository(),
+    inspectionRepo: new InMemoryInspectionRepository(),
+    domainEventRepo: new InMemoryDomainEventRepository(eventPublisher.events),
+    idGenerator: createMockIdGenerator(),
+    clock: createMockClock(),
+    eventPublisher,
+    pinHasher: new PlainPinHasher(),
+    unitOfWork: new InMemoryUnitOfWork(),
+    events: eventPublisher.events,
+    renewalPolicy: DEFAULT_RENEWAL_POLICY,
+    accountPolicy: DEFAULT_ACCOUNT_POLICY,
+    lateFeePolicy: DEFAULT_LATE_FEE_POLICY,
+    membershipTierPolicy: DEFAULT_MEMBERSHIP_TIER_POLICY,
+    membershipPlanPolicy: DEFAULT_MEMBERSHIP_PLAN_POLICY,
+    strikePolicy: DEFAULT_STRIKE_POLICY
+  };
+}